@@ -0,0 +1,101 @@
+// AI gateway configuration: which provider and model each AI feature uses, and what they cost.
+//
+// Every value can be overridden from the environment:
+//   AI_PROVIDER=groq|gemini|openai|stub   provider for every feature (default: the feature's own)
+//   AI_<FEATURE>_PROVIDER / AI_<FEATURE>_MODEL   one feature, e.g. AI_SCREENING_MODEL=gemini-1.5-flash
+//   AI_TIMEOUT_MS, AI_MAX_RETRIES          limits for every call
+//   AI_OPENAI_BASE_URL, AI_OPENAI_API_KEY, AI_OPENAI_MODEL   OpenAI-compatible local server (Ollama, vLLM, LM Studio)
+// If a feature's provider has no credentials, the next configured one in PROVIDER_FALLBACK_ORDER is used.
+// The stub provider is only used when selected explicitly (tests and offline development).
+
+const PROVIDER_FALLBACK_ORDER = ['gemini', 'groq', 'openai'];
+
+// Model used for a provider when the feature doesn't name one
+const DEFAULT_MODELS = {
+    groq: 'llama3-8b-8192',
+    gemini: 'gemini-1.5-flash',
+    openai: process.env.AI_OPENAI_MODEL || 'llama3',
+    stub: 'stub'
+};
+
+const FEATURES = {
+    assessmentQuestions: { provider: 'groq', temperature: 0.5, maxTokens: 2048 },
+    assessmentEvaluation: { provider: 'groq', temperature: 0.2, maxTokens: 1024 },
+    jobAlertDigest: { provider: 'gemini', models: { gemini: 'gemini-1.5-pro' }, temperature: 0.7, maxTokens: 1024 },
+    recommendationsRerank: { provider: 'gemini', models: { gemini: 'gemini-1.5-flash' }, temperature: 0.2, maxTokens: 1024 },
+    screening: { provider: 'gemini', models: { gemini: 'gemini-1.5-pro' }, temperature: 0.2, maxTokens: 8192, timeoutMs: 60000 },
+    candidateSearch: { provider: 'gemini', models: { gemini: 'gemini-1.5-pro' }, temperature: 0.2, maxTokens: 2048 },
+    reportAnalysis: { provider: 'gemini', models: { gemini: 'gemini-1.5-pro' }, temperature: 0.3, maxTokens: 2048 },
+    reviewModeration: { provider: 'gemini', temperature: 0, maxTokens: 256 },
+    resumeParse: { provider: 'groq', temperature: 0, maxTokens: 4096 },
+    resumeFeedback: { provider: 'groq', temperature: 0.3, maxTokens: 1024 },
+    jobRecommendations: { provider: 'groq', temperature: 0.2, maxTokens: 1024 },
+    interviewQuestions: { provider: 'groq', temperature: 0.5, maxTokens: 1024 },
+    jobDescriptionOptimization: { provider: 'groq', temperature: 0.4, maxTokens: 2048 },
+    applicationScreening: { provider: 'groq', temperature: 0.2, maxTokens: 1024 }
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// USD per million tokens, used for the usage report's cost estimate. Unknown models count as free.
+const PRICING = {
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'llama3-8b-8192': { input: 0.05, output: 0.08 },
+    'llama3-70b-8192': { input: 0.59, output: 0.79 }
+};
+
+// screeningSummary -> SCREENING_SUMMARY
+const envKey = (feature) => feature.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+
+const toPositiveInt = (value, fallback) => {
+    const number = parseInt(value, 10);
+    return Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+/**
+ * Settings for one feature with environment overrides applied
+ * @param {String} feature - Key of FEATURES
+ * @returns {Object} - { provider, models, temperature, maxTokens, timeoutMs, maxRetries }
+ */
+const getFeatureConfig = (feature) => {
+    const base = FEATURES[feature];
+    if (!base) {
+        throw new Error(`Unknown AI feature "${feature}"`);
+    }
+    const key = envKey(feature);
+    const models = { ...DEFAULT_MODELS, ...(base.models || {}) };
+    const overrideModel = process.env[`AI_${key}_MODEL`];
+    const provider = process.env[`AI_${key}_PROVIDER`] || process.env.AI_PROVIDER || base.provider;
+
+    return {
+        provider,
+        // An explicit model override applies to whichever provider ends up serving the feature
+        models: overrideModel ? Object.fromEntries(Object.keys(models).map(name => [name, overrideModel])) : models,
+        temperature: base.temperature,
+        maxTokens: base.maxTokens,
+        timeoutMs: toPositiveInt(process.env.AI_TIMEOUT_MS, base.timeoutMs || DEFAULT_TIMEOUT_MS),
+        maxRetries: toPositiveInt(process.env.AI_MAX_RETRIES, DEFAULT_MAX_RETRIES)
+    };
+};
+
+/**
+ * Estimated cost of a call in USD
+ * @param {String} model - Model name
+ * @param {Number} inputTokens - Prompt tokens
+ * @param {Number} outputTokens - Completion tokens
+ * @returns {Number}
+ */
+const estimateCost = (model, inputTokens, outputTokens) => {
+    const price = PRICING[model];
+    if (!price) return 0;
+    return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+};
+
+module.exports = {
+    FEATURES,
+    PROVIDER_FALLBACK_ORDER,
+    getFeatureConfig,
+    estimateCost
+};
@@ -0,0 +1,47 @@
+/**
+ * Middleware for per-user rate limits
+ * Counts requests per signed-in user (or IP address when signed out) in a fixed
+ * window kept in memory, so limits reset when the server restarts.
+ */
+
+const buckets = new Map();
+const SWEEP_THRESHOLD = 5000;
+
+// Drop expired windows once the map grows large
+const sweep = (now) => {
+  buckets.forEach((bucket, key) => {
+    if (bucket.resetAt <= now) buckets.delete(key);
+  });
+};
+
+/**
+ * Create a rate limiting middleware; run it after auth so req.user is set
+ * @param {Object} options - { name: bucket prefix, max: requests per window, windowMs }
+ * @returns {Function} - Express middleware answering 429 with a Retry-After header when over the limit
+ */
+const rateLimit = ({ name, max, windowMs }) => (req, res, next) => {
+  const now = Date.now();
+  const who = req.user ? String(req.user._id || req.user.id) : req.ip;
+  const key = `${name}:${who}`;
+
+  let bucket = buckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    if (buckets.size >= SWEEP_THRESHOLD) sweep(now);
+    bucket = { count: 0, resetAt: now + windowMs };
+    buckets.set(key, bucket);
+  }
+  bucket.count += 1;
+
+  res.set('X-RateLimit-Limit', String(max));
+  res.set('X-RateLimit-Remaining', String(Math.max(0, max - bucket.count)));
+  if (bucket.count > max) {
+    const retryAfter = Math.ceil((bucket.resetAt - now) / 1000);
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ message: `Too many requests. Try again in ${retryAfter} seconds.`, retryAfter });
+  }
+  next();
+};
+
+module.exports = {
+  rateLimit
+};
@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// Daily totals of AI calls per feature, provider and model, kept by the AI gateway
+// for the admin usage report. One document per (day, feature, provider, model).
+const aiUsageSchema = new mongoose.Schema({
+    // UTC date, e.g. "2024-05-01"
+    day: {
+        type: String,
+        required: true
+    },
+    feature: {
+        type: String,
+        required: true
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    model: {
+        type: String,
+        required: true
+    },
+    requests: {
+        type: Number,
+        default: 0
+    },
+    // Calls that failed after all retries
+    failures: {
+        type: Number,
+        default: 0
+    },
+    retries: {
+        type: Number,
+        default: 0
+    },
+    inputTokens: {
+        type: Number,
+        default: 0
+    },
+    outputTokens: {
+        type: Number,
+        default: 0
+    },
+    // Estimated from config/aiConfig.js pricing
+    costUsd: {
+        type: Number,
+        default: 0
+    },
+    totalLatencyMs: {
+        type: Number,
+        default: 0
+    }
+}, {
+    timestamps: true
+});
+
+aiUsageSchema.index({ day: 1, feature: 1, provider: 1, model: 1 }, { unique: true });
+
+module.exports = mongoose.model('AiUsage', aiUsageSchema);
@@ -1,4 +1,113 @@
 const mongoose = require('mongoose');
+const { canonicalizeSkills, skillIdsPlugin } = require('../services/skillTaxonomyService');
+
+// Drafts can be saved half-written; every other state needs a complete posting
+function requiredUnlessDraft() {
+    return this.status !== 'draft';
+}
+
+// Question asked at apply time. A knockout question flags applicants whose answer
+// isn't accepted (yes/no and single choice) or is below minValue (numeric).
+const screeningQuestionSchema = new mongoose.Schema({
+    question: {
+        type: String,
+        required: [true, 'Screening question text is required'],
+        trim: true,
+        maxlength: [300, 'Screening question cannot exceed 300 characters']
+    },
+    type: {
+        type: String,
+        enum: ['yes_no', 'single_choice', 'numeric', 'short_text'],
+        required: [true, 'Screening question type is required']
+    },
+    options: [{
+        type: String,
+        trim: true
+    }],
+    required: {
+        type: Boolean,
+        default: true
+    },
+    knockout: {
+        type: Boolean,
+        default: false
+    },
+    acceptedAnswers: [{
+        type: String,
+        trim: true
+    }],
+    minValue: {
+        type: Number
+    }
+});
+
+// Employer-defined hiring stage. The category ties a custom stage back to the
+// fixed application statuses that analytics and notifications rely on.
+const pipelineStageSchema = new mongoose.Schema({
+    key: {
+        type: String,
+        required: [true, 'Stage key is required'],
+        trim: true
+    },
+    name: {
+        type: String,
+        required: [true, 'Stage name is required'],
+        trim: true,
+        maxlength: [50, 'Stage name cannot exceed 50 characters']
+    },
+    // What the applicant sees instead of the internal stage name
+    seekerLabel: {
+        type: String,
+        trim: true,
+        maxlength: [50, 'Applicant-facing label cannot exceed 50 characters']
+    },
+    category: {
+        type: String,
+        enum: ['pending', 'reviewed', 'interview', 'accepted', 'rejected'],
+        required: [true, 'Stage category is required']
+    }
+}, { _id: false });
+
+// A skill or quality interviewers score, with prompts and guidance for each score
+const interviewCompetencySchema = new mongoose.Schema({
+    key: {
+        type: String,
+        required: [true, 'Competency key is required'],
+        trim: true
+    },
+    name: {
+        type: String,
+        required: [true, 'Competency name is required'],
+        trim: true,
+        maxlength: [60, 'Competency name cannot exceed 60 characters']
+    },
+    description: {
+        type: String,
+        trim: true,
+        maxlength: [300, 'Competency description cannot exceed 300 characters']
+    },
+    questions: [{
+        type: String,
+        trim: true,
+        maxlength: [300, 'Suggested questions cannot exceed 300 characters']
+    }],
+    // What a 1, 2, 3, 4 and 5 look like, in that order (blank entries have no guidance)
+    rubric: [{
+        type: String,
+        trim: true,
+        maxlength: [200, 'Rubric entries cannot exceed 200 characters']
+    }]
+}, { _id: false });
+
+// Scorecard interviewers fill in for one type of interview on this job
+const interviewKitSchema = new mongoose.Schema({
+    interviewType: {
+        type: String,
+        enum: ['screening', 'technical', 'behavioral', 'final'],
+        required: true
+    },
+    competencies: [interviewCompetencySchema]
+}, { _id: false });
 
 const jobSchema = new mongoose.Schema({
     title: {
@@ -12,45 +121,102 @@ const jobSchema = new mongoose.Schema({
     },
     location: {
         type: String,
-        required: [true, 'Location is required']
+        required: [requiredUnlessDraft, 'Location is required']
     },
     type: {
         type: String,
-        required: [true, 'Job type is required'],
+        required: [requiredUnlessDraft, 'Job type is required'],
         enum: ['full-time', 'part-time', 'contract', 'internship']
     },
     salary: {
         min: {
             type: Number,
-            required: [true, 'Minimum salary is required']
+            required: [requiredUnlessDraft, 'Minimum salary is required']
         },
         max: {
             type: Number,
-            required: [true, 'Maximum salary is required']
+            required: [requiredUnlessDraft, 'Maximum salary is required']
         },
         currency: {
             type: String,
             default: 'PKR'
+        },
+        // Pay period the min/max figures are quoted in (offers are made as annual salaries)
+        period: {
+            type: String,
+            enum: ['year', 'month'],
+            default: 'year'
         }
     },
     description: {
         type: String,
-        required: [true, 'Job description is required']
+        required: [requiredUnlessDraft, 'Job description is required']
     },
     requirements: {
         type: String,
-        required: [true, 'Job requirements are required']
+        required: [requiredUnlessDraft, 'Job requirements are required']
+    },
+    // Accepts an array or a comma-separated string; stored under the taxonomy's canonical names
+    skills: {
+        type: [String],
+        set: canonicalizeSkills,
+        default: []
+    },
+    experienceLevel: {
+        type: String,
+        enum: ['entry', 'mid', 'senior', 'lead']
+    },
+    workMode: {
+        type: String,
+        enum: ['onsite', 'hybrid', 'remote'],
+        default: 'onsite'
     },
     status: {
         type: String,
-        enum: ['open', 'closed'],
+        enum: ['draft', 'scheduled', 'open', 'paused', 'expired', 'closed'],
         default: 'open'
     },
+    // When a scheduled job goes live
+    publishAt: {
+        type: Date
+    },
+    // When the job actually went live (set on publish, used for "new since" alert matching)
+    publishedAt: {
+        type: Date
+    },
+    expiresAt: {
+        type: Date
+    },
+    screeningQuestions: [screeningQuestionSchema],
+    // Empty means the employer's default pipeline (or the built-in one) applies
+    pipelineStages: [pipelineStageSchema],
+    // Interview types without a kit use the standard scorecard
+    interviewKits: [interviewKitSchema],
+    // Hide applicants' identities from the hiring team until they reach interview
+    blindReview: {
+        type: Boolean,
+        default: false
+    },
+    repostedFrom: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Job'
+    },
+    // The company account (organization owner) the job is listed under
     employer: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
         required: true
     },
+    // Set once the company has a team; members of it can work on the job
+    organization: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Organization'
+    },
+    // Team member who created the posting, when it wasn't the owner
+    postedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
     bookmarkedBy: [{
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User'
@@ -65,9 +231,27 @@ const jobSchema = new mongoose.Schema({
     }
 });
 
+// Full-text index for keyword search - a hit in the title outranks one in the description
+jobSchema.index(
+    { title: 'text', company: 'text', requirements: 'text', description: 'text' },
+    {
+        name: 'JobTextIndex',
+        weights: { title: 10, company: 5, requirements: 3, description: 1 },
+        default_language: 'english'
+    }
+);
+
+jobSchema.index({ skills: 1 });
+jobSchema.plugin(skillIdsPlugin);
+jobSchema.index({ status: 1, publishAt: 1 });
+jobSchema.index({ status: 1, expiresAt: 1 });
+
 // Update the updatedAt timestamp before saving
 jobSchema.pre('save', function(next) {
     this.updatedAt = Date.now();
+    if (this.status === 'open' && !this.publishedAt) {
+        this.publishedAt = Date.now();
+    }
     next();
 });
 
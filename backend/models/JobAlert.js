@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const crypto = require('crypto');
 
 const jobAlertSchema = new mongoose.Schema({
     jobSeeker: {
@@ -46,6 +47,13 @@ const jobAlertSchema = new mongoose.Schema({
     },
     lastSentAt: {
         type: Date
+    },
+    // Unguessable key for the alert's public RSS/Atom feed (feed readers can't send auth headers)
+    feedToken: {
+        type: String,
+        unique: true,
+        sparse: true,
+        default: () => crypto.randomBytes(16).toString('hex')
     }
 });
 
@@ -7,6 +7,10 @@ const applicationHistorySchema = new Schema({
         enum: ['pending', 'reviewed', 'interview', 'accepted', 'rejected'],
         required: true
     },
+    // Pipeline stage keys for the transition (status above is the stage's category)
+    stage: String,
+    fromStage: String,
+    stageName: String,
     date: {
         type: Date,
         default: Date.now
@@ -14,7 +18,63 @@ const applicationHistorySchema = new Schema({
     note: String
 });
 
-// Interview rating schema
+// Answer to one of the job's screening questions. The question is copied so the
+// answer still reads correctly if the employer edits the job later.
+const screeningAnswerSchema = new Schema({
+    questionId: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    question: String,
+    type: String,
+    answer: String,
+    knockout: Boolean,
+    // Only set for knockout questions
+    passed: Boolean
+});
+
+// Copy of a library document taken when the application was submitted. It has its
+// own file, so it doesn't change if the job seeker later replaces or deletes the original.
+const attachedDocumentSchema = new Schema({
+    sourceId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Resume'
+    },
+    name: String,
+    originalName: String,
+    mimeType: String,
+    size: Number,
+    url: {
+        type: String,
+        required: true
+    },
+    attachedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+// Score for one competency from the job's interview kit
+const competencyScoreSchema = new Schema({
+    competency: {
+        type: String,
+        required: true
+    },
+    name: String,
+    score: {
+        type: Number,
+        min: 1,
+        max: 5,
+        required: true
+    },
+    notes: {
+        type: String,
+        maxlength: 1000
+    }
+}, { _id: false });
+
+// Interview rating schema. Ratings from before interview kits only have the four
+// fixed category fields; newer ones have a scorecard for the kit that was used.
 const interviewRatingSchema = new Schema({
     rating: {
         type: Number,
@@ -42,6 +102,11 @@ const interviewRatingSchema = new Schema({
         min: 1,
         max: 5
     },
+    interviewType: {
+        type: String,
+        enum: ['screening', 'technical', 'behavioral', 'final']
+    },
+    scores: [competencyScoreSchema],
     strengths: [String],
     weaknesses: [String],
     feedback: String,
@@ -66,21 +131,47 @@ const jobApplicationSchema = new Schema({
         ref: 'User',
         required: true
     },
+    // Written cover letter; optional when a cover letter file is attached instead
     coverLetter: {
         type: String,
-        required: true
+        required: function() {
+            return !this.coverLetterFile;
+        }
     },
+    // Link to the resume: the attached copy when sent from the resume library, otherwise a URL the applicant entered
     resume: {
         type: String,
         required: true
     },
+    resumeFile: attachedDocumentSchema,
+    coverLetterFile: attachedDocumentSchema,
     status: {
         type: String,
         enum: ['pending', 'reviewed', 'interview', 'accepted', 'rejected'],
         default: 'pending'
     },
+    // Key of the current stage in the job's hiring pipeline; status mirrors its category
+    stage: {
+        type: String
+    },
+    screeningAnswers: [screeningAnswerSchema],
+    // True when any knockout question was answered unacceptably
+    failedKnockout: {
+        type: Boolean,
+        default: false
+    },
+    // Employer-only labels for sorting applicants (e.g. "strong portfolio", "relocation")
+    tags: [{
+        type: String,
+        trim: true,
+        maxlength: 30
+    }],
     applicationHistory: [applicationHistorySchema],
     interviewRatings: [interviewRatingSchema],
+    // When a blind-review job revealed who the applicant is
+    identityRevealedAt: {
+        type: Date
+    },
     appliedAt: {
         type: Date,
         default: Date.now
@@ -0,0 +1,99 @@
+const mongoose = require('mongoose');
+const Job = require('./Job');
+
+// Reusable starting point for job postings, shared like jobs with the employer's team
+const jobTemplateSchema = new mongoose.Schema({
+    // Company account the template belongs to (the organization owner for team members)
+    employer: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    organization: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Organization'
+    },
+    // Team member who saved the template, when it wasn't the owner
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    name: {
+        type: String,
+        trim: true,
+        required: [true, 'Template name is required'],
+        maxlength: [100, 'Template name cannot exceed 100 characters']
+    },
+    title: {
+        type: String,
+        trim: true,
+        required: [true, 'Job title is required']
+    },
+    description: {
+        type: String,
+        default: ''
+    },
+    requirements: {
+        type: String,
+        default: ''
+    },
+    location: {
+        type: String,
+        trim: true
+    },
+    type: {
+        type: String,
+        enum: ['full-time', 'part-time', 'contract', 'internship'],
+        default: 'full-time'
+    },
+    salary: {
+        min: Number,
+        max: Number,
+        currency: {
+            type: String,
+            default: 'PKR'
+        },
+        period: {
+            type: String,
+            enum: ['year', 'month'],
+            default: 'year'
+        }
+    },
+    skills: [{
+        type: String,
+        trim: true
+    }],
+    experienceLevel: {
+        type: String,
+        enum: ['entry', 'mid', 'senior', 'lead']
+    },
+    workMode: {
+        type: String,
+        enum: ['onsite', 'hybrid', 'remote']
+    },
+    // Same shape as the job's screening questions
+    screeningQuestions: [Job.schema.path('screeningQuestions').schema],
+    sourceJob: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Job'
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+jobTemplateSchema.index({ employer: 1, name: 1 });
+jobTemplateSchema.index({ organization: 1, name: 1 });
+
+// Update the updatedAt timestamp before saving
+jobTemplateSchema.pre('save', function(next) {
+    this.updatedAt = Date.now();
+    next();
+});
+
+module.exports = mongoose.model('JobTemplate', jobTemplateSchema);
@@ -0,0 +1,110 @@
+const mongoose = require('mongoose');
+const Schema = mongoose.Schema;
+
+const OFFER_STATUSES = ['draft', 'sent', 'accepted', 'declined', 'countered', 'withdrawn', 'expired'];
+
+// Terms the candidate proposed instead of the ones offered
+const counterOfferSchema = new Schema({
+    salary: {
+        amount: Number,
+        currency: String
+    },
+    startDate: Date,
+    message: {
+        type: String,
+        maxlength: 2000
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+const offerHistorySchema = new Schema({
+    status: {
+        type: String,
+        enum: OFFER_STATUSES,
+        required: true
+    },
+    by: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    note: String,
+    date: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+// Job offer made to an applicant. The letter is rendered from letterTemplate
+// whenever it is viewed, so revising the terms also updates the letter.
+const offerSchema = new Schema({
+    application: {
+        type: Schema.Types.ObjectId,
+        ref: 'JobApplication',
+        required: true
+    },
+    job: {
+        type: Schema.Types.ObjectId,
+        ref: 'Job',
+        required: true
+    },
+    jobSeeker: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    // Employer user who made the offer; notifications for the candidate's responses go to them
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    salary: {
+        amount: {
+            type: Number,
+            required: [true, 'Salary is required'],
+            min: [0, 'Salary cannot be negative']
+        },
+        currency: {
+            type: String,
+            default: 'PKR'
+        }
+    },
+    startDate: {
+        type: Date,
+        required: [true, 'Start date is required']
+    },
+    expiresAt: {
+        type: Date,
+        required: [true, 'Expiry date is required']
+    },
+    letterTemplate: {
+        type: String,
+        required: true,
+        maxlength: [10000, 'Offer letters cannot exceed 10000 characters']
+    },
+    status: {
+        type: String,
+        enum: OFFER_STATUSES,
+        default: 'draft'
+    },
+    counterOffer: counterOfferSchema,
+    // Reason given when declining
+    responseNote: {
+        type: String,
+        maxlength: 2000
+    },
+    sentAt: Date,
+    respondedAt: Date,
+    history: [offerHistorySchema]
+}, {
+    timestamps: true
+});
+
+offerSchema.index({ application: 1, createdAt: -1 });
+offerSchema.index({ job: 1 });
+offerSchema.index({ jobSeeker: 1, status: 1 });
+
+module.exports = mongoose.model('Offer', offerSchema);
@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const INVITATION_TTL_DAYS = 14;
+
+// Pending invitation for someone to join the company's team
+const invitationSchema = new mongoose.Schema({
+    email: {
+        type: String,
+        required: true,
+        trim: true,
+        lowercase: true
+    },
+    role: {
+        type: String,
+        enum: ['recruiter', 'hiring_manager', 'interviewer'],
+        required: true
+    },
+    token: {
+        type: String,
+        default: () => crypto.randomBytes(24).toString('hex')
+    },
+    invitedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    expiresAt: {
+        type: Date,
+        default: () => new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    }
+});
+
+// A company's hiring team. The owner's employer account holds the public company
+// profile and is the `employer` of every job; members are linked through
+// User.organization and act on the owner's jobs according to their role.
+const organizationSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        trim: true,
+        required: [true, 'Organization name is required'],
+        maxlength: [100, 'Organization name cannot exceed 100 characters']
+    },
+    owner: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        unique: true
+    },
+    invitations: [invitationSchema],
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+organizationSchema.index({ 'invitations.token': 1 });
+
+module.exports = mongoose.model('Organization', organizationSchema);
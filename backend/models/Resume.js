@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+// A resume or cover letter file in a job seeker's document library
+const resumeSchema = new mongoose.Schema({
+    jobSeeker: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    kind: {
+        type: String,
+        enum: ['resume', 'cover_letter'],
+        default: 'resume'
+    },
+    name: {
+        type: String,
+        trim: true,
+        required: [true, 'Document name is required'],
+        maxlength: [100, 'Document name cannot exceed 100 characters']
+    },
+    // File as uploaded; replacing the file keeps the library entry but swaps these
+    originalName: String,
+    mimeType: String,
+    size: Number,
+    fileName: {
+        type: String,
+        required: true
+    },
+    url: {
+        type: String,
+        required: true
+    },
+    // The document preselected when applying (one per kind)
+    isDefault: {
+        type: Boolean,
+        default: false
+    }
+}, {
+    timestamps: true
+});
+
+resumeSchema.index({ jobSeeker: 1, kind: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Resume', resumeSchema);
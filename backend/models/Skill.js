@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A canonical skill in the shared taxonomy. Profiles and jobs store the slug of
+// each skill they list (skillIds), so "JS" and "JavaScript" match each other.
+const skillSchema = new mongoose.Schema({
+    // Canonical ID, e.g. "javascript", "node-js", "csharp"
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        trim: true,
+        lowercase: true
+    },
+    name: {
+        type: String,
+        required: [true, 'Skill name is required'],
+        trim: true,
+        maxlength: [60, 'Skill name cannot exceed 60 characters']
+    },
+    // Other spellings that mean this skill ("JS", "ECMAScript")
+    aliases: [{
+        type: String,
+        trim: true,
+        maxlength: [60, 'Alias cannot exceed 60 characters']
+    }],
+    // Parent category, e.g. "Programming Languages"
+    category: {
+        type: String,
+        trim: true,
+        default: 'Other',
+        maxlength: [60, 'Category cannot exceed 60 characters']
+    },
+    // Slugs of skills often listed alongside this one
+    related: [{
+        type: String,
+        trim: true,
+        lowercase: true
+    }]
+}, {
+    timestamps: true
+});
+
+skillSchema.index({ category: 1, name: 1 });
+
+module.exports = mongoose.model('Skill', skillSchema);
@@ -1,5 +1,7 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const Job = require('./Job');
+const { canonicalizeSkills, skillIdsPlugin } = require('../services/skillTaxonomyService');
 
 const userSchema = new mongoose.Schema({
     name: {
@@ -37,16 +39,22 @@ const userSchema = new mongoose.Schema({
         trim: true
     },
     // Added fields for job seeker for AI recommendation
-    skills: [{
-        type: String,
-        trim: true
-    }],
+    // Stored under the taxonomy's canonical names; skillIds holds their IDs for matching
+    skills: {
+        type: [String],
+        set: canonicalizeSkills,
+        default: []
+    },
+    // The profile page edits position/startDate/endDate; title/from/to are kept for older entries
     experience: [{
         title: String,
+        position: String,
         company: String,
         location: String,
         from: Date,
         to: Date,
+        startDate: Date,
+        endDate: Date,
         current: Boolean,
         description: String
     }],
@@ -54,10 +62,24 @@ const userSchema = new mongoose.Schema({
         institution: String,
         degree: String,
         fieldOfStudy: String,
+        graduationYear: Number,
         from: Date,
         to: Date,
         current: Boolean
     }],
+    projects: [{
+        name: { type: String, trim: true },
+        description: String,
+        url: String,
+        startDate: Date,
+        endDate: Date
+    }],
+    certificates: [{
+        name: { type: String, trim: true },
+        issuer: String,
+        date: Date,
+        url: String
+    }],
     preferredJobTypes: [{
         type: String,
         enum: ['full-time', 'part-time', 'contract', 'internship']
@@ -67,6 +89,12 @@ const userSchema = new mongoose.Schema({
         trim: true
     }],
     totalYearsExperience: { type: Number, min: 0 },
+    // Salary range the seeker is looking for; the matching engine compares it with job salaries
+    expectedSalary: {
+        min: { type: Number, min: 0 },
+        max: { type: Number, min: 0 },
+        currency: { type: String, trim: true }
+    },
     resumeUrl: String,
     portfolioUrl: String,
     // Employer specific fields
@@ -117,6 +145,17 @@ const userSchema = new mongoose.Schema({
         twitter: String,
         facebook: String
     },
+    // Hiring pipeline used by this employer's jobs unless a job defines its own
+    defaultPipeline: [Job.schema.path('pipelineStages').schema],
+    // Company team this employer belongs to, and what they can do in it
+    organization: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Organization'
+    },
+    organizationRole: {
+        type: String,
+        enum: ['owner', 'recruiter', 'hiring_manager', 'interviewer']
+    },
     // Common fields
     phone: {
         type: String,
@@ -153,6 +192,8 @@ const userSchema = new mongoose.Schema({
     }
 });
 
+userSchema.plugin(skillIdsPlugin);
+
 // Hash password before saving
 userSchema.pre('save', async function(next) {
     if (!this.isModified('password')) {
@@ -5,10 +5,7 @@ const admin = require('../middleware/admin');
 const Report = require('../models/Report');
 const User = require('../models/User');
 const Job = require('../models/Job');
-const { GoogleGenerativeAI } = require("@google/generative-ai");
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+const aiGateway = require('../services/aiGateway');
 
 // Admin middleware
 const adminAuth = async (req, res, next) => {
@@ -311,9 +308,7 @@ Provide a score from 1-10 (1 = definitely legitimate, 10 = definitely fraudulent
     }
     
     // Generate analysis
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
+    const { text } = await aiGateway.generateText('reportAnalysis', { prompt });
     
     res.json({
       report,
@@ -322,6 +317,9 @@ Provide a score from 1-10 (1 = definitely legitimate, 10 = definitely fraudulent
     });
   } catch (err) {
     console.error('Error analyzing report with AI:', err);
+    if (err.code === 'unavailable') {
+      return res.status(503).json({ message: 'AI analysis is not configured' });
+    }
     res.status(500).json({ 
       message: 'Error analyzing report',
       error: err.message
@@ -0,0 +1,143 @@
+const express = require('express');
+const router = express.Router();
+const auth = require('../middleware/auth');
+const admin = require('../middleware/admin');
+const { isEmployer, isJobSeeker } = require('../middleware/roleCheck');
+const { rateLimit } = require('../middleware/rateLimit');
+const { getUsageSummary } = require('../services/aiGateway');
+const aiAssistant = require('../services/aiAssistantService');
+
+// Per-user limits for the AI helpers (each endpoint has its own window)
+const RATE_LIMIT_MAX = parseInt(process.env.AI_RATE_LIMIT_MAX, 10) || 20;
+const RATE_LIMIT_WINDOW_MS = parseInt(process.env.AI_RATE_LIMIT_WINDOW_MS, 10) || 15 * 60 * 1000;
+const MAX_TEXT_LENGTH = 30000;
+
+const aiLimit = (name) => rateLimit({ name: `ai:${name}`, max: RATE_LIMIT_MAX, windowMs: RATE_LIMIT_WINDOW_MS });
+
+// Trimmed text from the body, or an error message when it's missing (required) or too long
+const readText = (body, field, { required = true, label = field } = {}) => {
+  const value = typeof body[field] === 'string' ? body[field].trim() : '';
+  if (required && !value) return { error: `${label} is required` };
+  if (value.length > MAX_TEXT_LENGTH) return { error: `${label} cannot exceed ${MAX_TEXT_LENGTH} characters` };
+  return { value };
+};
+
+const handleAIError = (res, err, action) => {
+  if (err.name === 'AIGatewayError' && err.code === 'unavailable') {
+    return res.status(503).json({ message: 'AI features are not configured on this server' });
+  }
+  console.error(`[AI Assistant] Failed to ${action}:`, err);
+  res.status(502).json({ message: `Failed to ${action}. Please try again later.` });
+};
+
+// @route   POST api/ai/job-recommendations
+// @desc    Pick the open jobs that suit the signed-in job seeker best, with the reasons for each
+// @access  Private (Job seekers only)
+router.post('/job-recommendations', [auth, isJobSeeker, aiLimit('job-recommendations')], async (req, res) => {
+  try {
+    const result = await aiAssistant.recommendJobs(req.user.toObject());
+    res.json(result);
+  } catch (err) {
+    handleAIError(res, err, 'get AI job recommendations');
+  }
+});
+
+// @route   POST api/ai/resume-analysis
+// @desc    Strengths, weaknesses, suggestions and a score for a resume (body: resumeText)
+// @access  Private (Job seekers only)
+router.post('/resume-analysis', [auth, isJobSeeker, aiLimit('resume-analysis')], async (req, res) => {
+  const resumeText = readText(req.body, 'resumeText', { label: 'Resume text' });
+  if (resumeText.error) {
+    return res.status(400).json({ message: resumeText.error });
+  }
+  try {
+    res.json(await aiAssistant.analyzeResume(resumeText.value));
+  } catch (err) {
+    handleAIError(res, err, 'analyze resume');
+  }
+});
+
+// @route   POST api/ai/parse-resume
+// @desc    Extract skills, experience, education and personal details from resume text (body: resumeText)
+// @access  Private (Job seekers only)
+router.post('/parse-resume', [auth, isJobSeeker, aiLimit('parse-resume')], async (req, res) => {
+  const resumeText = readText(req.body, 'resumeText', { label: 'Resume text' });
+  if (resumeText.error) {
+    return res.status(400).json({ message: resumeText.error });
+  }
+  try {
+    res.json(await aiAssistant.parseResume(resumeText.value));
+  } catch (err) {
+    handleAIError(res, err, 'parse resume');
+  }
+});
+
+// @route   POST api/ai/interview-questions
+// @desc    Technical, behavioral and follow-up questions for a job (body: jobDescription, candidateProfile?)
+// @access  Private (Employers only)
+router.post('/interview-questions', [auth, isEmployer, aiLimit('interview-questions')], async (req, res) => {
+  const jobDescription = readText(req.body, 'jobDescription', { label: 'Job description' });
+  if (jobDescription.error) {
+    return res.status(400).json({ message: jobDescription.error });
+  }
+  const candidateProfile = req.body.candidateProfile && typeof req.body.candidateProfile === 'object'
+    ? req.body.candidateProfile
+    : undefined;
+  try {
+    res.json(await aiAssistant.generateInterviewQuestions(jobDescription.value, candidateProfile));
+  } catch (err) {
+    handleAIError(res, err, 'generate interview questions');
+  }
+});
+
+// @route   POST api/ai/job-description
+// @desc    Clearer, more inclusive rewrite of a job description (body: description, requirements, targetAudience?)
+// @access  Private (Employers only)
+router.post('/job-description', [auth, isEmployer, aiLimit('job-description')], async (req, res) => {
+  const description = readText(req.body, 'description', { label: 'Description' });
+  const requirements = readText(req.body, 'requirements', { required: false, label: 'Requirements' });
+  const targetAudience = readText(req.body, 'targetAudience', { required: false, label: 'Target audience' });
+  const error = description.error || requirements.error || targetAudience.error;
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    res.json(await aiAssistant.optimizeJobDescription(description.value, requirements.value, targetAudience.value));
+  } catch (err) {
+    handleAIError(res, err, 'optimize job description');
+  }
+});
+
+// @route   POST api/ai/screen-application
+// @desc    Assess an application against a job's requirements (body: jobRequirements, resume, coverLetter?)
+// @access  Private (Employers only)
+router.post('/screen-application', [auth, isEmployer, aiLimit('screen-application')], async (req, res) => {
+  const jobRequirements = readText(req.body, 'jobRequirements', { label: 'Job requirements' });
+  const resume = readText(req.body, 'resume', { label: 'Resume' });
+  const coverLetter = readText(req.body, 'coverLetter', { required: false, label: 'Cover letter' });
+  const error = jobRequirements.error || resume.error || coverLetter.error;
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    res.json(await aiAssistant.screenApplication(jobRequirements.value, { resume: resume.value, coverLetter: coverLetter.value }));
+  } catch (err) {
+    handleAIError(res, err, 'screen application');
+  }
+});
+
+// @route   GET api/ai/usage
+// @desc    AI token usage and estimated cost per feature, provider and model over the last ?days (default 30),
+//          plus the provider and model each feature is currently configured to use
+// @access  Private/Admin
+router.get('/usage', [auth, admin], async (req, res) => {
+  try {
+    const summary = await getUsageSummary({ days: req.query.days });
+    res.json(summary);
+  } catch (err) {
+    console.error('[AI Gateway] Failed to load usage:', err);
+    res.status(500).json({ message: 'Failed to load AI usage' });
+  }
+});
+
+module.exports = router;
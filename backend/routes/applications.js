@@ -4,6 +4,9 @@ const JobApplication = require('../models/JobApplication');
 const Job = require('../models/Job');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { DEFAULT_PIPELINE, getJobPipeline, moveToStage } = require('../services/pipelineService');
+const { canAccessJob } = require('../services/organizationService');
+const { INTERVIEW_TYPES, getInterviewKit, validateScorecard, buildScorecard } = require('../services/interviewKitService');
 const { check, validationResult } = require('express-validator');
 
 // @route   POST /api/applications/:id/rate-interview
@@ -16,6 +19,8 @@ router.post('/:id/rate-interview', [
     check('communication', 'Communication rating must be between 1-5').optional().isInt({ min: 1, max: 5 }),
     check('culturalFit', 'Cultural fit rating must be between 1-5').optional().isInt({ min: 1, max: 5 }),
     check('problemSolving', 'Problem solving rating must be between 1-5').optional().isInt({ min: 1, max: 5 }),
+    check('interviewType', `Interview type must be one of: ${INTERVIEW_TYPES.join(', ')}`).optional().isIn(INTERVIEW_TYPES),
+    check('scores', 'Scores must be an array').optional().isArray(),
     check('feedback', 'Feedback is required').notEmpty(),
     check('strengths', 'Strengths must be an array').optional().isArray(),
     check('weaknesses', 'Weaknesses must be an array').optional().isArray()
@@ -31,17 +36,17 @@ router.post('/:id/rate-interview', [
     try {
         // Find the application
         const application = await JobApplication.findById(req.params.id)
-            .populate('job', 'employer');
+            .populate('job', 'employer organization pipelineStages interviewKits');
         
         if (!application) {
             console.log(`[CandidateRating] Application not found: ${req.params.id}`);
             return res.status(404).json({ msg: 'Application not found' });
         }
 
-        // Verify the request is from the employer
+        // Verify the request is from the hiring team
         const job = application.job;
-        if (!job || job.employer.toString() !== req.user.id) {
-            console.log(`[CandidateRating] Authorization failed - user ${req.user.id} is not the employer of this job`);
+        if (!job || !canAccessJob(req.user, job, 'rate_interviews')) {
+            console.log(`[CandidateRating] Authorization failed - user ${req.user.id} is not on the hiring team for this job`);
             return res.status(403).json({ msg: 'Not authorized to rate this application' });
         }
 
@@ -64,18 +69,28 @@ router.post('/:id/rate-interview', [
             interviewer: req.user.id
         };
 
+        // Scorecards are checked against the job's kit for the interview type
+        if (req.body.scores) {
+            const interviewType = req.body.interviewType || 'screening';
+            const kit = getInterviewKit(job, interviewType);
+            const scorecardError = validateScorecard(kit, req.body.scores);
+            if (scorecardError) {
+                console.log(`[CandidateRating] Rejected scorecard for application ID: ${req.params.id}: ${scorecardError}`);
+                return res.status(400).json({ msg: scorecardError });
+            }
+            ratingData.interviewType = interviewType;
+            ratingData.scores = buildScorecard(kit, req.body.scores);
+            console.log(`[CandidateRating] Scorecard for ${interviewType} interview: ${ratingData.scores.length} competencies (${kit.source} kit)`);
+        }
+
         // Add the rating to application
         application.interviewRatings.push(ratingData);
         
-        // If status is currently "interview", update to "reviewed"
-        if (application.status === 'interview') {
-            application.status = 'reviewed';
-            
-            // Add to application history
-            application.applicationHistory.push({
-                status: 'reviewed',
-                note: 'Interview completed and candidate rated'
-            });
+        // With the built-in pipeline, a rated interview moves back to "reviewed". Custom
+        // pipelines have their own post-interview stages, so the employer moves those on.
+        const pipeline = await getJobPipeline(job);
+        if (pipeline === DEFAULT_PIPELINE && application.status === 'interview') {
+            moveToStage(application, pipeline, pipeline.find(stage => stage.key === 'reviewed'), 'Interview completed and candidate rated');
             console.log(`[CandidateRating] Updated application status to 'reviewed'`);
         }
 
@@ -98,7 +113,7 @@ router.get('/:id/interview-ratings', auth, async (req, res) => {
     try {
         // Find the application
         const application = await JobApplication.findById(req.params.id)
-            .populate('job', 'employer')
+            .populate('job', 'employer organization')
             .populate({
                 path: 'interviewRatings.interviewer',
                 select: 'name profileImage'
@@ -109,10 +124,10 @@ router.get('/:id/interview-ratings', auth, async (req, res) => {
             return res.status(404).json({ msg: 'Application not found' });
         }
 
-        // Verify the request is from the employer
+        // Verify the request is from the hiring team
         const job = application.job;
-        if (!job || job.employer.toString() !== req.user.id) {
-            console.log(`[CandidateRating] Authorization failed - user ${req.user.id} is not the employer of this job`);
+        if (!job || !canAccessJob(req.user, job, 'view_applications')) {
+            console.log(`[CandidateRating] Authorization failed - user ${req.user.id} is not on the hiring team for this job`);
             return res.status(403).json({ msg: 'Not authorized to view ratings for this application' });
         }
 
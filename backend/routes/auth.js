@@ -199,6 +199,8 @@ router.post('/login', [
                     lastName: user.lastName,
                     companyName: user.companyName,
                     companyDescription: user.companyDescription,
+                    organization: user.organization,
+                    organizationRole: user.organizationRole,
                     phone: user.phone,
                     location: user.location
                 };
@@ -3,6 +3,7 @@ const router = express.Router();
 const auth = require('../middleware/auth');
 const Job = require('../models/Job');
 const User = require('../models/User');
+const { toPublicJob } = require('../services/publicJobService');
 
 // Add job to bookmarks
 router.post('/:jobId', auth, async (req, res) => {
@@ -65,7 +66,7 @@ router.get('/', auth, async (req, res) => {
     try {
         const user = await User.findById(req.user.id).populate('bookmarks');
         console.log(`[Bookmarks API - GET /] Found ${user.bookmarks.length} bookmarks for user ${req.user.id}`);
-        res.json(user.bookmarks);
+        res.json(user.bookmarks.map(toPublicJob));
     } catch (error) {
         console.error('[Bookmarks API - GET /] Error:', error);
         res.status(500).json({ message: 'Server error' });
@@ -0,0 +1,114 @@
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Job = require('../models/Job');
+const User = require('../models/User');
+const JobAlert = require('../models/JobAlert');
+const { buildJobQuery } = require('../services/jobSearchService');
+const { findMatchingJobs } = require('../services/jobAlertService');
+const { FRONTEND_URL } = require('../services/seoService');
+const { FEED_FORMATS, FEED_CONTENT_TYPES, FEED_LIMIT, SITE_NAME, renderFeed } = require('../services/jobFeedService');
+
+const EMPLOYER_FIELDS = 'companyName companyLogo';
+
+// Full URL of this request, used as the feed's self link
+const selfUrl = (req) => `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+const sendFeed = (req, res, jobs, channel) => {
+    const format = req.params.format;
+    res.type(FEED_CONTENT_TYPES[format]).send(renderFeed(format, jobs, { ...channel, selfUrl: selfUrl(req) }));
+};
+
+// Reject unknown extensions before hitting the database
+router.param('format', (req, res, next, format) => {
+    if (!FEED_FORMATS.includes(format)) {
+        return res.status(404).json({ message: `Unknown feed format. Use one of: ${FEED_FORMATS.join(', ')}` });
+    }
+    next();
+});
+
+// @route   GET /api/feeds/jobs.:format
+// @desc    Feed of open jobs (rss, atom or aggregator xml), accepting the same filters as GET /api/jobs
+// @access  Public
+router.get('/jobs.:format', async (req, res) => {
+    try {
+        console.log(`[Job Feed] ${req.params.format} feed requested. Query params:`, JSON.stringify(req.query));
+
+        const query = buildJobQuery(req.query);
+        const jobs = await Job.find(query)
+            .populate('employer', EMPLOYER_FIELDS)
+            .sort({ publishedAt: -1, createdAt: -1 })
+            .limit(FEED_LIMIT);
+
+        // Link back to the same search on the site (repeated params like locations stay repeated)
+        const searchParams = new URLSearchParams();
+        Object.entries(req.query).forEach(([key, value]) => {
+            [].concat(value).forEach(item => searchParams.append(key, item));
+        });
+        sendFeed(req, res, jobs, {
+            title: req.query.keywords ? `${SITE_NAME} jobs: ${req.query.keywords}` : `${SITE_NAME} jobs`,
+            description: `The latest open positions on ${SITE_NAME}`,
+            link: `${FRONTEND_URL}/jobs${searchParams.toString() ? `?${searchParams}` : ''}`
+        });
+    } catch (error) {
+        console.error('[Job Feed] Error building jobs feed:', error);
+        res.status(500).json({ message: 'Error building job feed' });
+    }
+});
+
+// @route   GET /api/feeds/companies/:employerId.:format
+// @desc    Feed of one employer's open jobs
+// @access  Public
+router.get('/companies/:employerId.:format', async (req, res) => {
+    const { employerId } = req.params;
+    try {
+        if (!mongoose.Types.ObjectId.isValid(employerId)) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        const employer = await User.findOne({ _id: employerId, type: 'employer' }).select('companyName companyDescription');
+        if (!employer) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        const query = { ...buildJobQuery(req.query), employer: employer._id };
+        const jobs = await Job.find(query)
+            .populate('employer', EMPLOYER_FIELDS)
+            .sort({ publishedAt: -1, createdAt: -1 })
+            .limit(FEED_LIMIT);
+
+        console.log(`[Job Feed] Serving ${req.params.format} feed for company ${employerId} with ${jobs.length} jobs`);
+        sendFeed(req, res, jobs, {
+            title: `${employer.companyName || 'Company'} jobs on ${SITE_NAME}`,
+            description: employer.companyDescription || `Open positions at ${employer.companyName || 'this company'}`,
+            link: `${FRONTEND_URL}/company/${employer._id}`
+        });
+    } catch (error) {
+        console.error(`[Job Feed] Error building feed for company ${employerId}:`, error);
+        res.status(500).json({ message: 'Error building company feed' });
+    }
+});
+
+// @route   GET /api/feeds/alerts/:token.:format
+// @desc    Feed of jobs matching a seeker's saved job alert, for subscribing in a feed reader
+// @access  Public (the alert's feed token acts as the key)
+router.get('/alerts/:token.:format', async (req, res) => {
+    try {
+        const alert = await JobAlert.findOne({ feedToken: req.params.token });
+        if (!alert) {
+            return res.status(404).json({ message: 'Feed not found' });
+        }
+
+        const jobs = await findMatchingJobs(alert, null, FEED_LIMIT);
+        sendFeed(req, res, jobs, {
+            title: `${SITE_NAME}: ${alert.name}`,
+            description: `Jobs matching ${alert.keywords.join(', ')}`,
+            link: `${FRONTEND_URL}/job-alerts`
+        });
+    } catch (error) {
+        console.error('[Job Feed] Error building saved search feed:', error);
+        res.status(500).json({ message: 'Error building saved search feed' });
+    }
+});
+
+module.exports = router;
@@ -7,6 +7,9 @@ const Job = require('../models/Job');
 const User = require('../models/User');
 const nodemailer = require('nodemailer');
 const config = require('../config/emailConfig');
+const { getJobPipeline, moveToCategory } = require('../services/pipelineService');
+const { revealIdentityIfAdvanced } = require('../services/blindReviewService');
+const { canAccessJob, companyJobFilter } = require('../services/organizationService');
 
 // Setup email transporter
 const transporter = nodemailer.createTransport(config);
@@ -71,9 +74,9 @@ router.post('/schedule', auth, async (req, res) => {
             return res.status(404).json({ message: 'Job not found' });
         }
 
-        // Verify the employer owns this job
-        if (job.employer.toString() !== req.user.id) {
-            console.log(`[Interview] Authorization failed - employer ${req.user.id} does not own job ${job._id} (belongs to ${job.employer})`);
+        // Verify the employer is on this job's hiring team
+        if (!canAccessJob(req.user, job, 'schedule_interviews')) {
+            console.log(`[Interview] Authorization failed - employer ${req.user.id} cannot schedule for job ${job._id} (belongs to ${job.employer})`);
             return res.status(403).json({ message: 'Not authorized to schedule interviews for this job' });
         }
         console.log(`[Interview] Employer authorization verified for job ID: ${job._id}`);
@@ -137,13 +140,20 @@ router.post('/schedule', auth, async (req, res) => {
         await interview.save();
         console.log(`[Interview] Successfully created interview with ID: ${interview._id}`);
 
-        // Update application status and history
-        application.status = 'interview';
-        application.applicationHistory.push({
-            status: 'interview',
-            date: new Date(),
-            note: `Interview scheduled for ${new Date(scheduledDateTime).toLocaleString()}`
-        });
+        // Move the application into the pipeline's interview stage (or just log it if it's already in one)
+        const pipeline = await getJobPipeline(job);
+        const interviewNote = `Interview scheduled for ${new Date(scheduledDateTime).toLocaleString()}`;
+        if (!moveToCategory(application, pipeline, 'interview', interviewNote)) {
+            application.applicationHistory.push({
+                status: application.status,
+                stage: application.stage,
+                date: new Date(),
+                note: interviewNote
+            });
+        }
+        if (revealIdentityIfAdvanced(job, application)) {
+            console.log(`[Interview] Revealed the identity behind blind-review application ${application._id}`);
+        }
 
         await application.save();
         console.log(`[Interview] Updated application status to 'interview'`);
@@ -198,7 +208,9 @@ router.get('/employer', auth, async (req, res) => {
             return res.status(403).json({ message: 'Access denied. Only employers can view their interviews.' });
         }
 
-        const interviews = await Interview.find({ employer: req.user.id })
+        // Every interview for the company's jobs, whoever on the team scheduled it
+        const jobIds = await Job.find(companyJobFilter(req.user)).distinct('_id');
+        const interviews = await Interview.find({ job: { $in: jobIds } })
             .populate({
                 path: 'job',
                 select: 'title company location type'
@@ -247,7 +259,7 @@ router.get('/:id', auth, async (req, res) => {
         const interview = await Interview.findById(req.params.id)
             .populate({
                 path: 'job',
-                select: 'title company location type salary',
+                select: 'title company location type salary employer organization',
                 populate: {
                     path: 'employer',
                     select: 'name companyName'
@@ -261,10 +273,10 @@ router.get('/:id', auth, async (req, res) => {
             return res.status(404).json({ message: 'Interview not found' });
         }
 
-        // Check authorization - only the job seeker who is being interviewed or the employer can view
+        // Check authorization - only the job seeker who is being interviewed or the hiring team can view
         if (
             req.user.id !== interview.jobSeeker._id.toString() && 
-            req.user.id !== interview.employer._id.toString()
+            !canAccessJob(req.user, interview.job, 'view_applications')
         ) {
             return res.status(403).json({ message: 'Not authorized to view this interview' });
         }
@@ -289,8 +301,9 @@ router.patch('/:id', auth, async (req, res) => {
             return res.status(404).json({ message: 'Interview not found' });
         }
 
-        // Check if the employer owns this interview
-        if (interview.employer.toString() !== req.user.id) {
+        // Check if the employer is on the hiring team for the interview's job
+        const interviewJob = await Job.findById(interview.job).select('employer organization');
+        if (!canAccessJob(req.user, interviewJob, 'schedule_interviews')) {
             return res.status(403).json({ message: 'Not authorized to update this interview' });
         }
 
@@ -375,13 +388,9 @@ router.patch('/:id', auth, async (req, res) => {
         if (isReschedule || (status && status !== interview.status)) {
             const application = await JobApplication.findById(interview.jobApplication);
             if (application) {
-                // Don't change application status if interview was just rescheduled
-                if (status && status !== 'rescheduled' && status !== interview.status) {
-                    application.status = 'interview'; // Keep the status as interview
-                }
-
                 application.applicationHistory.push({
-                    status: 'interview',
+                    status: application.status,
+                    stage: application.stage,
                     date: new Date(),
                     note: isReschedule 
                         ? `Interview rescheduled to ${new Date(scheduledDateTime).toLocaleString()}`
@@ -439,11 +448,10 @@ router.delete('/:id', auth, async (req, res) => {
             return res.status(404).json({ message: 'Interview not found' });
         }
 
-        // Check authorization - both employer and job seeker can cancel
-        if (
-            req.user.id !== interview.jobSeeker.toString() && 
-            req.user.id !== interview.employer.toString()
-        ) {
+        // Check authorization - both the hiring team and the job seeker can cancel
+        const job = await Job.findById(interview.job);
+        const cancelledByEmployer = canAccessJob(req.user, job, 'schedule_interviews');
+        if (req.user.id !== interview.jobSeeker.toString() && !cancelledByEmployer) {
             return res.status(403).json({ message: 'Not authorized to cancel this interview' });
         }
 
@@ -456,8 +464,9 @@ router.delete('/:id', auth, async (req, res) => {
         if (application) {
             application.applicationHistory.push({
                 status: application.status, // Keep the same status
+                stage: application.stage,
                 date: new Date(),
-                note: `Interview cancelled by ${req.user.type === 'employer' ? 'employer' : 'job seeker'}`
+                note: `Interview cancelled by ${cancelledByEmployer ? 'employer' : 'job seeker'}`
             });
 
             await application.save();
@@ -465,10 +474,8 @@ router.delete('/:id', auth, async (req, res) => {
 
         // Send email notification
         try {
-            const job = await Job.findById(interview.job);
-            
             // If employer cancels, notify job seeker
-            if (req.user.id === interview.employer.toString()) {
+            if (cancelledByEmployer) {
                 const jobSeeker = await User.findById(interview.jobSeeker);
                 if (jobSeeker && jobSeeker.email && job) {
                     await transporter.sendMail({
@@ -4,7 +4,9 @@ const JobAlert = require('../models/JobAlert');
 const Job = require('../models/Job');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { liveJobFilter } = require('../services/jobLifecycleService');
 const jobAlertService = require('../services/jobAlertService');
+const { toPublicJob } = require('../services/publicJobService');
 
 // @route   GET /api/alerts
 // @desc    Get all job alerts for the current user
@@ -17,6 +19,15 @@ router.get('/', auth, async (req, res) => {
         }
 
         const alerts = await JobAlert.find({ jobSeeker: req.user.id });
+
+        // Alerts created before feeds existed get their feed token filled in by the schema default - persist it
+        await Promise.all(alerts
+            .filter(alert => alert.$isDefault('feedToken'))
+            .map(alert => {
+                alert.markModified('feedToken');
+                return alert.save();
+            }));
+
         return res.json(alerts);
     } catch (error) {
         console.error('Error fetching job alerts:', error);
@@ -175,7 +186,7 @@ router.get('/matching-jobs', auth, async (req, res) => {
         }
 
         // Build query for matching jobs
-        let query = { status: 'open' };
+        let query = liveJobFilter();
         
         // Combine all alert criteria
         let keywordsList = [];
@@ -222,7 +233,7 @@ router.get('/matching-jobs', auth, async (req, res) => {
             .sort({ createdAt: -1 })
             .limit(20);
         
-        return res.json(matchingJobs);
+        return res.json(matchingJobs.map(toPublicJob));
     } catch (error) {
         console.error('Error fetching matching jobs:', error);
         return res.status(500).json({ message: 'Server error' });
@@ -6,6 +6,43 @@ const Job = require('../models/Job');
 const User = require('../models/User');
 const JobAnalytics = require('../models/JobAnalytics');
 const Interview = require('../models/Interview');
+const Message = require('../models/Message');
+const { evaluateScreeningAnswers } = require('../services/screeningQuestionService');
+const { STAGE_CATEGORIES, getJobPipeline, getCurrentStage, moveToStage, getSeekerLabel } = require('../services/pipelineService');
+const { validateMessageTemplate, renderMessageTemplate } = require('../services/messageTemplateService');
+const { canAccessJob } = require('../services/organizationService');
+const { isIdentityHidden, revealIdentityIfAdvanced, blindApplication } = require('../services/blindReviewService');
+const { snapshotForApplication } = require('../services/resumeLibraryService');
+const { toPublicJob } = require('../services/publicJobService');
+const Resume = require('../models/Resume');
+
+const BULK_ACTIONS = ['move', 'tag', 'untag', 'reject'];
+const MAX_BULK_APPLICATIONS = 500;
+// Job seeker fields the hiring team sees; education is only needed to redact institutions during blind review
+const SEEKER_FIELDS = 'name firstName lastName email skills';
+const BLIND_SEEKER_FIELDS = `${SEEKER_FIELDS} education.institution`;
+const MAX_TAG_LENGTH = 30;
+
+// Internal stage names stay with the employer; applicants get the stage's seeker label
+const seekerHistory = (application, pipeline) => application.applicationHistory.map(entry => {
+    const { stageName, fromStage, ...historyFields } = entry.toObject();
+    return {
+        ...historyFields,
+        label: getSeekerLabel(pipeline, { stage: entry.stage, status: entry.status })
+    };
+});
+
+// The applicant's copy of their application, without the hiring team's tags, ratings,
+// internal stage and knockout results
+const applicantView = (application, pipeline) => {
+    const { tags, interviewRatings, failedKnockout, stage, ...fields } = application.toObject();
+    return {
+        ...fields,
+        screeningAnswers: (fields.screeningAnswers || []).map(({ passed, ...answer }) => answer),
+        stageLabel: getSeekerLabel(pipeline, application),
+        applicationHistory: seekerHistory(application, pipeline)
+    };
+};
 
 // Apply for a job
 router.post('/:jobId', auth, async (req, res) => {
@@ -20,9 +57,23 @@ router.post('/:jobId', auth, async (req, res) => {
             return res.status(403).json({ message: 'Access denied. Only job seekers can apply for jobs.' });
         }
 
-        const { coverLetter, resume } = req.body;
-        console.log(`[App Apply] Request body:`, { coverLetter: coverLetter ? 'Present' : 'Missing', resume: resume ? 'Present' : 'Missing' }); // Log presence, not content
-        // You might want more validation here (e.g., ensure resume URL is valid)
+        const { coverLetter, resume, resumeId, coverLetterId, screeningAnswers } = req.body;
+        console.log(`[App Apply] Request body:`, { coverLetter: coverLetter ? 'Present' : 'Missing', resume: resume ? 'Present' : 'Missing', resumeId, coverLetterId }); // Log presence, not content
+
+        // Documents picked from the resume library must belong to the applicant
+        const [libraryResume, libraryCoverLetter] = await Promise.all([
+            resumeId ? Resume.findOne({ _id: resumeId, jobSeeker: req.user._id, kind: 'resume' }) : null,
+            coverLetterId ? Resume.findOne({ _id: coverLetterId, jobSeeker: req.user._id, kind: 'cover_letter' }) : null
+        ]);
+        if ((resumeId && !libraryResume) || (coverLetterId && !libraryCoverLetter)) {
+            return res.status(400).json({ message: 'The selected document is no longer in your resume library' });
+        }
+        if (!libraryResume && !resume) {
+            return res.status(400).json({ message: 'Please choose a resume' });
+        }
+        if (!libraryCoverLetter && !(coverLetter || '').trim()) {
+            return res.status(400).json({ message: 'Please write a cover letter or attach one' });
+        }
 
         // Check if job exists
         console.log(`[App Apply] Checking if job ${jobId} exists...`);
@@ -33,6 +84,12 @@ router.post('/:jobId', auth, async (req, res) => {
         }
         console.log(`[App Apply] Job ${jobId} found.`);
 
+        // Only live jobs take applications (not drafts, paused, expired or closed postings)
+        if (job.status !== 'open' || (job.expiresAt && job.expiresAt <= new Date())) {
+            console.log(`[App Apply] Job ${jobId} is not accepting applications (status: ${job.status}).`);
+            return res.status(400).json({ message: 'This job is no longer accepting applications' });
+        }
+
         // Check if already applied
         console.log(`[App Apply] Checking for existing application by ${userId} for job ${jobId}...`);
         const existingApplication = await JobApplication.findOne({
@@ -46,17 +103,42 @@ router.post('/:jobId', auth, async (req, res) => {
         }
         console.log(`[App Apply] No existing application found. Proceeding...`);
 
+        // Score the answers to the job's screening questions (knockout fails are flagged, not rejected)
+        const screening = evaluateScreeningAnswers(job.screeningQuestions, screeningAnswers);
+        if (screening.error) {
+            console.log(`[App Apply] Screening answers rejected: ${screening.error}`);
+            return res.status(400).json({ message: screening.error });
+        }
+        if (screening.failedKnockout) {
+            console.log(`[App Apply] Applicant ${userId} failed a knockout question for job ${jobId}.`);
+        }
+
+        // New applications start in the first stage of the job's hiring pipeline
+        const pipeline = await getJobPipeline(job);
+        const firstStage = pipeline[0];
+
+        // The application keeps its own copy of library documents
+        const resumeFile = libraryResume ? await snapshotForApplication(libraryResume) : undefined;
+        const coverLetterFile = libraryCoverLetter ? await snapshotForApplication(libraryCoverLetter) : undefined;
+
         // Create application
         console.log(`[App Apply] Creating new JobApplication document...`);
         const application = new JobApplication({
             job: jobId,
             jobSeeker: userId,
             coverLetter, // Assuming this is a string
-            resume,      // Assuming this is a URL string
-            status: 'pending',
+            resume: resumeFile ? `${req.protocol}://${req.get('host')}${resumeFile.url}` : resume,
+            resumeFile,
+            coverLetterFile,
+            screeningAnswers: screening.screeningAnswers,
+            failedKnockout: screening.failedKnockout,
+            status: firstStage.category,
+            stage: firstStage.key,
             applicationHistory: [
                 {
-                    status: 'pending',
+                    status: firstStage.category,
+                    stage: firstStage.key,
+                    stageName: firstStage.name,
                     date: new Date(),
                     note: 'Application submitted'
                 }
@@ -179,7 +261,7 @@ router.post('/:jobId', auth, async (req, res) => {
         }
 
         console.log(`[App Apply] Sending success response (201 Created).`);
-        return res.status(201).json(application);
+        return res.status(201).json(applicantView(application, pipeline));
     } catch (error) {
         // Added log: Error during application submission
         console.error(`[App Apply] Error applying for job ${jobId} by user ${userId}:`, error);
@@ -202,13 +284,13 @@ router.get('/job/:jobId', auth, async (req, res) => {
             return res.status(404).json({ message: 'Job not found' });
         }
 
-        // Check if user is the employer for this job
-        if (job.employer.toString() !== req.user.id) {
+        // Check if user is on the hiring team for this job
+        if (!canAccessJob(req.user, job, 'view_applications')) {
             return res.status(403).json({ message: 'Not authorized to view these applications' });
         }
 
         const applications = await JobApplication.find({ job: jobId })
-            .populate('jobSeeker', 'name firstName lastName email skills')
+            .populate('jobSeeker', job.blindReview ? BLIND_SEEKER_FIELDS : SEEKER_FIELDS)
             .sort({ appliedAt: -1 });
 
         // Fetch interviews for these applications
@@ -219,7 +301,7 @@ router.get('/job/:jobId', auth, async (req, res) => {
 
         // Map interviews to applications
         const applicationsWithInterviews = applications.map(app => {
-            const appObj = app.toObject();
+            const appObj = isIdentityHidden(job, app) ? blindApplication(app.toObject()) : app.toObject();
             const relatedInterview = interviews.find(interview => 
                 interview.jobApplication.toString() === app._id.toString()
             );
@@ -262,10 +344,10 @@ router.get('/jobseeker', auth, async (req, res) => {
         const applications = await JobApplication.find({ jobSeeker: userId })
             .populate({
                 path: 'job',
-                select: 'title company location type salary status',
+                select: 'title company location type salary status pipelineStages',
                 populate: {
                     path: 'employer',
-                    select: 'name companyName' // Select necessary fields
+                    select: 'name companyName defaultPipeline' // Pipeline fields are needed for stage labels
                 }
             })
             .sort({ appliedAt: -1 }); // Sort by application date
@@ -281,8 +363,12 @@ router.get('/jobseeker', auth, async (req, res) => {
         // Added log: Found interviews
         console.log(`[App Tracking] Found ${interviews.length} interviews related to these applications.`);
 
+        // Resolve each job's pipeline so custom stages can be shown with their applicant-facing labels
+        const pipelines = await Promise.all(applications.map(app => (app.job ? getJobPipeline(app.job) : [])));
+
         // Format the response with status information and interview data
-        const formattedApplications = applications.map(app => {
+        const formattedApplications = applications.map((app, index) => {
+            const pipeline = pipelines[index];
             let statusInfo = {
                 color: '',
                 message: ''
@@ -324,14 +410,23 @@ router.get('/jobseeker', auth, async (req, res) => {
                 interview.jobApplication.toString() === app._id.toString()
             );
 
+            let job = null;
+            if (app.job) {
+                const { pipelineStages, ...jobFields } = app.job.toObject();
+                if (jobFields.employer) delete jobFields.employer.defaultPipeline;
+                job = jobFields;
+            }
+            const applicationHistory = seekerHistory(app, pipeline);
+
             // Return a structured object for the frontend
             return {
                 _id: app._id,
-                job: app.job, // Populated job details
+                job, // Populated job details
                 status: app.status,
+                stageLabel: getSeekerLabel(pipeline, app),
                 statusInfo: statusInfo, // Include color/message for UI
                 appliedAt: app.appliedAt,
-                applicationHistory: app.applicationHistory, // Include history if needed
+                applicationHistory, // Include history if needed
                 coverLetter: app.coverLetter, // Add cover letter
                 resume: app.resume,          // Add resume URL
                 interview: relatedInterview ? { // Include interview details if exists
@@ -359,7 +454,9 @@ router.get('/jobseeker', auth, async (req, res) => {
     }
 });
 
-// Update application status (employer only)
+// Move an application to another stage of its job's pipeline (employer only).
+// Accepts a pipeline stage key ({ stage }) or, for older clients, a status ({ status }),
+// which moves the application to the first stage in that category.
 router.patch('/:id/status', auth, async (req, res) => {
     try {
         // Ensure user is an employer
@@ -367,15 +464,12 @@ router.patch('/:id/status', auth, async (req, res) => {
             return res.status(403).json({ message: 'Access denied. Only employers can update application status.' });
         }
 
-        const { status, note } = req.body;
+        const { stage: stageKey, status, note } = req.body;
         
-        if (!status) {
-            return res.status(400).json({ message: 'Status is required' });
+        if (!stageKey && !status) {
+            return res.status(400).json({ message: 'Stage is required' });
         }
-
-        // Validate status
-        const validStatuses = ['pending', 'reviewed', 'interview', 'accepted', 'rejected'];
-        if (!validStatuses.includes(status)) {
+        if (!stageKey && !STAGE_CATEGORIES.includes(status)) {
             return res.status(400).json({ message: 'Invalid status value' });
         }
 
@@ -390,23 +484,36 @@ router.patch('/:id/status', auth, async (req, res) => {
             return res.status(404).json({ message: 'Job not found' });
         }
 
-        // Check if user is the employer for this job
-        if (job.employer.toString() !== req.user.id) {
+        // Check if user is on the hiring team for this job
+        if (!canAccessJob(req.user, job, 'manage_applications')) {
             return res.status(403).json({ message: 'Not authorized to update this application' });
         }
 
-        // Update application status
-        application.status = status;
-        
-        // Add entry to application history
-        application.applicationHistory.push({
-            status,
-            date: new Date(),
-            note: note || `Status changed to "${status}"`
-        });
+        const pipeline = await getJobPipeline(job);
+        const stage = stageKey
+            ? pipeline.find(candidate => candidate.key === stageKey)
+            : pipeline.find(candidate => candidate.category === status);
+        if (!stage) {
+            console.log(`[App Status] Rejected move of application ${application._id} to unknown stage "${stageKey || status}"`);
+            return res.status(400).json({ message: 'That stage is not part of this job\'s hiring pipeline' });
+        }
+
+        const currentStage = getCurrentStage(pipeline, application);
+        if (currentStage && currentStage.key === stage.key) {
+            return res.json(application);
+        }
 
+        moveToStage(application, pipeline, stage, note);
+        if (revealIdentityIfAdvanced(job, application)) {
+            console.log(`[App Status] Revealed the identity behind blind-review application ${application._id}`);
+        }
         await application.save();
+        console.log(`[App Status] Application ${application._id} moved ${currentStage ? currentStage.key : '?'} -> ${stage.key}`);
 
+        if (isIdentityHidden(job, application)) {
+            await application.populate('jobSeeker', BLIND_SEEKER_FIELDS);
+            return res.json(blindApplication(application.toObject()));
+        }
         return res.json(application);
     } catch (error) {
         console.error('Error updating application status:', error);
@@ -414,29 +521,170 @@ router.patch('/:id/status', auth, async (req, res) => {
     }
 });
 
+// Apply one action to many of a job's applications at once (employer only):
+// move to a stage, add or remove tags, or reject. If a message is given, every
+// selected candidate is sent it with the {{placeholders}} filled in.
+router.post('/job/:jobId/bulk', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Access denied. Only employers can update applications.' });
+        }
+
+        const { applicationIds, action, stage: stageKey, tags, message } = req.body;
+
+        if (!Array.isArray(applicationIds) || applicationIds.length === 0) {
+            return res.status(400).json({ message: 'Select at least one application' });
+        }
+        if (applicationIds.length > MAX_BULK_APPLICATIONS) {
+            return res.status(400).json({ message: `You can update at most ${MAX_BULK_APPLICATIONS} applications at once` });
+        }
+        if (!BULK_ACTIONS.includes(action)) {
+            return res.status(400).json({ message: `Invalid action. Must be one of: ${BULK_ACTIONS.join(', ')}` });
+        }
+
+        const job = await Job.findById(req.params.jobId);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'manage_applications')) {
+            return res.status(403).json({ message: 'Not authorized to update these applications' });
+        }
+
+        const pipeline = await getJobPipeline(job);
+        let targetStage = null;
+        if (action === 'move') {
+            targetStage = pipeline.find(stage => stage.key === stageKey);
+            if (!targetStage) {
+                return res.status(400).json({ message: 'That stage is not part of this job\'s hiring pipeline' });
+            }
+        } else if (action === 'reject') {
+            targetStage = pipeline.find(stage => stage.category === 'rejected');
+        }
+
+        let tagList = [];
+        if (action === 'tag' || action === 'untag') {
+            tagList = [...new Set((Array.isArray(tags) ? tags : []).map(tag => String(tag).trim()).filter(Boolean))];
+            if (tagList.length === 0) {
+                return res.status(400).json({ message: 'At least one tag is required' });
+            }
+            if (tagList.some(tag => tag.length > MAX_TAG_LENGTH)) {
+                return res.status(400).json({ message: `Tags can be at most ${MAX_TAG_LENGTH} characters` });
+            }
+        }
+
+        const sendMessage = typeof message === 'string' && message.trim() !== '';
+        if (sendMessage) {
+            const templateError = validateMessageTemplate(message);
+            if (templateError) {
+                return res.status(400).json({ message: templateError });
+            }
+        }
+
+        // Ids from other jobs are ignored rather than failing the whole batch
+        const uniqueIds = [...new Set(applicationIds.map(String))];
+        const applications = await JobApplication.find({ _id: { $in: uniqueIds }, job: job._id })
+            .populate('jobSeeker', 'name');
+
+        // Only the candidates the action changed are messaged
+        const updatedApplications = [];
+        for (const application of applications) {
+            if (targetStage) {
+                const currentStage = getCurrentStage(pipeline, application);
+                if (currentStage && currentStage.key === targetStage.key) continue;
+                moveToStage(application, pipeline, targetStage, action === 'reject' ? 'Rejected' : undefined);
+                revealIdentityIfAdvanced(job, application);
+            } else if (action === 'tag') {
+                const newTags = tagList.filter(tag => !application.tags.includes(tag));
+                if (newTags.length === 0) continue;
+                application.tags.push(...newTags);
+            } else {
+                const remaining = application.tags.filter(tag => !tagList.includes(tag));
+                if (remaining.length === application.tags.length) continue;
+                application.tags = remaining;
+            }
+            await application.save();
+            updatedApplications.push(application);
+        }
+
+        // The updates are already saved, so a message that can't be sent is reported rather than failing the request
+        let messaged = 0;
+        const messageFailures = [];
+        // A message would open a conversation showing the candidate's real name, so anyone
+        // still anonymous under blind review isn't messaged
+        let messageSkipped = 0;
+        if (sendMessage) {
+            const io = req.app.get('io');
+            for (const application of updatedApplications) {
+                if (!application.jobSeeker) continue;
+                if (isIdentityHidden(job, application)) {
+                    messageSkipped++;
+                    continue;
+                }
+
+                try {
+                    const sent = await Message.create({
+                        sender: req.user.id,
+                        receiver: application.jobSeeker._id,
+                        content: renderMessageTemplate(message, {
+                            candidateName: application.jobSeeker.name,
+                            jobTitle: job.title,
+                            companyName: job.company,
+                            stageName: getSeekerLabel(pipeline, application)
+                        }),
+                        relatedJob: job._id
+                    });
+                    if (io) {
+                        io.to(`user_${application.jobSeeker._id}`).emit('newMessage', sent);
+                    }
+                    messaged++;
+                } catch (messageError) {
+                    console.error(`[App Bulk] Failed to message the candidate of application ${application._id}:`, messageError);
+                    messageFailures.push({ applicationId: application._id });
+                }
+            }
+        }
+
+        console.log(`[App Bulk] Employer ${req.user.id} ran "${action}" on ${applications.length} application(s) for job ${job._id}: ${updatedApplications.length} updated, ${messaged} messaged, ${messageSkipped} skipped for blind review, ${messageFailures.length} message(s) failed`);
+
+        return res.json({
+            matched: applications.length,
+            updated: updatedApplications.length,
+            messaged,
+            messageFailures,
+            messageSkipped,
+            // Ids that don't belong to this job (or no longer exist)
+            notFound: uniqueIds.length - applications.length
+        });
+    } catch (error) {
+        console.error('Error running bulk application action:', error);
+        if (error.name === 'CastError') {
+            return res.status(400).json({ message: 'Invalid application ID' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
 // Get application details
 router.get('/:id', auth, async (req, res) => {
     try {
         const application = await JobApplication.findById(req.params.id)
             .populate({
                 path: 'job',
-                select: 'title company location type salary status',
+                select: 'title company location type salary status organization blindReview pipelineStages',
                 populate: {
                     path: 'employer',
                     select: 'name companyName'
                 }
             })
-            .populate('jobSeeker', 'name firstName lastName email skills');
+            .populate('jobSeeker', BLIND_SEEKER_FIELDS);
 
         if (!application) {
             return res.status(404).json({ message: 'Application not found' });
         }
 
-        // Check authorization - only the job seeker who applied or the employer can view
-        if (
-            req.user.id !== application.jobSeeker._id.toString() && 
-            req.user.id !== application.job.employer._id.toString()
-        ) {
+        // Check authorization - only the job seeker who applied or the hiring team can view
+        const isApplicant = req.user.id === application.jobSeeker._id.toString();
+        if (!isApplicant && !canAccessJob(req.user, application.job, 'view_applications')) {
             return res.status(403).json({ message: 'Not authorized to view this application' });
         }
 
@@ -444,7 +692,15 @@ router.get('/:id', auth, async (req, res) => {
         const interview = await Interview.findOne({ jobApplication: application._id });
         
         // Convert to plain object to add interview data
-        const appResponse = application.toObject();
+        let appResponse;
+        if (isApplicant) {
+            appResponse = applicantView(application, await getJobPipeline(application.job));
+            appResponse.job = toPublicJob(application.job);
+        } else {
+            appResponse = isIdentityHidden(application.job, application)
+                ? blindApplication(application.toObject())
+                : application.toObject();
+        }
         
         if (interview) {
             appResponse.interview = interview;
@@ -468,8 +724,8 @@ router.get('/job/:jobId/count', auth, async (req, res) => {
             return res.status(404).json({ message: 'Job not found' });
         }
 
-        // If employer, verify they own the job
-        if (req.user.type === 'employer' && job.employer.toString() !== req.user.id) {
+        // If employer, verify the job belongs to their company
+        if (req.user.type === 'employer' && !canAccessJob(req.user, job, 'view_applications')) {
             return res.status(403).json({ message: 'Not authorized to view these applications' });
         }
 
@@ -0,0 +1,117 @@
+const express = require('express');
+const router = express.Router();
+const JobTemplate = require('../models/JobTemplate');
+const Job = require('../models/Job');
+const auth = require('../middleware/auth');
+const { hasPermission, canAccessJob, companyJobFilter, getCompanyAccountId } = require('../services/organizationService');
+
+// Fields copied between jobs and templates
+const TEMPLATE_FIELDS = ['title', 'description', 'requirements', 'location', 'type', 'salary', 'skills', 'experienceLevel', 'workMode', 'screeningQuestions'];
+
+const pickTemplateFields = (source) => {
+    const fields = {};
+    TEMPLATE_FIELDS.forEach(field => {
+        if (source[field] !== undefined && source[field] !== null) {
+            fields[field] = source[field];
+        }
+    });
+    return fields;
+};
+
+// @route   GET /api/job-templates
+// @desc    Get all job templates of the current employer's company
+// @access  Private (Employer team members who can manage jobs)
+router.get('/', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Only employers can access job templates' });
+        }
+        if (!hasPermission(req.user, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Your team role does not allow managing jobs' });
+        }
+
+        // Templates are keyed like jobs, so the company's job filter finds them too
+        const templates = await JobTemplate.find(companyJobFilter(req.user)).sort({ updatedAt: -1 });
+        res.json(templates);
+    } catch (error) {
+        console.error('[Job Templates] Error fetching templates:', error);
+        res.status(500).json({ message: 'Error fetching job templates' });
+    }
+});
+
+// @route   POST /api/job-templates
+// @desc    Create a job template, either from the request body or from an existing job (jobId)
+// @access  Private (Employer team members who can manage jobs)
+router.post('/', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Only employers can create job templates' });
+        }
+        if (!hasPermission(req.user, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Your team role does not allow managing jobs' });
+        }
+
+        const { name, jobId } = req.body;
+        let fields = pickTemplateFields(req.body);
+
+        if (jobId) {
+            console.log(`[Job Templates] Creating template from job ${jobId} for employer ${req.user.id}`);
+            const job = await Job.findById(jobId);
+            if (!job) {
+                return res.status(404).json({ message: 'Job not found' });
+            }
+            if (!canAccessJob(req.user, job, 'manage_jobs')) {
+                return res.status(403).json({ message: 'Not authorized to use this job as a template' });
+            }
+            fields = pickTemplateFields(job.toObject());
+        }
+
+        // Saved under the company account so the whole team can use it
+        const employerId = await getCompanyAccountId(req.user);
+        const template = new JobTemplate({
+            ...fields,
+            name: name || fields.title,
+            employer: employerId,
+            organization: req.user.organization,
+            createdBy: employerId.equals(req.user._id) ? undefined : req.user._id,
+            sourceJob: jobId || undefined
+        });
+        await template.save();
+        console.log(`[Job Templates] Template "${template.name}" saved with ID: ${template._id}`);
+
+        res.status(201).json(template);
+    } catch (error) {
+        console.error('[Job Templates] Error creating template:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ 
+                message: 'Validation failed', 
+                errors: error.errors 
+            });
+        }
+        res.status(500).json({ message: 'Error creating job template' });
+    }
+});
+
+// @route   DELETE /api/job-templates/:id
+// @desc    Delete a job template
+// @access  Private (Employer team members who can manage jobs)
+router.delete('/:id', auth, async (req, res) => {
+    try {
+        const template = await JobTemplate.findById(req.params.id);
+        if (!template) {
+            return res.status(404).json({ message: 'Template not found' });
+        }
+        if (!canAccessJob(req.user, template, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Not authorized to delete this template' });
+        }
+
+        await JobTemplate.deleteOne({ _id: template._id });
+        console.log(`[Job Templates] Template ${req.params.id} deleted`);
+        res.json({ message: 'Template removed' });
+    } catch (error) {
+        console.error('[Job Templates] Error deleting template:', error);
+        res.status(500).json({ message: 'Error deleting job template' });
+    }
+});
+
+module.exports = router;
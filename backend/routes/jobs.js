@@ -2,9 +2,33 @@ const express = require('express');
 const router = express.Router();
 const { body, validationResult } = require('express-validator');
 const jwt = require('jsonwebtoken');
+const multer = require('multer');
+const path = require('path');
 const Job = require('../models/Job');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { parseSearchQuery, buildHighlights, buildJobQuery, getJobFacets } = require('../services/jobSearchService');
+const { liveJobFilter, resolveEmployerStatus, validateLifecycleFields, buildRepost } = require('../services/jobLifecycleService');
+const { buildJobPostingJsonLd } = require('../services/seoService');
+const { validateScreeningQuestions } = require('../services/screeningQuestionService');
+const { toPublicJob } = require('../services/publicJobService');
+const { DEFAULT_PIPELINE, normalizePipeline, validatePipeline, getJobPipeline } = require('../services/pipelineService');
+const { validateInterviewKits, normalizeInterviewKits, getInterviewKits } = require('../services/interviewKitService');
+const JobApplication = require('../models/JobApplication');
+const { hasPermission, getJobRole, canAccessJob, companyJobFilter, getCompanyAccountId } = require('../services/organizationService');
+const { MAX_IMPORT_ROWS, EXPORT_COLUMNS, toCsv, parseImportFile, importJobs, jobToRow } = require('../services/jobImportService');
+
+// --- Multer Setup for bulk import files (kept in memory, parsed straight away) ---
+const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 2 * 1024 * 1024 }, // 2MB
+    fileFilter: (req, file, cb) => {
+        const ext = path.extname(file.originalname).toLowerCase();
+        ext === '.csv' || ext === '.json'
+            ? cb(null, true)
+            : cb(new Error('Invalid file type. Only CSV and JSON files are allowed.'), false);
+    }
+});
 
 console.log('[DIAGNOSTIC] backend/routes/jobs.js loaded successfully (minimal).');
 
@@ -22,12 +46,17 @@ router.post('/', auth, async (req, res) => {
             console.log(`[Job Post] Access denied: User ${req.user.id} is not an employer.`);
             return res.status(403).json({ message: 'Only employers can post jobs' });
         }
+        if (!hasPermission(req.user, 'manage_jobs')) {
+            console.log(`[Job Post] Access denied: User ${req.user.id} has team role ${req.user.organizationRole}.`);
+            return res.status(403).json({ message: 'Your team role does not allow posting jobs' });
+        }
 
-        // Added log: Fetching employer details
-        console.log(`[Job Post] Fetching employer details for user ID: ${req.user.id}`);
-        const employer = await User.findById(req.user.id); // Use req.user.id consistently
+        // Team members post under the company (organization owner) account
+        const employerId = await getCompanyAccountId(req.user);
+        console.log(`[Job Post] Fetching employer details for user ID: ${employerId}`);
+        const employer = await User.findById(employerId);
         if (!employer) {
-             console.error(`[Job Post] Employer not found in database for ID: ${req.user.id}`);
+             console.error(`[Job Post] Employer not found in database for ID: ${employerId}`);
              return res.status(404).json({ message: 'Employer account not found.' });
         }
         if (!employer.companyName) {
@@ -36,16 +65,49 @@ router.post('/', auth, async (req, res) => {
         }
         console.log(`[Job Post] Employer found: ${employer.email}, Company: ${employer.companyName}`);
 
+        const lifecycleError = validateLifecycleFields(req.body);
+        if (lifecycleError) {
+            console.log(`[Job Post] Rejected lifecycle fields: ${lifecycleError}`);
+            return res.status(400).json({ message: lifecycleError });
+        }
+        const screeningError = validateScreeningQuestions(req.body.screeningQuestions);
+        if (screeningError) {
+            console.log(`[Job Post] Rejected screening questions: ${screeningError}`);
+            return res.status(400).json({ message: screeningError });
+        }
+        // A custom pipeline is optional; without one the job uses the company's default
+        const pipelineStages = req.body.pipelineStages || [];
+        if (pipelineStages.length > 0) {
+            const pipelineError = validatePipeline(pipelineStages);
+            if (pipelineError) {
+                console.log(`[Job Post] Rejected pipeline: ${pipelineError}`);
+                return res.status(400).json({ message: pipelineError });
+            }
+        }
+        const interviewKits = req.body.interviewKits || [];
+        const kitsError = validateInterviewKits(interviewKits);
+        if (kitsError) {
+            console.log(`[Job Post] Rejected interview kits: ${kitsError}`);
+            return res.status(400).json({ message: kitsError });
+        }
+
         // Added log: Creating Job object
         console.log(`[Job Post] Creating new Job document...`);
         const job = new Job({
             ...req.body,
+            status: resolveEmployerStatus(req.body.status, req.body.publishAt),
+            publishedAt: undefined, // Set by the model/scheduler when the job goes live
+            repostedFrom: undefined,
+            pipelineStages: pipelineStages.length > 0 ? normalizePipeline(pipelineStages) : [],
+            interviewKits: normalizeInterviewKits(interviewKits),
             company: employer.companyName, // Use the company name from employer profile
-            employer: req.user.id // Use req.user.id consistently
+            employer: employer._id,
+            organization: req.user.organization,
+            postedBy: employer._id.equals(req.user._id) ? undefined : req.user._id
         });
 
         // Added log: Saving job to database
-        console.log(`[Job Post] Attempting to save job titled "${job.title}" to database...`);
+        console.log(`[Job Post] Attempting to save job titled "${job.title}" (status: ${job.status}) to database...`);
         await job.save();
         console.log(`[Job Post] Job saved successfully with ID: ${job._id}`);
 
@@ -67,6 +129,64 @@ router.post('/', auth, async (req, res) => {
     }
 });
 
+// @route   POST /api/jobs/import
+// @desc    Bulk import jobs from a CSV or JSON file (multipart "file"). Pass dryRun=true to validate and preview only.
+// @access  Private (Employers only)
+router.post('/import', auth, (req, res, next) => {
+    importUpload.single('file')(req, res, (err) => {
+        if (err) {
+            console.error('[Job Import] Upload error:', err.message);
+            return res.status(400).json({ message: err.message });
+        }
+        next();
+    });
+}, async (req, res) => {
+    try {
+        console.log(`[Job Import] Received import request from employer ID: ${req.user.id}`);
+
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Only employers can import jobs' });
+        }
+        if (!hasPermission(req.user, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Your team role does not allow posting jobs' });
+        }
+        if (!req.file) {
+            return res.status(400).json({ message: 'Please upload a CSV or JSON file' });
+        }
+
+        const employer = await User.findById(await getCompanyAccountId(req.user));
+        if (!employer || !employer.companyName) {
+            return res.status(400).json({ message: 'Please complete your company profile before posting jobs' });
+        }
+
+        const format = path.extname(req.file.originalname).toLowerCase() === '.json' ? 'json' : 'csv';
+        let rows;
+        try {
+            rows = parseImportFile(req.file.buffer.toString('utf8'), format);
+        } catch (parseError) {
+            console.error(`[Job Import] Failed to parse ${format} file:`, parseError.message);
+            return res.status(400).json({ message: `Could not read the ${format.toUpperCase()} file: ${parseError.message}` });
+        }
+
+        if (rows.length === 0) {
+            return res.status(400).json({ message: 'The file does not contain any jobs' });
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ message: `Too many jobs in one file (maximum ${MAX_IMPORT_ROWS})` });
+        }
+
+        const dryRun = req.body.dryRun === 'true' || req.body.dryRun === true;
+        console.log(`[Job Import] Processing ${rows.length} ${format} rows (dry run: ${dryRun})...`);
+        const summary = await importJobs(rows, employer, dryRun, req.user);
+        console.log(`[Job Import] ${summary.valid}/${summary.total} rows valid, ${summary.imported} imported.`);
+
+        res.status(dryRun || summary.imported === 0 ? 200 : 201).json(summary);
+    } catch (error) {
+        console.error(`[Job Import] Error importing jobs for employer ID ${req?.user?.id}:`, error);
+        res.status(500).json({ message: 'Error importing jobs' });
+    }
+});
+
 // @route   GET /api/jobs
 // @desc    Get all job postings with optional filters
 // @access  Public (but adds bookmark status if authenticated)
@@ -96,125 +216,55 @@ router.get('/', async (req, res) => {
         // --- End bookmark fetching ---
 
         const { 
-            location, 
-            minSalary, // Now assumed to be PKR
-            maxSalary, // Now assumed to be PKR
-            jobType, 
             keywords,
-            skills, 
-            experienceLevel, 
+            sort,
             page = 1,
             limit = 10
         } = req.query;
-        
-        // Build query filters
-        const query = { status: 'open' };
-        
-        if (location) {
-            query.location = { $regex: location, $options: 'i' };
-             console.log(`[Job Search] Applied filter: Location contains "${location}"`);
-        }
-        
-        // --- Salary Filter (Assuming PKR) ---
-        if (minSalary || maxSalary) {
-            const salaryFilter = {};
-            const filterMin = minSalary ? Number(minSalary) : 0; // Use 0 if no min filter
-            const filterMax = maxSalary ? Number(maxSalary) : Infinity; // Use Infinity if no max filter
-
-            // Logic: A job's range (jobMin-jobMax) overlaps with the filter range (filterMin-filterMax) if:
-            // jobMin <= filterMax AND jobMax >= filterMin
-            // We need to query based on the fields in the database (`salary.min`, `salary.max`)
-            salaryFilter['$and'] = [
-                { 'salary.min': { $lte: filterMax } }, // Job's min salary must be less than or equal to filter's max
-                { 'salary.max': { $gte: filterMin } }  // Job's max salary must be greater than or equal to filter's min
-            ];
-            
-            // Add this $and condition to the main query
-            if (!query.$and) {
-                query.$and = [];
-            }
-            query.$and.push(salaryFilter);
 
-            console.log(`[Job Search] Applied filter: Salary range PKR overlaps with (${filterMin === 0 ? 'any' : filterMin} - ${filterMax === Infinity ? 'any' : filterMax})`);
-        }
-        // --- End Salary Filter ---
-        
-        if (jobType) {
-            query.type = jobType;
-            console.log(`[Job Search] Applied filter: Job Type is "${jobType}"`);
-        }
+        // Relevance ordering only makes sense for a keyword search; otherwise newest first
+        const sortBy = keywords && sort !== 'newest' ? 'relevance' : 'newest';
         
-        // Handle keywords filter
-        if (keywords) {
-            const keywordRegex = { $regex: keywords, $options: 'i' };
-            query.$or = [
-                { title: keywordRegex },
-                { description: keywordRegex },
-                { requirements: keywordRegex },
-                { company: keywordRegex } // Also search company name
-            ];
-            console.log(`[Job Search] Applied filter: Keywords contain "${keywords}" (in title, desc, reqs, company)`);
-        }
-
-        // Handle skills filter (assuming comma-separated string)
-        if (skills) {
-            const skillsArray = skills.split(',').map(s => s.trim()).filter(s => s);
-            if (skillsArray.length > 0) {
-                const skillRegexes = skillsArray.map(skill => new RegExp(skill, 'i'));
-                 // Add to $and if other conditions exist, or set directly
-                 if (query.$and) {
-                     query.$and.push({ skills: { $in: skillRegexes } }); 
-                 } else if (query.$or) {
-                    // If keywords created an $or, we need to wrap both in $and
-                    query.$and = [ { $or: query.$or }, { skills: { $in: skillRegexes } } ];
-                    delete query.$or;
-                 } else {
-                    query.skills = { $in: skillRegexes };
-                 }
-                console.log(`[Job Search] Applied filter: Skills include any of [${skillsArray.join(', ')}]`);
-            }
-        }
-
-        // Handle experience level filter
-        if (experienceLevel) {
-            // Assuming 'experienceLevel' field exists in the Job model
-            query.experienceLevel = experienceLevel;
-            console.log(`[Job Search] Applied filter: Experience Level is "${experienceLevel}"`);
-        }
+        // Build query filters (shared with the facet counts below)
+        const query = buildJobQuery(req.query, { log: true });
         
-        // IMPORTANT: Combine keyword $or with other $and conditions if both exist
-        const keywordOrCondition = query.$or;
-        delete query.$or; // Temporarily remove $or
-
-        // Now, if we have both keyword conditions and other $and conditions (like salary or skills),
-        // nest the $or inside the main $and array.
-        if (keywordOrCondition) {
-            if (!query.$and) { query.$and = []; }
-            query.$and.push({ $or: keywordOrCondition });
-            console.log(`[Job Search] Combined keyword search ($or) with other filters ($and).`);
-        }
-
         // Added log: Final generated query
         console.log(`[Job Search] Final DB Query:`, JSON.stringify(query));
         
         const skip = (parseInt(page) - 1) * parseInt(limit);
         
-        const jobs = await Job.find(query)
+        // Project the text score so it can be sorted on and returned as searchScore
+        const projection = keywords ? { score: { $meta: 'textScore' } } : {};
+        const sortOrder = sortBy === 'relevance'
+            ? { score: { $meta: 'textScore' }, createdAt: -1 }
+            : { createdAt: -1 };
+        console.log(`[Job Search] Sorting by ${sortBy}.`);
+
+        const jobs = await Job.find(query, projection)
             .populate('employer', 'name email companyName companyLogo companyDescription')
-            .sort({ createdAt: -1 })
+            .sort(sortOrder)
             .skip(skip)
             .limit(parseInt(limit));
             
         const total = await Job.countDocuments(query);
 
+        // Facet counts - each facet is counted against every active filter except its own
+        const facets = await getJobFacets(req.query);
+
         // Added log: Number of results found
         console.log(`[Job Search] Found ${total} total matching jobs. Returning page ${page} with ${jobs.length} jobs.`);
 
-        // --- Add isBookmarked field --- 
+        // --- Add isBookmarked field (and search score/highlights for keyword searches) --- 
+        const parsedQuery = keywords ? parseSearchQuery(keywords) : null;
         const jobsWithBookmarkStatus = jobs.map(job => {
-            const jobObject = job.toObject(); // Convert Mongoose doc to plain object
+            const jobObject = toPublicJob(job); // Plain object without hiring-team-only fields
             jobObject.isBookmarked = userBookmarks.has(jobObject._id.toString());
             // delete jobObject.bookmarkedBy; // Optional: remove the potentially misleading field
+            if (parsedQuery) {
+                jobObject.searchScore = jobObject.score;
+                jobObject.highlights = buildHighlights(jobObject, parsedQuery);
+                delete jobObject.score;
+            }
             return jobObject;
         });
         // --- End adding isBookmarked ---
@@ -226,6 +276,8 @@ router.get('/', async (req, res) => {
 
         res.json({
             jobs: jobsWithBookmarkStatus, // Send modified array
+            sort: sortBy,
+            facets,
             pagination: {
                 total,
                 page: parseInt(page),
@@ -241,7 +293,7 @@ router.get('/', async (req, res) => {
 });
 
 // @route   GET /api/jobs/employer
-// @desc    Get all jobs posted by the current employer
+// @desc    Get all jobs of the current employer's company (optionally exported with ?format=csv|json)
 // @access  Private (Employers only)
 router.get('/employer', auth, async (req, res) => {
     try {
@@ -249,8 +301,22 @@ router.get('/employer', auth, async (req, res) => {
             return res.status(403).json({ message: 'Only employers can access this route' });
         }
 
-        const jobs = await Job.find({ employer: req.user._id })
+        const jobs = await Job.find(companyJobFilter(req.user))
             .sort({ createdAt: -1 });
+
+        // ?format=csv|json downloads the jobs in the same layout the bulk import reads
+        const { format } = req.query;
+        if (format === 'csv' || format === 'json') {
+            const rows = jobs.map(jobToRow);
+            const filename = `jobs-export-${new Date().toISOString().split('T')[0]}.${format}`;
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            if (format === 'csv') {
+                res.type('text/csv');
+                return res.send(toCsv(rows, EXPORT_COLUMNS));
+            }
+            return res.json(rows);
+        }
+
         res.json(jobs);
     } catch (error) {
         console.error('Error fetching employer jobs:', error);
@@ -270,7 +336,7 @@ router.get('/bookmarks/me', auth, async (req, res) => {
         const jobs = await Job.find({ bookmarkedBy: req.user._id })
             .populate('employer', 'name email companyName companyLogo companyDescription')
             .sort({ createdAt: -1 });
-        res.json(jobs);
+        res.json(jobs.map(toPublicJob));
     } catch (error) {
         console.error('Error fetching bookmarked jobs:', error);
         res.status(500).json({ message: 'Error fetching bookmarked jobs' });
@@ -285,12 +351,15 @@ router.get('/:id', async (req, res) => {
     try {
         // --- Try to get logged-in user's bookmarks --- 
         let userBookmarks = new Set();
+        let viewer = null;
         const token = req.header('Authorization')?.replace('Bearer ', '');
         if (token) {
             try {
                 const decoded = jwt.verify(token, process.env.JWT_SECRET);
                 if (decoded.user?.id) {
-                    const user = await User.findById(decoded.user.id).select('bookmarks');
+                    // Team fields decide whether the viewer works on this job
+                    const user = await User.findById(decoded.user.id).select('bookmarks type organization organizationRole');
+                    viewer = user;
                     if (user && user.bookmarks) {
                         userBookmarks = new Set(user.bookmarks.map(id => id.toString()));
                     }
@@ -308,6 +377,12 @@ router.get('/:id', async (req, res) => {
             return res.status(404).json({ message: 'Job not found' });
         }
 
+        // Drafts and scheduled jobs aren't published yet - only the company's team can see them
+        const isTeamViewer = Boolean(getJobRole(viewer, job));
+        if (['draft', 'scheduled'].includes(job.status) && !isTeamViewer) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+
         // Track this view in job analytics
         if (job.status === 'open') {
             try {
@@ -400,7 +475,8 @@ router.get('/:id', async (req, res) => {
         }
 
         // --- Add isBookmarked field --- 
-        const jobObject = job.toObject();
+        // Applicants see the screening questions but not which answers pass them, nor the team's kits and pipeline
+        const jobObject = isTeamViewer ? job.toObject() : toPublicJob(job);
         jobObject.isBookmarked = userBookmarks.has(jobObject._id.toString());
         // delete jobObject.bookmarkedBy; // Optional
         // --- End adding isBookmarked ---
@@ -414,6 +490,29 @@ router.get('/:id', async (req, res) => {
     }
 });
 
+// @route   GET /api/jobs/:id/structured-data
+// @desc    Get schema.org JobPosting JSON-LD for a live job
+// @access  Public
+router.get('/:id/structured-data', async (req, res) => {
+    try {
+        const job = await Job.findOne({ _id: req.params.id, ...liveJobFilter() })
+            .populate('employer', 'companyName companyLogo companyWebsite');
+
+        // Closed, expired and unpublished jobs must not be advertised to search engines
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+
+        res.json(buildJobPostingJsonLd(job));
+    } catch (error) {
+        console.error(`[Job Structured Data] Error building JSON-LD for job ${req.params.id}:`, error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        res.status(500).json({ message: 'Error building job structured data' });
+    }
+});
+
 // @route   PUT /api/jobs/:id
 // @desc    Update a job posting
 // @access  Private (Employers only)
@@ -443,26 +542,57 @@ router.put('/:id', auth, async (req, res) => {
 
         // Check if the user is the employer who posted the job
         console.log(`[Job Update] Verifying ownership: Job Employer=${job.employer}, Requesting User=${userId}`);
-        if (job.employer.toString() !== userId.toString()) {
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
              console.log(`[Job Update] Authorization failed: User ${userId} does not own job ${jobId}.`);
             return res.status(403).json({ message: 'Not authorized to update this job' });
         }
         console.log(`[Job Update] Ownership verified.`);
 
+        if (req.body.status === 'expired' || (req.body.status && job.status === 'expired' && req.body.status !== 'closed')) {
+            console.log(`[Job Update] Rejected status change ${job.status} -> ${req.body.status}`);
+            return res.status(400).json({ message: 'Expired jobs can only be closed or reposted' });
+        }
+        const lifecycleError = validateLifecycleFields({
+            status: req.body.status,
+            publishAt: req.body.publishAt !== undefined ? req.body.publishAt : job.publishAt,
+            expiresAt: req.body.expiresAt
+        });
+        if (lifecycleError) {
+            console.log(`[Job Update] Rejected lifecycle fields: ${lifecycleError}`);
+            return res.status(400).json({ message: lifecycleError });
+        }
+        const screeningError = validateScreeningQuestions(req.body.screeningQuestions);
+        if (screeningError) {
+            console.log(`[Job Update] Rejected screening questions: ${screeningError}`);
+            return res.status(400).json({ message: screeningError });
+        }
+
         // Update fields individually to handle nested objects properly
         const updateFields = {
             title: req.body.title,
             description: req.body.description,
             requirements: req.body.requirements,
+            skills: req.body.skills,
+            experienceLevel: req.body.experienceLevel,
+            workMode: req.body.workMode,
+            screeningQuestions: req.body.screeningQuestions,
             location: req.body.location,
             type: req.body.type,
             // Ensure salary object exists and handle optional fields
             salary: {
                 min: req.body.salary?.min,
                 max: req.body.salary?.max,
-                currency: req.body.salary?.currency || job.salary?.currency || 'PKR' // Keep existing or default
+                currency: req.body.salary?.currency || job.salary?.currency || 'PKR', // Keep existing or default
+                period: req.body.salary?.period || job.salary?.period || 'year'
             },
-            status: req.body.status || job.status // Allow updating status if provided
+            publishAt: req.body.publishAt === '' ? null : req.body.publishAt,
+            expiresAt: req.body.expiresAt === '' ? null : req.body.expiresAt,
+            // Allow updating status if provided; a future publish date keeps the job scheduled
+            status: resolveEmployerStatus(
+                req.body.status,
+                req.body.publishAt !== undefined ? req.body.publishAt : job.publishAt,
+                job.status
+            )
             // Company field should not be updated manually
         };
 
@@ -478,8 +608,9 @@ router.put('/:id', auth, async (req, res) => {
         });
         console.log(`[Job Update] Applying update fields:`, JSON.stringify(updateFields));
 
-        // Update the job using findByIdAndUpdate for atomicity (optional but good practice)
-        const updatedJob = await Job.findByIdAndUpdate(jobId, { $set: updateFields }, { new: true, runValidators: true });
+        // Save through the document so draft-aware validation and the pre-save hook run
+        job.set(updateFields);
+        const updatedJob = await job.save();
         
         // Re-populate employer details if needed for response (usually not necessary for update confirmation)
         // await updatedJob.populate('employer', 'name email companyName'); 
@@ -504,6 +635,215 @@ router.put('/:id', auth, async (req, res) => {
     }
 });
 
+// @route   POST /api/jobs/:id/repost
+// @desc    Clone an expired job as a new open posting
+// @access  Private (Employers only)
+router.post('/:id/repost', auth, async (req, res) => {
+    const jobId = req.params.id;
+    const userId = req.user.id;
+    try {
+        console.log(`[Job Repost] Received repost request for job ID: ${jobId} from user ID: ${userId}`);
+
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Only employers can repost jobs' });
+        }
+
+        const job = await Job.findById(jobId);
+        if (!job) {
+            console.log(`[Job Repost] Job not found with ID: ${jobId}`);
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
+            console.log(`[Job Repost] Authorization failed: User ${userId} does not own job ${jobId}.`);
+            return res.status(403).json({ message: 'Not authorized to repost this job' });
+        }
+        if (job.status !== 'expired') {
+            return res.status(400).json({ message: 'Only expired jobs can be reposted' });
+        }
+
+        const repost = new Job(buildRepost(job));
+        await repost.save();
+        console.log(`[Job Repost] Job ${jobId} reposted as ${repost._id}`);
+
+        res.status(201).json(repost);
+    } catch (error) {
+        console.error(`[Job Repost] Error reposting job ${jobId} for user ${userId}:`, error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ 
+                message: 'Validation failed', 
+                errors: error.errors 
+            });
+        }
+        res.status(500).json({ message: 'Error reposting job' });
+    }
+});
+
+// @route   GET /api/jobs/:id/pipeline
+// @desc    Get the hiring pipeline stages that apply to a job
+// @access  Private (Employers only)
+router.get('/:id/pipeline', auth, async (req, res) => {
+    try {
+        const job = await Job.findById(req.params.id);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'view_applications')) {
+            return res.status(403).json({ message: 'Not authorized to view this job\'s pipeline' });
+        }
+
+        const stages = await getJobPipeline(job);
+        res.json({
+            stages,
+            // Where the stages come from: the job itself, the company default, or the built-in pipeline
+            source: job.pipelineStages.length > 0 ? 'job' : stages === DEFAULT_PIPELINE ? 'default' : 'company'
+        });
+    } catch (error) {
+        console.error(`[Job Pipeline] Error fetching pipeline for job ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Error fetching job pipeline' });
+    }
+});
+
+// @route   PUT /api/jobs/:id/pipeline
+// @desc    Set custom pipeline stages for a job (send stages: [] to go back to the company default)
+// @access  Private (Employers only)
+router.put('/:id/pipeline', auth, async (req, res) => {
+    const jobId = req.params.id;
+    try {
+        const job = await Job.findById(jobId);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Not authorized to change this job\'s pipeline' });
+        }
+
+        const { stages = [] } = req.body;
+        if (stages.length > 0) {
+            const pipelineError = validatePipeline(stages);
+            if (pipelineError) {
+                console.log(`[Job Pipeline] Rejected pipeline for job ${jobId}: ${pipelineError}`);
+                return res.status(400).json({ message: pipelineError });
+            }
+        }
+        const normalized = normalizePipeline(stages);
+
+        // Applications in a removed stage fall back to the first stage of the same category,
+        // so only refuse if a whole category they're in would disappear
+        const nextPipeline = normalized.length > 0 ? normalized : await getJobPipeline({ employer: job.employer });
+        const categories = nextPipeline.map(stage => stage.category);
+        const stranded = await JobApplication.countDocuments({ job: job._id, status: { $nin: categories } });
+        if (stranded > 0) {
+            return res.status(400).json({
+                message: `${stranded} application(s) are in a kind of stage this pipeline doesn't have. Move them to another stage first.`
+            });
+        }
+
+        job.pipelineStages = normalized;
+        await job.save();
+        console.log(`[Job Pipeline] Job ${jobId} now uses ${normalized.length > 0 ? `${normalized.length} custom stages` : 'the company default pipeline'}`);
+
+        res.json({
+            stages: await getJobPipeline(job),
+            source: normalized.length > 0 ? 'job' : nextPipeline === DEFAULT_PIPELINE ? 'default' : 'company'
+        });
+    } catch (error) {
+        console.error(`[Job Pipeline] Error updating pipeline for job ${jobId}:`, error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ 
+                message: 'Validation failed', 
+                errors: error.errors 
+            });
+        }
+        res.status(500).json({ message: 'Error updating job pipeline' });
+    }
+});
+
+// @route   PUT /api/jobs/:id/blind-review
+// @desc    Turn blind review on or off for a job's applicants
+// @access  Private (Employers only)
+router.put('/:id/blind-review', auth, async (req, res) => {
+    const jobId = req.params.id;
+    try {
+        const job = await Job.findById(jobId);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Not authorized to change this job\'s review settings' });
+        }
+        if (typeof req.body.enabled !== 'boolean') {
+            return res.status(400).json({ message: 'enabled must be true or false' });
+        }
+
+        job.blindReview = req.body.enabled;
+        await job.save();
+        console.log(`[Blind Review] ${req.user.id} turned blind review ${job.blindReview ? 'on' : 'off'} for job ${jobId}`);
+
+        res.json({ blindReview: job.blindReview });
+    } catch (error) {
+        console.error(`[Blind Review] Error updating job ${jobId}:`, error);
+        res.status(500).json({ message: 'Error updating blind review' });
+    }
+});
+
+// @route   GET /api/jobs/:id/interview-kits
+// @desc    Get the interview kit (scorecard) for each interview type on a job
+// @access  Private (Employers only)
+router.get('/:id/interview-kits', auth, async (req, res) => {
+    try {
+        const job = await Job.findById(req.params.id);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'view_applications')) {
+            return res.status(403).json({ message: 'Not authorized to view this job\'s interview kits' });
+        }
+
+        res.json({ kits: getInterviewKits(job) });
+    } catch (error) {
+        console.error(`[Interview Kits] Error fetching kits for job ${req.params.id}:`, error);
+        res.status(500).json({ message: 'Error fetching interview kits' });
+    }
+});
+
+// @route   PUT /api/jobs/:id/interview-kits
+// @desc    Set the job's custom interview kits (interview types left out use the standard scorecard)
+// @access  Private (Employers only)
+router.put('/:id/interview-kits', auth, async (req, res) => {
+    const jobId = req.params.id;
+    try {
+        const job = await Job.findById(jobId);
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
+            return res.status(403).json({ message: 'Not authorized to change this job\'s interview kits' });
+        }
+
+        const { kits = [] } = req.body;
+        const kitsError = validateInterviewKits(kits);
+        if (kitsError) {
+            console.log(`[Interview Kits] Rejected kits for job ${jobId}: ${kitsError}`);
+            return res.status(400).json({ message: kitsError });
+        }
+
+        job.interviewKits = normalizeInterviewKits(kits);
+        await job.save();
+        console.log(`[Interview Kits] Job ${jobId} now has ${job.interviewKits.length} custom interview kit(s)`);
+
+        res.json({ kits: getInterviewKits(job) });
+    } catch (error) {
+        console.error(`[Interview Kits] Error updating kits for job ${jobId}:`, error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ 
+                message: 'Validation failed', 
+                errors: error.errors 
+            });
+        }
+        res.status(500).json({ message: 'Error updating interview kits' });
+    }
+});
+
 // @route   DELETE /api/jobs/:id
 // @desc    Delete a job posting
 // @access  Private (Employers only)
@@ -532,7 +872,7 @@ router.delete('/:id', auth, async (req, res) => {
 
         // Check if the user is the employer who posted the job
         console.log(`[Job Delete] Verifying ownership: Job Employer=${job.employer}, Requesting User=${userId}`);
-        if (job.employer.toString() !== userId.toString()) {
+        if (!canAccessJob(req.user, job, 'manage_jobs')) {
             console.log(`[Job Delete] Authorization failed: User ${userId} does not own job ${jobId}.`);
             return res.status(403).json({ message: 'Not authorized to delete this job' });
         }
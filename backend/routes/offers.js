@@ -0,0 +1,476 @@
+const express = require('express');
+const router = express.Router();
+const Offer = require('../models/Offer');
+const JobApplication = require('../models/JobApplication');
+const Job = require('../models/Job');
+const User = require('../models/User');
+const Message = require('../models/Message');
+const auth = require('../middleware/auth');
+const emailTransporter = require('../config/emailConfig');
+const { canAccessJob } = require('../services/organizationService');
+const { getJobPipeline, moveToCategory } = require('../services/pipelineService');
+const { isIdentityHidden } = require('../services/blindReviewService');
+const { toPublicJob } = require('../services/publicJobService');
+const { escapeHtml } = require('../services/htmlService');
+const {
+    OPEN_OFFER_STATUSES,
+    RESPONSE_ACTIONS,
+    OFFER_PLACEHOLDERS,
+    DEFAULT_OFFER_TEMPLATE,
+    formatSalary,
+    formatDate,
+    validateOfferTerms,
+    validateCounterOffer,
+    applyExpiry,
+    renderOfferLetterHtml,
+    buildOfferLetterPdf
+} = require('../services/offerService');
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const JOB_FIELDS = 'title company location employer organization pipelineStages';
+
+// Terms from the request body, in the shape the model stores
+const readTerms = (body) => ({
+    salary: body.salary && {
+        amount: body.salary.amount,
+        currency: String(body.salary.currency || 'PKR').toUpperCase()
+    },
+    startDate: body.startDate,
+    expiresAt: body.expiresAt,
+    letterTemplate: body.letterTemplate === undefined ? DEFAULT_OFFER_TEMPLATE : body.letterTemplate
+});
+
+// Offer with its job, expired on the way out if its deadline has passed
+const loadOffer = async (id) => {
+    const offer = await Offer.findById(id).populate('job', JOB_FIELDS);
+    if (offer && applyExpiry(offer)) {
+        await offer.save();
+    }
+    return offer;
+};
+
+// Tell the other side about an offer update with an in-app message and a best-effort email
+const notify = async (req, { offer, job, recipientId, subject, text }) => {
+    try {
+        const message = await Message.create({
+            sender: req.user._id,
+            receiver: recipientId,
+            content: text,
+            relatedJob: job._id
+        });
+        const io = req.app.get('io');
+        if (io) {
+            io.to(`user_${recipientId}`).emit('newMessage', message);
+        }
+    } catch (error) {
+        console.error(`[Offers] Failed to message ${recipientId} about offer ${offer._id}:`, error.message);
+    }
+
+    try {
+        const recipient = await User.findById(recipientId).select('email type');
+        if (!recipient || !recipient.email) return;
+        const link = recipient.type === 'jobseeker'
+            ? `${FRONTEND_URL}/applications`
+            : `${FRONTEND_URL}/jobs/${job._id}/applications`;
+        await emailTransporter.sendMail({
+            from: process.env.EMAIL_USER,
+            to: recipient.email,
+            subject,
+            // Subject and text carry job titles and candidate notes, so they're escaped
+            html: `
+                <h1>${escapeHtml(subject)}</h1>
+                <p>${escapeHtml(text)}</p>
+                <p><a href="${link}">View the offer</a></p>
+            `
+        });
+    } catch (error) {
+        console.error(`[Offers] Failed to email ${recipientId} about offer ${offer._id}:`, error.message);
+    }
+};
+
+const notifyCandidateOfOffer = (req, offer, job, revised) => notify(req, {
+    offer,
+    job,
+    recipientId: offer.jobSeeker,
+    subject: `${revised ? 'Updated job offer' : 'Job offer'}: ${job.title} at ${job.company}`,
+    text: `${job.company} has ${revised ? 'updated their' : 'sent you an'} offer for ${job.title}: ${formatSalary(offer.salary)}, ` +
+        `starting ${formatDate(offer.startDate)}. Please respond by ${formatDate(offer.expiresAt)}.`
+});
+
+// @route   GET /api/offers/template
+// @desc    Default offer letter text and the placeholders it can use
+// @access  Private (employer only)
+router.get('/template', auth, async (req, res) => {
+    if (req.user.type !== 'employer') {
+        return res.status(403).json({ message: 'Access denied. Only employers can make offers.' });
+    }
+    return res.json({ template: DEFAULT_OFFER_TEMPLATE, placeholders: OFFER_PLACEHOLDERS });
+});
+
+// @route   GET /api/offers/mine
+// @desc    Offers made to the current job seeker (drafts are not shown)
+// @access  Private (job seeker only)
+router.get('/mine', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'jobseeker') {
+            return res.status(403).json({ message: 'Access denied. Only job seekers receive offers.' });
+        }
+
+        const offers = await Offer.find({ jobSeeker: req.user._id, status: { $ne: 'draft' } })
+            .populate('job', 'title company location')
+            .sort({ createdAt: -1 });
+        for (const offer of offers) {
+            if (applyExpiry(offer)) await offer.save();
+        }
+        return res.json(offers);
+    } catch (error) {
+        console.error('[Offers] Error fetching job seeker offers:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   GET /api/offers/job/:jobId
+// @desc    All offers made for a job
+// @access  Private (employer team with access to the job's applications)
+router.get('/job/:jobId', auth, async (req, res) => {
+    try {
+        const job = await Job.findById(req.params.jobId).select('employer organization');
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (!canAccessJob(req.user, job, 'view_applications')) {
+            return res.status(403).json({ message: 'Not authorized to view offers for this job' });
+        }
+
+        const offers = await Offer.find({ job: job._id }).sort({ createdAt: -1 });
+        for (const offer of offers) {
+            if (applyExpiry(offer)) await offer.save();
+        }
+        return res.json(offers);
+    } catch (error) {
+        console.error('[Offers] Error fetching job offers:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/offers
+// @desc    Make an offer to an applicant, either as a draft or sent straight away
+// @access  Private (employer team with access to manage the job's applications)
+router.post('/', auth, async (req, res) => {
+    try {
+        const application = await JobApplication.findById(req.body.applicationId)
+            .populate('job', `${JOB_FIELDS} blindReview`);
+        if (!application || !application.job) {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        const job = application.job;
+        if (!canAccessJob(req.user, job, 'manage_applications')) {
+            return res.status(403).json({ message: 'Not authorized to make offers for this job' });
+        }
+        if (isIdentityHidden(job, application)) {
+            return res.status(400).json({ message: 'Move the candidate to an interview stage before making an offer' });
+        }
+
+        const openOffer = await Offer.findOne({ application: application._id, status: { $in: OPEN_OFFER_STATUSES } });
+        if (openOffer && !applyExpiry(openOffer)) {
+            return res.status(400).json({ message: 'This candidate already has an open offer. Revise or withdraw it first.' });
+        }
+        if (openOffer) await openOffer.save();
+
+        const terms = readTerms(req.body);
+        const termsError = validateOfferTerms(terms);
+        if (termsError) {
+            return res.status(400).json({ message: termsError });
+        }
+
+        const send = req.body.send === true;
+        const offer = new Offer({
+            ...terms,
+            application: application._id,
+            job: job._id,
+            jobSeeker: application.jobSeeker,
+            createdBy: req.user._id,
+            status: send ? 'sent' : 'draft',
+            sentAt: send ? new Date() : undefined,
+            history: [{ status: send ? 'sent' : 'draft', by: req.user._id }]
+        });
+        await offer.save();
+        console.log(`[Offers] ${req.user.id} created offer ${offer._id} for application ${application._id} (${offer.status})`);
+
+        if (send) {
+            await notifyCandidateOfOffer(req, offer, job, false);
+        }
+        return res.status(201).json(offer);
+    } catch (error) {
+        console.error('[Offers] Error creating offer:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: 'Validation failed', errors: error.errors });
+        }
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Application not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   PUT /api/offers/:id
+// @desc    Revise an offer's terms. Offers the candidate has already seen are sent again.
+// @access  Private (employer team with access to manage the job's applications)
+router.put('/:id', auth, async (req, res) => {
+    try {
+        const offer = await loadOffer(req.params.id);
+        if (!offer || !offer.job) {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        if (!canAccessJob(req.user, offer.job, 'manage_applications')) {
+            return res.status(403).json({ message: 'Not authorized to change this offer' });
+        }
+        if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+            return res.status(400).json({ message: `A ${offer.status} offer can't be changed` });
+        }
+
+        const terms = readTerms({
+            salary: offer.salary,
+            startDate: offer.startDate,
+            expiresAt: offer.expiresAt,
+            letterTemplate: offer.letterTemplate,
+            ...req.body
+        });
+        const termsError = validateOfferTerms(terms);
+        if (termsError) {
+            return res.status(400).json({ message: termsError });
+        }
+
+        const revised = offer.status !== 'draft';
+        Object.assign(offer, terms);
+        if (revised) {
+            offer.status = 'sent';
+            offer.sentAt = new Date();
+            offer.history.push({ status: 'sent', by: req.user._id, note: 'Revised offer sent' });
+        }
+        await offer.save();
+
+        if (revised) {
+            await notifyCandidateOfOffer(req, offer, offer.job, true);
+        }
+        return res.json(offer);
+    } catch (error) {
+        console.error('[Offers] Error updating offer:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: 'Validation failed', errors: error.errors });
+        }
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/offers/:id/send
+// @desc    Send a draft offer to the candidate
+// @access  Private (employer team with access to manage the job's applications)
+router.post('/:id/send', auth, async (req, res) => {
+    try {
+        const offer = await loadOffer(req.params.id);
+        if (!offer || !offer.job) {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        if (!canAccessJob(req.user, offer.job, 'manage_applications')) {
+            return res.status(403).json({ message: 'Not authorized to send this offer' });
+        }
+        if (offer.status !== 'draft') {
+            return res.status(400).json({ message: 'Only draft offers can be sent' });
+        }
+        if (new Date(offer.expiresAt) <= new Date()) {
+            return res.status(400).json({ message: 'The offer has already passed its expiry date. Update it before sending.' });
+        }
+
+        offer.status = 'sent';
+        offer.sentAt = new Date();
+        offer.history.push({ status: 'sent', by: req.user._id });
+        await offer.save();
+        console.log(`[Offers] ${req.user.id} sent offer ${offer._id}`);
+
+        await notifyCandidateOfOffer(req, offer, offer.job, false);
+        return res.json(offer);
+    } catch (error) {
+        console.error('[Offers] Error sending offer:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/offers/:id/withdraw
+// @desc    Withdraw an open offer
+// @access  Private (employer team with access to manage the job's applications)
+router.post('/:id/withdraw', auth, async (req, res) => {
+    try {
+        const offer = await loadOffer(req.params.id);
+        if (!offer || !offer.job) {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        if (!canAccessJob(req.user, offer.job, 'manage_applications')) {
+            return res.status(403).json({ message: 'Not authorized to withdraw this offer' });
+        }
+        if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+            return res.status(400).json({ message: `A ${offer.status} offer can't be withdrawn` });
+        }
+
+        const wasSent = offer.status !== 'draft';
+        offer.status = 'withdrawn';
+        offer.history.push({ status: 'withdrawn', by: req.user._id, note: req.body.note });
+        await offer.save();
+        console.log(`[Offers] ${req.user.id} withdrew offer ${offer._id}`);
+
+        if (wasSent) {
+            await notify(req, {
+                offer,
+                job: offer.job,
+                recipientId: offer.jobSeeker,
+                subject: `Offer withdrawn: ${offer.job.title} at ${offer.job.company}`,
+                text: `${offer.job.company} has withdrawn their offer for ${offer.job.title}.`
+            });
+        }
+        return res.json(offer);
+    } catch (error) {
+        console.error('[Offers] Error withdrawing offer:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/offers/:id/respond
+// @desc    Accept, decline or counter an offer
+// @access  Private (the job seeker the offer was made to)
+router.post('/:id/respond', auth, async (req, res) => {
+    try {
+        const offer = await loadOffer(req.params.id);
+        if (!offer || !offer.job || String(offer.jobSeeker) !== req.user.id) {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        if (offer.status !== 'sent') {
+            return res.status(400).json({
+                message: offer.status === 'expired' ? 'This offer has expired' : `This offer is ${offer.status} and can no longer be answered`
+            });
+        }
+
+        const { action, note, counter } = req.body;
+        if (!RESPONSE_ACTIONS.includes(action)) {
+            return res.status(400).json({ message: `Invalid response. Must be one of: ${RESPONSE_ACTIONS.join(', ')}` });
+        }
+        if (action === 'counter') {
+            const counterError = validateCounterOffer(counter);
+            if (counterError) {
+                return res.status(400).json({ message: counterError });
+            }
+        }
+        if (note && String(note).length > 2000) {
+            return res.status(400).json({ message: 'Notes can be at most 2000 characters' });
+        }
+
+        const job = offer.job;
+        offer.respondedAt = new Date();
+        if (action === 'accept') {
+            offer.status = 'accepted';
+        } else if (action === 'decline') {
+            offer.status = 'declined';
+            offer.responseNote = note;
+        } else {
+            offer.status = 'countered';
+            offer.counterOffer = {
+                salary: counter.salary && counter.salary.amount
+                    ? { amount: counter.salary.amount, currency: (counter.salary.currency || offer.salary.currency).toUpperCase() }
+                    : undefined,
+                startDate: counter.startDate || undefined,
+                message: counter.message
+            };
+        }
+        offer.history.push({ status: offer.status, by: req.user._id, note: action === 'counter' ? counter.message : note });
+        await offer.save();
+
+        if (action === 'accept') {
+            const application = await JobApplication.findById(offer.application);
+            if (application) {
+                const pipeline = await getJobPipeline(job);
+                if (moveToCategory(application, pipeline, 'accepted', 'Offer accepted')) {
+                    await application.save();
+                }
+            }
+        }
+        console.log(`[Offers] Job seeker ${req.user.id} ${offer.status} offer ${offer._id}`);
+
+        const text = {
+            accept: `${req.user.name} accepted your offer for ${job.title}.`,
+            decline: `${req.user.name} declined your offer for ${job.title}.${note ? ` Reason: ${note}` : ''}`,
+            counter: `${req.user.name} made a counter offer for ${job.title}` +
+                `${offer.counterOffer && offer.counterOffer.salary ? `: ${formatSalary(offer.counterOffer.salary)}` : ''}` +
+                `${offer.counterOffer && offer.counterOffer.startDate ? `, starting ${formatDate(offer.counterOffer.startDate)}` : ''}.` +
+                `${counter && counter.message ? ` "${counter.message}"` : ''}`
+        }[action];
+        await notify(req, {
+            offer,
+            job,
+            recipientId: offer.createdBy,
+            subject: `Offer ${offer.status}: ${job.title}`,
+            text
+        });
+
+        // The job is loaded with its pipeline for the stage move; the candidate only gets the public fields
+        return res.json({ ...offer.toObject(), job: toPublicJob(job) });
+    } catch (error) {
+        console.error('[Offers] Error responding to offer:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   GET /api/offers/:id/letter?format=html|pdf
+// @desc    The offer letter as printable HTML or a PDF download
+// @access  Private (the candidate, once sent, or the employer team)
+router.get('/:id/letter', auth, async (req, res) => {
+    try {
+        const offer = await loadOffer(req.params.id);
+        if (!offer || !offer.job) {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        const isCandidate = String(offer.jobSeeker) === req.user.id;
+        if (isCandidate ? offer.status === 'draft' : !canAccessJob(req.user, offer.job, 'view_applications')) {
+            return res.status(isCandidate ? 404 : 403).json({ message: isCandidate ? 'Offer not found' : 'Not authorized to view this offer' });
+        }
+
+        const candidate = await User.findById(offer.jobSeeker).select('name');
+        if (!candidate) {
+            return res.status(404).json({ message: 'Candidate not found' });
+        }
+
+        if (req.query.format === 'pdf') {
+            const pdf = buildOfferLetterPdf(offer, offer.job, candidate);
+            const fileName = `offer-${offer.job.title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`;
+            res.set({
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${fileName}"`
+            });
+            return res.send(pdf);
+        }
+
+        res.type('html');
+        return res.send(renderOfferLetterHtml(offer, offer.job, candidate));
+    } catch (error) {
+        console.error('[Offers] Error rendering offer letter:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Offer not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,325 @@
+const express = require('express');
+const router = express.Router();
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const Job = require('../models/Job');
+const JobTemplate = require('../models/JobTemplate');
+const auth = require('../middleware/auth');
+const emailTransporter = require('../config/emailConfig');
+const { INVITABLE_ROLES, getRole, hasPermission } = require('../services/organizationService');
+const { escapeHtml } = require('../services/htmlService');
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+const ROLE_NAMES = {
+    owner: 'Owner',
+    recruiter: 'Recruiter',
+    hiring_manager: 'Hiring Manager',
+    interviewer: 'Interviewer'
+};
+
+// Organization with its members, as shown on the team page
+const buildTeamResponse = async (organization, user) => {
+    const members = await User.find({ organization: organization._id })
+        .select('name email organizationRole profileImage createdAt')
+        .sort({ createdAt: 1 });
+
+    const response = {
+        _id: organization._id,
+        name: organization.name,
+        owner: organization.owner,
+        role: getRole(user),
+        members
+    };
+    // Only people who can manage the team see pending invitations (they contain the join links)
+    if (hasPermission(user, 'manage_team')) {
+        response.invitations = organization.invitations;
+    }
+    return response;
+};
+
+// Invitation emails are best effort - the owner can always copy the link from the team page
+const sendInvitationEmail = async (invitation, organization, inviter) => {
+    // Team and inviter names are user-entered: escaped for the HTML, kept to one line for the subject
+    const organizationName = escapeHtml(organization.name);
+    const inviterName = escapeHtml(inviter.name);
+    try {
+        await emailTransporter.sendMail({
+            from: process.env.EMAIL_USER,
+            to: invitation.email,
+            subject: `You're invited to join ${String(organization.name).replace(/\s+/g, ' ')} on HireSphere`,
+            html: `
+                <h1>Join ${organizationName} on HireSphere</h1>
+                <p>${inviterName} has invited you to join their hiring team as a <strong>${ROLE_NAMES[invitation.role]}</strong>.</p>
+                <p><a href="${FRONTEND_URL}/team/join/${invitation.token}">Accept the invitation</a></p>
+                <p>You'll need an employer account with this email address. The invitation expires on ${invitation.expiresAt.toDateString()}.</p>
+            `
+        });
+        return true;
+    } catch (error) {
+        console.error(`[Organizations] Failed to send invitation email to ${invitation.email}:`, error.message);
+        return false;
+    }
+};
+
+// @route   GET /api/organizations/mine
+// @desc    Get the current employer's organization and team (organization is null until a team is set up)
+// @access  Private (employer only)
+router.get('/mine', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Access denied. Only employers have teams.' });
+        }
+
+        const organization = req.user.organization ? await Organization.findById(req.user.organization) : null;
+        if (!organization) {
+            return res.json({ organization: null, role: 'owner' });
+        }
+
+        return res.json({ organization: await buildTeamResponse(organization, req.user), role: getRole(req.user) });
+    } catch (error) {
+        console.error('[Organizations] Error fetching organization:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/organizations
+// @desc    Turn the current employer account into a team owned by it
+// @access  Private (employer only)
+router.post('/', auth, async (req, res) => {
+    try {
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'Access denied. Only employers can create a team.' });
+        }
+        if (req.user.organization) {
+            return res.status(400).json({ message: 'You are already part of a team' });
+        }
+
+        const organization = new Organization({
+            name: (req.body.name || req.user.companyName || '').trim(),
+            owner: req.user._id
+        });
+        await organization.save();
+
+        await User.findByIdAndUpdate(req.user._id, {
+            $set: { organization: organization._id, organizationRole: 'owner' }
+        });
+        // Existing postings and templates become the team's
+        const { modifiedCount } = await Job.updateMany(
+            { employer: req.user._id },
+            { $set: { organization: organization._id } }
+        );
+        await JobTemplate.updateMany(
+            { employer: req.user._id },
+            { $set: { organization: organization._id } }
+        );
+        console.log(`[Organizations] Employer ${req.user.id} created organization ${organization._id} (${modifiedCount} jobs moved over)`);
+
+        req.user.organization = organization._id;
+        req.user.organizationRole = 'owner';
+        return res.status(201).json({ organization: await buildTeamResponse(organization, req.user), role: 'owner' });
+    } catch (error) {
+        console.error('[Organizations] Error creating organization:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: 'Validation failed', errors: error.errors });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/organizations/invitations
+// @desc    Invite someone to the team by email
+// @access  Private (team owner)
+router.post('/invitations', auth, async (req, res) => {
+    try {
+        if (!req.user.organization || !hasPermission(req.user, 'manage_team')) {
+            return res.status(403).json({ message: 'Only the team owner can invite teammates' });
+        }
+
+        const email = String(req.body.email || '').trim().toLowerCase();
+        const { role } = req.body;
+        if (!/^\S+@\S+\.\S+$/.test(email)) {
+            return res.status(400).json({ message: 'Please enter a valid email address' });
+        }
+        if (!INVITABLE_ROLES.includes(role)) {
+            return res.status(400).json({ message: `Invalid role. Must be one of: ${INVITABLE_ROLES.join(', ')}` });
+        }
+
+        const organization = await Organization.findById(req.user.organization);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const existingMember = await User.findOne({ email, organization: organization._id });
+        if (existingMember) {
+            return res.status(400).json({ message: 'That person is already on your team' });
+        }
+
+        // Inviting the same address again replaces the old invitation (new link, new role)
+        organization.invitations = organization.invitations.filter(invitation => invitation.email !== email);
+        organization.invitations.push({ email, role, invitedBy: req.user._id });
+        await organization.save();
+
+        const invitation = organization.invitations[organization.invitations.length - 1];
+        const emailSent = await sendInvitationEmail(invitation, organization, req.user);
+        console.log(`[Organizations] ${req.user.id} invited ${email} as ${role} to ${organization._id} (email sent: ${emailSent})`);
+
+        return res.status(201).json({ invitation, emailSent });
+    } catch (error) {
+        console.error('[Organizations] Error creating invitation:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   DELETE /api/organizations/invitations/:invitationId
+// @desc    Withdraw a pending invitation
+// @access  Private (team owner)
+router.delete('/invitations/:invitationId', auth, async (req, res) => {
+    try {
+        if (!req.user.organization || !hasPermission(req.user, 'manage_team')) {
+            return res.status(403).json({ message: 'Only the team owner can manage invitations' });
+        }
+
+        const organization = await Organization.findById(req.user.organization);
+        const invitation = organization && organization.invitations.id(req.params.invitationId);
+        if (!invitation) {
+            return res.status(404).json({ message: 'Invitation not found' });
+        }
+
+        invitation.deleteOne();
+        await organization.save();
+        return res.json({ message: 'Invitation withdrawn' });
+    } catch (error) {
+        console.error('[Organizations] Error withdrawing invitation:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   GET /api/organizations/invitations/:token
+// @desc    Look up an invitation before accepting it
+// @access  Private
+router.get('/invitations/:token', auth, async (req, res) => {
+    try {
+        const organization = await Organization.findOne({ 'invitations.token': req.params.token });
+        const invitation = organization && organization.invitations.find(item => item.token === req.params.token);
+        if (!invitation) {
+            return res.status(404).json({ message: 'This invitation is no longer valid' });
+        }
+
+        return res.json({
+            organizationName: organization.name,
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+            expired: invitation.expiresAt < new Date()
+        });
+    } catch (error) {
+        console.error('[Organizations] Error fetching invitation:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/organizations/invitations/:token/accept
+// @desc    Join the team with the role from the invitation
+// @access  Private (employer whose email matches the invitation)
+router.post('/invitations/:token/accept', auth, async (req, res) => {
+    try {
+        const organization = await Organization.findOne({ 'invitations.token': req.params.token });
+        const invitation = organization && organization.invitations.find(item => item.token === req.params.token);
+        if (!invitation) {
+            return res.status(404).json({ message: 'This invitation is no longer valid' });
+        }
+        if (invitation.expiresAt < new Date()) {
+            return res.status(400).json({ message: 'This invitation has expired. Ask the team owner to send a new one.' });
+        }
+        if (req.user.type !== 'employer') {
+            return res.status(403).json({ message: 'You need an employer account to join a hiring team' });
+        }
+        if (req.user.email.toLowerCase() !== invitation.email) {
+            return res.status(403).json({ message: `This invitation was sent to ${invitation.email}. Log in with that account to accept it.` });
+        }
+        if (req.user.organization) {
+            return res.status(400).json({ message: 'You are already part of a team. Leave it before joining another.' });
+        }
+
+        await User.findByIdAndUpdate(req.user._id, {
+            $set: { organization: organization._id, organizationRole: invitation.role }
+        });
+        invitation.deleteOne();
+        await organization.save();
+        console.log(`[Organizations] ${req.user.id} joined ${organization._id} as ${invitation.role}`);
+
+        req.user.organization = organization._id;
+        req.user.organizationRole = invitation.role;
+        return res.json({ organization: await buildTeamResponse(organization, req.user), role: invitation.role });
+    } catch (error) {
+        console.error('[Organizations] Error accepting invitation:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   PATCH /api/organizations/members/:userId
+// @desc    Change a teammate's role
+// @access  Private (team owner)
+router.patch('/members/:userId', auth, async (req, res) => {
+    try {
+        if (!req.user.organization || !hasPermission(req.user, 'manage_team')) {
+            return res.status(403).json({ message: 'Only the team owner can change roles' });
+        }
+
+        const { role } = req.body;
+        if (!INVITABLE_ROLES.includes(role)) {
+            return res.status(400).json({ message: `Invalid role. Must be one of: ${INVITABLE_ROLES.join(', ')}` });
+        }
+
+        const member = await User.findOne({ _id: req.params.userId, organization: req.user.organization });
+        if (!member) {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+        if (member.organizationRole === 'owner') {
+            return res.status(400).json({ message: 'The owner\'s role can\'t be changed' });
+        }
+
+        await User.findByIdAndUpdate(member._id, { $set: { organizationRole: role } });
+        console.log(`[Organizations] ${req.user.id} changed ${member._id} to ${role}`);
+        return res.json({ _id: member._id, organizationRole: role });
+    } catch (error) {
+        console.error('[Organizations] Error changing member role:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   DELETE /api/organizations/members/:userId
+// @desc    Remove a teammate (owner), or leave the team (any member removing themselves)
+// @access  Private
+router.delete('/members/:userId', auth, async (req, res) => {
+    try {
+        const leaving = req.params.userId === req.user.id;
+        if (!req.user.organization || (!leaving && !hasPermission(req.user, 'manage_team'))) {
+            return res.status(403).json({ message: 'Only the team owner can remove teammates' });
+        }
+
+        const member = await User.findOne({ _id: req.params.userId, organization: req.user.organization });
+        if (!member) {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+        if (member.organizationRole === 'owner') {
+            return res.status(400).json({ message: 'The owner can\'t leave the team' });
+        }
+
+        await User.findByIdAndUpdate(member._id, { $unset: { organization: '', organizationRole: '' } });
+        console.log(`[Organizations] ${member._id} ${leaving ? 'left' : 'was removed from'} ${req.user.organization}`);
+        return res.json({ message: leaving ? 'You have left the team' : 'Team member removed' });
+    } catch (error) {
+        console.error('[Organizations] Error removing member:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+module.exports = router;
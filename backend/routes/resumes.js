@@ -0,0 +1,310 @@
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const auth = require('../middleware/auth');
+const Resume = require('../models/Resume');
+const User = require('../models/User');
+const {
+    MAX_DOCUMENTS,
+    ALLOWED_TYPES,
+    validateDocumentFields,
+    storeLibraryFile,
+    removeStoredFile
+} = require('../services/resumeLibraryService');
+const {
+    RESUME_TEMPLATES,
+    RESUME_FORMATS,
+    validateResumeProfile,
+    renderResume
+} = require('../services/resumeBuilderService');
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+    fileFilter: (req, file, cb) => {
+        if (ALLOWED_TYPES.includes(file.mimetype)) {
+            cb(null, true);
+        } else {
+            cb(new Error('Invalid file type. Only PDF, DOCX, DOC allowed.'), false);
+        }
+    }
+});
+
+// Run the upload, turning multer's errors (size, type) into 400s
+const uploadFile = (req, res, next) => upload.single('file')(req, res, (error) => {
+    if (error) {
+        const message = error.code === 'LIMIT_FILE_SIZE' ? 'Files can be at most 5MB' : error.message;
+        return res.status(400).json({ message });
+    }
+    return next();
+});
+
+const jobSeekerOnly = (req, res, next) => {
+    if (req.user.type !== 'jobseeker') {
+        return res.status(403).json({ message: 'Access denied. Only job seekers have a resume library.' });
+    }
+    return next();
+};
+
+// Keep one default per kind: the given document, or the newest one left
+const resetDefault = async (jobSeekerId, kind, defaultId) => {
+    const target = defaultId || (await Resume.findOne({ jobSeeker: jobSeekerId, kind }).sort({ createdAt: -1 }).select('_id'))?._id;
+    await Resume.updateMany({ jobSeeker: jobSeekerId, kind, _id: { $ne: target } }, { $set: { isDefault: false } });
+    if (target) {
+        await Resume.updateOne({ _id: target }, { $set: { isDefault: true } });
+    }
+};
+
+// @route   GET /api/resumes
+// @desc    The job seeker's resumes and cover letters
+// @access  Private (job seeker only)
+router.get('/', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const documents = await Resume.find({ jobSeeker: req.user._id }).sort({ isDefault: -1, createdAt: -1 });
+        return res.json(documents);
+    } catch (error) {
+        console.error('[Resume Library] Error fetching documents:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// Render the signed-in job seeker's profile with the requested template and format
+const renderProfileResume = async (req, { template, format }) => {
+    if (!RESUME_TEMPLATES.some(t => t.id === template)) {
+        return { error: `Invalid template. Must be one of: ${RESUME_TEMPLATES.map(t => t.id).join(', ')}` };
+    }
+    if (!RESUME_FORMATS.includes(format)) {
+        return { error: `Invalid format. Must be one of: ${RESUME_FORMATS.join(', ')}` };
+    }
+    // Read the stored profile as-is; older entries use field names the schema doesn't declare
+    const profile = await User.findById(req.user._id).select('-password').lean();
+    const profileError = validateResumeProfile(profile);
+    if (profileError) {
+        return { error: profileError };
+    }
+    return { file: renderResume(profile, { template, format }) };
+};
+
+// @route   GET /api/resumes/templates
+// @desc    Templates available for generating a resume from the profile
+// @access  Private (job seeker only)
+router.get('/templates', auth, jobSeekerOnly, (req, res) => res.json(RESUME_TEMPLATES));
+
+// @route   GET /api/resumes/generate
+// @desc    Download a resume generated from the profile (?template=classic&format=pdf|docx)
+// @access  Private (job seeker only)
+router.get('/generate', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const { error, file } = await renderProfileResume(req, {
+            template: req.query.template || 'classic',
+            format: req.query.format || 'pdf'
+        });
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        res.setHeader('Content-Type', file.mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        return res.send(file.buffer);
+    } catch (error) {
+        console.error('[Resume Library] Error generating resume:', error);
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/resumes/generate
+// @desc    Generate a resume from the profile and save it to the library { template, format, name }
+// @access  Private (job seeker only)
+router.post('/generate', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const template = req.body.template || 'classic';
+        const format = req.body.format || 'pdf';
+        const { error, file } = await renderProfileResume(req, { template, format });
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const templateName = RESUME_TEMPLATES.find(t => t.id === template).name;
+        const name = (req.body.name || `${templateName} resume (${format.toUpperCase()})`).trim().slice(0, 100);
+        const fieldsError = validateDocumentFields({ name });
+        if (fieldsError) {
+            return res.status(400).json({ message: fieldsError });
+        }
+
+        const count = await Resume.countDocuments({ jobSeeker: req.user._id });
+        if (count >= MAX_DOCUMENTS) {
+            return res.status(400).json({ message: `You can keep up to ${MAX_DOCUMENTS} documents. Delete one to save another.` });
+        }
+
+        const isFirstResume = !(await Resume.exists({ jobSeeker: req.user._id, kind: 'resume' }));
+        const document = await Resume.create({
+            ...(await storeLibraryFile({
+                buffer: file.buffer,
+                originalname: file.fileName,
+                mimetype: file.mimeType,
+                size: file.buffer.length
+            })),
+            jobSeeker: req.user._id,
+            kind: 'resume',
+            name,
+            isDefault: isFirstResume
+        });
+        console.log(`[Resume Library] Job seeker ${req.user.id} generated a ${template} ${format} resume ${document._id}`);
+
+        return res.status(201).json(document);
+    } catch (error) {
+        console.error('[Resume Library] Error saving generated resume:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: 'Validation failed', errors: error.errors });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/resumes
+// @desc    Add a resume or cover letter to the library (multipart: file, name, kind)
+// @access  Private (job seeker only)
+router.post('/', auth, jobSeekerOnly, uploadFile, async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ message: 'No file uploaded' });
+        }
+        const kind = req.body.kind || 'resume';
+        const name = (req.body.name || req.file.originalname || '').trim().slice(0, 100);
+        const fieldsError = validateDocumentFields({ name, kind });
+        if (fieldsError) {
+            return res.status(400).json({ message: fieldsError });
+        }
+
+        const count = await Resume.countDocuments({ jobSeeker: req.user._id });
+        if (count >= MAX_DOCUMENTS) {
+            return res.status(400).json({ message: `You can keep up to ${MAX_DOCUMENTS} documents. Delete one to upload another.` });
+        }
+
+        const isFirstOfKind = !(await Resume.exists({ jobSeeker: req.user._id, kind }));
+        const document = await Resume.create({
+            ...(await storeLibraryFile(req.file)),
+            jobSeeker: req.user._id,
+            kind,
+            name,
+            isDefault: isFirstOfKind
+        });
+        console.log(`[Resume Library] Job seeker ${req.user.id} added ${kind} ${document._id}`);
+
+        return res.status(201).json(document);
+    } catch (error) {
+        console.error('[Resume Library] Error uploading document:', error);
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ message: 'Validation failed', errors: error.errors });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   PATCH /api/resumes/:id
+// @desc    Rename a document
+// @access  Private (job seeker only)
+router.patch('/:id', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : req.body.name;
+        const fieldsError = validateDocumentFields({ name: name === undefined ? '' : name });
+        if (fieldsError) {
+            return res.status(400).json({ message: fieldsError });
+        }
+
+        const document = await Resume.findOneAndUpdate(
+            { _id: req.params.id, jobSeeker: req.user._id },
+            { $set: { name } },
+            { new: true, runValidators: true }
+        );
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        return res.json(document);
+    } catch (error) {
+        console.error('[Resume Library] Error renaming document:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   PUT /api/resumes/:id/file
+// @desc    Replace a document's file with a new version (applications keep the copy they were sent with)
+// @access  Private (job seeker only)
+router.put('/:id/file', auth, jobSeekerOnly, uploadFile, async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ message: 'No file uploaded' });
+        }
+        const document = await Resume.findOne({ _id: req.params.id, jobSeeker: req.user._id });
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+
+        const previousUrl = document.url;
+        Object.assign(document, await storeLibraryFile(req.file));
+        await document.save();
+        await removeStoredFile(previousUrl);
+        console.log(`[Resume Library] Job seeker ${req.user.id} replaced the file of ${document._id}`);
+
+        return res.json(document);
+    } catch (error) {
+        console.error('[Resume Library] Error replacing document file:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   POST /api/resumes/:id/default
+// @desc    Make a document the default of its kind
+// @access  Private (job seeker only)
+router.post('/:id/default', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const document = await Resume.findOne({ _id: req.params.id, jobSeeker: req.user._id });
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+
+        await resetDefault(req.user._id, document.kind, document._id);
+        document.isDefault = true;
+        return res.json(document);
+    } catch (error) {
+        console.error('[Resume Library] Error setting default document:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// @route   DELETE /api/resumes/:id
+// @desc    Delete a document from the library
+// @access  Private (job seeker only)
+router.delete('/:id', auth, jobSeekerOnly, async (req, res) => {
+    try {
+        const document = await Resume.findOneAndDelete({ _id: req.params.id, jobSeeker: req.user._id });
+        if (!document) {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+
+        await removeStoredFile(document.url);
+        if (document.isDefault) {
+            await resetDefault(req.user._id, document.kind);
+        }
+        console.log(`[Resume Library] Job seeker ${req.user.id} deleted ${document.kind} ${document._id}`);
+
+        return res.json({ message: 'Document deleted' });
+    } catch (error) {
+        console.error('[Resume Library] Error deleting document:', error);
+        if (error.name === 'CastError') {
+            return res.status(404).json({ message: 'Document not found' });
+        }
+        return res.status(500).json({ message: 'Server error' });
+    }
+});
+
+module.exports = router;
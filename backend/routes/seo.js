@@ -0,0 +1,58 @@
+const express = require('express');
+const router = express.Router();
+const Job = require('../models/Job');
+const User = require('../models/User');
+const { liveJobFilter } = require('../services/jobLifecycleService');
+const { buildSitemap } = require('../services/seoService');
+
+// @route   GET /sitemap.xml
+// @desc    Sitemap of open job pages and company pages for search engines
+// @access  Public
+router.get('/sitemap.xml', async (req, res) => {
+    try {
+        const jobs = await Job.find(liveJobFilter())
+            .select('_id employer updatedAt publishedAt createdAt')
+            .sort({ publishedAt: -1 })
+            .lean();
+
+        // Only list company pages that currently have something to show
+        const employerIds = [...new Set(jobs.map(job => job.employer.toString()))];
+        const employers = await User.find({ _id: { $in: employerIds }, type: 'employer' })
+            .select('_id')
+            .lean();
+
+        const latestJobByEmployer = {};
+        jobs.forEach(job => {
+            const key = job.employer.toString();
+            const lastmod = job.updatedAt || job.publishedAt || job.createdAt;
+            if (!latestJobByEmployer[key] || lastmod > latestJobByEmployer[key]) {
+                latestJobByEmployer[key] = lastmod;
+            }
+        });
+
+        const entries = [
+            { path: '/', changefreq: 'daily', priority: 1.0 },
+            { path: '/jobs', changefreq: 'hourly', priority: 0.9 },
+            ...jobs.map(job => ({
+                path: `/jobs/${job._id}`,
+                lastmod: job.updatedAt || job.publishedAt || job.createdAt,
+                changefreq: 'daily',
+                priority: 0.8
+            })),
+            ...employers.map(employer => ({
+                path: `/company/${employer._id}`,
+                lastmod: latestJobByEmployer[employer._id.toString()],
+                changefreq: 'weekly',
+                priority: 0.6
+            }))
+        ];
+
+        console.log(`[Sitemap] Serving sitemap with ${jobs.length} jobs and ${employers.length} company pages`);
+        res.type('application/xml').send(buildSitemap(entries));
+    } catch (error) {
+        console.error('[Sitemap] Error building sitemap:', error);
+        res.status(500).json({ message: 'Error building sitemap' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,159 @@
+const express = require('express');
+const router = express.Router();
+const auth = require('../middleware/auth');
+const admin = require('../middleware/admin');
+const Skill = require('../models/Skill');
+const {
+  slugifySkill,
+  validateSkillEntry,
+  refreshTaxonomy,
+  reindexSkillReferences,
+  queueSkillReindex
+} = require('../services/skillTaxonomyService');
+const { suggestSkills } = require('../services/skillSuggestionService');
+const { rateLimit } = require('../middleware/rateLimit');
+
+// Typeahead fires on most keystrokes; this only stops scripted hammering of the public endpoint
+const autocompleteLimit = rateLimit({ name: 'skills:autocomplete', max: 300, windowMs: 5 * 60 * 1000 });
+
+// Trimmed, de-duplicated list of names from an array or comma-separated string
+const toNameList = (value) => {
+  const list = Array.isArray(value) ? value : String(value || '').split(',');
+  return [...new Set(list.map(item => String(item).trim()).filter(Boolean))];
+};
+
+const pickSkillFields = (body) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : body.name,
+  aliases: toNameList(body.aliases),
+  category: typeof body.category === 'string' && body.category.trim() ? body.category.trim() : 'Other',
+  related: toNameList(body.related).map(slugifySkill).filter(Boolean)
+});
+
+const handleSkillError = (res, err, action) => {
+  if (err.name === 'ValidationError') {
+    const errors = Object.fromEntries(Object.entries(err.errors).map(([field, error]) => [field, error.message]));
+    return res.status(400).json({ message: 'Validation failed', errors });
+  }
+  if (err.name === 'CastError') {
+    return res.status(404).json({ message: 'Skill not found' });
+  }
+  console.error(`[Skill Taxonomy] Failed to ${action}:`, err);
+  res.status(500).json({ message: `Failed to ${action}` });
+};
+
+// @route   GET api/skills/autocomplete
+// @desc    Suggest known skills for a skill input: matches for the typed text (q), or
+//          skills often listed with the chosen ones (selected, comma-separated)
+// @access  Public
+router.get('/autocomplete', autocompleteLimit, async (req, res) => {
+  try {
+    const suggestions = await suggestSkills({
+      query: typeof req.query.q === 'string' ? req.query.q.slice(0, 60) : '',
+      selected: typeof req.query.selected === 'string' ? req.query.selected.split(',').slice(0, 50) : [],
+      limit: req.query.limit
+    });
+    res.json({ suggestions });
+  } catch (err) {
+    handleSkillError(res, err, 'load skill suggestions');
+  }
+});
+
+// @route   GET api/skills
+// @desc    List the skill taxonomy, optionally filtered by category
+// @access  Private/Admin
+router.get('/', [auth, admin], async (req, res) => {
+  try {
+    const filter = req.query.category ? { category: req.query.category } : {};
+    const skills = await Skill.find(filter).sort({ category: 1, name: 1 });
+    res.json(skills);
+  } catch (err) {
+    handleSkillError(res, err, 'load skills');
+  }
+});
+
+// @route   POST api/skills
+// @desc    Add a skill to the taxonomy (jobs and profiles are reindexed in the background)
+// @access  Private/Admin
+router.post('/', [auth, admin], async (req, res) => {
+  try {
+    const fields = pickSkillFields(req.body);
+    const error = validateSkillEntry(fields);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const skill = await Skill.create({ ...fields, slug: slugifySkill(fields.name) });
+    await refreshTaxonomy();
+    queueSkillReindex();
+    console.log(`[Skill Taxonomy] Added "${skill.name}" (${skill.slug})`);
+    res.status(201).json(skill);
+  } catch (err) {
+    if (err.code === 11000) {
+      return res.status(400).json({ message: 'A skill with this name already exists' });
+    }
+    handleSkillError(res, err, 'add skill');
+  }
+});
+
+// @route   PUT api/skills/:id
+// @desc    Edit a skill's name, aliases, category or related skills (jobs and profiles are reindexed in the background)
+// @access  Private/Admin
+router.put('/:id', [auth, admin], async (req, res) => {
+  try {
+    const skill = await Skill.findById(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: 'Skill not found' });
+    }
+
+    // The slug stays fixed so stored skillIds keep pointing at this skill
+    const fields = pickSkillFields({ ...skill.toObject(), ...req.body });
+    const error = validateSkillEntry(fields, skill.slug);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    Object.assign(skill, fields);
+    await skill.save();
+    await refreshTaxonomy();
+    queueSkillReindex();
+    console.log(`[Skill Taxonomy] Updated "${skill.name}" (${skill.slug})`);
+    res.json(skill);
+  } catch (err) {
+    handleSkillError(res, err, 'update skill');
+  }
+});
+
+// @route   DELETE api/skills/:id
+// @desc    Remove a skill from the taxonomy; profiles and jobs keep the name as free text
+// @access  Private/Admin
+router.delete('/:id', [auth, admin], async (req, res) => {
+  try {
+    const skill = await Skill.findByIdAndDelete(req.params.id);
+    if (!skill) {
+      return res.status(404).json({ message: 'Skill not found' });
+    }
+
+    await Skill.updateMany({ related: skill.slug }, { $pull: { related: skill.slug } });
+    await refreshTaxonomy();
+    queueSkillReindex();
+    console.log(`[Skill Taxonomy] Removed "${skill.name}" (${skill.slug})`);
+    res.json({ message: 'Skill removed' });
+  } catch (err) {
+    handleSkillError(res, err, 'remove skill');
+  }
+});
+
+// @route   POST api/skills/reindex
+// @desc    Re-normalize every job's and profile's skills against the current taxonomy
+// @access  Private/Admin
+router.post('/reindex', [auth, admin], async (req, res) => {
+  try {
+    await refreshTaxonomy();
+    const counts = await reindexSkillReferences();
+    res.json({ message: `Updated ${counts.jobs} jobs and ${counts.users} profiles`, ...counts });
+  } catch (err) {
+    handleSkillError(res, err, 'reindex skills');
+  }
+});
+
+module.exports = router;
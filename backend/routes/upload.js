@@ -6,30 +6,22 @@ const path = require('path');
 const fs = require('fs');
 const User = require('../models/User');
 const { v4: uuidv4 } = require('uuid');
-const { GoogleGenerativeAI } = require('@google/generative-ai'); // Import Gemini
+const { generateJson, isEnabled } = require('../services/aiGateway');
 const pdfParse = require('pdf-parse'); // Library to read PDF text
 // Optional: Add library for DOCX parsing if needed, e.g., mammoth
 // const mammoth = require("mammoth"); 
 
-// --- Gemini AI Setup ---
-const apiKey = process.env.GEMINI_API_KEY;
-let genAI;
-let geminiModel;
-
-if (apiKey) {
-    try {
-        genAI = new GoogleGenerativeAI(apiKey);
-        geminiModel = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-        console.log('[Upload Route] Gemini AI client initialized successfully.');
-    } catch (error) {
-        console.error('[Upload Route] Failed to initialize Gemini AI client:', error);
-        genAI = null; geminiModel = null;
+// Shape of the parsed resume asked of the AI gateway
+const RESUME_SCHEMA = {
+    type: 'object',
+    properties: {
+        contactInfo: { type: ['object', 'null'] },
+        summary: { type: ['string', 'null'] },
+        workExperience: { type: ['array', 'null'], items: { type: 'object' } },
+        education: { type: ['array', 'null'], items: { type: 'object' } },
+        skills: { type: ['array', 'null'], items: { type: 'string' } }
     }
-} else {
-    console.warn('[Upload Route] GEMINI_API_KEY not found. Resume parsing via AI disabled.');
-    genAI = null; geminiModel = null;
-}
-// ----------------------
+};
 
 
 // --- Directories ---
@@ -218,9 +210,9 @@ router.post('/resume', auth, resumeUpload.single('resumeFile'), async (req, res)
 
     console.log(`[Resume Upload] File received: ${req.file.originalname}, Type: ${req.file.mimetype}, Size: ${req.file.size} bytes`);
 
-    // Check if Gemini is available for parsing
-    if (!geminiModel) {
-        console.warn('[Resume Upload] Gemini AI model not available. Cannot parse resume.');
+    // Check if an AI provider is available for parsing
+    if (!isEnabled('resumeParse')) {
+        console.warn('[Resume Upload] No AI provider configured. Cannot parse resume.');
         // Return error or maybe just save the file path without parsing?
         return res.status(503).json({ message: 'Resume parsing service is currently unavailable.' });
     }
@@ -253,7 +245,7 @@ router.post('/resume', auth, resumeUpload.single('resumeFile'), async (req, res)
              return res.status(400).json({ message: 'Could not extract sufficient text from the resume.' });
         }
 
-        // --- Prepare Prompt for Gemini ---
+        // --- Prepare Prompt for the AI gateway ---
         const prompt = `
             Analyze the following resume text and extract the job seeker's profile information.
             Provide the output as a valid JSON object containing the keys: "contactInfo", "summary", "workExperience", "education", and "skills".
@@ -274,35 +266,12 @@ router.post('/resume', auth, resumeUpload.single('resumeFile'), async (req, res)
 
             JSON Output:
         `; // Corrected template literal termination
-        // Note: Increased substring length for Gemini context window
-
-        console.log('[Resume Upload] Sending extracted text to Gemini for parsing...');
-        // console.log('--- Gemini Prompt Start ---');
-        // console.log(prompt.substring(0, 500) + '...'); // Log beginning of prompt
-        // console.log('--- Gemini Prompt End ---');
-
-        // --- Call Gemini API ---
-         const generationConfig = {
-           responseMimeType: "application/json", // Request JSON output
-         };
-         const result = await geminiModel.generateContent(prompt, generationConfig);
-         const response = result.response;
-         const parsedDataJson = response.text();
-
-        console.log('[Resume Upload] Received parsing response from Gemini.');
-
-        // --- Parse Gemini Response ---
-        let parsedData;
-        try {
-            parsedData = JSON.parse(parsedDataJson);
-            console.log('[Resume Upload] Successfully parsed JSON response from Gemini.');
-             // Log extracted keys for verification
-             // console.log('Gemini Extracted Data:', JSON.stringify(parsedData, null, 2));
-        } catch (parseError) {
-            console.error('[Resume Upload] Failed to parse JSON response from Gemini:', parseError);
-            console.error('Gemini Raw Response:', parsedDataJson);
-            return res.status(500).json({ message: 'Error processing parsed resume data.' });
-        }
+
+        console.log('[Resume Upload] Sending extracted text to the AI gateway for parsing...');
+
+        // --- Call the AI gateway (validates the JSON answer against the schema) ---
+        const { data: parsedData } = await generateJson('resumeParse', { prompt, schema: RESUME_SCHEMA });
+        console.log('[Resume Upload] Received parsing response from the AI gateway.');
 
         // --- Update User Profile ---
         console.log(`[Resume Upload] Attempting to update profile for user: ${req.user.id}`);
@@ -365,8 +334,7 @@ router.post('/resume', auth, resumeUpload.single('resumeFile'), async (req, res)
 
     } catch (error) {
         console.error(`[Resume Upload] Error processing resume for user ${req.user.id}:`, error);
-         if (error.message.includes('GoogleGenerativeAI')) {
-             console.error('[Resume Upload] Gemini API Error Details:', error);
+         if (error.name === 'AIGatewayError') {
              return res.status(502).json({ message: 'Failed to parse resume via AI service.' });
          }
          // Handle specific multer errors if needed
@@ -20,6 +20,8 @@ const screeningRoutes = require('./routes/screening');
 const companyReviewsRoutes = require('./routes/companyReviews');
 const interviewsRoutes = require('./routes/interviews');
 const jobAlertService = require('./services/jobAlertService');
+const jobLifecycleService = require('./services/jobLifecycleService');
+const skillTaxonomyService = require('./services/skillTaxonomyService');
 const userRoutes = require('./routes/user');
 
 // Initialize Express app
@@ -60,7 +62,10 @@ mongoose
         useNewUrlParser: true, 
         useUnifiedTopology: true,
     })
-    .then(() => console.log('Connected to MongoDB'))
+    .then(() => {
+        console.log('Connected to MongoDB');
+        skillTaxonomyService.initializeTaxonomy();
+    })
     .catch(err => {
         console.error('MongoDB connection error:', err);
         process.exit(1);
@@ -106,6 +111,13 @@ app.use('/api/screening', screeningRoutes);
 app.use('/api/bookmarks', require('./routes/bookmarks'));
 app.use('/api/messages', require('./routes/messages'));
 app.use('/api/job-alerts', require('./routes/jobAlerts'));
+app.use('/api/job-templates', require('./routes/jobTemplates'));
+app.use('/api/organizations', require('./routes/organizations'));
+app.use('/api/offers', require('./routes/offers'));
+app.use('/api/resumes', require('./routes/resumes'));
+app.use('/api/skills', require('./routes/skills'));
+app.use('/api/ai', require('./routes/ai'));
+app.use('/api/feeds', require('./routes/feeds'));
 app.use('/api/assessments', require('./routes/skillAssessments'));
 app.use('/api/company-reviews', companyReviewsRoutes);
 app.use('/api/interviews', interviewsRoutes);
@@ -119,6 +131,9 @@ app.use('/api/test', require('./routes/test'));
 // User routes
 app.use('/api/users', userRoutes);
 
+// Public SEO routes (sitemap.xml)
+app.use('/', require('./routes/seo'));
+
 // Error handling middleware
 app.use((err, req, res, next) => {
     console.error(err.stack);
@@ -134,5 +149,7 @@ server.listen(PORT, () => { // Change app.listen to server.listen
     if (process.env.NODE_ENV !== 'test') {
         jobAlertService.initJobAlertSchedulers();
         console.log('Job alert schedulers initialized');
+        jobLifecycleService.initJobLifecycleScheduler();
+        console.log('Job lifecycle scheduler initialized');
     }
 }); 
\ No newline at end of file
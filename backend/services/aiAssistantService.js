@@ -0,0 +1,340 @@
+const Job = require('../models/Job');
+const { liveJobFilter } = require('./jobLifecycleService');
+const { rankJobsForProfile } = require('./matchingEngine');
+const { generateJson } = require('./aiGateway');
+const { toPublicJob } = require('./publicJobService');
+
+/**
+ * AI Assistant Service
+ * The AI helpers the web app offers directly: job recommendations, resume
+ * feedback, interview questions, job description optimization, application
+ * screening and resume parsing. Each builds its prompt here, asks the AI
+ * gateway for JSON matching its schema and returns a normalized result.
+ */
+
+// How many of the locally ranked open jobs the model chooses recommendations from
+const RECOMMENDATION_CANDIDATES = 30;
+const RECOMMENDATION_COUNT = 5;
+
+const stringList = { type: 'array', items: { type: 'string' } };
+const score = { type: 'number', minimum: 0, maximum: 100 };
+
+const RECOMMENDATIONS_SCHEMA = {
+  type: 'object',
+  required: ['recommendations'],
+  properties: {
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['jobId'],
+        properties: { jobId: { type: 'string' }, reasons: stringList }
+      }
+    }
+  }
+};
+
+const RESUME_FEEDBACK_SCHEMA = {
+  type: 'object',
+  required: ['strengths', 'weaknesses', 'suggestions', 'score'],
+  properties: { strengths: stringList, weaknesses: stringList, suggestions: stringList, score }
+};
+
+const INTERVIEW_QUESTIONS_SCHEMA = {
+  type: 'object',
+  required: ['technical', 'behavioral', 'followup'],
+  properties: { technical: stringList, behavioral: stringList, followup: stringList }
+};
+
+const JOB_DESCRIPTION_SCHEMA = {
+  type: 'object',
+  required: ['optimizedDescription', 'optimizedRequirements', 'suggestedKeywords', 'inclusivityScore'],
+  properties: {
+    optimizedDescription: { type: 'string' },
+    optimizedRequirements: { type: 'string' },
+    suggestedKeywords: stringList,
+    inclusivityScore: score
+  }
+};
+
+const SCREENING_SCHEMA = {
+  type: 'object',
+  required: ['matchScore', 'matchedSkills', 'missingSkills', 'feedback', 'recommendation'],
+  properties: {
+    matchScore: score,
+    matchedSkills: stringList,
+    missingSkills: stringList,
+    feedback: { type: 'string' },
+    recommendation: { type: 'string', enum: ['weak_match', 'potential_match', 'strong_match'] }
+  }
+};
+
+const PARSED_RESUME_SCHEMA = {
+  type: 'object',
+  properties: {
+    skills: { type: ['array', 'null'], items: { type: 'string' } },
+    experience: { type: ['array', 'null'], items: { type: 'object' } },
+    education: { type: ['array', 'null'], items: { type: 'object' } },
+    personalInfo: { type: ['object', 'null'] }
+  }
+};
+
+const asList = (value) => (Array.isArray(value) ? value : []);
+
+// Career details only; contact details never go to the model
+const describeProfile = (profile = {}) => ({
+  title: profile.title,
+  skills: asList(profile.skills),
+  totalYearsExperience: profile.totalYearsExperience,
+  experience: asList(profile.experience).map(exp => ({ title: exp && exp.title, company: exp && exp.company, description: exp && exp.description })),
+  education: asList(profile.education).map(edu => ({ degree: edu && edu.degree, fieldOfStudy: edu && edu.fieldOfStudy })),
+  preferredJobTypes: asList(profile.preferredJobTypes),
+  preferredLocations: asList(profile.preferredLocations)
+});
+
+/**
+ * Pick the open jobs that suit a job seeker best, with the model's reasons
+ * @param {Object} profile - The job seeker (lean User document)
+ * @returns {Promise<Object>} - { jobs: [job with matchScore], reasoning: { jobId: [reasons] } }
+ */
+const recommendJobs = async (profile) => {
+  const openJobs = await Job.find(liveJobFilter())
+    .sort({ createdAt: -1 })
+    .limit(300)
+    .populate('employer', 'name companyName')
+    .lean();
+  const ranked = rankJobsForProfile(profile, openJobs)
+    .filter(({ match }) => match.score > 0)
+    .slice(0, RECOMMENDATION_CANDIDATES);
+  if (ranked.length === 0) {
+    return { jobs: [], reasoning: {} };
+  }
+
+  const jobsData = ranked.map(({ job }) => ({
+    id: job._id.toString(),
+    title: job.title,
+    description: String(job.description || '').substring(0, 500),
+    requirements: String(job.requirements || '').substring(0, 300),
+    skills: job.skills || [],
+    location: job.location,
+    type: job.type
+  }));
+
+  const { data } = await generateJson('jobRecommendations', {
+    system: 'You are an AI career advisor helping to match job seekers with appropriate job opportunities. Analyze the user profile and available jobs to find the best matches based on skills, experience, and preferences.',
+    prompt: `Given the following user profile and available jobs, identify the top ${RECOMMENDATION_COUNT} most suitable jobs for this candidate with reasoning for each match.
+Return a JSON object: { "recommendations": [{ "jobId": "id from the list", "reasons": ["matching factor", ...] }] }, best match first.
+
+User Profile:
+${JSON.stringify(describeProfile(profile), null, 2)}
+
+Available Jobs:
+${JSON.stringify(jobsData, null, 2)}`,
+    schema: RECOMMENDATIONS_SCHEMA
+  });
+
+  const byId = new Map(ranked.map(entry => [entry.job._id.toString(), entry]));
+  const reasoning = {};
+  const jobs = [];
+  data.recommendations.slice(0, RECOMMENDATION_COUNT).forEach(({ jobId, reasons }) => {
+    const entry = byId.get(jobId);
+    if (!entry || reasoning[jobId]) return;
+    reasoning[jobId] = reasons || [];
+    jobs.push({ ...toPublicJob(entry.job), matchScore: entry.match.score });
+  });
+  return { jobs, reasoning };
+};
+
+/**
+ * Feedback on a resume
+ * @param {String} resumeText - Plain text of the resume
+ * @returns {Promise<Object>} - { strengths, weaknesses, suggestions, score }
+ */
+const analyzeResume = async (resumeText) => {
+  const { data } = await generateJson('resumeFeedback', {
+    system: 'You are an expert resume reviewer with experience in HR and recruiting. Analyze the provided resume and give constructive feedback.',
+    prompt: `Please analyze this resume and provide feedback with the following structure:
+1. Key strengths (list 3-5 bullet points)
+2. Areas for improvement (list 3-5 bullet points)
+3. Specific suggestions to enhance impact (list 3-5 actionable items)
+4. Overall score from 0-100
+
+Return the analysis as a JSON object with fields "strengths", "weaknesses", "suggestions", and "score".
+
+Resume:
+${resumeText}`,
+    schema: RESUME_FEEDBACK_SCHEMA
+  });
+  return {
+    strengths: data.strengths,
+    weaknesses: data.weaknesses,
+    suggestions: data.suggestions,
+    score: Math.round(data.score)
+  };
+};
+
+/**
+ * Interview questions for a job, optionally tailored to a candidate
+ * @param {String} jobDescription - The job description
+ * @param {Object} candidateProfile - Optional candidate (only career details are used)
+ * @returns {Promise<Object>} - { technical, behavioral, followup }
+ */
+const generateInterviewQuestions = async (jobDescription, candidateProfile) => {
+  const candidateContext = candidateProfile
+    ? `Consider the candidate has the following background: ${JSON.stringify(describeProfile(candidateProfile))}`
+    : '';
+  const { data } = await generateJson('interviewQuestions', {
+    system: 'You are an expert interviewer with deep knowledge of technical and behavioral interview practices.',
+    prompt: `Based on the following job description, generate a set of interview questions categorized as:
+1. Technical questions (5 questions specific to skills required)
+2. Behavioral questions (3 questions about past experiences and soft skills)
+3. Follow-up questions (3 questions to probe deeper based on potential answers)
+
+${candidateContext}
+
+Return the questions as a JSON object with fields "technical", "behavioral", and "followup", each containing an array of question strings.
+
+Job Description:
+${jobDescription}`,
+    schema: INTERVIEW_QUESTIONS_SCHEMA
+  });
+  return { technical: data.technical, behavioral: data.behavioral, followup: data.followup };
+};
+
+/**
+ * Rewrite a job description and requirements to be clearer and more inclusive
+ * @param {String} description - Original description
+ * @param {String} requirements - Original requirements
+ * @param {String} targetAudience - Optional audience to write for
+ * @returns {Promise<Object>} - { optimizedDescription, optimizedRequirements, suggestedKeywords, inclusivityScore }
+ */
+const optimizeJobDescription = async (description, requirements, targetAudience) => {
+  const audienceContext = targetAudience
+    ? `The target audience for this job is: ${targetAudience}.`
+    : 'Optimize for a diverse audience.';
+  const { data } = await generateJson('jobDescriptionOptimization', {
+    system: 'You are an expert in writing effective and inclusive job descriptions that attract qualified and diverse candidates.',
+    prompt: `Please optimize the following job description and requirements to be more effective, engaging, and inclusive. ${audienceContext}
+
+For your response, include:
+1. An optimized job description
+2. Refined job requirements (keep the same general qualifications but improve wording)
+3. A list of 5-7 keywords that would help with discoverability
+4. An inclusivity score from 0-100 for the original description
+
+Return the result as a JSON object with fields "optimizedDescription", "optimizedRequirements", "suggestedKeywords", and "inclusivityScore".
+
+Original Job Description:
+${description}
+
+Original Requirements:
+${requirements}`,
+    schema: JOB_DESCRIPTION_SCHEMA
+  });
+  return {
+    optimizedDescription: data.optimizedDescription || description,
+    optimizedRequirements: data.optimizedRequirements || requirements,
+    suggestedKeywords: data.suggestedKeywords,
+    inclusivityScore: Math.round(data.inclusivityScore)
+  };
+};
+
+/**
+ * Assess one application against a job's requirements
+ * @param {String} jobRequirements - The job's requirements
+ * @param {Object} application - { resume, coverLetter } as text
+ * @returns {Promise<Object>} - { matchScore, matchedSkills, missingSkills, feedback, recommendation }
+ */
+const screenApplication = async (jobRequirements, { resume, coverLetter }) => {
+  const { data } = await generateJson('applicationScreening', {
+    system: 'You are an expert AI recruiter that helps screen job applications against job requirements.',
+    prompt: `Analyze this job application against the requirements and provide an objective assessment of the candidate's fit.
+
+Return your analysis as a JSON object with fields:
+- "matchScore": number from 0-100
+- "matchedSkills": array of skills from the application that match requirements
+- "missingSkills": array of required skills that are missing or not clearly demonstrated
+- "feedback": brief objective assessment (max 150 words)
+- "recommendation": one of "strong_match", "potential_match", or "weak_match"
+
+Job Requirements:
+${jobRequirements}
+
+Resume:
+${resume}
+
+Cover Letter:
+${coverLetter || 'None provided'}`,
+    schema: SCREENING_SCHEMA
+  });
+  return {
+    matchScore: Math.round(data.matchScore),
+    matchedSkills: data.matchedSkills,
+    missingSkills: data.missingSkills,
+    feedback: data.feedback,
+    recommendation: data.recommendation
+  };
+};
+
+/**
+ * Extract structured profile data from resume text
+ * @param {String} resumeText - Plain text of the resume
+ * @returns {Promise<Object>} - { skills, experience, education, personalInfo }
+ */
+const parseResume = async (resumeText) => {
+  const { data } = await generateJson('resumeParse', {
+    system: 'You are an expert resume parser that extracts structured data from resumes. Extract the information carefully and format it according to the requested JSON structure.',
+    prompt: `Parse the following resume and extract structured information. Return a JSON object with the following structure:
+{
+  "skills": ["skill1", "skill2", ...],
+  "experience": [
+    {
+      "title": "Job Title",
+      "company": "Company Name",
+      "location": "City, State",
+      "from": "YYYY-MM",
+      "to": "YYYY-MM",
+      "current": false,
+      "description": "Job description"
+    }
+  ],
+  "education": [
+    {
+      "degree": "Degree Name",
+      "institution": "Institution Name",
+      "graduationYear": 2020,
+      "fieldOfStudy": "Computer Science"
+    }
+  ],
+  "personalInfo": {
+    "name": "Full Name",
+    "phone": "Phone Number",
+    "email": "email@example.com",
+    "location": "City, State",
+    "title": "Professional Title",
+    "summary": "Professional summary"
+  }
+}
+
+Format dates as YYYY-MM. Set "current" to true for current positions. Make reasonable inferences when information isn't explicitly stated. If you can't extract a piece of information, leave it out or use null.
+
+Resume:
+${resumeText}`,
+    schema: PARSED_RESUME_SCHEMA
+  });
+  return {
+    skills: data.skills || [],
+    experience: data.experience || [],
+    education: data.education || [],
+    personalInfo: data.personalInfo || {}
+  };
+};
+
+module.exports = {
+  recommendJobs,
+  analyzeResume,
+  generateInterviewQuestions,
+  optimizeJobDescription,
+  screenApplication,
+  parseResume
+};
@@ -0,0 +1,271 @@
+const AiUsage = require('../models/AiUsage');
+const {
+  FEATURES,
+  PROVIDER_FALLBACK_ORDER,
+  getFeatureConfig,
+  estimateCost
+} = require('../config/aiConfig');
+const { providers, queueStubResponses, clearStubResponses } = require('./aiProviders');
+
+/**
+ * AI Gateway
+ * The one way the backend talks to a language model. Callers name a feature
+ * ("screening", "assessmentQuestions", ...) and the gateway picks the provider and
+ * model configured for it (config/aiConfig.js), applies the timeout, retries
+ * transient failures, validates JSON answers against the caller's schema and
+ * records token usage and estimated cost per feature for the admin usage report.
+ */
+
+const RETRY_BASE_DELAY_MS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class AIGatewayError extends Error {
+  // code: 'unavailable' (no provider configured), 'invalid_response' (answer didn't match the schema) or 'failed'
+  constructor(message, { feature, code = 'failed', retryable = false } = {}) {
+    super(message);
+    this.name = 'AIGatewayError';
+    this.feature = feature;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The feature's provider, or the caller's preference, or the first other provider with credentials.
+// The stub only answers when configured explicitly, so a missing key never produces canned output.
+const resolveProvider = (config, preferred) => {
+  if (config.provider === 'stub') return providers.stub;
+  const candidates = [preferred, config.provider, ...PROVIDER_FALLBACK_ORDER]
+    .filter(name => name && name !== 'stub' && providers[name]);
+  const name = candidates.find(candidate => providers[candidate].isConfigured());
+  return name ? providers[name] : null;
+};
+
+/**
+ * Whether a feature has a provider to call
+ * @param {String} feature - Feature key from config/aiConfig.js
+ * @param {String} preferred - Optional provider the caller would rather use
+ * @returns {Boolean}
+ */
+const isEnabled = (feature, preferred) => Boolean(resolveProvider(getFeatureConfig(feature), preferred));
+
+// Models often wrap JSON in a ```json fence or add a sentence around it
+const parseJson = (text) => {
+  const cleaned = String(text || '').replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Check a value against the subset of JSON Schema the gateway supports:
+ * type, enum, minimum/maximum, properties, required, additionalProperties (as a schema), items, minItems
+ * @returns {Array<String>} - Problems found, empty when valid
+ */
+const validateSchema = (value, schema, path = 'response') => {
+  if (!schema) return [];
+  const actual = typeOf(value);
+  if (schema.type) {
+    const allowed = [].concat(schema.type);
+    const matches = allowed.some(type => type === actual || (type === 'integer' && Number.isInteger(value)));
+    if (!matches) return [`${path} should be ${allowed.join(' or ')}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path} should be one of ${schema.enum.join(', ')}`];
+  }
+
+  const errors = [];
+  if (actual === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be at most ${schema.maximum}`);
+  }
+  if (actual === 'object') {
+    const properties = schema.properties || {};
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(value).forEach(([key, item]) => {
+      const itemSchema = properties[key] || (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : null);
+      errors.push(...validateSchema(item, itemSchema, `${path}.${key}`));
+    });
+  }
+  if (actual === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} should have at least ${schema.minItems} items`);
+    value.forEach((item, index) => errors.push(...validateSchema(item, schema.items, `${path}[${index}]`)));
+  }
+  return errors;
+};
+
+// Log the call and add it to today's totals (skipped while the database is down, e.g. in scripts)
+const recordUsage = ({ feature, provider, model, usage, failed, retries, latencyMs }) => {
+  const costUsd = estimateCost(model, usage.inputTokens, usage.outputTokens);
+  console.log(`[AI Gateway] ${feature} via ${provider}/${model}: ${failed ? 'failed' : 'ok'} in ${latencyMs}ms, ${usage.inputTokens}+${usage.outputTokens} tokens, ~$${costUsd.toFixed(5)}${retries ? `, ${retries} retries` : ''}`);
+
+  if (AiUsage.db.readyState !== 1) return;
+  AiUsage.updateOne(
+    { day: new Date().toISOString().slice(0, 10), feature, provider, model },
+    {
+      $inc: {
+        requests: 1,
+        failures: failed ? 1 : 0,
+        retries,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUsd,
+        totalLatencyMs: latencyMs
+      }
+    },
+    { upsert: true }
+  ).catch(error => console.error('[AI Gateway] Failed to record usage:', error.message));
+};
+
+// One gateway call: resolve the provider, then try until success, a permanent error or the retry budget runs out
+const run = async (feature, { prompt, system, schema, provider: preferred, temperature, maxTokens }) => {
+  const config = getFeatureConfig(feature);
+  const provider = resolveProvider(config, preferred);
+  if (!provider) {
+    throw new AIGatewayError(`No AI provider is configured for ${feature}`, { feature, code: 'unavailable' });
+  }
+
+  const model = config.models[provider.name];
+  const json = Boolean(schema);
+  const usage = { inputTokens: 0, outputTokens: 0 };
+  const started = Date.now();
+  let lastError = null;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt += 1) {
+    attempts += 1;
+    if (attempt > 0) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+    try {
+      const result = await provider.complete({
+        feature,
+        model,
+        system,
+        prompt,
+        json,
+        schema,
+        temperature: temperature ?? config.temperature,
+        maxTokens: maxTokens ?? config.maxTokens,
+        timeoutMs: config.timeoutMs
+      });
+      usage.inputTokens += result.usage.inputTokens;
+      usage.outputTokens += result.usage.outputTokens;
+
+      let data;
+      if (json) {
+        try {
+          data = parseJson(result.text);
+        } catch (error) {
+          throw new AIGatewayError(`${feature} response was not valid JSON`, { feature, code: 'invalid_response', retryable: true });
+        }
+        const problems = validateSchema(data, schema);
+        if (problems.length) {
+          throw new AIGatewayError(`${feature} response did not match its schema: ${problems.slice(0, 3).join('; ')}`, { feature, code: 'invalid_response', retryable: true });
+        }
+      }
+
+      recordUsage({ feature, provider: provider.name, model, usage, failed: false, retries: attempt, latencyMs: Date.now() - started });
+      return { text: result.text, data, provider: provider.name, model, usage };
+    } catch (error) {
+      lastError = error;
+      console.warn(`[AI Gateway] ${feature} attempt ${attempt + 1} failed: ${error.message}`);
+      if (!error.retryable) break;
+    }
+  }
+
+  recordUsage({ feature, provider: provider.name, model, usage, failed: true, retries: attempts - 1, latencyMs: Date.now() - started });
+  if (lastError instanceof AIGatewayError) throw lastError;
+  throw new AIGatewayError(`${feature} failed: ${lastError.message}`, { feature });
+};
+
+/**
+ * Ask the feature's model for JSON matching a schema
+ * @param {String} feature - Feature key from config/aiConfig.js
+ * @param {Object} request - { prompt, system, schema, provider (preferred), temperature, maxTokens }
+ * @returns {Promise<Object>} - { data, text, provider, model, usage: { inputTokens, outputTokens } }
+ */
+const generateJson = (feature, request) => {
+  if (!request || !request.schema) {
+    throw new Error('generateJson needs a schema');
+  }
+  return run(feature, request);
+};
+
+/**
+ * Ask the feature's model for free text
+ * @param {String} feature - Feature key from config/aiConfig.js
+ * @param {Object} request - { prompt, system, provider (preferred), temperature, maxTokens }
+ * @returns {Promise<Object>} - { text, provider, model, usage: { inputTokens, outputTokens } }
+ */
+const generateText = (feature, request) => run(feature, { ...request, schema: undefined });
+
+/**
+ * Token and cost totals per feature, provider and model, plus what each feature is configured to use
+ * @param {Object} options - { days } window ending today (default 30)
+ * @returns {Promise<Object>} - { since, totals, usage: [...], features: [...] }
+ */
+const getUsageSummary = async ({ days = 30 } = {}) => {
+  const window = Math.min(Math.max(parseInt(days, 10) || 30, 1), 365);
+  const since = new Date(Date.now() - (window - 1) * DAY_MS).toISOString().slice(0, 10);
+  const fields = ['requests', 'failures', 'retries', 'inputTokens', 'outputTokens', 'costUsd', 'totalLatencyMs'];
+
+  const rows = await AiUsage.aggregate([
+    { $match: { day: { $gte: since } } },
+    {
+      $group: {
+        _id: { feature: '$feature', provider: '$provider', model: '$model' },
+        ...Object.fromEntries(fields.map(field => [field, { $sum: `$${field}` }]))
+      }
+    },
+    { $sort: { costUsd: -1, requests: -1 } }
+  ]);
+
+  const usage = rows.map(({ _id, totalLatencyMs, ...totals }) => ({
+    ..._id,
+    ...totals,
+    averageLatencyMs: totals.requests ? Math.round(totalLatencyMs / totals.requests) : 0
+  }));
+  const totals = Object.fromEntries(fields
+    .filter(field => field !== 'totalLatencyMs')
+    .map(field => [field, usage.reduce((sum, row) => sum + row[field], 0)]));
+
+  const features = Object.keys(FEATURES).map(feature => {
+    const config = getFeatureConfig(feature);
+    const provider = resolveProvider(config);
+    return {
+      feature,
+      provider: provider ? provider.name : null,
+      model: provider ? config.models[provider.name] : null,
+      timeoutMs: config.timeoutMs,
+      maxRetries: config.maxRetries
+    };
+  });
+
+  return { since, days: window, totals, usage, features };
+};
+
+module.exports = {
+  AIGatewayError,
+  isEnabled,
+  generateJson,
+  generateText,
+  getUsageSummary,
+  validateSchema,
+  queueStubResponses,
+  clearStubResponses
+};
@@ -0,0 +1,201 @@
+const axios = require('axios');
+
+/**
+ * AI Providers
+ * Every provider has the same shape, so the gateway can swap them per feature:
+ *   { name, isConfigured(), complete({ model, system, prompt, json, temperature, maxTokens, timeoutMs }) }
+ * complete() resolves to { text, usage: { inputTokens, outputTokens } } and rejects with an
+ * AIProviderError whose `retryable` flag tells the gateway whether another attempt could succeed.
+ */
+
+class AIProviderError extends Error {
+  constructor(message, { provider, status, retryable = false } = {}) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+// Rate limits, server errors, timeouts and dropped connections are worth retrying; bad requests are not
+const fromHttpError = (provider, error) => {
+  if (error instanceof AIProviderError) return error;
+  const status = error.response ? error.response.status : undefined;
+  const detail = error.response && error.response.data && error.response.data.error
+    ? error.response.data.error.message || JSON.stringify(error.response.data.error)
+    : error.message;
+  const timedOut = error.code === 'ECONNABORTED' || error.code === 'ERR_CANCELED' || error.name === 'CanceledError';
+  const retryable = timedOut || !status || status === 429 || status >= 500;
+  return new AIProviderError(
+    timedOut ? `${provider} request timed out` : `${provider} request failed${status ? ` (${status})` : ''}: ${detail}`,
+    { provider, status, retryable }
+  );
+};
+
+// Rough count for providers that don't report usage (about four characters per token)
+const estimateTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+// Groq and local servers (Ollama, vLLM, LM Studio) all speak the OpenAI chat completions API
+const createOpenAICompatibleProvider = ({ name, baseURL, apiKey, requiresKey }) => ({
+  name,
+  isConfigured: () => Boolean(baseURL()) && (!requiresKey || Boolean(apiKey())),
+  async complete({ model, system, prompt, json, temperature, maxTokens, timeoutMs }) {
+    const messages = [];
+    if (system) messages.push({ role: 'system', content: system });
+    messages.push({ role: 'user', content: prompt });
+
+    try {
+      const response = await axios.post(`${baseURL().replace(/\/$/, '')}/chat/completions`, {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(json ? { response_format: { type: 'json_object' } } : {})
+      }, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey() ? { Authorization: `Bearer ${apiKey()}` } : {})
+        },
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+
+      const choice = response.data.choices && response.data.choices[0];
+      const text = choice && choice.message ? choice.message.content || '' : '';
+      const usage = response.data.usage || {};
+      return {
+        text,
+        usage: {
+          inputTokens: usage.prompt_tokens ?? estimateTokens(`${system || ''}${prompt}`),
+          outputTokens: usage.completion_tokens ?? estimateTokens(text)
+        }
+      };
+    } catch (error) {
+      throw fromHttpError(name, error);
+    }
+  }
+});
+
+const groq = createOpenAICompatibleProvider({
+  name: 'groq',
+  baseURL: () => 'https://api.groq.com/openai/v1',
+  apiKey: () => process.env.GROQ_API_KEY,
+  requiresKey: true
+});
+
+const openai = createOpenAICompatibleProvider({
+  name: 'openai',
+  baseURL: () => process.env.AI_OPENAI_BASE_URL,
+  apiKey: () => process.env.AI_OPENAI_API_KEY,
+  requiresKey: false
+});
+
+const gemini = {
+  name: 'gemini',
+  isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+  async complete({ model, system, prompt, json, temperature, maxTokens, timeoutMs }) {
+    try {
+      const response = await axios.post(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`, {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature,
+          maxOutputTokens: maxTokens,
+          ...(json ? { responseMimeType: 'application/json' } : {})
+        }
+      }, {
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': process.env.GEMINI_API_KEY },
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+
+      const candidate = response.data.candidates && response.data.candidates[0];
+      if (!candidate || !candidate.content) {
+        const reason = candidate ? candidate.finishReason : (response.data.promptFeedback || {}).blockReason;
+        throw new AIProviderError(`gemini returned no content${reason ? ` (${reason})` : ''}`, { provider: 'gemini' });
+      }
+      const text = (candidate.content.parts || []).map(part => part.text || '').join('');
+      const usage = response.data.usageMetadata || {};
+      return {
+        text,
+        usage: {
+          inputTokens: usage.promptTokenCount ?? estimateTokens(`${system || ''}${prompt}`),
+          outputTokens: usage.candidatesTokenCount ?? estimateTokens(text)
+        }
+      };
+    } catch (error) {
+      throw fromHttpError('gemini', error);
+    }
+  }
+};
+
+// Smallest value that satisfies a JSON schema: first enum value, minimum, or an empty string/array
+const sampleFromSchema = (schema = {}) => {
+  if (schema.enum) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+    case 'array':
+      return Array.from({ length: schema.minItems || 0 }, () => sampleFromSchema(schema.items));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '';
+  }
+};
+
+// Responses queued by tests, per feature, answered in order before the default sample
+const stubQueues = new Map();
+
+// Deterministic provider for tests and offline development: never calls out, and answers
+// with the next queued response for the feature or else the smallest schema-valid sample
+const stub = {
+  name: 'stub',
+  isConfigured: () => true,
+  async complete(request) {
+    const { feature, system, prompt, json, schema } = request;
+    const queue = stubQueues.get(feature) || [];
+    let text;
+    if (queue.length > 0) {
+      const response = queue.shift();
+      const value = typeof response === 'function' ? await response(request) : response;
+      if (value instanceof Error) throw value;
+      text = typeof value === 'string' ? value : JSON.stringify(value);
+    } else {
+      text = json ? JSON.stringify(sampleFromSchema(schema)) : `[stub] ${feature} response`;
+    }
+    return {
+      text,
+      usage: { inputTokens: estimateTokens(`${system || ''}${prompt}`), outputTokens: estimateTokens(text) }
+    };
+  }
+};
+
+/**
+ * Queue responses for the stub provider to give a feature, one per call
+ * @param {String} feature - Feature key
+ * @param {...*} responses - Each a string (raw model text), a JSON-serializable value, an Error to
+ *   fail the call with (an AIProviderError with retryable: true is retried), or a function of the
+ *   request returning any of these
+ */
+const queueStubResponses = (feature, ...responses) => {
+  stubQueues.set(feature, [...(stubQueues.get(feature) || []), ...responses]);
+};
+
+// Drop every queued stub response
+const clearStubResponses = () => stubQueues.clear();
+
+const providers = { groq, gemini, openai, stub };
+
+module.exports = {
+  providers,
+  AIProviderError,
+  estimateTokens,
+  queueStubResponses,
+  clearStubResponses
+};
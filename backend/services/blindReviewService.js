@@ -0,0 +1,167 @@
+/**
+ * Blind Review Service
+ * Jobs with blind review on hide who applicants are while they are screened:
+ * employers see a stable alias instead of the name, and emails, photos,
+ * locations, institution names and resume links are left out or redacted
+ * from free text. Identity is revealed once the application is advanced to
+ * interview (or straight to an offer), and the reveal is logged in the
+ * application history.
+ */
+
+// Stage categories at which the hiring team gets to see who the candidate is
+const REVEAL_CATEGORIES = ['interview', 'accepted'];
+
+const REDACTED = '[redacted]';
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Stable alias for an applicant, derived from the application id
+ * @param {Object|String} application - Application (or its id)
+ * @returns {String} - e.g. "Candidate 4F2A9C"
+ */
+const getCandidateAlias = (application) => {
+  const id = String(application && application._id ? application._id : application);
+  return `Candidate ${id.slice(-6).toUpperCase()}`;
+};
+
+/**
+ * Whether the hiring team should see an application without the applicant's identity
+ * @param {Object} job - Job (needs blindReview)
+ * @param {Object} application - Job application
+ * @returns {Boolean}
+ */
+const isIdentityHidden = (job, application) => Boolean(
+  job && job.blindReview && !application.identityRevealedAt
+);
+
+/**
+ * Reveal the applicant's identity if the application has just reached interview or beyond,
+ * recording it in the application history (doesn't save)
+ * @param {Object} job - Job (needs blindReview)
+ * @param {Object} application - JobApplication document
+ * @returns {Boolean} - Whether the identity was revealed
+ */
+const revealIdentityIfAdvanced = (job, application) => {
+  if (!isIdentityHidden(job, application) || !REVEAL_CATEGORIES.includes(application.status)) return false;
+
+  application.identityRevealedAt = new Date();
+  application.applicationHistory.push({
+    status: application.status,
+    stage: application.stage,
+    date: application.identityRevealedAt,
+    note: 'Candidate identity revealed to the hiring team'
+  });
+  return true;
+};
+
+/**
+ * Words that identify an applicant: their names, email and the institutions they studied at
+ * @param {Object} seeker - Populated job seeker
+ * @returns {Array<String>} - Terms to redact, longest first
+ */
+const getIdentifyingTerms = (seeker) => {
+  if (!seeker) return [];
+  const names = [seeker.name, seeker.firstName, seeker.lastName]
+    .filter(Boolean)
+    .map(name => String(name).trim());
+  const nameParts = names.flatMap(name => name.split(/\s+/)).filter(part => part.length > 1);
+  const institutions = (seeker.education || [])
+    .map(entry => entry && entry.institution && String(entry.institution).trim())
+    .filter(Boolean);
+
+  return Array.from(new Set([...names, ...nameParts, seeker.email, ...institutions].filter(Boolean)))
+    .sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Replace identifying terms and email addresses in free text
+ * @param {String} text - Cover letter, resume text, answer, ...
+ * @param {Array<String>} terms - From getIdentifyingTerms
+ * @returns {String} - Redacted text
+ */
+const redactText = (text, terms) => {
+  if (!text) return text;
+  let redacted = String(text).replace(EMAIL_PATTERN, REDACTED);
+  terms.forEach(term => {
+    redacted = redacted.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi'), REDACTED);
+  });
+  return redacted;
+};
+
+/**
+ * Application as the hiring team sees it during blind review
+ * @param {Object} application - Plain application object with jobSeeker populated
+ *   (name, firstName, lastName, email, education are used for redaction)
+ * @returns {Object} - Copy without identifying details
+ */
+const blindApplication = (application) => {
+  const seeker = application.jobSeeker || {};
+  const terms = getIdentifyingTerms(seeker);
+  const alias = getCandidateAlias(application);
+
+  const blinded = {
+    ...application,
+    blind: true,
+    candidateAlias: alias,
+    jobSeeker: {
+      name: alias,
+      skills: seeker.skills || []
+    },
+    coverLetter: redactText(application.coverLetter, terms),
+    screeningAnswers: (application.screeningAnswers || []).map(answer => ({
+      ...answer,
+      answer: redactText(answer.answer, terms)
+    }))
+  };
+  // Resume files and links carry the applicant's name
+  delete blinded.resume;
+  delete blinded.resumeFile;
+  delete blinded.coverLetterFile;
+  if (blinded.resumeText) blinded.resumeText = redactText(blinded.resumeText, terms);
+  return blinded;
+};
+
+/**
+ * Talent-search result for someone whose blind-review application is still being screened
+ * @param {Object} candidate - Plain job seeker from the search
+ * @param {Object} application - Their application to a blind-review job
+ * @param {String} jobTitle - Title of that job
+ * @returns {Object} - Copy without identifying details (names, institutions, employers, locations),
+ *   keyed by the application instead of the user
+ */
+const blindSearchCandidate = (candidate, application, jobTitle) => {
+  const alias = getCandidateAlias(application);
+  // Employers named in the experience entries identify the candidate too
+  const companies = (candidate.experience || [])
+    .map(entry => entry && entry.company && String(entry.company).trim())
+    .filter(Boolean);
+  const terms = Array.from(new Set([...getIdentifyingTerms(candidate), ...companies]))
+    .sort((a, b) => b.length - a.length);
+  return {
+    _id: String(application._id),
+    firstName: alias,
+    lastName: '',
+    title: candidate.title,
+    skills: candidate.skills,
+    experience: (candidate.experience || []).map(({ company, location, description, ...entry }) => ({
+      ...entry,
+      description: redactText(description, terms)
+    })),
+    education: (candidate.education || []).map(entry => ({ degree: entry.degree, graduationYear: entry.graduationYear })),
+    totalYearsExperience: candidate.totalYearsExperience,
+    blindReview: { jobTitle }
+  };
+};
+
+module.exports = {
+  REVEAL_CATEGORIES,
+  getCandidateAlias,
+  isIdentityHidden,
+  revealIdentityIfAdvanced,
+  getIdentifyingTerms,
+  redactText,
+  blindApplication,
+  blindSearchCandidate
+};
@@ -0,0 +1,413 @@
+/**
+ * Heuristic Resume Parser
+ * Structures plain resume text without calling an AI service: splits it into
+ * sections by their headings, pulls contact details, date ranges, titles,
+ * companies and degrees with patterns, and matches skills against a
+ * dictionary. Every field comes with a confidence score between 0 and 1 so
+ * the profile can tell a sure match from a guess.
+ */
+
+const { findSkill } = require('./skillTaxonomyService');
+
+const SECTION_HEADINGS = {
+  summary: ['summary', 'profile', 'objective', 'about me', 'professional summary', 'career objective', 'career summary'],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'employment', 'employment history',
+    'work history', 'career history', 'relevant experience'
+  ],
+  education: ['education', 'academic background', 'academics', 'qualifications', 'academic qualifications', 'education and training'],
+  skills: [
+    'skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies',
+    'technologies', 'tools and technologies', 'skills and tools', 'skills & tools', 'areas of expertise'
+  ],
+  projects: ['projects', 'personal projects', 'academic projects', 'key projects', 'selected projects'],
+  certifications: [
+    'certifications', 'certificates', 'licenses', 'licenses and certifications',
+    'licenses & certifications', 'certifications and licenses', 'courses and certifications'
+  ]
+};
+
+// Skills recognised anywhere in the text; a skills section can add others
+const SKILL_DICTIONARY = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C#', 'C++', 'Ruby', 'PHP', 'Swift', 'Kotlin', 'Go', 'Rust', 'Scala', 'Dart',
+  'React', 'React Native', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'NestJS', 'Django', 'Flask', 'FastAPI',
+  'Spring', 'Spring Boot', 'ASP.NET', '.NET', 'Laravel', 'Ruby on Rails', 'Flutter',
+  'SQL', 'MongoDB', 'PostgreSQL', 'MySQL', 'Oracle', 'SQLite', 'Firebase', 'Redis', 'Elasticsearch', 'DynamoDB',
+  'AWS', 'Azure', 'Google Cloud', 'Docker', 'Kubernetes', 'Terraform', 'Linux',
+  'Git', 'GitHub', 'GitLab', 'CI/CD', 'Jenkins', 'Travis CI', 'GitHub Actions',
+  'HTML', 'CSS', 'SASS', 'LESS', 'Bootstrap', 'Tailwind', 'Material UI', 'Redux', 'GraphQL', 'jQuery', 'Webpack',
+  'REST API', 'WebSocket', 'Microservices', 'RabbitMQ', 'Kafka',
+  'TensorFlow', 'PyTorch', 'Scikit-learn', 'Pandas', 'NumPy', 'Machine Learning', 'Deep Learning', 'NLP',
+  'Data Analysis', 'Power BI', 'Tableau', 'Excel', 'AI',
+  'Jest', 'Cypress', 'Selenium', 'Figma', 'Photoshop', 'Illustrator', 'Jira', 'SEO',
+  'Communication', 'Teamwork', 'Problem Solving', 'Critical Thinking', 'Leadership', 'Time Management',
+  'Adaptability', 'Creativity', 'Collaboration', 'Project Management', 'Agile', 'Scrum', 'Kanban',
+  'Presentation', 'Customer Service', 'Conflict Resolution'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_TOKEN = `(?:${MONTH_PATTERN}\\.?,?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|(?:19|20)\\d{2})`;
+const DATE_RANGE_REGEX = new RegExp(`(${DATE_TOKEN})\\s*(?:-|–|—|to|until)\\s*(${DATE_TOKEN}|present|current|now|today|date)`, 'i');
+const YEAR_REGEX = /\b(?:19|20)\d{2}\b/g;
+
+const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+const PHONE_CANDIDATE_REGEX = /(?:\+|\()?\d[\d\s().-]{7,18}\d/g;
+const LINK_REGEX = /\b(?:https?:\/\/|www\.)[^\s,;|()<>]+|\b(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s,;|()<>]+/gi;
+
+const TITLE_REGEX = /\b(engineer|developer|programmer|manager|designer|analyst|consultant|director|lead|architect|scientist|specialist|administrator|intern|officer|coordinator|executive|accountant|teacher|lecturer|technician|associate|assistant|head|founder|tester|writer|editor|marketer|recruiter|researcher|representative|supervisor|strategist)\b/i;
+const COMPANY_REGEX = /\b(inc|llc|ltd|limited|corp|corporation|co|company|technologies|technology|tech|solutions|systems|labs|group|pvt|gmbh|plc|software|services|consulting|bank|studio|studios|agency|ventures|partners|international)\b\.?/i;
+const INSTITUTION_REGEX = /\b(university|college|institute|school|academy|polytechnic|universit[äe]t)\b/i;
+const DEGREE_REGEX = /\b(Ph\.?\s?D|Doctor(?:ate)? of [A-Z][a-z]+|Master(?:'s)?(?: of [A-Z][a-z]+(?: [A-Z][a-z]+)?)?|Bachelor(?:'s)?(?: of [A-Z][a-z]+(?: [A-Z][a-z]+)?)?|Associate(?:'s)? (?:of|in) [A-Z][a-z]+|M\.?B\.?A|M\.?\s?Sc|B\.?\s?Sc|B\.?\s?Tech|M\.?\s?Tech|B\.?S|M\.?S|B\.?A|M\.?A|B\.?E|M\.?E|BBA|BCS|Diploma|HSSC|SSC|Intermediate|Matric(?:ulation)?|A[- ]Levels?|O[- ]Levels?)\b\.?/;
+const FIELD_OF_STUDY_REGEX = /\b(?:in|of)\s+([A-Z][A-Za-z&' ]+?)(?=\s*(?:[,|–—(]|\s-\s|\bfrom\b|\bat\b|\d|$))/;
+
+const BULLET_REGEX = /^\s*[•·▪■◦●*\-–—>]+\s*/;
+
+const round = (value) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+const average = (values) => (values.length ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0);
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Each non-empty line, trimmed, with whether it was a bullet point
+const toLines = (text) => String(text || '')
+  .replace(/\r/g, '')
+  .split('\n')
+  .map(raw => ({
+    text: raw.replace(BULLET_REGEX, '').replace(/\s+/g, ' ').trim(),
+    bullet: BULLET_REGEX.test(raw)
+  }))
+  .filter(line => line.text);
+
+// The section a line is the heading of, if it is one
+const headingOf = (text) => {
+  if (text.length > 40 || text.split(' ').length > 5) return null;
+  const normalized = text.toLowerCase().replace(/[:.]+$/, '').replace(/[^a-z& ]/g, '').replace(/\s+/g, ' ').trim();
+  return Object.keys(SECTION_HEADINGS).find(section => SECTION_HEADINGS[section].includes(normalized)) || null;
+};
+
+/**
+ * Split resume lines into sections by their headings
+ * @param {Array} lines - Lines from toLines
+ * @returns {Object} - { header: [...lines before the first heading], experience: [...], ... }
+ */
+const splitSections = (lines) => {
+  const sections = { header: [] };
+  let current = 'header';
+  lines.forEach(line => {
+    const section = !line.bullet && headingOf(line.text);
+    if (section) {
+      current = section;
+      sections[current] = sections[current] || [];
+    } else {
+      sections[current].push(line);
+    }
+  });
+  return sections;
+};
+
+// 'YYYY-MM' (or 'YYYY' when only the year is given) for a date token
+const toMonthValue = (token) => {
+  const value = token.trim().toLowerCase();
+  const year = (value.match(/\d{4}/) || [])[0];
+  if (!year) return '';
+  const slashMonth = value.match(/^(\d{1,2})\//);
+  if (slashMonth) return `${year}-${slashMonth[1].padStart(2, '0')}`;
+  const monthIndex = MONTHS.findIndex(month => value.startsWith(month));
+  return monthIndex >= 0 ? `${year}-${String(monthIndex + 1).padStart(2, '0')}` : year;
+};
+
+/**
+ * Find a date range such as "Jan 2020 - Present" or "2018 – 2021" in a line
+ * @param {String} text
+ * @returns {Object|null} - { match, startDate, endDate, current }
+ */
+const parseDateRange = (text) => {
+  const match = text.match(DATE_RANGE_REGEX);
+  if (!match) return null;
+  const current = /^(present|current|now|today|date)$/i.test(match[2].trim());
+  return {
+    match: match[0],
+    startDate: toMonthValue(match[1]),
+    endDate: current ? '' : toMonthValue(match[2]),
+    current
+  };
+};
+
+const extractEmail = (text) => {
+  const match = text.match(EMAIL_REGEX);
+  return match ? { value: match[0], confidence: 0.95 } : { value: '', confidence: 0 };
+};
+
+// Phone numbers have 10-15 digits; date ranges like "2018 - 2020" don't count
+const extractPhone = (headerText, text) => {
+  for (const [source, confidence] of [[headerText, 0.9], [text, 0.7]]) {
+    const candidates = source.match(PHONE_CANDIDATE_REGEX) || [];
+    const phone = candidates
+      .map(candidate => candidate.trim())
+      .find(candidate => {
+        const digits = candidate.replace(/\D/g, '');
+        return digits.length >= 10 && digits.length <= 15 && !/^(?:19|20)\d{2}\s*[-–]\s*(?:19|20)\d{2}/.test(candidate);
+      });
+    if (phone) return { value: phone, confidence };
+  }
+  return { value: '', confidence: 0 };
+};
+
+const extractLinks = (text) => {
+  const links = (text.match(LINK_REGEX) || [])
+    .map(link => link.replace(/[.)\]]+$/, ''))
+    .map(link => (/^https?:\/\//i.test(link) ? link : `https://${link}`));
+  const unique = [...new Set(links)];
+  return { value: unique, confidence: unique.length ? 0.9 : 0 };
+};
+
+// The candidate's name is usually the first line: two to four capitalised words
+const extractName = (headerLines) => {
+  const index = headerLines.slice(0, 4).findIndex(({ text }) => /^[A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*){1,3}$/.test(text) && !TITLE_REGEX.test(text));
+  if (index < 0) return { value: '', confidence: 0 };
+  return { value: headerLines[index].text, confidence: index === 0 ? 0.85 : 0.6 };
+};
+
+const headerSegments = (headerLines) => headerLines
+  .flatMap(({ text }) => text.split(/\s*[|•·]\s*|\s{2,}/))
+  .map(segment => segment.trim())
+  .filter(Boolean);
+
+const extractTitle = (headerLines, experience) => {
+  const title = headerSegments(headerLines.slice(0, 6)).find(segment =>
+    TITLE_REGEX.test(segment) && segment.split(' ').length <= 8 && !/[@\d]/.test(segment)
+  );
+  if (title) return { value: title, confidence: 0.8 };
+  // Fall back to the most recent position held
+  const latest = experience.find(entry => entry.position);
+  return latest ? { value: latest.position, confidence: 0.5 } : { value: '', confidence: 0 };
+};
+
+const extractLocation = (headerLines) => {
+  const location = headerSegments(headerLines.slice(0, 8)).find(segment =>
+    /^[A-Z][A-Za-z.' -]+,\s*[A-Z][A-Za-z.' -]+$/.test(segment) && !TITLE_REGEX.test(segment) && segment.length <= 50
+  );
+  return location ? { value: location, confidence: 0.7 } : { value: '', confidence: 0 };
+};
+
+// Split "Senior Developer at Acme Inc, Lahore" into its parts
+const splitRoleText = (text) => text
+  .split(/\s+(?:at|@)\s+|\s*[|–—,]\s*|\s+-\s+/)
+  .map(part => part.replace(/[()]/g, '').trim())
+  .filter(part => part && /[A-Za-z]/.test(part));
+
+/**
+ * Build experience entries: each date range anchors one entry, the lines just
+ * above it name the role, and the lines after it describe the work
+ * @param {Array} lines - The experience section's lines
+ * @returns {Array} - [{ company, position, duration, startDate, endDate, current, description, confidence }]
+ */
+const extractExperience = (lines) => {
+  const anchors = lines.map((line, index) => (parseDateRange(line.text) ? index : -1)).filter(index => index >= 0);
+  const entries = [];
+  let previousEnd = 0;
+
+  anchors.forEach((anchor, position) => {
+    let headerStart = anchor;
+    while (headerStart > previousEnd && anchor - headerStart < 2 && !lines[headerStart - 1].bullet) {
+      headerStart -= 1;
+    }
+    const nextAnchor = anchors[position + 1];
+    let bodyEnd = nextAnchor === undefined ? lines.length : nextAnchor;
+    if (nextAnchor !== undefined) {
+      // Leave the next entry's role lines to it
+      while (bodyEnd > anchor + 1 && nextAnchor - bodyEnd < 2 && !lines[bodyEnd - 1].bullet) {
+        bodyEnd -= 1;
+      }
+    }
+
+    const range = parseDateRange(lines[anchor].text);
+    const roleText = lines.slice(headerStart, anchor + 1)
+      .map(line => line.text.replace(range.match, ' '))
+      .join(' | ');
+    const parts = splitRoleText(roleText);
+    const titled = parts.find(part => TITLE_REGEX.test(part));
+    const roleName = titled || parts[0] || '';
+    const companyLike = parts.find(part => part !== roleName && COMPANY_REGEX.test(part));
+    const company = companyLike || parts.find(part => part !== roleName) || '';
+
+    entries.push({
+      company,
+      position: roleName,
+      duration: range.match,
+      startDate: range.startDate,
+      endDate: range.endDate,
+      current: range.current,
+      description: lines.slice(anchor + 1, bodyEnd).map(line => line.text).join('\n'),
+      confidence: round(0.2 + 0.3 + (titled ? 0.3 : roleName ? 0.1 : 0) + (companyLike ? 0.2 : company ? 0.1 : 0))
+    });
+    previousEnd = bodyEnd;
+  });
+
+  return entries;
+};
+
+/**
+ * Build education entries; a new entry starts whenever a second institution
+ * or degree turns up for the entry being read
+ * @param {Array} lines - The education section's lines
+ * @returns {Array} - [{ institution, degree, fieldOfStudy, year, graduationYear, confidence }]
+ */
+const extractEducation = (lines) => {
+  const entries = [];
+  let current = null;
+  const finish = () => {
+    if (current && (current.institution || current.degree)) entries.push(current);
+  };
+
+  lines.forEach(({ text }) => {
+    const institutionMatch = INSTITUTION_REGEX.test(text);
+    const degreeMatch = text.match(DEGREE_REGEX);
+    if (!current || (institutionMatch && current.institution) || (degreeMatch && current.degree)) {
+      finish();
+      current = { institution: '', degree: '', fieldOfStudy: '', years: [] };
+    }
+    if (institutionMatch) {
+      current.institution = splitRoleText(text.replace(DATE_RANGE_REGEX, ' ')).find(part => INSTITUTION_REGEX.test(part)) || text;
+    }
+    if (degreeMatch) {
+      const field = text.slice(degreeMatch.index).match(FIELD_OF_STUDY_REGEX);
+      current.degree = degreeMatch[0].replace(/\.$/, '');
+      current.fieldOfStudy = field && !INSTITUTION_REGEX.test(field[1]) ? field[1].trim() : current.fieldOfStudy;
+    }
+    current.years.push(...(text.match(YEAR_REGEX) || []).map(Number));
+  });
+  finish();
+
+  const latestPlausibleYear = new Date().getFullYear() + 6;
+  return entries.map(({ years, ...entry }) => {
+    const plausible = years.filter(year => year <= latestPlausibleYear);
+    const year = plausible.length ? String(Math.max(...plausible)) : '';
+    return {
+      ...entry,
+      degree: entry.fieldOfStudy && !entry.degree.includes(entry.fieldOfStudy) ? `${entry.degree} in ${entry.fieldOfStudy}`.trim() : entry.degree,
+      year,
+      graduationYear: year,
+      confidence: round(0.2 + (entry.institution ? 0.35 : 0) + (entry.degree ? 0.25 : 0) + (year ? 0.2 : 0))
+    };
+  });
+};
+
+// Word-boundary match that still works for skills like C++, C# and Node.js
+const skillPattern = (skill) => {
+  // Short acronyms and "Go" only count in their usual casing
+  const caseSensitive = skill === 'Go' || (skill.length <= 3 && skill === skill.toUpperCase());
+  return new RegExp(`(?<![A-Za-z0-9+#.])${escapeRegex(skill)}(?![A-Za-z0-9+#]|\\.[A-Za-z])`, caseSensitive ? '' : 'i');
+};
+const SKILL_PATTERNS = SKILL_DICTIONARY.map(skill => ({ skill, pattern: skillPattern(skill) }));
+
+/**
+ * Collect skills from the skills section and dictionary matches in the whole text
+ * @param {Array} skillLines - The skills section's lines
+ * @param {String} text - Full resume text
+ * @returns {Object} - { skills: [String], scores: [Number] }
+ */
+const extractSkills = (skillLines, text) => {
+  // Keyed by taxonomy ID and named canonically, so "JS" and "JavaScript" are one skill
+  const found = new Map();
+  const add = (name, confidence) => {
+    const known = findSkill(name);
+    const key = known ? known.id : name.toLowerCase();
+    if (!found.has(key) || found.get(key).confidence < confidence) {
+      found.set(key, { skill: known ? known.name : name, confidence });
+    }
+  };
+
+  skillLines
+    .flatMap(({ text: line }) => line.replace(/^[A-Za-z &/]{2,30}:\s*/, '').split(/\s*[,;|•·]\s*|\s{2,}/))
+    .map(item => item.replace(/\.$/, '').trim())
+    .filter(item => item && item.length <= 40 && item.split(' ').length <= 4 && /[A-Za-z]/.test(item) && !DATE_RANGE_REGEX.test(item))
+    .forEach(item => {
+      const known = findSkill(item) || SKILL_DICTIONARY.some(skill => skill.toLowerCase() === item.toLowerCase());
+      add(item, known ? 0.95 : 0.75);
+    });
+
+  SKILL_PATTERNS.forEach(({ skill, pattern }) => {
+    if (pattern.test(text)) add(skill, 0.6);
+  });
+
+  const values = [...found.values()];
+  return { skills: values.map(entry => entry.skill), scores: values.map(entry => entry.confidence) };
+};
+
+// A project starts at each line that isn't a bullet point; bullets describe it
+const extractProjects = (lines) => lines.reduce((projects, line) => {
+  const last = projects[projects.length - 1];
+  if (!line.bullet || !last) {
+    projects.push({ name: line.text, description: '' });
+  } else {
+    last.description = last.description ? `${last.description}\n${line.text}` : line.text;
+  }
+  return projects;
+}, []);
+
+const extractCertifications = (lines) => lines.map(({ text }) => {
+  const years = text.match(YEAR_REGEX) || [];
+  return { name: text, year: years.length ? years[years.length - 1] : '' };
+});
+
+/**
+ * Parse resume text into the shape the profile's resume import uses
+ * @param {String} text - Text extracted from the resume file
+ * @returns {Object} - { personalInfo, skills, experience, education, projects, certifications, confidence }
+ */
+const parseResumeText = (text) => {
+  const source = String(text || '');
+  const lines = toLines(source);
+  const sections = splitSections(lines);
+  const headerText = sections.header.map(line => line.text).join('\n');
+
+  const experience = extractExperience(sections.experience || []);
+  const education = extractEducation(sections.education || []);
+  const { skills, scores: skillScores } = extractSkills(sections.skills || [], source);
+  const projects = extractProjects(sections.projects || []);
+  const certifications = extractCertifications(sections.certifications || []);
+
+  const fields = {
+    name: extractName(sections.header),
+    email: extractEmail(source),
+    phone: extractPhone(headerText, source),
+    location: extractLocation(sections.header),
+    title: extractTitle(sections.header, experience),
+    links: extractLinks(source)
+  };
+
+  const confidence = {
+    personalInfo: Object.fromEntries(Object.entries(fields).map(([field, { confidence: score }]) => [field, score])),
+    skills: average(skillScores),
+    experience: average(experience.map(entry => entry.confidence)),
+    education: average(education.map(entry => entry.confidence)),
+    projects: projects.length ? 0.7 : 0,
+    certifications: certifications.length ? 0.7 : 0
+  };
+  confidence.overall = average([
+    fields.name.confidence,
+    fields.email.confidence,
+    fields.phone.confidence,
+    confidence.skills,
+    confidence.experience,
+    confidence.education
+  ]);
+
+  return {
+    personalInfo: Object.fromEntries(Object.entries(fields).map(([field, { value }]) => [field, value])),
+    skills,
+    experience,
+    education,
+    projects,
+    certifications,
+    confidence
+  };
+};
+
+module.exports = {
+  SECTION_HEADINGS,
+  SKILL_DICTIONARY,
+  splitSections,
+  parseDateRange,
+  parseResumeText
+};
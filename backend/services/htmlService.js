@@ -0,0 +1,20 @@
+/**
+ * HTML Service
+ * Escaping for user-supplied values placed into HTML emails, offer letters
+ * and server-rendered pages.
+ */
+
+/**
+ * Escape text for an HTML element body or double-quoted attribute
+ * @param {*} text - Value to escape (null and undefined become an empty string)
+ * @returns {string} - Escaped text
+ */
+const escapeHtml = (text) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+module.exports = {
+  escapeHtml
+};
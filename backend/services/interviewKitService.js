@@ -0,0 +1,164 @@
+const { slugify } = require('./pipelineService');
+
+/**
+ * Interview Kit Service
+ * An interview kit is the scorecard for one type of interview on a job: the
+ * competencies interviewers rate, suggested questions for each, and a rubric
+ * describing what each score means. Interview types without a kit use the
+ * standard scorecard, whose competency keys match the rating fields used
+ * before kits existed, so older ratings aggregate alongside new ones.
+ */
+
+const INTERVIEW_TYPES = ['screening', 'technical', 'behavioral', 'final'];
+const MAX_COMPETENCIES = 10;
+const MAX_QUESTIONS = 10;
+const RUBRIC_LEVELS = 5;
+
+const DEFAULT_COMPETENCIES = [
+  { key: 'technicalSkills', name: 'Technical Skills', description: '', questions: [], rubric: [] },
+  { key: 'communication', name: 'Communication', description: '', questions: [], rubric: [] },
+  { key: 'culturalFit', name: 'Cultural Fit', description: '', questions: [], rubric: [] },
+  { key: 'problemSolving', name: 'Problem Solving', description: '', questions: [], rubric: [] }
+];
+
+const cleanList = (items) => (Array.isArray(items) ? items : [])
+  .map(item => String(item || '').trim());
+
+/**
+ * Check employer-supplied interview kits before saving
+ * @param {Array<Object>} kits - Kits from the request body
+ * @returns {String|null} - Error message, or null if the kits are valid
+ */
+const validateInterviewKits = (kits) => {
+  if (!Array.isArray(kits)) return 'Interview kits must be a list';
+
+  const seenTypes = new Set();
+  for (const kit of kits) {
+    if (!kit || !INTERVIEW_TYPES.includes(kit.interviewType)) {
+      return `Invalid interview type. Must be one of: ${INTERVIEW_TYPES.join(', ')}`;
+    }
+    if (seenTypes.has(kit.interviewType)) return `There can only be one ${kit.interviewType} interview kit`;
+    seenTypes.add(kit.interviewType);
+
+    const competencies = kit.competencies;
+    if (!Array.isArray(competencies) || competencies.length === 0) {
+      return `The ${kit.interviewType} kit needs at least one competency`;
+    }
+    if (competencies.length > MAX_COMPETENCIES) {
+      return `An interview kit can have at most ${MAX_COMPETENCIES} competencies`;
+    }
+    for (let index = 0; index < competencies.length; index++) {
+      const competency = competencies[index] || {};
+      if (!competency.name || !String(competency.name).trim()) {
+        return `Competency ${index + 1} in the ${kit.interviewType} kit needs a name`;
+      }
+      if (cleanList(competency.questions).filter(Boolean).length > MAX_QUESTIONS) {
+        return `"${competency.name}" can have at most ${MAX_QUESTIONS} suggested questions`;
+      }
+      if (cleanList(competency.rubric).length > RUBRIC_LEVELS) {
+        return `The rubric for "${competency.name}" can only describe scores 1 to ${RUBRIC_LEVELS}`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Fill in competency keys (from the name) and tidy up questions and rubrics
+ * @param {Array<Object>} kits - Validated kits from the request body
+ * @returns {Array<Object>} - Kits ready to store on the job
+ */
+const normalizeInterviewKits = (kits) => kits.map(kit => {
+  const usedKeys = new Set();
+  return {
+    interviewType: kit.interviewType,
+    competencies: kit.competencies.map(competency => {
+      const name = String(competency.name).trim();
+      let key = String(competency.key || '').trim() || slugify(name) || 'competency';
+      const base = key;
+      for (let suffix = 2; usedKeys.has(key); suffix++) key = `${base}-${suffix}`;
+      usedKeys.add(key);
+
+      const rubric = cleanList(competency.rubric);
+      return {
+        key,
+        name,
+        description: String(competency.description || '').trim(),
+        questions: cleanList(competency.questions).filter(Boolean),
+        // Trailing blanks carry no guidance
+        rubric: rubric.some(Boolean) ? rubric : []
+      };
+    })
+  };
+});
+
+/**
+ * The kit interviewers use for an interview type on a job
+ * @param {Object} job - Job document
+ * @param {String} interviewType - One of INTERVIEW_TYPES
+ * @returns {Object} - { interviewType, competencies, source: 'job' | 'default' }
+ */
+const getInterviewKit = (job, interviewType) => {
+  const kit = (job.interviewKits || []).find(candidate => candidate.interviewType === interviewType);
+  if (kit && kit.competencies.length > 0) {
+    return { interviewType, competencies: kit.competencies, source: 'job' };
+  }
+  return { interviewType, competencies: DEFAULT_COMPETENCIES, source: 'default' };
+};
+
+/**
+ * Kits for every interview type on a job
+ * @param {Object} job - Job document
+ * @returns {Array<Object>} - One kit per interview type
+ */
+const getInterviewKits = (job) => INTERVIEW_TYPES.map(type => getInterviewKit(job, type));
+
+/**
+ * Check an interviewer's scores against a kit
+ * @param {Object} kit - Kit from getInterviewKit
+ * @param {Array<Object>} scores - { competency, score, notes } from the request body
+ * @returns {String|null} - Error message, or null if every competency has a valid score
+ */
+const validateScorecard = (kit, scores) => {
+  if (!Array.isArray(scores)) return 'Scores must be a list';
+
+  const keys = kit.competencies.map(competency => competency.key);
+  for (const entry of scores) {
+    if (!entry || !keys.includes(entry.competency)) {
+      return 'Scores must match the competencies in the interview kit';
+    }
+    if (!Number.isInteger(Number(entry.score)) || entry.score < 1 || entry.score > RUBRIC_LEVELS) {
+      return `Scores must be between 1 and ${RUBRIC_LEVELS}`;
+    }
+  }
+  const missing = kit.competencies.find(competency => !scores.some(entry => entry.competency === competency.key));
+  return missing ? `Please score "${missing.name}"` : null;
+};
+
+/**
+ * Scores in kit order, with the competency names copied in so the scorecard
+ * still reads correctly if the kit is edited later
+ * @param {Object} kit - Kit from getInterviewKit
+ * @param {Array<Object>} scores - Validated scores
+ * @returns {Array<Object>} - { competency, name, score, notes }
+ */
+const buildScorecard = (kit, scores) => kit.competencies.map(competency => {
+  const entry = scores.find(candidate => candidate.competency === competency.key);
+  return {
+    competency: competency.key,
+    name: competency.name,
+    score: Number(entry.score),
+    notes: String(entry.notes || '').trim()
+  };
+});
+
+module.exports = {
+  INTERVIEW_TYPES,
+  DEFAULT_COMPETENCIES,
+  validateInterviewKits,
+  normalizeInterviewKits,
+  getInterviewKit,
+  getInterviewKits,
+  validateScorecard,
+  buildScorecard
+};
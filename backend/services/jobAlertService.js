@@ -3,28 +3,31 @@ const JobAlert = require('../models/JobAlert');
 const Job = require('../models/Job');
 const User = require('../models/User');
 const emailTransporter = require('../config/emailConfig');
-const { GoogleGenerativeAI } = require("@google/generative-ai");
-
-// Initialize Gemini AI for personalized job recommendations
-const genAI = process.env.GEMINI_API_KEY 
-  ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
-  : null;
+const { liveJobFilter } = require('./jobLifecycleService');
+const aiGateway = require('./aiGateway');
 
 /**
  * Match jobs with alert criteria
  * @param {Object} alert - The job alert to match against
  * @param {Date} lastSentDate - The date of the last alert sent
+ * @param {Number} limit - Maximum number of jobs to return (emails show 10)
  * @returns {Promise<Array>} - Array of matching jobs
  */
-const findMatchingJobs = async (alert, lastSentDate) => {
+const findMatchingJobs = async (alert, lastSentDate, limit = 10) => {
   try {
-    // Base query - only open jobs
-    let query = { status: 'open' };
+    // Base query - only live jobs (open and not past their expiry)
+    let query = liveJobFilter();
     console.log(`[Job Alert Match] Finding jobs for alert ${alert._id} (Seeker: ${alert.jobSeeker}) since ${lastSentDate || 'the beginning'}. Criteria:`, { keywords: alert.keywords, locations: alert.locations, jobTypes: alert.jobTypes }); // Log criteria
     
     // Add date filter if lastSentDate is provided
+    // (scheduled jobs count from when they went live, older jobs from when they were created)
     if (lastSentDate) {
-      query.createdAt = { $gt: lastSentDate };
+      query.$and = [{
+        $or: [
+          { publishedAt: { $gt: lastSentDate } },
+          { publishedAt: { $exists: false }, createdAt: { $gt: lastSentDate } }
+        ]
+      }];
     }
     
     // Add keywords filter - search in title, description, and requirements
@@ -66,7 +69,7 @@ const findMatchingJobs = async (alert, lastSentDate) => {
     // Find matching jobs, sort by newest first
     const matchingJobs = await Job.find(query)
       .sort({ createdAt: -1 })
-      .limit(10)
+      .limit(limit)
       .populate('employer', 'name companyName');
       
     console.log(`[Job Alert Match] Found ${matchingJobs.length} matching jobs for alert ${alert._id}.`); // Log match count
@@ -84,7 +87,7 @@ const findMatchingJobs = async (alert, lastSentDate) => {
  * @returns {Promise<String>} - Personalized descriptions
  */
 const getPersonalizedDescriptions = async (jobSeeker, jobs) => {
-  if (!genAI || !jobs.length) return null;
+  if (!aiGateway.isEnabled('jobAlertDigest') || !jobs.length) return null;
 
   try {
     // Extract relevant data from job seeker
@@ -106,7 +109,7 @@ const getPersonalizedDescriptions = async (jobSeeker, jobs) => {
       Description: ${job.description.substring(0, 100)}...
     `).join('\n\n');
     
-    // Prompt for Gemini
+    // Prompt for the AI gateway
     const prompt = `
       I have a job seeker with the following profile:
       ${jobSeekerSummary}
@@ -118,12 +121,8 @@ const getPersonalizedDescriptions = async (jobSeeker, jobs) => {
       Format as a bulleted list with the job title first, then your brief recommendation.
     `;
     
-    // Generate content using Gemini
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-    const result = await model.generateContent(prompt);
-    const personalizedContent = result.response.text();
-    
-    return personalizedContent;
+    const { text } = await aiGateway.generateText('jobAlertDigest', { prompt });
+    return text;
   } catch (error) {
     console.error('Error generating personalized descriptions:', error);
     return null;
@@ -145,7 +144,7 @@ const sendAlertEmail = async (jobSeeker, alert, matchingJobs) => {
     }
     
     console.log(`[Job Alert Email] Preparing email for alert ${alert._id} to ${jobSeeker.email} with ${matchingJobs.length} jobs.`); // Log email prep
-    // Try to get personalized descriptions if GEMINI_API_KEY is available
+    // Try to get personalized descriptions if an AI provider is configured
     const personalizedContent = await getPersonalizedDescriptions(jobSeeker, matchingJobs);
     
     // Build HTML content for matching jobs
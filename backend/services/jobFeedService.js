@@ -0,0 +1,170 @@
+const { FRONTEND_URL, EMPLOYMENT_TYPES, escapeXml, toHtmlParagraphs } = require('./seoService');
+
+/**
+ * Job Feed Service
+ * Renders lists of jobs as RSS 2.0, Atom 1.0, or the aggregator XML format
+ * (one <job> element per posting, as ingested by partner job boards).
+ */
+
+const FEED_FORMATS = ['rss', 'atom', 'xml'];
+const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  xml: 'application/xml'
+};
+const FEED_LIMIT = 50;
+const SITE_NAME = 'HireSphere';
+
+// Wrap text in CDATA, splitting any "]]>" so it can't end the section early
+const cdata = (text) => `<![CDATA[${String(text || '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const jobUrl = (job) => `${FRONTEND_URL}/jobs/${job._id}`;
+const jobDate = (job) => new Date(job.publishedAt || job.createdAt);
+const companyName = (job) => (job.employer && job.employer.companyName) || job.company;
+
+const formatSalary = (job) => {
+  if (!job.salary || (!job.salary.min && !job.salary.max)) return '';
+  const currency = job.salary.currency || 'PKR';
+  const period = job.salary.period || 'year';
+  if (job.salary.min && job.salary.max) return `${currency} ${job.salary.min} - ${job.salary.max} per ${period}`;
+  return `${currency} ${job.salary.min || job.salary.max} per ${period}`;
+};
+
+// Short HTML summary shown by feed readers
+const buildSummaryHtml = (job) => {
+  const details = [companyName(job), job.location, job.type, formatSalary(job)].filter(Boolean);
+  return `<p>${escapeXml(details.join(' | '))}</p>${toHtmlParagraphs(job.description)}`;
+};
+
+/**
+ * Build an RSS 2.0 feed
+ * @param {Array<Object>} jobs - Jobs with employer populated (companyName)
+ * @param {Object} channel - { title, description, link, selfUrl }
+ * @returns {String} - XML
+ */
+const buildRssFeed = (jobs, channel) => {
+  const items = jobs.map(job => [
+    '    <item>',
+    `      <title>${escapeXml(`${job.title} at ${companyName(job)}`)}</title>`,
+    `      <link>${escapeXml(jobUrl(job))}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(jobUrl(job))}</guid>`,
+    `      <pubDate>${jobDate(job).toUTCString()}</pubDate>`,
+    `      <category>${escapeXml(job.type)}</category>`,
+    ...(job.skills || []).map(skill => `      <category>${escapeXml(skill)}</category>`),
+    `      <description>${cdata(buildSummaryHtml(job))}</description>`,
+    '    </item>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.link)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="${FEED_CONTENT_TYPES.rss}" />`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>'
+  ].join('\n');
+};
+
+/**
+ * Build an Atom 1.0 feed
+ * @param {Array<Object>} jobs - Jobs with employer populated (companyName)
+ * @param {Object} channel - { title, description, link, selfUrl }
+ * @returns {String} - XML
+ */
+const buildAtomFeed = (jobs, channel) => {
+  const updated = jobs.length > 0
+    ? new Date(Math.max(...jobs.map(job => new Date(job.updatedAt || jobDate(job)).getTime())))
+    : new Date();
+
+  const entries = jobs.map(job => [
+    '  <entry>',
+    `    <title>${escapeXml(`${job.title} at ${companyName(job)}`)}</title>`,
+    `    <link href="${escapeXml(jobUrl(job))}" />`,
+    `    <id>${escapeXml(jobUrl(job))}</id>`,
+    `    <published>${jobDate(job).toISOString()}</published>`,
+    `    <updated>${new Date(job.updatedAt || jobDate(job)).toISOString()}</updated>`,
+    `    <author><name>${escapeXml(companyName(job))}</name></author>`,
+    ...(job.skills || []).map(skill => `    <category term="${escapeXml(skill)}" />`),
+    `    <summary type="html">${escapeXml(buildSummaryHtml(job))}</summary>`,
+    '  </entry>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `  <link href="${escapeXml(channel.link)}" />`,
+    `  <link href="${escapeXml(channel.selfUrl)}" rel="self" />`,
+    `  <id>${escapeXml(channel.selfUrl)}</id>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>'
+  ].join('\n');
+};
+
+/**
+ * Build the aggregator XML feed partner job boards ingest
+ * @param {Array<Object>} jobs - Jobs with employer populated (companyName)
+ * @returns {String} - XML
+ */
+const buildAggregatorFeed = (jobs) => {
+  const entries = jobs.map(job => {
+    const fields = {
+      title: cdata(job.title),
+      date: cdata(jobDate(job).toUTCString()),
+      referencenumber: cdata(String(job._id)),
+      url: cdata(jobUrl(job)),
+      company: cdata(companyName(job)),
+      city: cdata(job.location),
+      description: cdata(`${toHtmlParagraphs(job.description)}${job.requirements ? `<h3>Requirements</h3>${toHtmlParagraphs(job.requirements)}` : ''}`),
+      salary: cdata(formatSalary(job)),
+      jobtype: cdata(EMPLOYMENT_TYPES[job.type] || job.type),
+      experience: cdata(job.experienceLevel || ''),
+      remotetype: cdata(job.workMode === 'remote' ? 'Fully remote' : job.workMode === 'hybrid' ? 'Hybrid remote' : ''),
+      skills: cdata((job.skills || []).join(', ')),
+      expirationdate: cdata(job.expiresAt ? new Date(job.expiresAt).toUTCString() : '')
+    };
+    const lines = Object.entries(fields).map(([tag, value]) => `    <${tag}>${value}</${tag}>`);
+    return ['  <job>', ...lines, '  </job>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<source>',
+    `  <publisher>${SITE_NAME}</publisher>`,
+    `  <publisherurl>${escapeXml(FRONTEND_URL)}</publisherurl>`,
+    `  <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '</source>'
+  ].join('\n');
+};
+
+/**
+ * Render jobs in the requested feed format
+ * @param {String} format - 'rss', 'atom' or 'xml'
+ * @param {Array<Object>} jobs - Jobs with employer populated
+ * @param {Object} channel - { title, description, link, selfUrl } (unused by the aggregator format)
+ * @returns {String} - XML
+ */
+const renderFeed = (format, jobs, channel) => {
+  if (format === 'atom') return buildAtomFeed(jobs, channel);
+  if (format === 'xml') return buildAggregatorFeed(jobs);
+  return buildRssFeed(jobs, channel);
+};
+
+module.exports = {
+  FEED_FORMATS,
+  FEED_CONTENT_TYPES,
+  FEED_LIMIT,
+  SITE_NAME,
+  buildRssFeed,
+  buildAtomFeed,
+  buildAggregatorFeed,
+  renderFeed
+};
@@ -0,0 +1,274 @@
+const Job = require('../models/Job');
+const { resolveEmployerStatus, validateLifecycleFields } = require('./jobLifecycleService');
+
+/**
+ * Job Import Service
+ * Bulk import and export of an employer's job postings as CSV or JSON.
+ * Every imported row is validated against the Job schema on its own, so one
+ * bad row is reported instead of failing the whole file.
+ */
+
+const MAX_IMPORT_ROWS = 500;
+
+// Flat column layout shared by CSV import, CSV export and flat JSON rows
+const EXPORT_COLUMNS = [
+  'title',
+  'location',
+  'type',
+  'salaryMin',
+  'salaryMax',
+  'salaryCurrency',
+  'salaryPeriod',
+  'description',
+  'requirements',
+  'skills',
+  'experienceLevel',
+  'workMode',
+  'status',
+  'publishAt',
+  'expiresAt',
+  'createdAt'
+];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, newlines inside quotes)
+ * @param {String} text - Raw CSV content
+ * @returns {Array<Object>} - One object per data row, keyed by the header row
+ */
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Strip BOM from Excel exports
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+
+  const headers = nonEmpty[0].map(header => header.trim());
+  return nonEmpty.slice(1).map(values => {
+    const record = {};
+    headers.forEach((header, index) => {
+      if (!header) return;
+      const value = values[index] || '';
+      record[header] = (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value).trim();
+    });
+    return record;
+  });
+};
+
+/**
+ * Serialize rows to CSV, quoting fields that need it. Cells that a spreadsheet
+ * would treat as a formula get a leading apostrophe, which parseCsv removes again.
+ * @param {Array<Object>} rows - Flat objects
+ * @param {Array<String>} columns - Column order
+ * @returns {String} - CSV text
+ */
+const toCsv = (rows, columns) => {
+  const escape = (value) => {
+    if (value === undefined || value === null) return '';
+    let text = String(value);
+    if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.join(',')];
+  rows.forEach(row => lines.push(columns.map(column => escape(row[column])).join(',')));
+  return lines.join('\r\n');
+};
+
+/**
+ * Turn a flat import row (CSV or JSON) into Job fields. Nested JSON
+ * (salary: { min, max }) is accepted as well as flat salaryMin/salaryMax.
+ */
+const rowToJobFields = (row) => {
+  const blankToUndefined = (value) => (value === '' || value === null ? undefined : value);
+  const salary = row.salary || {};
+  // Skills may be separated by ";", "|" or "," (exports use "; ")
+  const skills = Array.isArray(row.skills)
+    ? row.skills
+    : String(row.skills || '').split(/[;|,]/);
+
+  return {
+    title: blankToUndefined(row.title),
+    location: blankToUndefined(row.location),
+    type: blankToUndefined(row.type && String(row.type).toLowerCase()),
+    salary: {
+      min: blankToUndefined(row.salaryMin !== undefined ? row.salaryMin : salary.min),
+      max: blankToUndefined(row.salaryMax !== undefined ? row.salaryMax : salary.max),
+      currency: blankToUndefined(row.salaryCurrency || salary.currency) || 'PKR',
+      period: blankToUndefined(String(row.salaryPeriod || salary.period || '').toLowerCase()) || 'year'
+    },
+    description: blankToUndefined(row.description),
+    requirements: blankToUndefined(row.requirements),
+    skills,
+    experienceLevel: blankToUndefined(row.experienceLevel && String(row.experienceLevel).toLowerCase()),
+    workMode: blankToUndefined(row.workMode && String(row.workMode).toLowerCase()),
+    status: blankToUndefined(row.status && String(row.status).toLowerCase()),
+    publishAt: blankToUndefined(row.publishAt),
+    expiresAt: blankToUndefined(row.expiresAt)
+  };
+};
+
+/**
+ * Parse an uploaded file into raw rows
+ * @param {String} content - File content
+ * @param {String} format - 'csv' or 'json'
+ * @returns {Array<Object>} - Raw rows
+ * @throws {Error} - If the content can't be parsed
+ */
+const parseImportFile = (content, format) => {
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    const rows = Array.isArray(data) ? data : data.jobs;
+    if (!Array.isArray(rows)) {
+      throw new Error('JSON must be an array of jobs or an object with a "jobs" array');
+    }
+    return rows;
+  }
+  return parseCsv(content);
+};
+
+/**
+ * Validate every row and, unless this is a dry run, save the valid ones
+ * @param {Array<Object>} rows - Raw rows from parseImportFile
+ * @param {Object} employer - Employer user document (companyName is applied to every job)
+ * @param {Boolean} dryRun - Only validate and preview
+ * @param {Object} [importedBy] - Team member running the import, when it isn't the employer account itself
+ * @returns {Promise<Object>} - { dryRun, total, valid, invalid, imported, results }
+ */
+const importJobs = async (rows, employer, dryRun, importedBy = employer) => {
+  const results = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    // Row numbers match the spreadsheet: header is row 1
+    const rowNumber = index + 2;
+    const fields = rowToJobFields(rows[index] || {});
+    const errors = [];
+
+    const lifecycleError = validateLifecycleFields(fields);
+    if (lifecycleError) {
+      errors.push({ field: 'status', message: lifecycleError });
+    }
+
+    const job = new Job({
+      ...fields,
+      status: lifecycleError ? 'draft' : resolveEmployerStatus(fields.status, fields.publishAt),
+      company: employer.companyName,
+      employer: employer._id,
+      organization: importedBy.organization,
+      postedBy: employer._id.equals(importedBy._id) ? undefined : importedBy._id
+    });
+    const validationError = job.validateSync();
+    if (validationError) {
+      Object.values(validationError.errors).forEach(error => {
+        errors.push({ field: error.path, message: error.message });
+      });
+    }
+
+    const result = {
+      row: rowNumber,
+      valid: errors.length === 0,
+      errors,
+      job: {
+        title: job.title,
+        location: job.location,
+        type: job.type,
+        salary: job.salary,
+        status: job.status
+      }
+    };
+
+    if (result.valid && !dryRun) {
+      try {
+        await job.save();
+        result.jobId = job._id;
+      } catch (error) {
+        result.valid = false;
+        result.errors.push({ field: null, message: error.message });
+      }
+    }
+    results.push(result);
+  }
+
+  const valid = results.filter(result => result.valid).length;
+  return {
+    dryRun,
+    total: results.length,
+    valid,
+    invalid: results.length - valid,
+    imported: dryRun ? 0 : valid,
+    results
+  };
+};
+
+// Export a date only while it's still ahead; the importer rejects past publish and expiry dates
+const futureDate = (date) => (date && new Date(date) > new Date() ? new Date(date).toISOString() : '');
+
+/**
+ * Flatten a job for export, using the same columns the importer reads. Expired jobs
+ * are exported as closed, since only the scheduler can expire a job.
+ * @param {Object} job - Job document or plain object
+ * @returns {Object} - Flat row
+ */
+const jobToRow = (job) => ({
+  title: job.title,
+  location: job.location,
+  type: job.type,
+  salaryMin: job.salary?.min,
+  salaryMax: job.salary?.max,
+  salaryCurrency: job.salary?.currency,
+  salaryPeriod: job.salary?.period,
+  description: job.description,
+  requirements: job.requirements,
+  skills: (job.skills || []).join('; '),
+  experienceLevel: job.experienceLevel,
+  workMode: job.workMode,
+  status: job.status === 'expired' ? 'closed' : job.status,
+  publishAt: futureDate(job.publishAt),
+  expiresAt: futureDate(job.expiresAt),
+  createdAt: job.createdAt ? new Date(job.createdAt).toISOString() : ''
+});
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  EXPORT_COLUMNS,
+  parseCsv,
+  toCsv,
+  parseImportFile,
+  importJobs,
+  jobToRow
+};
@@ -0,0 +1,171 @@
+const cron = require('node-cron');
+const Job = require('../models/Job');
+
+/**
+ * Job Lifecycle Service
+ * Moves job postings between states on a schedule:
+ *   draft -> (employer) -> scheduled -> open -> paused/expired/closed
+ * Scheduled jobs go live once publishAt passes; open and paused jobs expire once expiresAt passes.
+ */
+
+// States an employer may set directly - 'expired' is only ever set by the scheduler
+const EMPLOYER_SETTABLE_STATUSES = ['draft', 'scheduled', 'open', 'paused', 'closed'];
+
+/**
+ * Filter for jobs that are publicly visible right now. The expiresAt guard covers
+ * the window between a job passing its expiry and the next scheduler run.
+ * @returns {Object} - MongoDB query fragment
+ */
+const liveJobFilter = () => ({
+  status: 'open',
+  expiresAt: { $not: { $lte: new Date() } }
+});
+
+/**
+ * Work out the status a job should be stored with when an employer saves it
+ * @param {String} requestedStatus - Status sent by the employer (may be undefined)
+ * @param {Date|String} publishAt - Optional publish date
+ * @param {String} currentStatus - Status of the existing job, if updating
+ * @returns {String} - Status to store
+ */
+const resolveEmployerStatus = (requestedStatus, publishAt, currentStatus) => {
+  const status = requestedStatus || currentStatus || 'open';
+
+  if (status === 'draft' || status === 'paused' || status === 'closed' || status === 'expired') {
+    return status;
+  }
+
+  // Open or scheduled: a future publish date means it waits, otherwise it goes live now
+  const publishDate = publishAt ? new Date(publishAt) : null;
+  if (publishDate && publishDate > new Date()) {
+    return 'scheduled';
+  }
+  return 'open';
+};
+
+/**
+ * Check employer-supplied lifecycle fields before saving
+ * @param {Object} fields - { status, publishAt, expiresAt }
+ * @returns {String|null} - Error message, or null if the fields are valid
+ */
+const validateLifecycleFields = ({ status, publishAt, expiresAt }) => {
+  if (status && !EMPLOYER_SETTABLE_STATUSES.includes(status)) {
+    return `Invalid job status. Must be one of: ${EMPLOYER_SETTABLE_STATUSES.join(', ')}`;
+  }
+  if (status === 'scheduled' && !publishAt) {
+    return 'A publish date is required to schedule a job';
+  }
+  if (publishAt && isNaN(new Date(publishAt).getTime())) {
+    return 'Publish date is not a valid date';
+  }
+  if (expiresAt) {
+    if (isNaN(new Date(expiresAt).getTime())) {
+      return 'Expiry date is not a valid date';
+    }
+    const liveFrom = publishAt ? new Date(publishAt) : new Date();
+    if (new Date(expiresAt) <= liveFrom) {
+      return 'Expiry date must be after the publish date';
+    }
+  }
+  return null;
+};
+
+/**
+ * Build a fresh open copy of an expired job. The new posting keeps the original's
+ * run length, so a job that was live for 30 days is reposted for another 30.
+ * @param {Object} job - The expired job document
+ * @returns {Object} - Plain object ready for new Job()
+ */
+const buildRepost = (job) => {
+  const now = new Date();
+  let expiresAt;
+  if (job.expiresAt) {
+    const liveFrom = job.publishedAt || job.createdAt;
+    const runLength = new Date(job.expiresAt).getTime() - new Date(liveFrom).getTime();
+    if (runLength > 0) {
+      expiresAt = new Date(now.getTime() + runLength);
+    }
+  }
+
+  return {
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    type: job.type,
+    salary: {
+      min: job.salary?.min,
+      max: job.salary?.max,
+      currency: job.salary?.currency,
+      period: job.salary?.period
+    },
+    description: job.description,
+    requirements: job.requirements,
+    skills: job.skills,
+    experienceLevel: job.experienceLevel,
+    workMode: job.workMode,
+    screeningQuestions: (job.screeningQuestions || []).map(question => question.toObject ? question.toObject() : question),
+    pipelineStages: (job.pipelineStages || []).map(stage => stage.toObject ? stage.toObject() : stage),
+    interviewKits: (job.interviewKits || []).map(kit => kit.toObject ? kit.toObject() : kit),
+    blindReview: job.blindReview,
+    employer: job.employer,
+    organization: job.organization,
+    status: 'open',
+    publishedAt: now,
+    expiresAt,
+    repostedFrom: job._id
+  };
+};
+
+/**
+ * Publish scheduled jobs whose publishAt has passed and expire jobs whose expiresAt has passed
+ * @returns {Promise<Object>} - { published, expired } counts
+ */
+const processJobLifecycle = async () => {
+  const now = new Date();
+  try {
+    const published = await Job.updateMany(
+      { status: 'scheduled', publishAt: { $lte: now } },
+      { $set: { status: 'open', publishedAt: now, updatedAt: now } }
+    );
+
+    const expired = await Job.updateMany(
+      { status: { $in: ['open', 'paused'] }, expiresAt: { $lte: now } },
+      { $set: { status: 'expired', updatedAt: now } }
+    );
+
+    if (published.modifiedCount > 0 || expired.modifiedCount > 0) {
+      console.log(`[Job Lifecycle] Published ${published.modifiedCount} scheduled jobs, expired ${expired.modifiedCount} jobs.`);
+    }
+    return { published: published.modifiedCount, expired: expired.modifiedCount };
+  } catch (error) {
+    console.error('[Job Lifecycle] Error processing job lifecycle:', error);
+    return { published: 0, expired: 0 };
+  }
+};
+
+/**
+ * Initialize the job lifecycle scheduler
+ */
+const initJobLifecycleScheduler = () => {
+  console.log('[Job Lifecycle Scheduler] Initializing cron schedule...');
+
+  // Check for jobs to publish or expire every 5 minutes
+  cron.schedule('*/5 * * * *', () => {
+    processJobLifecycle();
+  });
+
+  // Catch up on anything that changed while the server was down
+  processJobLifecycle();
+
+  console.log('[Job Lifecycle Scheduler] Cron schedule initialized.');
+};
+
+module.exports = {
+  EMPLOYER_SETTABLE_STATUSES,
+  liveJobFilter,
+  resolveEmployerStatus,
+  validateLifecycleFields,
+  buildRepost,
+  processJobLifecycle,
+  initJobLifecycleScheduler
+};
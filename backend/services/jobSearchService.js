@@ -0,0 +1,398 @@
+const Job = require('../models/Job');
+const { liveJobFilter } = require('./jobLifecycleService');
+const { canonicalSkillIds } = require('./skillTaxonomyService');
+
+/**
+ * Job Search Service
+ * Query building, facet counts and highlighting for GET /api/jobs. MongoDB's text
+ * index does the keyword matching and relevance scoring; this service parses the
+ * raw keyword string the same way and builds highlight segments so the client can
+ * bold the hits.
+ */
+
+const SNIPPET_LENGTH = 150;
+const SNIPPET_LEAD = 40;
+
+// Tokens keep characters that matter in tech terms (c++, c#, node.js)
+const WORD_REGEX = /[a-z0-9][a-z0-9+#.]*/gi;
+
+const STEM_SUFFIXES = ['ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ers', 'er', 'ies', 'ied', 'es', 'ed', 'ly', 's'];
+
+/**
+ * Reduce a word to a rough stem so highlighting lines up with the index's stemming
+ * (e.g. "developers", "developer" and "developing" all become "develop")
+ * @param {String} word - The word to stem
+ * @returns {String} - The stemmed, lower-cased word
+ */
+const stemWord = (word) => {
+  let stem = word.toLowerCase().replace(/\.+$/, '');
+  for (const suffix of STEM_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      if (suffix === 'ies' || suffix === 'ied') {
+        stem += 'y';
+      }
+      break;
+    }
+  }
+  // "service" and "services" should land on the same stem
+  if (stem.endsWith('e') && stem.length > 3) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+};
+
+/**
+ * Split a keyword string into quoted phrases and single terms.
+ * Negated terms ("-java") are dropped since they never appear in a result.
+ * @param {String} keywords - Raw keyword string from the query
+ * @returns {Object} - { phrases: [String], terms: [String] }
+ */
+const parseSearchQuery = (keywords) => {
+  const phrases = [];
+  const terms = [];
+  if (!keywords || typeof keywords !== 'string') {
+    return { phrases, terms };
+  }
+
+  const remainder = keywords.replace(/(-?)"([^"]+)"/g, (match, negated, phrase) => {
+    if (!negated && phrase.trim()) {
+      phrases.push(phrase.trim().toLowerCase());
+    }
+    return ' ';
+  });
+
+  remainder.split(/\s+/).forEach(token => {
+    if (!token || token.startsWith('-')) return;
+    const words = token.match(WORD_REGEX) || [];
+    words.forEach(word => terms.push(word.toLowerCase().replace(/\.+$/, '')));
+  });
+
+  return { phrases, terms: [...new Set(terms)] };
+};
+
+/**
+ * Find the character ranges in a text that match the parsed query
+ * @param {String} text - Text to scan
+ * @param {Object} parsedQuery - Output of parseSearchQuery
+ * @returns {Array} - Sorted, merged [start, end) ranges
+ */
+const findMatchRanges = (text, parsedQuery) => {
+  if (!text) return [];
+  const ranges = [];
+  const lowerText = text.toLowerCase();
+
+  parsedQuery.phrases.forEach(phrase => {
+    let index = lowerText.indexOf(phrase);
+    while (index !== -1) {
+      ranges.push([index, index + phrase.length]);
+      index = lowerText.indexOf(phrase, index + phrase.length);
+    }
+  });
+
+  const termStems = new Set(parsedQuery.terms.map(stemWord));
+  if (termStems.size > 0) {
+    let match;
+    const wordRegex = new RegExp(WORD_REGEX.source, 'gi');
+    while ((match = wordRegex.exec(text)) !== null) {
+      const word = match[0].replace(/\.+$/, '');
+      if (termStems.has(stemWord(word))) {
+        ranges.push([match.index, match.index + word.length]);
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Turn a text and its match ranges into ordered { text, highlight } segments
+ */
+const toSegments = (text, ranges) => {
+  const segments = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), highlight: false });
+    }
+    segments.push({ text: text.slice(start, end), highlight: true });
+    cursor = end;
+  });
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlight: false });
+  }
+  return segments;
+};
+
+/**
+ * Build a short snippet of a long text centred on its first match
+ * @param {String} text - Full text (e.g. a job description)
+ * @param {Array} ranges - Match ranges from findMatchRanges
+ * @returns {Array} - Segments for the snippet, with ellipses where text was cut
+ */
+const buildSnippet = (text, ranges) => {
+  if (!text) return [];
+  if (text.length <= SNIPPET_LENGTH) {
+    return toSegments(text, ranges);
+  }
+
+  let start = ranges.length > 0 ? Math.max(0, ranges[0][0] - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    // Don't start in the middle of a word
+    const nextSpace = text.indexOf(' ', start);
+    start = nextSpace !== -1 && nextSpace < ranges[0][0] ? nextSpace + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const snippetRanges = ranges
+    .filter(([rangeStart, rangeEnd]) => rangeEnd > start && rangeStart < end)
+    .map(([rangeStart, rangeEnd]) => [Math.max(rangeStart, start) - start, Math.min(rangeEnd, end) - start]);
+
+  const segments = toSegments(text.slice(start, end), snippetRanges);
+  if (start > 0) segments.unshift({ text: '...', highlight: false });
+  if (end < text.length) segments.push({ text: '...', highlight: false });
+  return segments;
+};
+
+/**
+ * Build highlight segments for a job's searchable fields
+ * @param {Object} job - Plain job object
+ * @param {Object} parsedQuery - Output of parseSearchQuery
+ * @returns {Object} - { title, company, description, requirements } segment arrays
+ */
+const buildHighlights = (job, parsedQuery) => {
+  const titleRanges = findMatchRanges(job.title || '', parsedQuery);
+  const companyRanges = findMatchRanges(job.company || '', parsedQuery);
+  const descriptionRanges = findMatchRanges(job.description || '', parsedQuery);
+  const requirementsRanges = findMatchRanges(job.requirements || '', parsedQuery);
+
+  return {
+    title: toSegments(job.title || '', titleRanges),
+    company: toSegments(job.company || '', companyRanges),
+    description: buildSnippet(job.description || '', descriptionRanges),
+    requirements: buildSnippet(job.requirements || '', requirementsRanges)
+  };
+};
+
+// Salary buckets (PKR) used for the salary facet; a job counts in every bucket its range overlaps
+const SALARY_BUCKETS = [
+  { value: '0-50000', label: 'Up to PKR 50K', min: 0, max: 50000 },
+  { value: '50000-100000', label: 'PKR 50K - 100K', min: 50000, max: 100000 },
+  { value: '100000-200000', label: 'PKR 100K - 200K', min: 100000, max: 200000 },
+  { value: '200000-500000', label: 'PKR 200K - 500K', min: 200000, max: 500000 },
+  { value: '500000-', label: 'PKR 500K+', min: 500000, max: Infinity }
+];
+
+const POSTED_WITHIN_OPTIONS = [
+  { value: '1', label: 'Last 24 hours', days: 1 },
+  { value: '7', label: 'Last 7 days', days: 7 },
+  { value: '30', label: 'Last 30 days', days: 30 }
+];
+
+const FACET_LIMIT = 10;
+
+/**
+ * Normalise a comma-separated or repeated query param into an array.
+ * Free-text values (locations, company names) may contain commas, so those are
+ * only ever sent as repeated params and must not be split.
+ */
+const toList = (value, { split = true } = {}) => {
+  if (!value) return [];
+  const values = Array.isArray(value) ? value : (split ? String(value).split(',') : [String(value)]);
+  return values.map(v => v.trim()).filter(Boolean);
+};
+
+/**
+ * Build the MongoDB filter for a job search from the request query.
+ * jobType, salaryBuckets, experienceLevel, workMode and skills are comma-separated; locations and companies are repeated params.
+ * @param {Object} params - req.query of GET /api/jobs
+ * @param {Object} options - { exclude: facet name to leave out, log: log applied filters }
+ * @returns {Object} - MongoDB query
+ */
+const buildJobQuery = (params, { exclude = null, log = false } = {}) => {
+  const {
+    location,
+    locations,
+    minSalary, // Now assumed to be PKR
+    maxSalary, // Now assumed to be PKR
+    salaryBuckets,
+    jobType,
+    companies,
+    postedWithin,
+    keywords,
+    skills,
+    experienceLevel,
+    workMode
+  } = params;
+  const logFilter = (message) => {
+    if (log) console.log(`[Job Search] Applied filter: ${message}`);
+  };
+
+  const query = liveJobFilter();
+  const and = [];
+
+  if (location) {
+    query.location = { $regex: location, $options: 'i' };
+    logFilter(`Location contains "${location}"`);
+  }
+
+  const locationList = toList(locations, { split: false });
+  if (exclude !== 'location' && locationList.length > 0) {
+    and.push({ location: { $in: locationList } });
+    logFilter(`Location is one of [${locationList.join(', ')}]`);
+  }
+
+  // --- Salary Filters (Assuming PKR) ---
+  if (exclude !== 'salary') {
+    if (minSalary || maxSalary) {
+      const filterMin = minSalary ? Number(minSalary) : 0; // Use 0 if no min filter
+      const filterMax = maxSalary ? Number(maxSalary) : Infinity; // Use Infinity if no max filter
+
+      // A job's range (jobMin-jobMax) overlaps with the filter range if jobMin <= filterMax AND jobMax >= filterMin
+      and.push({
+        $and: [
+          { 'salary.min': { $lte: filterMax } },
+          { 'salary.max': { $gte: filterMin } }
+        ]
+      });
+      logFilter(`Salary range PKR overlaps with (${filterMin === 0 ? 'any' : filterMin} - ${filterMax === Infinity ? 'any' : filterMax})`);
+    }
+
+    const buckets = SALARY_BUCKETS.filter(bucket => toList(salaryBuckets).includes(bucket.value));
+    if (buckets.length > 0) {
+      and.push({
+        $or: buckets.map(bucket => ({
+          'salary.min': { $lte: bucket.max },
+          'salary.max': { $gte: bucket.min }
+        }))
+      });
+      logFilter(`Salary in buckets [${buckets.map(b => b.value).join(', ')}]`);
+    }
+  }
+
+  const jobTypes = toList(jobType);
+  if (exclude !== 'jobType' && jobTypes.length > 0) {
+    query.type = jobTypes.length === 1 ? jobTypes[0] : { $in: jobTypes };
+    logFilter(`Job Type is "${jobTypes.join('" or "')}"`);
+  }
+
+  const companyList = toList(companies, { split: false });
+  if (exclude !== 'company' && companyList.length > 0) {
+    query.company = { $in: companyList };
+    logFilter(`Company is one of [${companyList.join(', ')}]`);
+  }
+
+  const postedOption = POSTED_WITHIN_OPTIONS.find(option => option.value === String(postedWithin));
+  if (exclude !== 'postedWithin' && postedOption) {
+    query.createdAt = { $gte: new Date(Date.now() - postedOption.days * 24 * 60 * 60 * 1000) };
+    logFilter(`Posted within ${postedOption.label.toLowerCase()}`);
+  }
+
+  // Full-text search over the weighted JobTextIndex
+  // (stemming, "quoted phrases" and -negated terms are handled by MongoDB)
+  if (keywords) {
+    query.$text = { $search: keywords };
+    logFilter(`Full-text search for "${keywords}" (title, company, reqs, desc)`);
+  }
+
+  // Handle skills filter (comma-separated string) - matched by canonical taxonomy ID, so synonyms count
+  const skillsArray = toList(skills);
+  if (skillsArray.length > 0) {
+    and.push({ skillIds: { $in: canonicalSkillIds(skillsArray) } });
+    logFilter(`Skills include any of [${skillsArray.join(', ')}]`);
+  }
+
+  const experienceLevels = toList(experienceLevel);
+  if (exclude !== 'experienceLevel' && experienceLevels.length > 0) {
+    query.experienceLevel = { $in: experienceLevels };
+    logFilter(`Experience Level is "${experienceLevels.join('" or "')}"`);
+  }
+
+  const workModes = toList(workMode);
+  if (exclude !== 'workMode' && workModes.length > 0) {
+    query.workMode = { $in: workModes };
+    logFilter(`Work Mode is "${workModes.join('" or "')}"`);
+  }
+
+  if (and.length > 0) {
+    query.$and = and;
+  }
+  return query;
+};
+
+/**
+ * Count matching jobs per facet value. Each facet is computed against every
+ * active filter except its own, so selecting a job type doesn't zero out the
+ * counts of the other job types.
+ * @param {Object} params - req.query of GET /api/jobs
+ * @returns {Promise<Object>} - { jobType, experienceLevel, workMode, location, salary, company, postedWithin } arrays of { value, label, count }
+ */
+const getJobFacets = async (params) => {
+  const groupBy = async (facet, field) => {
+    const rows = await Job.aggregate([
+      { $match: buildJobQuery(params, { exclude: facet }) },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: FACET_LIMIT }
+    ]);
+    return rows
+      .filter(row => row._id)
+      .map(row => ({ value: row._id, label: row._id, count: row.count }));
+  };
+
+  const countBuckets = async (facet, options, conditionFor) => {
+    const group = { _id: null };
+    options.forEach((option, index) => {
+      group[`b${index}`] = { $sum: { $cond: [conditionFor(option), 1, 0] } };
+    });
+    const [row] = await Job.aggregate([
+      { $match: buildJobQuery(params, { exclude: facet }) },
+      { $group: group }
+    ]);
+    return options.map((option, index) => ({
+      value: option.value,
+      label: option.label,
+      count: row ? row[`b${index}`] : 0
+    }));
+  };
+
+  const now = Date.now();
+  const [jobType, experienceLevel, workMode, location, company, salary, postedWithin] = await Promise.all([
+    groupBy('jobType', 'type'),
+    groupBy('experienceLevel', 'experienceLevel'),
+    groupBy('workMode', 'workMode'),
+    groupBy('location', 'location'),
+    groupBy('company', 'company'),
+    countBuckets('salary', SALARY_BUCKETS, bucket => ({
+      $and: [
+        { $lte: ['$salary.min', bucket.max] },
+        { $gte: ['$salary.max', bucket.min] }
+      ]
+    })),
+    countBuckets('postedWithin', POSTED_WITHIN_OPTIONS, option => ({
+      $gte: ['$createdAt', new Date(now - option.days * 24 * 60 * 60 * 1000)]
+    }))
+  ]);
+
+  return { jobType, experienceLevel, workMode, location, salary, company, postedWithin };
+};
+
+module.exports = {
+  SALARY_BUCKETS,
+  POSTED_WITHIN_OPTIONS,
+  buildJobQuery,
+  getJobFacets,
+  stemWord,
+  parseSearchQuery,
+  findMatchRanges,
+  buildHighlights
+};
@@ -0,0 +1,239 @@
+/**
+ * JSON Resume Service
+ * Converts job seeker profiles to and from the open JSON Resume format
+ * (https://jsonresume.org/schema): basics, work, education, skills, projects
+ * and certificates. Also compares an incoming resume with the current profile
+ * so the seeker can see what an import would change before applying it.
+ */
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+const MAX_ENTRIES = 50;
+
+// JSON Resume dates are ISO 8601 (YYYY, YYYY-MM or YYYY-MM-DD)
+const toIsoDate = (value) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+const toDate = (value) => {
+  if (!value || typeof value !== 'string') return undefined;
+  const date = new Date(/^\d{4}$/.test(value) ? `${value}-01-01` : value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const text = (value, max = 2000) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+const compact = (object) => Object.fromEntries(
+  Object.entries(object).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+);
+
+const experienceKey = (entry) => `${(entry.company || '').toLowerCase()}|${(entry.position || entry.title || '').toLowerCase()}`;
+const educationKey = (entry) => `${(entry.institution || '').toLowerCase()}|${(entry.degree || '').toLowerCase()}`;
+const nameKey = (entry) => (entry.name || '').toLowerCase();
+
+/**
+ * Export a profile as a JSON Resume document
+ * @param {Object} profile - User profile (plain object)
+ * @returns {Object} - JSON Resume
+ */
+const toJsonResume = (profile) => ({
+  $schema: JSON_RESUME_SCHEMA,
+  basics: compact({
+    name: [profile.firstName, profile.lastName].filter(Boolean).join(' ') || profile.name,
+    label: profile.title,
+    email: profile.email,
+    phone: profile.phone,
+    url: profile.portfolioUrl,
+    location: profile.location ? { address: profile.location } : undefined
+  }),
+  work: (profile.experience || []).map(entry => compact({
+    name: entry.company,
+    position: entry.position || entry.title,
+    location: entry.location,
+    startDate: toIsoDate(entry.startDate || entry.from),
+    endDate: entry.current ? undefined : toIsoDate(entry.endDate || entry.to),
+    summary: entry.description
+  })),
+  education: (profile.education || []).map(entry => compact({
+    institution: entry.institution,
+    studyType: entry.degree,
+    area: entry.fieldOfStudy,
+    startDate: toIsoDate(entry.from),
+    endDate: entry.graduationYear ? String(entry.graduationYear) : toIsoDate(entry.to)
+  })),
+  skills: (profile.skills || []).map(name => ({ name })),
+  projects: (profile.projects || []).map(entry => compact({
+    name: entry.name,
+    description: entry.description,
+    url: entry.url,
+    startDate: toIsoDate(entry.startDate),
+    endDate: toIsoDate(entry.endDate)
+  })),
+  certificates: (profile.certificates || []).map(entry => compact({
+    name: entry.name,
+    issuer: entry.issuer,
+    date: toIsoDate(entry.date),
+    url: entry.url
+  })),
+  meta: { lastModified: toIsoDate(profile.updatedAt || new Date()) }
+});
+
+/**
+ * Check that a document looks like a JSON Resume
+ * @param {Object} resume
+ * @returns {String|null} - Error message, or null if valid
+ */
+const validateJsonResume = (resume) => {
+  if (!resume || typeof resume !== 'object' || Array.isArray(resume)) {
+    return 'Upload a JSON Resume document (a JSON object)';
+  }
+  const sections = ['basics', 'work', 'education', 'skills', 'projects', 'certificates'];
+  if (!sections.some(section => resume[section])) {
+    return `No resume data found. A JSON Resume has at least one of: ${sections.join(', ')}`;
+  }
+  if (resume.basics !== undefined && (typeof resume.basics !== 'object' || Array.isArray(resume.basics))) {
+    return '"basics" must be an object';
+  }
+  const listError = sections.slice(1).find(section => resume[section] !== undefined && !Array.isArray(resume[section]));
+  if (listError) return `"${listError}" must be a list`;
+  const tooLong = sections.slice(1).find(section => (resume[section] || []).length > MAX_ENTRIES);
+  if (tooLong) return `"${tooLong}" can have at most ${MAX_ENTRIES} entries`;
+  return null;
+};
+
+/**
+ * Map a JSON Resume onto profile fields; only the basics the resume provides are included
+ * @param {Object} resume - A validated JSON Resume
+ * @returns {Object} - Profile fields to import
+ */
+const fromJsonResume = (resume) => {
+  const basics = resume.basics || {};
+  const [firstName, ...rest] = text(basics.name, 200).split(/\s+/).filter(Boolean);
+  const location = basics.location && typeof basics.location === 'object'
+    ? [basics.location.city, basics.location.region, basics.location.countryCode].map(part => text(part, 100)).filter(Boolean).join(', ') || text(basics.location.address, 200)
+    : '';
+
+  const fields = compact({
+    firstName,
+    lastName: rest.join(' '),
+    title: text(basics.label, 200),
+    phone: text(basics.phone, 50),
+    location,
+    portfolioUrl: text(basics.url, 500)
+  });
+
+  const skills = [];
+  (resume.skills || []).forEach(skill => {
+    [skill && skill.name, ...((skill && Array.isArray(skill.keywords)) ? skill.keywords : [])]
+      .map(name => text(name, 100))
+      .filter(Boolean)
+      .forEach(name => {
+        if (!skills.some(existing => existing.toLowerCase() === name.toLowerCase())) skills.push(name);
+      });
+  });
+
+  return {
+    ...fields,
+    skills,
+    experience: (resume.work || []).filter(Boolean).map(entry => {
+      const highlights = Array.isArray(entry.highlights) ? entry.highlights.map(item => text(item, 500)).filter(Boolean) : [];
+      return compact({
+        company: text(entry.name || entry.company, 200),
+        position: text(entry.position, 200),
+        location: text(entry.location, 200),
+        startDate: toDate(entry.startDate),
+        endDate: toDate(entry.endDate),
+        current: Boolean(entry.startDate && !entry.endDate),
+        description: [text(entry.summary), ...highlights.map(item => `- ${item}`)].filter(Boolean).join('\n')
+      });
+    }).filter(entry => entry.company || entry.position),
+    education: (resume.education || []).filter(Boolean).map(entry => {
+      const graduated = toDate(entry.endDate);
+      return compact({
+        institution: text(entry.institution, 200),
+        degree: text(entry.studyType, 200),
+        fieldOfStudy: text(entry.area, 200),
+        from: toDate(entry.startDate),
+        graduationYear: graduated ? graduated.getUTCFullYear() : undefined,
+        current: Boolean(entry.startDate && !entry.endDate)
+      });
+    }).filter(entry => entry.institution || entry.degree),
+    projects: (resume.projects || []).filter(Boolean).map(entry => compact({
+      name: text(entry.name, 200),
+      description: text(entry.description),
+      url: text(entry.url, 500),
+      startDate: toDate(entry.startDate),
+      endDate: toDate(entry.endDate)
+    })).filter(entry => entry.name),
+    certificates: (resume.certificates || []).filter(Boolean).map(entry => compact({
+      name: text(entry.name, 200),
+      issuer: text(entry.issuer, 200),
+      date: toDate(entry.date),
+      url: text(entry.url, 500)
+    })).filter(entry => entry.name)
+  };
+};
+
+// Entries only in the import are added, only in the profile are removed, in both are kept
+const diffEntries = (current = [], incoming = [], keyOf) => {
+  const currentKeys = new Set(current.map(keyOf));
+  const incomingKeys = new Set(incoming.map(keyOf));
+  return {
+    added: incoming.filter(entry => !currentKeys.has(keyOf(entry))),
+    removed: current.filter(entry => !incomingKeys.has(keyOf(entry))),
+    kept: incoming.filter(entry => currentKeys.has(keyOf(entry)))
+  };
+};
+
+/**
+ * Compare imported fields with the current profile
+ * @param {Object} profile - Current user profile (plain object)
+ * @param {Object} imported - Result of fromJsonResume
+ * @returns {Object} - { fields: [{ field, current, incoming }], skills: { added }, experience, education, projects, certificates }
+ */
+const diffProfileImport = (profile, imported) => {
+  const scalarFields = ['firstName', 'lastName', 'title', 'phone', 'location', 'portfolioUrl'];
+  const lowerSkills = new Set((profile.skills || []).map(skill => skill.toLowerCase()));
+  const listDiff = (field, keyOf) => (imported[field].length ? diffEntries(profile[field], imported[field], keyOf) : null);
+
+  return {
+    fields: scalarFields
+      .filter(field => imported[field] !== undefined && imported[field] !== (profile[field] || ''))
+      .map(field => ({ field, current: profile[field] || '', incoming: imported[field] })),
+    skills: { added: imported.skills.filter(skill => !lowerSkills.has(skill.toLowerCase())) },
+    experience: listDiff('experience', experienceKey),
+    education: listDiff('education', educationKey),
+    projects: listDiff('projects', nameKey),
+    certificates: listDiff('certificates', nameKey)
+  };
+};
+
+/**
+ * Build the profile update for an import: basics overwrite, skills are merged,
+ * and each list the resume provides replaces the profile's list
+ * @param {Object} profile - Current user profile (plain object)
+ * @param {Object} imported - Result of fromJsonResume
+ * @returns {Object} - Fields for $set
+ */
+const buildImportUpdate = (profile, imported) => {
+  const { skills, experience, education, projects, certificates, ...basics } = imported;
+  const update = { ...basics };
+  const lowerSkills = new Set((profile.skills || []).map(skill => skill.toLowerCase()));
+  if (skills.length) {
+    update.skills = [...(profile.skills || []), ...skills.filter(skill => !lowerSkills.has(skill.toLowerCase()))];
+  }
+  Object.entries({ experience, education, projects, certificates }).forEach(([field, entries]) => {
+    if (entries.length) update[field] = entries;
+  });
+  return update;
+};
+
+module.exports = {
+  JSON_RESUME_SCHEMA,
+  toJsonResume,
+  validateJsonResume,
+  fromJsonResume,
+  diffProfileImport,
+  buildImportUpdate
+};
@@ -0,0 +1,369 @@
+const { canonicalSkillIds, findSkill } = require('./skillTaxonomyService');
+
+/**
+ * Matching Engine
+ * Scores how well a job seeker fits a job without any outside service, so
+ * recommendations and candidate screening work the same with or without an
+ * AI key. A match combines:
+ *   - skills:      the job's required skills the seeker has (synonyms count via
+ *                  the taxonomy; related skills earn partial credit)
+ *   - text:        TF-IDF cosine similarity between profile and job text
+ *   - experience:  seeker's years against the job's experience level
+ *   - preferences: location / remote and job type
+ *   - salary:      overlap of the seeker's expected range with the job's
+ * Components without data on either side are left out and the remaining
+ * weights are rescaled, so a sparse profile isn't penalised for what it
+ * doesn't say. Results are deterministic: the same inputs give the same order.
+ */
+
+const WEIGHTS = {
+  skills: 0.4,
+  text: 0.2,
+  experience: 0.15,
+  preferences: 0.15,
+  salary: 0.1
+};
+
+// Typical years of experience for each job experience level
+const EXPERIENCE_RANGES = {
+  entry: { min: 0, max: 2 },
+  mid: { min: 2, max: 5 },
+  senior: { min: 5, max: 10 },
+  lead: { min: 8, max: 40 }
+};
+
+// Cosine similarity at or above this counts as a full text match
+const TEXT_SIMILARITY_CEILING = 0.5;
+
+const STOP_WORDS = new Set((
+  'a an and are as at be been but by can for from has have in into is it its of on or our that the their this to ' +
+  'was we were will with you your they them he she his her who what which when where how all any both each more ' +
+  'most other some such than too very just also about over under using use used work working job role team ' +
+  'experience years year strong good excellent ability skills skill knowledge including etc'
+).split(' '));
+
+/**
+ * Lowercase words worth comparing; keeps tokens like "c++", "c#" and "node.js" intact.
+ * Skill names and their synonyms, including two-word ones like "React JS", become the
+ * skill's canonical ID, so "ReactJS" and "TS" in a profile match "React" and "TypeScript" in a job.
+ * @param {String} text
+ * @returns {Array<String>}
+ */
+const tokenize = (text) => {
+  const words = String(text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length > 1 && !/^\d+$/.test(token));
+
+  const tokens = [];
+  for (let i = 0; i < words.length; i++) {
+    const pairSkill = i + 1 < words.length ? findSkill(`${words[i]} ${words[i + 1]}`) : null;
+    if (pairSkill) {
+      tokens.push(pairSkill.id);
+      i++;
+      continue;
+    }
+    const skill = findSkill(words[i]);
+    if (skill) {
+      tokens.push(skill.id);
+    } else if (!STOP_WORDS.has(words[i])) {
+      tokens.push(words[i]);
+    }
+  }
+  return tokens;
+};
+
+const experienceTitle = (entry) => entry.position || entry.title || '';
+
+// Everything a profile says about the seeker, as one document
+const profileText = (profile) => [
+  profile.title,
+  (profile.skills || []).join(' '),
+  ...(profile.experience || []).map(entry => `${experienceTitle(entry)} ${entry.description || ''}`),
+  ...(profile.education || []).map(entry => `${entry.degree || ''} ${entry.fieldOfStudy || ''}`),
+  ...(profile.projects || []).map(entry => `${entry.name || ''} ${entry.description || ''}`)
+].filter(Boolean).join('\n');
+
+// Title and skills are repeated so they outweigh boilerplate in long descriptions
+const jobText = (job) => [
+  job.title,
+  job.title,
+  (job.skills || []).join(' '),
+  (job.skills || []).join(' '),
+  job.description,
+  job.requirements
+].filter(value => typeof value === 'string' && value).join('\n');
+
+/**
+ * Inverse document frequencies for a set of documents (already tokenized)
+ * @param {Array<Array<String>>} documents
+ * @returns {Map} - term -> idf
+ */
+const buildIdf = (documents) => {
+  const frequency = new Map();
+  documents.forEach(tokens => {
+    new Set(tokens).forEach(token => frequency.set(token, (frequency.get(token) || 0) + 1));
+  });
+  const idf = new Map();
+  frequency.forEach((count, token) => idf.set(token, Math.log((1 + documents.length) / (1 + count)) + 1));
+  return idf;
+};
+
+// Unit-length TF-IDF vector
+const toVector = (tokens, idf) => {
+  const counts = new Map();
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  const vector = new Map();
+  let norm = 0;
+  counts.forEach((count, token) => {
+    const weight = (1 + Math.log(count)) * (idf.get(token) || 1);
+    vector.set(token, weight);
+    norm += weight * weight;
+  });
+  norm = Math.sqrt(norm) || 1;
+  vector.forEach((weight, token) => vector.set(token, weight / norm));
+  return vector;
+};
+
+const cosine = (a, b) => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, token) => {
+    if (large.has(token)) sum += weight * large.get(token);
+  });
+  return sum;
+};
+
+/**
+ * Years of experience from the profile: the stated total, else the span of its experience entries
+ * @param {Object} profile
+ * @returns {Number|null}
+ */
+const yearsOfExperience = (profile) => {
+  if (typeof profile.totalYearsExperience === 'number') return profile.totalYearsExperience;
+  const months = (profile.experience || []).reduce((total, entry) => {
+    const start = new Date(entry.startDate || entry.from);
+    const end = entry.current ? new Date() : new Date(entry.endDate || entry.to);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return total;
+    return total + (end - start) / (1000 * 60 * 60 * 24 * 30.44);
+  }, 0);
+  return months > 0 ? Math.round(months / 12 * 10) / 10 : null;
+};
+
+const scoreSkills = (profile, job) => {
+  const jobSkills = job.skills || [];
+  if (jobSkills.length === 0) return null;
+  const seekerIds = new Set(profile.skillIds && profile.skillIds.length ? profile.skillIds : canonicalSkillIds(profile.skills));
+  // Skills the taxonomy lists as related to one the seeker has
+  const adjacentIds = new Set();
+  seekerIds.forEach(id => {
+    const skill = findSkill(id);
+    if (skill) skill.related.forEach(relatedId => adjacentIds.add(relatedId));
+  });
+
+  const matched = [];
+  const related = [];
+  const missing = [];
+  jobSkills.forEach(name => {
+    const [id] = canonicalSkillIds([name]);
+    if (seekerIds.has(id)) matched.push(name);
+    else if (adjacentIds.has(id)) related.push(name);
+    else missing.push(name);
+  });
+  return {
+    score: (matched.length + related.length * 0.5) / jobSkills.length,
+    matched,
+    related,
+    missing
+  };
+};
+
+const scoreExperience = (profile, job) => {
+  const range = EXPERIENCE_RANGES[job.experienceLevel];
+  const years = yearsOfExperience(profile);
+  if (!range || years === null) return null;
+  let score = 1;
+  if (years < range.min) score = Math.max(0, 1 - (range.min - years) / Math.max(range.min, 2));
+  else if (years > range.max + 5) score = 0.7; // Likely overqualified
+  return { score, years, range };
+};
+
+const scorePreferences = (profile, job) => {
+  const parts = [];
+  const locations = (profile.preferredLocations && profile.preferredLocations.length ? profile.preferredLocations : [profile.location])
+    .filter(Boolean)
+    .map(location => location.toLowerCase());
+  const jobLocation = (job.location || '').toLowerCase();
+
+  let location = null;
+  if (locations.length > 0 && (jobLocation || job.workMode)) {
+    const wantsRemote = locations.some(value => value.trim() === 'remote');
+    const sameLocation = jobLocation && locations.some(value => {
+      const city = value.split(',')[0].trim();
+      return city && (jobLocation.includes(city) || value.includes(jobLocation.split(',')[0].trim()));
+    });
+    if (job.workMode === 'remote') location = 1;
+    else if (sameLocation) location = 1;
+    else if (wantsRemote) location = 0.2;
+    else location = job.workMode === 'hybrid' ? 0.3 : 0;
+    parts.push(location);
+  }
+
+  let jobType = null;
+  if ((profile.preferredJobTypes || []).length > 0 && job.type) {
+    jobType = profile.preferredJobTypes.includes(job.type) ? 1 : 0;
+    parts.push(jobType);
+  }
+
+  if (parts.length === 0) return null;
+  return { score: parts.reduce((sum, value) => sum + value, 0) / parts.length, location, jobType };
+};
+
+const scoreSalary = (profile, job) => {
+  const expected = profile.expectedSalary || {};
+  const offered = job.salary || {};
+  if (!(expected.min || expected.max) || !(offered.min || offered.max)) return null;
+  if (expected.currency && offered.currency && expected.currency !== offered.currency) return null;
+
+  const wantMin = expected.min || expected.max;
+  const wantMax = expected.max || expected.min;
+  const offerMin = offered.min || offered.max;
+  const offerMax = offered.max || offered.min;
+  if (offerMax >= wantMin && offerMin <= wantMax) return { score: 1 };
+  // Below expectations: scale by how far the top of the offer falls short
+  if (offerMax < wantMin) return { score: Math.max(0, 1 - (wantMin - offerMax) / wantMin) };
+  return { score: 1 };
+};
+
+/**
+ * Prepare a scorer for a set of profiles and jobs
+ * (TF-IDF weights depend on the whole set being ranked)
+ * @param {Array<Object>} profiles
+ * @param {Array<Object>} jobs
+ * @returns {Function} - (profile, job) => match, for members of the two sets
+ */
+const createScorer = (profiles, jobs) => {
+  const tokens = new Map([
+    ...profiles.map(profile => [profile, tokenize(profileText(profile))]),
+    ...jobs.map(job => [job, tokenize(jobText(job))])
+  ]);
+  const idf = buildIdf([...tokens.values()]);
+  const vectors = new Map([...tokens].map(([doc, docTokens]) => [doc, toVector(docTokens, idf)]));
+
+  return (profile, job) => {
+    const profileVector = vectors.get(profile);
+    const jobVector = vectors.get(job);
+    const similarity = profileVector.size && jobVector.size ? cosine(profileVector, jobVector) : null;
+    return scoreMatch(profile, job, similarity);
+  };
+};
+
+/**
+ * Combine the component scores for one profile and job
+ * @param {Object} profile - Job seeker profile (plain object)
+ * @param {Object} job - Job (plain object)
+ * @param {Number|null} similarity - TF-IDF cosine similarity of their text
+ * @returns {Object} - { score (0-100), breakdown, matchedSkills, missingSkills, strengths, weaknesses, reasoning }
+ */
+const scoreMatch = (profile, job, similarity) => {
+  const skills = scoreSkills(profile, job);
+  const experience = scoreExperience(profile, job);
+  const preferences = scorePreferences(profile, job);
+  const salary = scoreSalary(profile, job);
+  const text = similarity === null ? null : { score: Math.min(1, similarity / TEXT_SIMILARITY_CEILING) };
+
+  const components = { skills, text, experience, preferences, salary };
+  const available = Object.keys(WEIGHTS).filter(name => components[name]);
+  const totalWeight = available.reduce((sum, name) => sum + WEIGHTS[name], 0);
+  const score = totalWeight
+    ? available.reduce((sum, name) => sum + components[name].score * WEIGHTS[name], 0) / totalWeight
+    : 0;
+
+  const breakdown = {};
+  Object.keys(WEIGHTS).forEach(name => {
+    breakdown[name] = components[name] ? Math.round(components[name].score * 100) : null;
+  });
+
+  const strengths = [];
+  const weaknesses = [];
+  if (skills) {
+    if (skills.matched.length) strengths.push(`Has ${skills.matched.length} of ${job.skills.length} required skills: ${skills.matched.slice(0, 5).join(', ')}`);
+    if (skills.related.length) strengths.push(`Related experience for ${skills.related.slice(0, 3).join(', ')}`);
+    if (skills.missing.length) weaknesses.push(`Missing ${skills.missing.slice(0, 5).join(', ')}`);
+  }
+  if (experience) {
+    if (experience.years < experience.range.min) weaknesses.push(`${experience.years} years of experience; ${job.experienceLevel} roles usually need ${experience.range.min}+`);
+    else strengths.push(`${experience.years} years of experience suits the ${job.experienceLevel} level`);
+  }
+  if (text && text.score >= 0.6) strengths.push('Profile closely matches the job description');
+  else if (text && text.score < 0.2) weaknesses.push('Little overlap between profile and job description');
+  if (preferences) {
+    if (preferences.location === 1) strengths.push(job.workMode === 'remote' ? 'Remote role' : `Based in ${job.location}`);
+    else if (preferences.location === 0) weaknesses.push(`Located outside ${job.location}`);
+    if (preferences.jobType === 0) weaknesses.push(`Prefers other job types than ${job.type}`);
+  }
+  if (salary) {
+    if (salary.score === 1) strengths.push('Salary range overlaps expectations');
+    else weaknesses.push('Salary below expectations');
+  }
+
+  const described = available
+    .map(name => `${name} ${breakdown[name]}%`)
+    .join(', ');
+
+  return {
+    score: Math.round(score * 100),
+    breakdown,
+    matchedSkills: skills ? skills.matched : [],
+    missingSkills: skills ? skills.missing : [],
+    strengths,
+    weaknesses,
+    reasoning: available.length
+      ? `Local match score from ${described}.`
+      : 'Not enough profile or job details to compare.'
+  };
+};
+
+// Deterministic order: score, then newest, then ID
+const compareRanked = (a, b) => b.match.score - a.match.score ||
+  (new Date(b.createdAt || 0) - new Date(a.createdAt || 0)) ||
+  String(a.id).localeCompare(String(b.id));
+
+/**
+ * Rank jobs for a job seeker
+ * @param {Object} profile - Job seeker profile (plain object)
+ * @param {Array<Object>} jobs - Candidate jobs (plain objects)
+ * @returns {Array<Object>} - [{ job, match }] best first
+ */
+const rankJobsForProfile = (profile, jobs) => {
+  const score = createScorer([profile], jobs);
+  return jobs
+    .map(job => ({ job, match: score(profile, job), createdAt: job.createdAt, id: job._id }))
+    .sort(compareRanked)
+    .map(({ job, match }) => ({ job, match }));
+};
+
+/**
+ * Rank job seekers for a job
+ * @param {Object} job - Job (plain object)
+ * @param {Array<Object>} profiles - Job seeker profiles (plain objects)
+ * @returns {Array<Object>} - [{ profile, match }] best first
+ */
+const rankProfilesForJob = (job, profiles) => {
+  const score = createScorer(profiles, [job]);
+  return profiles
+    .map(profile => ({ profile, match: score(profile, job), id: profile._id }))
+    .sort(compareRanked)
+    .map(({ profile, match }) => ({ profile, match }));
+};
+
+module.exports = {
+  WEIGHTS,
+  EXPERIENCE_RANGES,
+  tokenize,
+  yearsOfExperience,
+  scoreMatch,
+  rankJobsForProfile,
+  rankProfilesForJob
+};
@@ -0,0 +1,42 @@
+/**
+ * Message Template Service
+ * Fills in the placeholders in templated messages employers send to applicants,
+ * e.g. "Hi {{candidateName}}, thanks for applying to {{jobTitle}}".
+ */
+
+const MESSAGE_PLACEHOLDERS = ['candidateName', 'jobTitle', 'companyName', 'stageName'];
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * Check a message template before sending it
+ * @param {String} template - Message text with {{placeholders}}
+ * @returns {String|null} - Error message, or null if the template is valid
+ */
+const validateMessageTemplate = (template) => {
+  if (typeof template !== 'string' || !template.trim()) return 'Message text is required';
+  if (template.length > MAX_MESSAGE_LENGTH) return `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`;
+
+  const unknown = (template.match(/{{\s*(\w+)\s*}}/g) || [])
+    .map(placeholder => placeholder.replace(/[{}\s]/g, ''))
+    .filter(name => !MESSAGE_PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    return `Unknown placeholder {{${unknown[0]}}}. Available: ${MESSAGE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * Fill in a message template for one recipient
+ * @param {String} template - Message text with {{placeholders}}
+ * @param {Object} values - Placeholder values, e.g. { candidateName, jobTitle }
+ * @returns {String} - The message text
+ */
+const renderMessageTemplate = (template, values) => template
+  .replace(/{{\s*(\w+)\s*}}/g, (match, name) => (values[name] !== undefined && values[name] !== null ? String(values[name]) : ''))
+  .trim();
+
+module.exports = {
+  MESSAGE_PLACEHOLDERS,
+  validateMessageTemplate,
+  renderMessageTemplate
+};
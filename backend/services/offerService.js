@@ -0,0 +1,210 @@
+const { renderMessageTemplate } = require('./messageTemplateService');
+const { buildTextPdf } = require('./pdfService');
+const { escapeHtml } = require('./htmlService');
+
+/**
+ * Offer Service
+ * Rules and letter rendering for job offers:
+ *   draft -> sent -> accepted/declined/countered, and sent -> expired once expiresAt passes.
+ * Employers can revise a countered (or sent) offer, which sends it again, or withdraw it.
+ */
+
+// Offers that are still in play; an application can only have one of these at a time
+const OPEN_OFFER_STATUSES = ['draft', 'sent', 'countered'];
+const RESPONSE_ACTIONS = ['accept', 'decline', 'counter'];
+
+const OFFER_PLACEHOLDERS = ['candidateName', 'jobTitle', 'companyName', 'salary', 'startDate', 'expiryDate', 'location'];
+const MAX_LETTER_LENGTH = 10000;
+
+const DEFAULT_OFFER_TEMPLATE = `Dear {{candidateName}},
+
+We are delighted to offer you the position of {{jobTitle}} at {{companyName}}.
+
+Your starting salary will be {{salary}} per year, and your first day will be {{startDate}}. The role is based in {{location}}.
+
+This offer is open until {{expiryDate}}. Please let us know your decision by accepting or declining it from your applications page.
+
+We're excited about the prospect of you joining the team.
+
+Sincerely,
+{{companyName}}`;
+
+const formatSalary = (salary) => `${salary.currency || 'PKR'} ${Number(salary.amount || 0).toLocaleString('en-US')}`;
+
+const formatDate = (date) => new Date(date).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+});
+
+const isValidDate = (value) => value && !isNaN(new Date(value).getTime());
+
+const isCurrencyCode = (currency) => typeof currency === 'string' && /^[A-Za-z]{3}$/.test(currency);
+
+/**
+ * Check employer-supplied offer terms
+ * @param {Object} terms - { salary: { amount, currency }, startDate, expiresAt, letterTemplate }
+ * @returns {String|null} - Error message, or null if the terms are valid
+ */
+const validateOfferTerms = ({ salary, startDate, expiresAt, letterTemplate }) => {
+  if (!salary || typeof salary.amount !== 'number' || !isFinite(salary.amount) || salary.amount <= 0) {
+    return 'Salary must be a positive number';
+  }
+  if (salary.currency !== undefined && !isCurrencyCode(salary.currency)) {
+    return 'Currency must be a three-letter code, e.g. USD';
+  }
+  if (!isValidDate(startDate)) return 'Start date is not a valid date';
+  if (!isValidDate(expiresAt)) return 'Expiry date is not a valid date';
+  if (new Date(expiresAt) <= new Date()) return 'The offer must expire in the future';
+  if (new Date(startDate) < new Date(expiresAt)) return 'The start date must be after the offer expires';
+
+  if (typeof letterTemplate !== 'string' || !letterTemplate.trim()) return 'Offer letter text is required';
+  if (letterTemplate.length > MAX_LETTER_LENGTH) return `Offer letters can be at most ${MAX_LETTER_LENGTH} characters`;
+  const unknown = (letterTemplate.match(/{{\s*(\w+)\s*}}/g) || [])
+    .map(placeholder => placeholder.replace(/[{}\s]/g, ''))
+    .filter(name => !OFFER_PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    return `Unknown placeholder {{${unknown[0]}}}. Available: ${OFFER_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * Check a candidate's counter proposal
+ * @param {Object} counter - { salary: { amount, currency }, startDate, message }
+ * @returns {String|null} - Error message, or null if the counter is valid
+ */
+const validateCounterOffer = (counter) => {
+  if (!counter) return 'Counter offer details are required';
+  if (counter.message !== undefined && typeof counter.message !== 'string') return 'Message must be text';
+  const hasSalary = counter.salary && counter.salary.amount !== undefined && counter.salary.amount !== null;
+  if (hasSalary && (typeof counter.salary.amount !== 'number' || !isFinite(counter.salary.amount) || counter.salary.amount <= 0)) {
+    return 'Salary must be a positive number';
+  }
+  if (hasSalary && counter.salary.currency !== undefined && !isCurrencyCode(counter.salary.currency)) {
+    return 'Currency must be a three-letter code, e.g. USD';
+  }
+  if (counter.startDate && !isValidDate(counter.startDate)) return 'Start date is not a valid date';
+  if (!hasSalary && !counter.startDate && !(counter.message || '').trim()) {
+    return 'Propose a salary or start date, or add a message';
+  }
+  if (counter.message && counter.message.length > 2000) return 'Messages can be at most 2000 characters';
+  return null;
+};
+
+/**
+ * Mark a sent offer as expired once its expiry date has passed. Offers are checked
+ * whenever they're loaded rather than by a scheduler.
+ * @param {Object} offer - Offer document
+ * @returns {Boolean} - Whether the offer was just expired (caller should save)
+ */
+const applyExpiry = (offer) => {
+  if (offer.status !== 'sent' || new Date(offer.expiresAt) > new Date()) return false;
+  offer.status = 'expired';
+  offer.history.push({ status: 'expired', date: offer.expiresAt, note: 'The offer expired without a response' });
+  return true;
+};
+
+/**
+ * Offer letter text with the placeholders filled in
+ * @param {Object} offer - Offer document
+ * @param {Object} job - Job the offer is for
+ * @param {Object} candidate - The job seeker
+ * @returns {String}
+ */
+const renderOfferLetterText = (offer, job, candidate) => renderMessageTemplate(offer.letterTemplate, {
+  candidateName: candidate.name,
+  jobTitle: job.title,
+  companyName: job.company,
+  salary: formatSalary(offer.salary),
+  startDate: formatDate(offer.startDate),
+  expiryDate: formatDate(offer.expiresAt),
+  location: job.location
+});
+
+/**
+ * Printable HTML offer letter
+ * @param {Object} offer - Offer document
+ * @param {Object} job - Job the offer is for
+ * @param {Object} candidate - The job seeker
+ * @returns {String} - Complete HTML document
+ */
+const renderOfferLetterHtml = (offer, job, candidate) => {
+  const paragraphs = renderOfferLetterText(offer, job, candidate)
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  const notice = offer.status === 'draft'
+    ? '<div class="notice">Draft - this offer has not been sent yet</div>'
+    : ['withdrawn', 'expired', 'declined'].includes(offer.status)
+      ? `<div class="notice">This offer is no longer open (${offer.status})</div>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Offer Letter - ${escapeHtml(job.title)}</title>
+<style>
+  body { font-family: Georgia, serif; color: #222; max-width: 680px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  .date { color: #666; margin-bottom: 32px; }
+  .notice { background: #fff4e5; border: 1px solid #ffb74d; padding: 8px 12px; margin-bottom: 24px; }
+  table { border-collapse: collapse; margin: 24px 0; }
+  td { padding: 4px 16px 4px 0; }
+  td:first-child { color: #666; }
+  @media print { .notice { display: none; } }
+</style>
+</head>
+<body>
+${notice}
+<h1>${escapeHtml(job.company)}</h1>
+<div class="date">${formatDate(offer.sentAt || offer.createdAt || new Date())}</div>
+${paragraphs}
+<table>
+  <tr><td>Position</td><td>${escapeHtml(job.title)}</td></tr>
+  <tr><td>Salary</td><td>${escapeHtml(formatSalary(offer.salary))}</td></tr>
+  <tr><td>Start date</td><td>${formatDate(offer.startDate)}</td></tr>
+  <tr><td>Respond by</td><td>${formatDate(offer.expiresAt)}</td></tr>
+</table>
+</body>
+</html>`;
+};
+
+/**
+ * PDF offer letter
+ * @param {Object} offer - Offer document
+ * @param {Object} job - Job the offer is for
+ * @param {Object} candidate - The job seeker
+ * @returns {Buffer}
+ */
+const buildOfferLetterPdf = (offer, job, candidate) => buildTextPdf([
+  { text: job.company, style: 'title' },
+  { text: formatDate(offer.sentAt || offer.createdAt || new Date()), style: 'small' },
+  { text: renderOfferLetterText(offer, job, candidate), style: 'body' },
+  { text: 'Offer Summary', style: 'heading' },
+  {
+    text: [
+      `Position: ${job.title}`,
+      `Salary: ${formatSalary(offer.salary)}`,
+      `Start date: ${formatDate(offer.startDate)}`,
+      `Respond by: ${formatDate(offer.expiresAt)}`
+    ].join('\n'),
+    style: 'body'
+  }
+], { title: `Offer Letter - ${job.title}` });
+
+module.exports = {
+  OPEN_OFFER_STATUSES,
+  RESPONSE_ACTIONS,
+  OFFER_PLACEHOLDERS,
+  DEFAULT_OFFER_TEMPLATE,
+  formatSalary,
+  formatDate,
+  validateOfferTerms,
+  validateCounterOffer,
+  applyExpiry,
+  renderOfferLetterText,
+  renderOfferLetterHtml,
+  buildOfferLetterPdf
+};
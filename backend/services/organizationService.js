@@ -0,0 +1,101 @@
+const Organization = require('../models/Organization');
+
+/**
+ * Organization Service
+ * Role-based access for company teams. An employer who hasn't set up a team is
+ * treated as the owner of their own company, so single-login companies keep
+ * working exactly as before.
+ */
+
+const ROLES = ['owner', 'recruiter', 'hiring_manager', 'interviewer'];
+const INVITABLE_ROLES = ['recruiter', 'hiring_manager', 'interviewer'];
+
+const ROLE_PERMISSIONS = {
+  owner: ['manage_team', 'manage_jobs', 'view_applications', 'manage_applications', 'schedule_interviews', 'rate_interviews'],
+  recruiter: ['manage_jobs', 'view_applications', 'manage_applications', 'schedule_interviews', 'rate_interviews'],
+  hiring_manager: ['view_applications', 'manage_applications', 'schedule_interviews', 'rate_interviews'],
+  interviewer: ['view_applications', 'rate_interviews']
+};
+
+const idOf = (value) => (value && value._id ? value._id : value);
+
+/**
+ * The user's role in their company
+ * @param {Object} user - Employer user
+ * @returns {String} - One of ROLES
+ */
+const getRole = (user) => (user.organization ? user.organizationRole : 'owner');
+
+/**
+ * Check a permission against the user's role in their own company
+ * @param {Object} user - Authenticated user
+ * @param {String} permission - e.g. 'manage_jobs'
+ * @returns {Boolean}
+ */
+const hasPermission = (user, permission) => Boolean(
+  user && user.type === 'employer' && (ROLE_PERMISSIONS[getRole(user)] || []).includes(permission)
+);
+
+/**
+ * The user's role on a job: owner if it's listed under their account, their team
+ * role if it belongs to their organization, otherwise null
+ * @param {Object} user - Authenticated user
+ * @param {Object} job - Job document (employer/organization may be populated)
+ * @returns {String|null}
+ */
+const getJobRole = (user, job) => {
+  if (!user || user.type !== 'employer' || !job) return null;
+
+  const employerId = idOf(job.employer);
+  if (employerId && employerId.toString() === user._id.toString()) return 'owner';
+
+  const organizationId = idOf(job.organization);
+  if (user.organization && organizationId && organizationId.toString() === user.organization.toString()) {
+    return user.organizationRole;
+  }
+  return null;
+};
+
+/**
+ * Whether the user may perform an action on a job
+ * @param {Object} user - Authenticated user
+ * @param {Object} job - Job document
+ * @param {String} permission - e.g. 'view_applications'
+ * @returns {Boolean}
+ */
+const canAccessJob = (user, job, permission) => {
+  const role = getJobRole(user, job);
+  return Boolean(role && ROLE_PERMISSIONS[role].includes(permission));
+};
+
+/**
+ * Mongo filter for every job the user's company owns
+ * @param {Object} user - Employer user
+ * @returns {Object} - Query filter
+ */
+const companyJobFilter = (user) => (user.organization
+  ? { $or: [{ organization: user.organization }, { employer: user._id }] }
+  : { employer: user._id });
+
+/**
+ * The account new jobs are listed under: the organization owner, or the user themselves
+ * @param {Object} user - Employer user
+ * @returns {Promise<ObjectId>}
+ */
+const getCompanyAccountId = async (user) => {
+  if (!user.organization || user.organizationRole === 'owner') return user._id;
+  const organization = await Organization.findById(user.organization).select('owner');
+  return organization ? organization.owner : user._id;
+};
+
+module.exports = {
+  ROLES,
+  INVITABLE_ROLES,
+  ROLE_PERMISSIONS,
+  getRole,
+  hasPermission,
+  getJobRole,
+  canAccessJob,
+  companyJobFilter,
+  getCompanyAccountId
+};
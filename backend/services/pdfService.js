@@ -0,0 +1,140 @@
+/**
+ * PDF Service
+ * Writes simple text documents (offer letters, resumes) as PDF files without any
+ * native dependencies. Text is set in the built-in Helvetica fonts on US Letter
+ * pages, wrapped to the page width and broken across pages as needed.
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+
+// Average glyph width as a fraction of the font size, used to estimate line breaks
+const STYLES = {
+  title: { font: 'F2', size: 18, charWidth: 0.56, spaceAfter: 10 },
+  heading: { font: 'F2', size: 13, charWidth: 0.56, spaceAfter: 6 },
+  body: { font: 'F1', size: 11, charWidth: 0.5, spaceAfter: 6 },
+  small: { font: 'F1', size: 9, charWidth: 0.5, spaceAfter: 4 }
+};
+
+// The standard fonts only cover Latin-1, so swap common typographic characters for plain ones
+const toPdfText = (text) => String(text)
+  .replace(/[‘’]/g, '\'')
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/•/g, '-')
+  .replace(/…/g, '...')
+  .replace(/[^\x20-\xFF]/g, '?')
+  .replace(/\\/g, '\\\\')
+  .replace(/\(/g, '\\(')
+  .replace(/\)/g, '\\)');
+
+const wrapLine = (line, maxChars) => {
+  const words = line.split(/\s+/).filter(Boolean);
+  const lines = [];
+  let current = '';
+  words.forEach(word => {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    // Split words that are longer than a whole line (URLs and the like)
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Lay text blocks out into pages of positioned lines
+ * @param {Array<Object>} blocks - [{ text, style }] where style is a key of STYLES
+ * @returns {Array<Array<Object>>} - Pages of { text, font, size, x, y }
+ */
+const layoutBlocks = (blocks) => {
+  const pages = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach(block => {
+    const style = STYLES[block.style] || STYLES.body;
+    const lineHeight = style.size * 1.35;
+    const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (style.size * style.charWidth));
+
+    String(block.text || '').split('\n').forEach(paragraph => {
+      const lines = paragraph.trim() ? wrapLine(paragraph, maxChars) : [''];
+      lines.forEach(text => {
+        if (y - lineHeight < MARGIN) {
+          pages.push([]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= lineHeight;
+        if (text) {
+          pages[pages.length - 1].push({ text, font: style.font, size: style.size, x: MARGIN, y });
+        }
+      });
+    });
+    y -= style.spaceAfter;
+  });
+
+  return pages;
+};
+
+/**
+ * Build a PDF document from text blocks
+ * @param {Array<Object>} blocks - [{ text, style }], style one of title, heading, body, small
+ * @param {Object} options - { title } for the document properties
+ * @returns {Buffer} - The PDF file
+ */
+const buildTextPdf = (blocks, options = {}) => {
+  const pages = layoutBlocks(blocks);
+  const objects = [];
+  const addObject = (body) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject(null);
+  const pagesId = addObject(null);
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const infoId = addObject(`<< /Title (${toPdfText(options.title || 'Document')}) /Producer (HireSphere) >>`);
+
+  const pageIds = pages.map(lines => {
+    const content = lines
+      .map(line => `BT /${line.font} ${line.size} Tf ${line.x} ${line.y.toFixed(2)} Td (${toPdfText(line.text)}) Tj ET`)
+      .join('\n');
+    const contentId = addObject(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+module.exports = {
+  buildTextPdf
+};
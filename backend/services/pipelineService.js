@@ -0,0 +1,176 @@
+const User = require('../models/User');
+
+/**
+ * Pipeline Service
+ * Hiring pipelines are ordered lists of stages an application moves through.
+ * Each stage has a category (one of the fixed application statuses), so
+ * application.status keeps meaning the same thing everywhere while employers
+ * name and order their own stages. The built-in pipeline's stage keys are the
+ * statuses themselves, so applications created before custom stages still line up.
+ */
+
+const STAGE_CATEGORIES = ['pending', 'reviewed', 'interview', 'accepted', 'rejected'];
+const MAX_STAGES = 15;
+
+// What applicants see for each category when a stage has no label of its own
+const SEEKER_LABELS = {
+  pending: 'Application received',
+  reviewed: 'Under review',
+  interview: 'Interviewing',
+  accepted: 'Offer extended',
+  rejected: 'Not selected'
+};
+
+const DEFAULT_PIPELINE = [
+  { key: 'pending', name: 'Pending', seekerLabel: SEEKER_LABELS.pending, category: 'pending' },
+  { key: 'reviewed', name: 'Reviewed', seekerLabel: SEEKER_LABELS.reviewed, category: 'reviewed' },
+  { key: 'interview', name: 'Interview', seekerLabel: SEEKER_LABELS.interview, category: 'interview' },
+  { key: 'accepted', name: 'Accepted', seekerLabel: 'Accepted', category: 'accepted' },
+  { key: 'rejected', name: 'Rejected', seekerLabel: SEEKER_LABELS.rejected, category: 'rejected' }
+];
+
+const slugify = (text) => String(text || '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+/**
+ * Fill in missing keys (from the stage name) and applicant-facing labels
+ * @param {Array<Object>} stages - Stages from the request body
+ * @returns {Array<Object>} - { key, name, seekerLabel, category } stages
+ */
+const normalizePipeline = (stages) => {
+  const usedKeys = new Set();
+  return stages.map(stage => {
+    const name = String(stage.name || '').trim();
+    let key = slugify(stage.key || name) || 'stage';
+    // Two stages called "Interview" become interview and interview-2
+    const base = key;
+    for (let suffix = 2; usedKeys.has(key); suffix++) key = `${base}-${suffix}`;
+    usedKeys.add(key);
+
+    return {
+      key,
+      name,
+      seekerLabel: String(stage.seekerLabel || '').trim() || SEEKER_LABELS[stage.category],
+      category: stage.category
+    };
+  });
+};
+
+/**
+ * Check employer-supplied pipeline stages before saving
+ * @param {Array<Object>} stages - Stages from the request body
+ * @returns {String|null} - Error message, or null if the pipeline is valid
+ */
+const validatePipeline = (stages) => {
+  if (!Array.isArray(stages)) return 'Pipeline stages must be a list';
+  if (stages.length < 2) return 'A pipeline needs at least two stages';
+  if (stages.length > MAX_STAGES) return `A pipeline can have at most ${MAX_STAGES} stages`;
+
+  for (let index = 0; index < stages.length; index++) {
+    const stage = stages[index] || {};
+    if (!stage.name || !String(stage.name).trim()) return `Stage ${index + 1} needs a name`;
+    if (!STAGE_CATEGORIES.includes(stage.category)) {
+      return `Stage "${stage.name}" has an invalid category. Must be one of: ${STAGE_CATEGORIES.join(', ')}`;
+    }
+  }
+  // New applications land in the first stage, so it can't be a final decision
+  if (['accepted', 'rejected'].includes(stages[0].category)) {
+    return 'The first stage must be one where new applications can wait for review';
+  }
+  if (!stages.some(stage => stage.category === 'rejected')) {
+    return 'A pipeline needs at least one rejection stage';
+  }
+  return null;
+};
+
+/**
+ * Work out which pipeline applies to a job: its own stages, the employer's default, or the built-in one
+ * @param {Object} job - Job document (employer may be an id or a populated user with defaultPipeline)
+ * @returns {Promise<Array<Object>>} - Pipeline stages
+ */
+const getJobPipeline = async (job) => {
+  if (job.pipelineStages && job.pipelineStages.length > 0) return job.pipelineStages;
+
+  let employer = job.employer;
+  if (!employer || !employer.defaultPipeline) {
+    employer = await User.findById(employer && employer._id ? employer._id : employer).select('defaultPipeline');
+  }
+  if (employer && employer.defaultPipeline && employer.defaultPipeline.length > 0) return employer.defaultPipeline;
+  return DEFAULT_PIPELINE;
+};
+
+/**
+ * The stage an application is in. Applications from before custom stages only have a
+ * status, which matches a built-in stage key; if the pipeline has since changed, fall
+ * back to the first stage with the same category.
+ * @param {Array<Object>} pipeline - Pipeline stages
+ * @param {Object} application - Job application
+ * @returns {Object|undefined} - The stage
+ */
+const getCurrentStage = (pipeline, application) => {
+  const key = application.stage || application.status;
+  return pipeline.find(stage => stage.key === key) ||
+    pipeline.find(stage => stage.category === application.status);
+};
+
+/**
+ * Move an application to a stage, recording the transition in its history (doesn't save)
+ * @param {Object} application - JobApplication document
+ * @param {Array<Object>} pipeline - Pipeline stages
+ * @param {Object} stage - Target stage
+ * @param {String} note - Optional history note
+ */
+const moveToStage = (application, pipeline, stage, note) => {
+  const fromStage = getCurrentStage(pipeline, application);
+  application.stage = stage.key;
+  application.status = stage.category;
+  application.applicationHistory.push({
+    status: stage.category,
+    stage: stage.key,
+    fromStage: fromStage ? fromStage.key : undefined,
+    stageName: stage.name,
+    date: new Date(),
+    note: note || `Moved to "${stage.name}"`
+  });
+};
+
+/**
+ * Move an application to the first stage of a category, unless it's already in that category.
+ * Used where the system (not the employer) advances an application, e.g. scheduling an interview.
+ * @returns {Boolean} - Whether the application moved
+ */
+const moveToCategory = (application, pipeline, category, note) => {
+  const current = getCurrentStage(pipeline, application);
+  if (current && current.category === category) return false;
+  const stage = pipeline.find(candidate => candidate.category === category);
+  if (!stage) return false;
+  moveToStage(application, pipeline, stage, note);
+  return true;
+};
+
+/**
+ * Applicant-facing label for an application's current stage
+ * @param {Array<Object>} pipeline - Pipeline stages
+ * @param {Object} application - Job application
+ * @returns {String} - Label
+ */
+const getSeekerLabel = (pipeline, application) => {
+  const stage = getCurrentStage(pipeline, application);
+  return (stage && stage.seekerLabel) || SEEKER_LABELS[application.status] || application.status;
+};
+
+module.exports = {
+  STAGE_CATEGORIES,
+  SEEKER_LABELS,
+  DEFAULT_PIPELINE,
+  slugify,
+  normalizePipeline,
+  validatePipeline,
+  getJobPipeline,
+  getCurrentStage,
+  moveToStage,
+  moveToCategory,
+  getSeekerLabel
+};
@@ -0,0 +1,27 @@
+const { hideKnockoutCriteria } = require('./screeningQuestionService');
+
+/**
+ * Public Job Service
+ * Shapes jobs for applicants and anonymous visitors. The hiring team's
+ * interview kits (questions and scoring rubrics), pipeline stages and the
+ * screening questions' passing answers never leave the server on these routes.
+ */
+
+// Hiring-team-only job fields
+const PRIVATE_JOB_FIELDS = ['interviewKits', 'pipelineStages'];
+
+/**
+ * Copy of a job without hiring-team-only fields
+ * @param {Object} job - Job document or plain object (populated or lean)
+ * @returns {Object} - Plain object safe to send to applicants and the public
+ */
+const toPublicJob = (job) => {
+  if (!job) return job;
+  const jobObject = typeof job.toObject === 'function' ? job.toObject() : { ...job };
+  PRIVATE_JOB_FIELDS.forEach(field => delete jobObject[field]);
+  return hideKnockoutCriteria(jobObject);
+};
+
+module.exports = {
+  toPublicJob
+};
@@ -0,0 +1,154 @@
+const { buildTextPdf } = require('./pdfService');
+const { buildTextDocx } = require('./docxService');
+
+/**
+ * Resume Builder Service
+ * Lays a job seeker's profile (contact details, skills, experience, education)
+ * out as a resume in one of a few templates, and renders it as PDF or DOCX.
+ * Both formats come from the same text blocks, so they always match.
+ */
+
+const RESUME_TEMPLATES = [
+  { id: 'classic', name: 'Classic', description: 'Experience first, then education and skills' },
+  { id: 'modern', name: 'Modern', description: 'Skills up front, suited to technical roles' },
+  { id: 'compact', name: 'Compact', description: 'One line per role and degree to fit on a single page' }
+];
+const RESUME_FORMATS = ['pdf', 'docx'];
+
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatMonth = (value) => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+  return `${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+};
+
+// Profiles saved from different screens use either title/from/to or position/startDate/endDate
+const normalizeExperience = (entry) => ({
+  position: entry.position || entry.title || '',
+  company: entry.company || '',
+  location: entry.location || '',
+  start: formatMonth(entry.startDate || entry.from),
+  end: entry.current ? 'Present' : formatMonth(entry.endDate || entry.to),
+  description: entry.description || ''
+});
+
+const normalizeEducation = (entry) => {
+  const graduated = entry.graduationYear || (entry.to ? new Date(entry.to).getUTCFullYear() : '');
+  return {
+    degree: [entry.degree, entry.fieldOfStudy && !String(entry.degree || '').includes(entry.fieldOfStudy) ? entry.fieldOfStudy : '']
+      .filter(Boolean)
+      .join(', '),
+    institution: entry.institution || '',
+    year: entry.current ? 'Present' : (graduated && !isNaN(graduated) ? String(graduated) : '')
+  };
+};
+
+const dateRange = (start, end) => [start, end].filter(Boolean).join(' - ');
+
+const fullName = (profile) => [profile.firstName, profile.lastName].filter(Boolean).join(' ') || profile.name || 'Resume';
+
+/**
+ * Check that a profile has something to put on a resume
+ * @param {Object} profile - User profile (plain object)
+ * @returns {String|null} - Error message, or null if valid
+ */
+const validateResumeProfile = (profile) => {
+  const hasContent = (profile.experience || []).length || (profile.education || []).length || (profile.skills || []).length;
+  return hasContent ? null : 'Add experience, education or skills to your profile before generating a resume';
+};
+
+/**
+ * Lay a profile out as resume text blocks
+ * @param {Object} profile - User profile (plain object)
+ * @param {String} templateId - One of RESUME_TEMPLATES
+ * @returns {Array<Object>} - [{ text, style }] for the PDF and DOCX writers
+ */
+const buildResumeBlocks = (profile, templateId = 'classic') => {
+  const compact = templateId === 'compact';
+  const heading = (text) => ({ text: templateId === 'modern' ? text.toUpperCase() : text, style: 'heading' });
+  const experience = (profile.experience || []).map(normalizeExperience);
+  const education = (profile.education || []).map(normalizeEducation);
+  const skills = (profile.skills || []).filter(Boolean);
+
+  const blocks = [{ text: fullName(profile), style: 'title' }];
+  if (profile.title) blocks.push({ text: profile.title, style: 'body' });
+  const contact = [profile.email, profile.phone, profile.location, profile.portfolioUrl].filter(Boolean);
+  if (contact.length) blocks.push({ text: contact.join('  |  '), style: 'small' });
+
+  const sections = {
+    skills: () => {
+      if (!skills.length) return;
+      blocks.push(heading('Skills'));
+      blocks.push({ text: skills.join(compact ? ', ' : '  |  '), style: 'body' });
+    },
+    experience: () => {
+      if (!experience.length) return;
+      blocks.push(heading('Experience'));
+      experience.forEach(entry => {
+        const dates = dateRange(entry.start, entry.end);
+        if (compact) {
+          const role = [entry.position, entry.company].filter(Boolean).join(', ');
+          blocks.push({ text: dates ? `${role} (${dates})` : role, style: 'body' });
+          return;
+        }
+        blocks.push({ text: [entry.position, entry.company].filter(Boolean).join(' at '), style: 'body' });
+        const meta = [dates, entry.location].filter(Boolean).join('  |  ');
+        if (meta) blocks.push({ text: meta, style: 'small' });
+        if (entry.description) blocks.push({ text: entry.description, style: 'body' });
+      });
+    },
+    education: () => {
+      if (!education.length) return;
+      blocks.push(heading('Education'));
+      education.forEach(entry => {
+        if (compact) {
+          const line = [entry.degree, entry.institution].filter(Boolean).join(', ');
+          blocks.push({ text: entry.year ? `${line} (${entry.year})` : line, style: 'body' });
+          return;
+        }
+        blocks.push({ text: entry.degree || entry.institution, style: 'body' });
+        const meta = [entry.degree ? entry.institution : '', entry.year].filter(Boolean).join('  |  ');
+        if (meta) blocks.push({ text: meta, style: 'small' });
+      });
+    }
+  };
+
+  const order = templateId === 'modern' ? ['skills', 'experience', 'education'] : ['experience', 'education', 'skills'];
+  order.forEach(section => sections[section]());
+
+  return blocks;
+};
+
+/**
+ * Render a profile's resume as a file
+ * @param {Object} profile - User profile (plain object)
+ * @param {Object} options - { template, format } where format is 'pdf' or 'docx'
+ * @returns {Object} - { buffer, fileName, mimeType }
+ */
+const renderResume = (profile, { template = 'classic', format = 'pdf' } = {}) => {
+  const name = fullName(profile);
+  const blocks = buildResumeBlocks(profile, template);
+  const title = `${name} - Resume`;
+  const buffer = format === 'docx' ? buildTextDocx(blocks, { title }) : buildTextPdf(blocks, { title });
+  const baseName = name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'resume';
+  return {
+    buffer,
+    fileName: `${baseName}-${template}-resume.${format}`,
+    mimeType: MIME_TYPES[format]
+  };
+};
+
+module.exports = {
+  RESUME_TEMPLATES,
+  RESUME_FORMATS,
+  validateResumeProfile,
+  buildResumeBlocks,
+  renderResume
+};
@@ -0,0 +1,117 @@
+const fs = require('fs');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+
+/**
+ * Resume Library Service
+ * Stores the resumes and cover letters in a job seeker's document library, and
+ * takes the copies attached to applications. Applications get their own copy of
+ * the file so deleting or replacing a library document never changes what an
+ * employer already received.
+ */
+
+const uploadsDir = path.join(__dirname, '../uploads');
+const libraryDir = path.join(uploadsDir, 'resumes', 'library');
+const applicationsDir = path.join(uploadsDir, 'applications');
+
+const DOCUMENT_KINDS = ['resume', 'cover_letter'];
+const MAX_DOCUMENTS = 20;
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword'
+];
+
+[libraryDir, applicationsDir].forEach(dir => {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+});
+
+// Keep the original name readable in the stored file name, minus anything unsafe for a path or URL
+const safeFileName = (originalName) => {
+  const extension = path.extname(originalName || '').toLowerCase().replace(/[^.a-z0-9]/g, '');
+  const base = path.basename(originalName || 'document', path.extname(originalName || ''))
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'document';
+  return `${uuidv4()}-${base}${extension}`;
+};
+
+const urlToPath = (url) => path.join(uploadsDir, url.replace(/^\/uploads\//, ''));
+
+/**
+ * Check a library document's name and kind
+ * @param {Object} fields - { name, kind }
+ * @returns {String|null} - Error message, or null if valid
+ */
+const validateDocumentFields = ({ name, kind }) => {
+  if (kind !== undefined && !DOCUMENT_KINDS.includes(kind)) {
+    return `Invalid document type. Must be one of: ${DOCUMENT_KINDS.join(', ')}`;
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return 'Document name is required';
+  }
+  if (name && name.length > 100) return 'Document name cannot exceed 100 characters';
+  return null;
+};
+
+/**
+ * Write an uploaded file (multer memory storage) into the library folder
+ * @param {Object} file - Multer file with buffer, originalname, mimetype, size
+ * @returns {Promise<Object>} - { fileName, url, originalName, mimeType, size }
+ */
+const storeLibraryFile = async (file) => {
+  const fileName = safeFileName(file.originalname);
+  await fs.promises.writeFile(path.join(libraryDir, fileName), file.buffer);
+  return {
+    fileName,
+    url: `/uploads/resumes/library/${fileName}`,
+    originalName: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size
+  };
+};
+
+/**
+ * Delete a stored file; a file that's already gone is not an error
+ * @param {String} url - The file's /uploads URL
+ */
+const removeStoredFile = async (url) => {
+  try {
+    await fs.promises.unlink(urlToPath(url));
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error(`[Resume Library] Failed to delete ${url}:`, error.message);
+    }
+  }
+};
+
+/**
+ * Copy a library document for an application
+ * @param {Object} document - Resume document from the library
+ * @returns {Promise<Object>} - Snapshot to store on the application
+ */
+const snapshotForApplication = async (document) => {
+  const fileName = safeFileName(document.originalName || document.fileName);
+  await fs.promises.copyFile(urlToPath(document.url), path.join(applicationsDir, fileName));
+  return {
+    sourceId: document._id,
+    name: document.name,
+    originalName: document.originalName,
+    mimeType: document.mimeType,
+    size: document.size,
+    url: `/uploads/applications/${fileName}`,
+    attachedAt: new Date()
+  };
+};
+
+module.exports = {
+  DOCUMENT_KINDS,
+  MAX_DOCUMENTS,
+  ALLOWED_TYPES,
+  validateDocumentFields,
+  storeLibraryFile,
+  removeStoredFile,
+  snapshotForApplication
+};
@@ -0,0 +1,122 @@
+/**
+ * Screening Question Service
+ * Validates the screening questions an employer attaches to a job and scores an
+ * applicant's answers against them. Knockout questions flag the application
+ * rather than rejecting it, so the employer always has the final say.
+ */
+
+const QUESTION_TYPES = ['yes_no', 'single_choice', 'numeric', 'short_text'];
+const MAX_QUESTIONS = 10;
+const MAX_ANSWER_LENGTH = 500;
+
+/**
+ * Check employer-supplied screening questions before saving a job
+ * @param {Array<Object>} questions - Screening questions from the request body
+ * @returns {String|null} - Error message, or null if the questions are valid
+ */
+const validateScreeningQuestions = (questions) => {
+  if (questions === undefined || questions === null) return null;
+  if (!Array.isArray(questions)) return 'Screening questions must be a list';
+  if (questions.length > MAX_QUESTIONS) return `A job can have at most ${MAX_QUESTIONS} screening questions`;
+
+  for (let index = 0; index < questions.length; index++) {
+    const question = questions[index] || {};
+    const label = `Screening question ${index + 1}`;
+
+    if (!question.question || !String(question.question).trim()) return `${label} needs question text`;
+    if (!QUESTION_TYPES.includes(question.type)) {
+      return `${label} has an invalid type. Must be one of: ${QUESTION_TYPES.join(', ')}`;
+    }
+
+    const options = (question.options || []).map(option => String(option).trim()).filter(Boolean);
+    if (question.type === 'single_choice' && options.length < 2) {
+      return `${label} needs at least two options`;
+    }
+
+    if (!question.knockout) continue;
+
+    if (question.type === 'short_text') return `${label}: free-text questions can't be knockout questions`;
+    if (question.type === 'numeric') {
+      if (question.minValue === undefined || question.minValue === null || isNaN(Number(question.minValue))) {
+        return `${label} needs a minimum value to be a knockout question`;
+      }
+    } else {
+      const accepted = question.acceptedAnswers || [];
+      if (accepted.length === 0) return `${label} needs at least one accepted answer to be a knockout question`;
+      const allowed = question.type === 'yes_no' ? ['yes', 'no'] : options;
+      if (accepted.some(answer => !allowed.includes(answer))) {
+        return `${label} has an accepted answer that isn't one of its options`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Score an applicant's answers against a job's screening questions
+ * @param {Array<Object>} questions - The job's screening questions
+ * @param {Object} answers - Map of question id -> answer (as sent by the apply form)
+ * @returns {Object} - { error, screeningAnswers, failedKnockout } - error is set if a required answer is missing or malformed
+ */
+const evaluateScreeningAnswers = (questions, answers) => {
+  const given = answers && typeof answers === 'object' ? answers : {};
+  const screeningAnswers = [];
+
+  for (const question of questions || []) {
+    const raw = given[question._id.toString()];
+    const answer = raw === undefined || raw === null ? '' : String(raw).trim().slice(0, MAX_ANSWER_LENGTH);
+
+    if (!answer) {
+      if (question.required) return { error: `Please answer: "${question.question}"` };
+      continue;
+    }
+
+    if (question.type === 'yes_no' && !['yes', 'no'].includes(answer)) {
+      return { error: `Please answer yes or no to: "${question.question}"` };
+    }
+    if (question.type === 'single_choice' && !question.options.includes(answer)) {
+      return { error: `Please pick one of the options for: "${question.question}"` };
+    }
+    if (question.type === 'numeric' && isNaN(Number(answer))) {
+      return { error: `Please enter a number for: "${question.question}"` };
+    }
+
+    const result = {
+      questionId: question._id,
+      question: question.question,
+      type: question.type,
+      answer,
+      knockout: question.knockout
+    };
+    if (question.knockout) {
+      result.passed = question.type === 'numeric'
+        ? Number(answer) >= question.minValue
+        : question.acceptedAnswers.includes(answer);
+    }
+    screeningAnswers.push(result);
+  }
+
+  // An unanswered optional knockout question doesn't count as a fail
+  const failedKnockout = screeningAnswers.some(answer => answer.passed === false);
+  return { error: null, screeningAnswers, failedKnockout };
+};
+
+/**
+ * Remove the knockout criteria from a job's questions so applicants can't tailor their answers
+ * @param {Object} jobObject - Plain job object (from toObject())
+ * @returns {Object} - The same object, with acceptedAnswers/minValue removed
+ */
+const hideKnockoutCriteria = (jobObject) => {
+  if (Array.isArray(jobObject.screeningQuestions)) {
+    jobObject.screeningQuestions = jobObject.screeningQuestions.map(({ acceptedAnswers, minValue, ...question }) => question);
+  }
+  return jobObject;
+};
+
+module.exports = {
+  QUESTION_TYPES,
+  MAX_QUESTIONS,
+  validateScreeningQuestions,
+  evaluateScreeningAnswers,
+  hideKnockoutCriteria
+};
@@ -0,0 +1,130 @@
+/**
+ * SEO Service
+ * Builds schema.org JobPosting JSON-LD for job pages and the public sitemap.xml.
+ * The job pages are client-rendered, so this is what search engines actually read.
+ */
+
+const { escapeHtml } = require('./htmlService');
+
+const FRONTEND_URL = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// Job.type -> schema.org employmentType
+const EMPLOYMENT_TYPES = {
+  'full-time': 'FULL_TIME',
+  'part-time': 'PART_TIME',
+  'contract': 'CONTRACTOR',
+  'internship': 'INTERN'
+};
+
+// Job.salary.period -> schema.org unitText
+const SALARY_UNITS = {
+  year: 'YEAR',
+  month: 'MONTH'
+};
+
+const escapeXml = (text) => escapeHtml(text).replace(/'/g, '&apos;');
+
+// Google expects the description as HTML; ours is plain text with line breaks
+const toHtmlParagraphs = (text) => escapeHtml(text)
+  .split(/\n{2,}/)
+  .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+  .join('');
+
+/**
+ * Build schema.org JobPosting structured data for a job
+ * @param {Object} job - Job document with employer populated (companyName, companyLogo, companyWebsite)
+ * @returns {Object} - JSON-LD object
+ */
+const buildJobPostingJsonLd = (job) => {
+  const employer = job.employer && typeof job.employer === 'object' ? job.employer : {};
+  const employerId = employer._id || job.employer;
+
+  const hiringOrganization = {
+    '@type': 'Organization',
+    name: employer.companyName || job.company,
+    sameAs: employer.companyWebsite || `${FRONTEND_URL}/company/${employerId}`
+  };
+  // Relative logo paths point at our API server, which crawlers can't resolve
+  if (employer.companyLogo && /^https?:\/\//.test(employer.companyLogo)) {
+    hiringOrganization.logo = employer.companyLogo;
+  }
+
+  const jsonLd = {
+    '@context': 'https://schema.org/',
+    '@type': 'JobPosting',
+    title: job.title,
+    description: toHtmlParagraphs(job.description) +
+      (job.requirements ? `<h3>Requirements</h3>${toHtmlParagraphs(job.requirements)}` : ''),
+    identifier: {
+      '@type': 'PropertyValue',
+      name: hiringOrganization.name,
+      value: String(job._id)
+    },
+    url: `${FRONTEND_URL}/jobs/${job._id}`,
+    datePosted: new Date(job.publishedAt || job.createdAt).toISOString(),
+    employmentType: EMPLOYMENT_TYPES[job.type] || 'OTHER',
+    hiringOrganization,
+    jobLocation: {
+      '@type': 'Place',
+      address: {
+        '@type': 'PostalAddress',
+        addressLocality: job.location
+      }
+    }
+  };
+
+  if (job.expiresAt) {
+    jsonLd.validThrough = new Date(job.expiresAt).toISOString();
+  }
+  if (job.workMode === 'remote') {
+    jsonLd.jobLocationType = 'TELECOMMUTE';
+  }
+  if (job.salary && (job.salary.min || job.salary.max)) {
+    jsonLd.baseSalary = {
+      '@type': 'MonetaryAmount',
+      currency: job.salary.currency || 'PKR',
+      value: {
+        '@type': 'QuantitativeValue',
+        minValue: job.salary.min,
+        maxValue: job.salary.max,
+        unitText: SALARY_UNITS[job.salary.period] || 'YEAR'
+      }
+    };
+  }
+  if (job.skills && job.skills.length > 0) {
+    jsonLd.skills = job.skills.join(', ');
+  }
+
+  return jsonLd;
+};
+
+/**
+ * Build a sitemap.xml document
+ * @param {Array<Object>} entries - { path, lastmod, changefreq, priority }
+ * @returns {String} - XML
+ */
+const buildSitemap = (entries) => {
+  const urls = entries.map(entry => {
+    let xml = `  <url>\n    <loc>${escapeXml(FRONTEND_URL + entry.path)}</loc>\n`;
+    if (entry.lastmod) xml += `    <lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>\n`;
+    if (entry.changefreq) xml += `    <changefreq>${entry.changefreq}</changefreq>\n`;
+    if (entry.priority !== undefined) xml += `    <priority>${entry.priority.toFixed(1)}</priority>\n`;
+    return `${xml}  </url>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>'
+  ].join('\n');
+};
+
+module.exports = {
+  FRONTEND_URL,
+  EMPLOYMENT_TYPES,
+  escapeXml,
+  toHtmlParagraphs,
+  buildJobPostingJsonLd,
+  buildSitemap
+};
@@ -0,0 +1,169 @@
+const Job = require('../models/Job');
+const User = require('../models/User');
+const { liveJobFilter } = require('./jobLifecycleService');
+const {
+  normalizeSkillKey,
+  findSkill,
+  canonicalSkillIds,
+  getTaxonomySkills
+} = require('./skillTaxonomyService');
+
+/**
+ * Skill Suggestion Service
+ * Typeahead for skill inputs. Known skills are ranked by how well the typed
+ * text matches their name or an alias, how often open jobs and job seeker
+ * profiles list them, and how often they're listed next to the skills already
+ * chosen ("people with React also list Redux").
+ */
+
+const STATS_TTL_MS = 10 * 60 * 1000;
+// Newest jobs and profiles sampled for the usage statistics
+const STATS_SAMPLE_SIZE = 5000;
+const MAX_LIMIT = 25;
+
+let statsCache = null;
+let statsRefresh = null;
+
+// Count of open jobs plus profiles listing each skill ID, and of each pair of skill IDs
+// listed together, built in one pass over the sampled documents
+const buildUsageStats = async () => {
+  const popularity = new Map();
+  const pairs = new Map();
+  const sources = [
+    [Job, { ...liveJobFilter(), 'skillIds.0': { $exists: true } }],
+    [User, { type: 'jobseeker', 'skillIds.0': { $exists: true } }]
+  ];
+  for (const [Model, match] of sources) {
+    const cursor = Model.find(match).select('skillIds').sort({ _id: -1 }).limit(STATS_SAMPLE_SIZE).lean().cursor();
+    for await (const { skillIds } of cursor) {
+      const ids = [...new Set(skillIds)];
+      ids.forEach(id => {
+        popularity.set(id, (popularity.get(id) || 0) + 1);
+        const counts = pairs.get(id) || new Map();
+        ids.forEach(other => {
+          if (other !== id) counts.set(other, (counts.get(other) || 0) + 1);
+        });
+        pairs.set(id, counts);
+      });
+    }
+  }
+  return { popularity, pairs };
+};
+
+/**
+ * Usage statistics, refreshed in the background every few minutes. Only the first
+ * request after startup waits for them; later ones get the last snapshot.
+ * @returns {Promise<Object>} - { popularity: Map id -> count, pairs: Map id -> Map otherId -> count }
+ */
+const getUsageStats = async () => {
+  if (!statsCache || statsCache.expiresAt <= Date.now()) {
+    if (!statsRefresh) {
+      statsRefresh = buildUsageStats()
+        .then(stats => {
+          statsCache = { ...stats, expiresAt: Date.now() + STATS_TTL_MS };
+        })
+        .catch(error => console.error('[Skill Suggestions] Failed to refresh usage statistics:', error.message))
+        .finally(() => {
+          statsRefresh = null;
+        });
+    }
+    if (!statsCache) await statsRefresh;
+  }
+  return statsCache || { popularity: new Map(), pairs: new Map() };
+};
+
+/**
+ * How often other skills are listed alongside the chosen ones
+ * @param {Map} pairs - Pair counts from getUsageStats
+ * @param {Array<String>} selectedIds - Canonical IDs already chosen
+ * @returns {Map} - skill ID -> { count, withId } (withId: the chosen skill it most often appears with)
+ */
+const getCoOccurrence = (pairs, selectedIds) => {
+  const result = new Map();
+  selectedIds.forEach(chosen => {
+    (pairs.get(chosen) || new Map()).forEach((count, other) => {
+      if (selectedIds.includes(other)) return;
+      const entry = result.get(other) || { count: 0, withId: chosen, withCount: 0 };
+      entry.count += count;
+      if (count > entry.withCount) {
+        entry.withId = chosen;
+        entry.withCount = count;
+      }
+      result.set(other, entry);
+    });
+  });
+  return result;
+};
+
+// 1 for an exact name or alias, lower for prefixes and (3+ letters) substrings; 0 if unrelated
+const textMatchScore = (skill, query) => {
+  if (!query) return 0;
+  const name = normalizeSkillKey(skill.name);
+  const aliases = skill.aliases.map(normalizeSkillKey);
+  if (name === query || aliases.includes(query)) return 1;
+  if (name.startsWith(query)) return 0.8;
+  if (aliases.some(alias => alias.startsWith(query))) return 0.65;
+  if (name.split(/[\s\-/.]+/).some(word => word.startsWith(query))) return 0.5;
+  if (query.length >= 3 && name.includes(query)) return 0.3;
+  return 0;
+};
+
+/**
+ * Rank known skills for a skill input
+ * @param {Object} options - { query, selected: [names], limit }
+ * @returns {Promise<Array>} - [{ id, name, category, reason: 'match'|'popular'|'related', relatedTo, count }]
+ */
+const suggestSkills = async ({ query = '', selected = [], limit = 10 } = {}) => {
+  const text = normalizeSkillKey(query);
+  const selectedIds = canonicalSkillIds(selected);
+  const exclude = new Set(selectedIds);
+  const size = Math.min(Math.max(parseInt(limit, 10) || 10, 1), MAX_LIMIT);
+
+  const { popularity, pairs } = await getUsageStats();
+  const coOccurrence = getCoOccurrence(pairs, selectedIds);
+  const maxPopularity = Math.max(1, ...popularity.values());
+  const nameOf = (id) => (findSkill(id) || { name: id }).name;
+
+  // Taxonomy "related" links count as co-occurrence when there's no usage data yet
+  const relatedVia = new Map();
+  selectedIds.forEach(id => {
+    (findSkill(id) || { related: [] }).related.forEach(relatedId => {
+      if (!relatedVia.has(relatedId)) relatedVia.set(relatedId, id);
+    });
+  });
+
+  const ranked = getTaxonomySkills()
+    .filter(skill => !exclude.has(skill.id))
+    .map(skill => {
+      const match = textMatchScore(skill, text);
+      const popular = Math.log1p(popularity.get(skill.id) || 0) / Math.log1p(maxPopularity);
+      const together = coOccurrence.get(skill.id);
+      const withId = together ? together.withId : relatedVia.get(skill.id);
+      const togetherScore = withId ? 1 + (together ? Math.log1p(together.count) : 0) : 0;
+      return {
+        skill,
+        match,
+        // Typed text decides first; among matches, skills listed alongside the chosen ones rank higher
+        score: text ? match * 3 + togetherScore * 0.5 + popular : togetherScore + popular,
+        reason: text ? 'match' : (withId ? 'related' : 'popular'),
+        relatedTo: withId ? nameOf(withId) : undefined,
+        count: together ? together.count : popularity.get(skill.id) || 0
+      };
+    })
+    .filter(entry => (text ? entry.match > 0 : selectedIds.length === 0 || entry.reason === 'related'))
+    .sort((a, b) => b.score - a.score || a.skill.name.localeCompare(b.skill.name))
+    .slice(0, size);
+
+  return ranked.map(({ skill, reason, relatedTo, count }) => ({
+    id: skill.id,
+    name: skill.name,
+    category: skill.category,
+    reason,
+    relatedTo,
+    count
+  }));
+};
+
+module.exports = {
+  suggestSkills
+};
@@ -0,0 +1,352 @@
+const Skill = require('../models/Skill');
+
+/**
+ * Skill Taxonomy Service
+ * One canonical name and ID per skill, with the aliases that mean the same
+ * thing ("JS", "ECMAScript" -> JavaScript), a parent category and related
+ * skills. Profiles and jobs are normalized against it when saved and store the
+ * canonical IDs (skillIds), which every skill matcher compares.
+ *
+ * Lookups are synchronous against an in-memory index so they can run in
+ * schema setters. The index starts from the built-in defaults and is reloaded
+ * from the Skill collection at startup and after every admin edit.
+ */
+
+const DEFAULT_SKILLS = [
+  { name: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6', 'Vanilla JS'], category: 'Programming Languages', related: ['typescript', 'node-js', 'react'] },
+  { name: 'TypeScript', aliases: ['TS'], category: 'Programming Languages', related: ['javascript', 'angular'] },
+  { name: 'Python', aliases: ['Python3', 'Python 3'], category: 'Programming Languages', related: ['django', 'flask', 'pandas'] },
+  { name: 'Java', aliases: ['Core Java', 'Java SE'], category: 'Programming Languages', related: ['spring', 'kotlin'] },
+  { name: 'C#', aliases: ['CSharp', 'C Sharp'], category: 'Programming Languages', related: ['dotnet', 'asp-net'] },
+  { name: 'C++', aliases: ['CPP', 'Cplusplus'], category: 'Programming Languages', related: [] },
+  { name: 'Go', aliases: ['Golang'], category: 'Programming Languages', related: ['docker', 'kubernetes'] },
+  { name: 'Ruby', aliases: [], category: 'Programming Languages', related: ['ruby-on-rails'] },
+  { name: 'PHP', aliases: [], category: 'Programming Languages', related: ['laravel', 'mysql'] },
+  { name: 'Swift', aliases: [], category: 'Programming Languages', related: ['ios'] },
+  { name: 'Kotlin', aliases: [], category: 'Programming Languages', related: ['android', 'java'] },
+  { name: 'Rust', aliases: [], category: 'Programming Languages', related: [] },
+  { name: 'Dart', aliases: [], category: 'Programming Languages', related: ['flutter'] },
+  { name: 'SQL', aliases: ['Structured Query Language'], category: 'Databases', related: ['mysql', 'postgresql'] },
+  { name: 'HTML', aliases: ['HTML5'], category: 'Frontend', related: ['css', 'javascript'] },
+  { name: 'CSS', aliases: ['CSS3'], category: 'Frontend', related: ['html', 'sass', 'tailwind-css'] },
+  { name: 'SASS', aliases: ['SCSS'], category: 'Frontend', related: ['css'] },
+  { name: 'React', aliases: ['React.js', 'ReactJS', 'React JS'], category: 'Frontend', related: ['javascript', 'redux', 'next-js'] },
+  { name: 'React Native', aliases: ['RN'], category: 'Mobile', related: ['react', 'javascript'] },
+  { name: 'Angular', aliases: ['AngularJS', 'Angular.js', 'Angular 2+'], category: 'Frontend', related: ['typescript'] },
+  { name: 'Vue', aliases: ['Vue.js', 'VueJS', 'Vue JS'], category: 'Frontend', related: ['javascript'] },
+  { name: 'Next.js', aliases: ['NextJS', 'Next JS'], category: 'Frontend', related: ['react'] },
+  { name: 'Redux', aliases: ['Redux Toolkit', 'RTK'], category: 'Frontend', related: ['react'] },
+  { name: 'Tailwind CSS', aliases: ['Tailwind', 'TailwindCSS'], category: 'Frontend', related: ['css'] },
+  { name: 'Bootstrap', aliases: [], category: 'Frontend', related: ['css'] },
+  { name: 'Material UI', aliases: ['MUI', 'Material-UI'], category: 'Frontend', related: ['react'] },
+  { name: 'jQuery', aliases: [], category: 'Frontend', related: ['javascript'] },
+  { name: 'Node.js', aliases: ['Node', 'NodeJS', 'Node JS'], category: 'Backend', related: ['javascript', 'express'] },
+  { name: 'Express', aliases: ['Express.js', 'ExpressJS'], category: 'Backend', related: ['node-js'] },
+  { name: 'NestJS', aliases: ['Nest.js', 'Nest'], category: 'Backend', related: ['node-js', 'typescript'] },
+  { name: 'Django', aliases: [], category: 'Backend', related: ['python'] },
+  { name: 'Flask', aliases: [], category: 'Backend', related: ['python'] },
+  { name: 'FastAPI', aliases: [], category: 'Backend', related: ['python'] },
+  { name: 'Spring', aliases: ['Spring Boot', 'Spring Framework'], category: 'Backend', related: ['java'] },
+  { name: '.NET', aliases: ['dotnet', '.NET Core', 'dotnet core'], category: 'Backend', related: ['csharp', 'asp-net'] },
+  { name: 'ASP.NET', aliases: ['ASP.NET Core', 'ASP.NET MVC'], category: 'Backend', related: ['csharp', 'dotnet'] },
+  { name: 'Laravel', aliases: [], category: 'Backend', related: ['php'] },
+  { name: 'Ruby on Rails', aliases: ['Rails', 'RoR'], category: 'Backend', related: ['ruby'] },
+  { name: 'GraphQL', aliases: [], category: 'Backend', related: ['rest-api'] },
+  { name: 'REST API', aliases: ['REST', 'RESTful API', 'RESTful APIs', 'REST APIs'], category: 'Backend', related: ['graphql'] },
+  { name: 'Microservices', aliases: ['Microservice Architecture'], category: 'Backend', related: ['docker', 'kubernetes'] },
+  { name: 'MongoDB', aliases: ['Mongo'], category: 'Databases', related: ['node-js', 'mongoose'] },
+  { name: 'Mongoose', aliases: [], category: 'Databases', related: ['mongodb', 'node-js'] },
+  { name: 'PostgreSQL', aliases: ['Postgres', 'PSQL'], category: 'Databases', related: ['sql'] },
+  { name: 'MySQL', aliases: [], category: 'Databases', related: ['sql'] },
+  { name: 'Redis', aliases: [], category: 'Databases', related: [] },
+  { name: 'Elasticsearch', aliases: ['Elastic Search', 'ELK'], category: 'Databases', related: [] },
+  { name: 'Firebase', aliases: ['Firestore'], category: 'Databases', related: [] },
+  { name: 'AWS', aliases: ['Amazon Web Services'], category: 'Cloud & DevOps', related: ['docker'] },
+  { name: 'Azure', aliases: ['Microsoft Azure'], category: 'Cloud & DevOps', related: [] },
+  { name: 'Google Cloud', aliases: ['GCP', 'Google Cloud Platform'], category: 'Cloud & DevOps', related: [] },
+  { name: 'Docker', aliases: [], category: 'Cloud & DevOps', related: ['kubernetes', 'containers'] },
+  { name: 'Containers', aliases: ['Containerization'], category: 'Cloud & DevOps', related: ['docker', 'kubernetes'] },
+  { name: 'Kubernetes', aliases: ['K8s'], category: 'Cloud & DevOps', related: ['docker'] },
+  { name: 'Terraform', aliases: [], category: 'Cloud & DevOps', related: ['aws'] },
+  { name: 'CI/CD', aliases: ['CICD', 'Continuous Integration', 'Continuous Delivery'], category: 'Cloud & DevOps', related: ['jenkins', 'github-actions'] },
+  { name: 'Jenkins', aliases: [], category: 'Cloud & DevOps', related: ['ci-cd'] },
+  { name: 'GitHub Actions', aliases: [], category: 'Cloud & DevOps', related: ['ci-cd'] },
+  { name: 'Linux', aliases: [], category: 'Cloud & DevOps', related: ['unix'] },
+  { name: 'Unix', aliases: [], category: 'Cloud & DevOps', related: ['linux'] },
+  { name: 'Git', aliases: ['Version Control'], category: 'Tools', related: ['github', 'gitlab'] },
+  { name: 'GitHub', aliases: [], category: 'Tools', related: ['git', 'github-actions'] },
+  { name: 'GitLab', aliases: [], category: 'Tools', related: ['git', 'ci-cd'] },
+  { name: 'Jira', aliases: [], category: 'Tools', related: ['agile'] },
+  { name: 'Machine Learning', aliases: ['ML'], category: 'Data & AI', related: ['python', 'tensorflow', 'scikit-learn'] },
+  { name: 'Deep Learning', aliases: ['DL', 'Neural Networks'], category: 'Data & AI', related: ['tensorflow', 'pytorch'] },
+  { name: 'Artificial Intelligence', aliases: ['AI'], category: 'Data & AI', related: ['machine-learning'] },
+  { name: 'NLP', aliases: ['Natural Language Processing'], category: 'Data & AI', related: ['machine-learning'] },
+  { name: 'TensorFlow', aliases: [], category: 'Data & AI', related: ['machine-learning'] },
+  { name: 'PyTorch', aliases: [], category: 'Data & AI', related: ['machine-learning'] },
+  { name: 'Scikit-learn', aliases: ['sklearn'], category: 'Data & AI', related: ['python'] },
+  { name: 'Pandas', aliases: [], category: 'Data & AI', related: ['python'] },
+  { name: 'NumPy', aliases: [], category: 'Data & AI', related: ['python'] },
+  { name: 'Data Analysis', aliases: ['Data Analytics'], category: 'Data & AI', related: ['sql', 'excel'] },
+  { name: 'Power BI', aliases: ['PowerBI'], category: 'Data & AI', related: [] },
+  { name: 'Tableau', aliases: [], category: 'Data & AI', related: [] },
+  { name: 'Excel', aliases: ['MS Excel', 'Microsoft Excel'], category: 'Tools', related: [] },
+  { name: 'Jest', aliases: [], category: 'Testing', related: ['javascript'] },
+  { name: 'Cypress', aliases: [], category: 'Testing', related: [] },
+  { name: 'Selenium', aliases: [], category: 'Testing', related: [] },
+  { name: 'Figma', aliases: [], category: 'Design', related: [] },
+  { name: 'Photoshop', aliases: ['Adobe Photoshop'], category: 'Design', related: [] },
+  { name: 'Illustrator', aliases: ['Adobe Illustrator'], category: 'Design', related: [] },
+  { name: 'SEO', aliases: ['Search Engine Optimization'], category: 'Marketing', related: [] },
+  { name: 'Flutter', aliases: [], category: 'Mobile', related: ['dart'] },
+  { name: 'Android', aliases: ['Android Development'], category: 'Mobile', related: ['kotlin', 'java'] },
+  { name: 'iOS', aliases: ['iOS Development'], category: 'Mobile', related: ['swift'] },
+  { name: 'Agile', aliases: ['Agile Methodologies'], category: 'Methodologies', related: ['scrum', 'kanban'] },
+  { name: 'Scrum', aliases: [], category: 'Methodologies', related: ['agile'] },
+  { name: 'Kanban', aliases: [], category: 'Methodologies', related: ['agile'] },
+  { name: 'Project Management', aliases: ['PM'], category: 'Soft Skills', related: ['agile'] },
+  { name: 'Communication', aliases: ['Communication Skills'], category: 'Soft Skills', related: [] },
+  { name: 'Teamwork', aliases: ['Team Player', 'Collaboration'], category: 'Soft Skills', related: [] },
+  { name: 'Leadership', aliases: ['Team Leadership'], category: 'Soft Skills', related: [] },
+  { name: 'Problem Solving', aliases: ['Problem-solving'], category: 'Soft Skills', related: [] },
+  { name: 'Time Management', aliases: [], category: 'Soft Skills', related: [] },
+  { name: 'Customer Service', aliases: ['Customer Support'], category: 'Soft Skills', related: [] }
+];
+
+/**
+ * Lookup key for a skill name or alias: lowercase with single spaces
+ * @param {String} value
+ * @returns {String}
+ */
+const normalizeSkillKey = (value) => String(value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Canonical ID for a skill name: "C++" -> "cplusplus", "Node.js" -> "node-js", ".NET" -> "dotnet"
+ * @param {String} value
+ * @returns {String}
+ */
+const slugifySkill = (value) => normalizeSkillKey(value)
+  .replace(/^\./, 'dot')
+  .replace(/\+/g, 'plus')
+  .replace(/#/g, 'sharp')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+let skills = [];
+let index = new Map();
+
+// Index every name, alias and slug to its skill entry
+const buildIndex = (entries) => {
+  skills = entries.map(entry => ({
+    id: entry.slug || slugifySkill(entry.name),
+    name: entry.name,
+    aliases: entry.aliases || [],
+    category: entry.category || 'Other',
+    related: entry.related || []
+  }));
+  index = new Map();
+  skills.forEach(skill => {
+    [skill.name, ...skill.aliases].forEach(value => {
+      const key = normalizeSkillKey(value);
+      if (key && !index.has(key)) index.set(key, skill);
+    });
+    if (!index.has(skill.id)) index.set(skill.id, skill);
+  });
+};
+
+buildIndex(DEFAULT_SKILLS);
+
+/**
+ * The taxonomy entry for a skill name or alias, if it has one
+ * @param {String} value
+ * @returns {Object|null} - { id, name, aliases, category, related }
+ */
+const findSkill = (value) => index.get(normalizeSkillKey(value)) || index.get(slugifySkill(value)) || null;
+
+/**
+ * Canonical ID for any skill; skills outside the taxonomy get an ID from their own name
+ * @param {String} value
+ * @returns {String}
+ */
+const canonicalSkillId = (value) => {
+  const skill = findSkill(value);
+  return skill ? skill.id : slugifySkill(value);
+};
+
+const toSkillList = (values) => {
+  if (!values) return [];
+  return (Array.isArray(values) ? values : String(values).split(','))
+    .map(value => String(value).trim())
+    .filter(Boolean);
+};
+
+/**
+ * Canonical names for a list of skills (array or comma-separated string), one per canonical ID
+ * @param {Array|String} values
+ * @returns {Array<String>}
+ */
+const canonicalizeSkills = (values) => {
+  const seen = new Set();
+  return toSkillList(values).reduce((result, value) => {
+    const skill = findSkill(value);
+    const id = skill ? skill.id : slugifySkill(value);
+    if (id && !seen.has(id)) {
+      seen.add(id);
+      result.push(skill ? skill.name : value);
+    }
+    return result;
+  }, []);
+};
+
+/**
+ * Canonical IDs for a list of skills, without duplicates
+ * @param {Array|String} values
+ * @returns {Array<String>}
+ */
+const canonicalSkillIds = (values) => [...new Set(toSkillList(values).map(canonicalSkillId).filter(Boolean))];
+
+/**
+ * All taxonomy entries currently loaded
+ * @returns {Array<Object>} - [{ id, name, aliases, category, related }]
+ */
+const getTaxonomySkills = () => skills;
+
+/**
+ * Mongoose plugin for schemas with a `skills` list (set through canonicalizeSkills):
+ * keeps their IDs in `skillIds` on save and on findOneAndUpdate/updateOne
+ * @param {mongoose.Schema} schema
+ */
+const skillIdsPlugin = (schema) => {
+  schema.add({ skillIds: { type: [String], default: [], index: true } });
+
+  schema.pre('save', function(next) {
+    if (this.isNew || this.isModified('skills')) {
+      this.skillIds = canonicalSkillIds(this.skills);
+    }
+    next();
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], function(next) {
+    const update = this.getUpdate() || {};
+    const skillsUpdate = update.$set && update.$set.skills !== undefined ? update.$set.skills : update.skills;
+    if (skillsUpdate !== undefined) {
+      this.set('skillIds', canonicalSkillIds(skillsUpdate));
+    }
+    next();
+  });
+};
+
+/**
+ * Check a taxonomy entry before saving it
+ * @param {Object} fields - { name, aliases, category, related }
+ * @param {String} excludeSlug - Slug of the entry being edited
+ * @returns {String|null} - Error message, or null if valid
+ */
+const validateSkillEntry = ({ name, aliases = [] }, excludeSlug) => {
+  if (typeof name !== 'string' || !name.trim()) return 'Skill name is required';
+  if (!slugifySkill(name)) return 'Skill name needs at least one letter or number';
+  if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string')) return 'Aliases must be a list of names';
+  const taken = [name, ...aliases]
+    .map(value => ({ value, skill: findSkill(value) }))
+    .find(({ skill }) => skill && skill.id !== excludeSlug);
+  return taken ? `"${taken.value}" already belongs to ${taken.skill.name}` : null;
+};
+
+/**
+ * Reload the index from the Skill collection, seeding it with the defaults when it's empty
+ * @returns {Promise<Number>} - Number of skills loaded
+ */
+const refreshTaxonomy = async () => {
+  if (await Skill.estimatedDocumentCount() === 0) {
+    await Skill.insertMany(DEFAULT_SKILLS.map(skill => ({ ...skill, slug: slugifySkill(skill.name) })));
+    console.log(`[Skill Taxonomy] Seeded ${DEFAULT_SKILLS.length} default skills`);
+  }
+  buildIndex(await Skill.find().lean());
+  return skills.length;
+};
+
+/**
+ * Re-normalize the skills of jobs and profiles against the current taxonomy
+ * @param {Object} options - { missingOnly } to only touch documents saved before skillIds existed
+ * @returns {Promise<Object>} - { jobs, users } counts of updated documents
+ */
+const reindexSkillReferences = async ({ missingOnly = false } = {}) => {
+  // Required here: the models use this service's plugin
+  const Job = require('../models/Job');
+  const User = require('../models/User');
+  const counts = {};
+
+  for (const [label, Model] of [['jobs', Job], ['users', User]]) {
+    const filter = { 'skills.0': { $exists: true } };
+    if (missingOnly) filter.skillIds = { $exists: false };
+    const operations = [];
+    for await (const doc of Model.find(filter).select('skills skillIds').lean().cursor()) {
+      const names = canonicalizeSkills(doc.skills);
+      const ids = canonicalSkillIds(names);
+      if (names.join('\n') !== doc.skills.join('\n') || ids.join('\n') !== (doc.skillIds || []).join('\n')) {
+        operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { skills: names, skillIds: ids } } } });
+      }
+    }
+    if (operations.length) {
+      // Raw collection write: the values are already normalized
+      await Model.collection.bulkWrite(operations);
+    }
+    counts[label] = operations.length;
+  }
+
+  console.log(`[Skill Taxonomy] Reindexed ${counts.jobs} jobs and ${counts.users} profiles`);
+  return counts;
+};
+
+// Background reindex after taxonomy edits; edits made while one runs trigger a single follow-up run
+let reindexRunning = null;
+let reindexPending = false;
+
+/**
+ * Reindex every job and profile in the background, so stored skillIds follow the
+ * taxonomy after a skill is added, edited or removed
+ */
+const queueSkillReindex = () => {
+  if (reindexRunning) {
+    reindexPending = true;
+    return;
+  }
+  reindexRunning = reindexSkillReferences()
+    .catch(error => console.error('[Skill Taxonomy] Background reindex failed:', error.message))
+    .finally(() => {
+      reindexRunning = null;
+      if (reindexPending) {
+        reindexPending = false;
+        queueSkillReindex();
+      }
+    });
+};
+
+/**
+ * Load the taxonomy at startup and give older jobs and profiles their skillIds
+ */
+const initializeTaxonomy = async () => {
+  try {
+    const count = await refreshTaxonomy();
+    console.log(`[Skill Taxonomy] Loaded ${count} skills`);
+    await reindexSkillReferences({ missingOnly: true });
+  } catch (error) {
+    console.error('[Skill Taxonomy] Failed to load the taxonomy, using the built-in defaults:', error.message);
+  }
+};
+
+module.exports = {
+  DEFAULT_SKILLS,
+  normalizeSkillKey,
+  slugifySkill,
+  findSkill,
+  canonicalSkillId,
+  canonicalSkillIds,
+  canonicalizeSkills,
+  getTaxonomySkills,
+  skillIdsPlugin,
+  validateSkillEntry,
+  refreshTaxonomy,
+  reindexSkillReferences,
+  queueSkillReindex,
+  initializeTaxonomy
+};
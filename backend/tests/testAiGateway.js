@@ -0,0 +1,201 @@
+const assert = require('assert');
+
+// Every feature goes to the stub provider and no real provider has credentials,
+// so nothing here calls out to a model
+process.env.AI_PROVIDER = 'stub';
+process.env.AI_MAX_RETRIES = '2';
+delete process.env.GROQ_API_KEY;
+delete process.env.GEMINI_API_KEY;
+delete process.env.AI_OPENAI_BASE_URL;
+
+const AiUsage = require('../models/AiUsage');
+const { providers, AIProviderError } = require('../services/aiProviders');
+const {
+  AIGatewayError,
+  isEnabled,
+  generateJson,
+  generateText,
+  queueStubResponses,
+  clearStubResponses
+} = require('../services/aiGateway');
+
+/**
+ * Test script for the AI gateway, run against the stub provider
+ *
+ * Usage:
+ *   node tests/testAiGateway.js
+ *
+ * Covers schema-valid answers, invalid JSON, schema mismatches, retries of transient
+ * failures, permanent failures, provider fallback and the usage recorded per call.
+ * No database is needed: usage writes are captured instead of saved.
+ */
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    summary: { type: 'string' }
+  },
+  required: ['score', 'summary']
+};
+
+// Capture what the gateway would add to the AiUsage totals
+const recorded = [];
+AiUsage.db = { readyState: 1 };
+AiUsage.updateOne = async (filter, update) => {
+  recorded.push({ ...filter, ...update.$inc });
+};
+
+const transientError = () => new AIProviderError('stub request failed (503): overloaded', { provider: 'stub', status: 503, retryable: true });
+
+// Await a call that should fail and return the error it failed with
+const expectFailure = async (call) => {
+  try {
+    await call();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the call to fail');
+};
+
+const tests = {
+  'returns the parsed answer when it matches the schema': async () => {
+    queueStubResponses('screening', { score: 72, summary: 'Strong match' });
+    const result = await generateJson('screening', { prompt: 'Screen this candidate', schema: SCHEMA });
+    assert.deepStrictEqual(result.data, { score: 72, summary: 'Strong match' });
+    assert.strictEqual(result.provider, 'stub');
+    assert.ok(result.usage.inputTokens > 0 && result.usage.outputTokens > 0);
+  },
+
+  'answers with a schema-valid sample when nothing is queued': async () => {
+    const result = await generateJson('screening', { prompt: 'Screen this candidate', schema: SCHEMA });
+    assert.deepStrictEqual(result.data, { score: 0, summary: '' });
+    const text = await generateText('resumeFeedback', { prompt: 'Review this resume' });
+    assert.strictEqual(text.text, '[stub] resumeFeedback response');
+  },
+
+  'accepts JSON wrapped in a code fence': async () => {
+    queueStubResponses('screening', 'Here you go:\n```json\n{"score": 10, "summary": "Weak"}\n```');
+    const result = await generateJson('screening', { prompt: 'Screen this candidate', schema: SCHEMA });
+    assert.strictEqual(result.data.score, 10);
+  },
+
+  'fails with invalid_response when every answer is not JSON': async () => {
+    queueStubResponses('screening', 'not json', 'still not json', 'nope');
+    const error = await expectFailure(() => generateJson('screening', { prompt: 'Screen', schema: SCHEMA }));
+    assert.ok(error instanceof AIGatewayError);
+    assert.strictEqual(error.code, 'invalid_response');
+    assert.match(error.message, /not valid JSON/);
+  },
+
+  'fails with invalid_response when every answer breaks the schema': async () => {
+    queueStubResponses('screening', { score: 140 }, { score: 140 }, { score: 140 });
+    const error = await expectFailure(() => generateJson('screening', { prompt: 'Screen', schema: SCHEMA }));
+    assert.strictEqual(error.code, 'invalid_response');
+    assert.match(error.message, /response\.summary is required/);
+    assert.match(error.message, /response\.score should be at most 100/);
+  },
+
+  'retries an invalid answer and keeps the valid one': async () => {
+    queueStubResponses('screening', 'not json', { score: 55, summary: 'Second try' });
+    const result = await generateJson('screening', { prompt: 'Screen', schema: SCHEMA });
+    assert.strictEqual(result.data.summary, 'Second try');
+  },
+
+  'retries transient provider failures': async () => {
+    queueStubResponses('screening', transientError(), transientError(), { score: 90, summary: 'Third try' });
+    const result = await generateJson('screening', { prompt: 'Screen', schema: SCHEMA });
+    assert.strictEqual(result.data.score, 90);
+    const usage = recorded[recorded.length - 1];
+    assert.strictEqual(usage.retries, 2);
+    assert.strictEqual(usage.failures, 0);
+  },
+
+  'gives up once the retry budget is spent': async () => {
+    queueStubResponses('screening', transientError(), transientError(), transientError(), { score: 1, summary: 'Too late' });
+    const error = await expectFailure(() => generateJson('screening', { prompt: 'Screen', schema: SCHEMA }));
+    assert.strictEqual(error.code, 'failed');
+    assert.match(error.message, /overloaded/);
+    clearStubResponses();
+  },
+
+  'does not retry permanent provider failures': async () => {
+    const permanent = new AIProviderError('stub request failed (400): bad request', { provider: 'stub', status: 400 });
+    queueStubResponses('screening', permanent, { score: 1, summary: 'Never reached' });
+    const error = await expectFailure(() => generateJson('screening', { prompt: 'Screen', schema: SCHEMA }));
+    assert.strictEqual(error.code, 'failed');
+    assert.strictEqual(recorded[recorded.length - 1].retries, 0);
+    clearStubResponses();
+  },
+
+  'passes the configured timeout to the provider': async () => {
+    process.env.AI_TIMEOUT_MS = '1234';
+    try {
+      let timeoutMs;
+      queueStubResponses('screening', (request) => {
+        timeoutMs = request.timeoutMs;
+        return { score: 5, summary: 'Fast' };
+      });
+      await generateJson('screening', { prompt: 'Screen', schema: SCHEMA });
+      assert.strictEqual(timeoutMs, 1234);
+    } finally {
+      delete process.env.AI_TIMEOUT_MS;
+    }
+  },
+
+  'falls back to another configured provider and reports none when there is none': async () => {
+    process.env.AI_PROVIDER = 'groq';
+    const { complete } = providers.gemini;
+    try {
+      assert.strictEqual(isEnabled('screening'), false);
+      const unavailable = await expectFailure(() => generateText('screening', { prompt: 'Screen' }));
+      assert.strictEqual(unavailable.code, 'unavailable');
+
+      process.env.GEMINI_API_KEY = 'test-key';
+      providers.gemini.complete = async () => ({ text: 'from gemini', usage: { inputTokens: 3, outputTokens: 2 } });
+      const result = await generateText('screening', { prompt: 'Screen' });
+      assert.strictEqual(result.provider, 'gemini');
+      assert.strictEqual(result.text, 'from gemini');
+    } finally {
+      process.env.AI_PROVIDER = 'stub';
+      delete process.env.GEMINI_API_KEY;
+      providers.gemini.complete = complete;
+    }
+  },
+
+  'records usage for successful and failed calls': async () => {
+    recorded.length = 0;
+    queueStubResponses('resumeFeedback', 'Looks good');
+    await generateText('resumeFeedback', { prompt: 'Review this resume' });
+    queueStubResponses('resumeFeedback', new AIProviderError('stub request failed (400): bad request', { provider: 'stub', status: 400 }));
+    await expectFailure(() => generateText('resumeFeedback', { prompt: 'Review this resume' }));
+
+    assert.strictEqual(recorded.length, 2);
+    const [ok, failed] = recorded;
+    assert.strictEqual(ok.feature, 'resumeFeedback');
+    assert.strictEqual(ok.provider, 'stub');
+    assert.strictEqual(ok.requests, 1);
+    assert.strictEqual(ok.failures, 0);
+    assert.ok(ok.inputTokens > 0 && ok.outputTokens > 0);
+    assert.strictEqual(failed.failures, 1);
+    assert.strictEqual(failed.outputTokens, 0);
+  }
+};
+
+async function testAiGateway() {
+  let failures = 0;
+  for (const [name, test] of Object.entries(tests)) {
+    clearStubResponses();
+    try {
+      await test();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures += 1;
+      console.error(`not ok - ${name}\n  ${error.message}`);
+    }
+  }
+  console.log(`\n${Object.keys(tests).length - failures} of ${Object.keys(tests).length} gateway checks passed`);
+  process.exit(failures ? 1 : 0);
+}
+
+testAiGateway();
@@ -10,6 +10,7 @@ import RegisterForm from './components/RegisterForm';
 import JobList from './components/JobList';
 import JobDetails from './components/JobDetails';
 import PostJob from './components/PostJob';
+import JobPostForm from './components/JobPostForm';
 import ManageJobs from './components/ManageJobs';
 import EditJob from './components/EditJob';
 import JobApplicationForm from './components/JobApplicationForm';
@@ -37,9 +38,12 @@ import SalaryInsights from './components/SalaryInsights';
 import CompanyProfile from './components/CompanyProfile';
 import EmployerInterviews from './components/EmployerInterviews';
 import JobSeekerInterviews from './components/JobSeekerInterviews';
+import TeamManagement from './components/TeamManagement';
+import AcceptInvitation from './components/AcceptInvitation';
 import MyApplications from './components/MyApplications';
 import AdminRegistration from './components/AdminRegistration';
 import AdminReportManagement from './components/AdminReportManagement';
+import AdminSkillTaxonomy from './components/AdminSkillTaxonomy';
 import AdminDashboard from './components/AdminDashboard';
 
 const theme = createTheme({
@@ -159,6 +163,16 @@ const App: React.FC = () => {
                                 </PrivateRoute>
                             }
                         />
+                        <Route
+                            path="/jobs/:id/duplicate"
+                            element={
+                                <PrivateRoute allowedUserTypes={['employer']}>
+                                    <Layout>
+                                        <JobPostForm />
+                                    </Layout>
+                                </PrivateRoute>
+                            }
+                        />
                         <Route
                             path="/jobs/manage"
                             element={
@@ -276,6 +290,26 @@ const App: React.FC = () => {
                                 </PrivateRoute>
                             }
                         />
+                        <Route
+                            path="/employer/team"
+                            element={
+                                <PrivateRoute allowedUserTypes={['employer']}>
+                                    <Layout>
+                                        <TeamManagement />
+                                    </Layout>
+                                </PrivateRoute>
+                            }
+                        />
+                        <Route
+                            path="/team/join/:token"
+                            element={
+                                <PrivateRoute allowedUserTypes={['employer']}>
+                                    <Layout>
+                                        <AcceptInvitation />
+                                    </Layout>
+                                </PrivateRoute>
+                            }
+                        />
                         
                         {/* Job Seeker Routes */}
                         <Route
@@ -408,6 +442,16 @@ const App: React.FC = () => {
                                 </PrivateRoute>
                             }
                         />
+                        <Route
+                            path="/admin/skills"
+                            element={
+                                <PrivateRoute allowedUserTypes={['admin']}>
+                                    <Layout>
+                                        <AdminSkillTaxonomy />
+                                    </Layout>
+                                </PrivateRoute>
+                            }
+                        />
                         <Route
                             path="/admin/dashboard"
                             element={
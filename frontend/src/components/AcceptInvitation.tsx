@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+    Box,
+    Button,
+    Container,
+    Typography,
+    Paper,
+    Alert,
+    CircularProgress
+} from '@mui/material';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { organizationService } from '../services/api';
+import { InvitationPreview, ORGANIZATION_ROLE_LABELS, ORGANIZATION_ROLE_DESCRIPTIONS } from '../types';
+
+// Landing page for team invitation links
+const AcceptInvitation: React.FC = () => {
+    const { token } = useParams<{ token: string }>();
+    const navigate = useNavigate();
+    const { user, updateUserContext } = useAuth();
+    const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [accepting, setAccepting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!token) return;
+        organizationService.getInvitation(token)
+            .then(setInvitation)
+            .catch((err: any) => setError(err.response?.data?.message || 'Failed to load the invitation'))
+            .finally(() => setLoading(false));
+    }, [token]);
+
+    const handleAccept = async () => {
+        if (!token || !user) return;
+        setAccepting(true);
+        setError('');
+        try {
+            const response = await organizationService.acceptInvitation(token);
+            updateUserContext({ ...user, organization: response.organization?._id, organizationRole: response.role });
+            navigate('/employer/team');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to accept the invitation');
+        } finally {
+            setAccepting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Box display="flex" justifyContent="center" p={4}>
+                <CircularProgress />
+            </Box>
+        );
+    }
+
+    const wrongAccount = Boolean(invitation && user && user.email.toLowerCase() !== invitation.email);
+
+    return (
+        <Container maxWidth="sm" sx={{ mt: 4, mb: 4 }}>
+            <Paper sx={{ p: 4 }}>
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                )}
+
+                {invitation && (
+                    <>
+                        <Typography variant="h5" gutterBottom>
+                            Join {invitation.organizationName}
+                        </Typography>
+                        <Typography variant="body1" paragraph>
+                            You've been invited as a <strong>{ORGANIZATION_ROLE_LABELS[invitation.role]}</strong>.{' '}
+                            {ORGANIZATION_ROLE_DESCRIPTIONS[invitation.role]}.
+                        </Typography>
+
+                        {invitation.expired ? (
+                            <Alert severity="warning">
+                                This invitation expired on {format(new Date(invitation.expiresAt), 'MMM d, yyyy')}. Ask the team owner to send a new one.
+                            </Alert>
+                        ) : wrongAccount ? (
+                            <Alert severity="warning">
+                                This invitation was sent to {invitation.email}. Log in with that account to accept it.
+                            </Alert>
+                        ) : user?.organization ? (
+                            <Alert severity="info">
+                                You are already part of a team. Leave it before joining another.
+                            </Alert>
+                        ) : (
+                            <Box display="flex" gap={2} mt={2}>
+                                <Button variant="contained" onClick={handleAccept} disabled={accepting}>
+                                    {accepting ? 'Joining...' : 'Accept Invitation'}
+                                </Button>
+                                <Button onClick={() => navigate('/')}>Not Now</Button>
+                            </Box>
+                        )}
+                    </>
+                )}
+            </Paper>
+        </Container>
+    );
+};
+
+export default AcceptInvitation;
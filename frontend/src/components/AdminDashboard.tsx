@@ -14,6 +14,7 @@ import {
 import ReportIcon from '@mui/icons-material/Report';
 import PeopleIcon from '@mui/icons-material/People';
 import WorkIcon from '@mui/icons-material/Work';
+import CategoryIcon from '@mui/icons-material/Category';
 import { useAuth } from '../context/AuthContext';
 import { reportService } from '../services/api';
 
@@ -199,6 +200,18 @@ const AdminDashboard: React.FC = () => {
                 Report Management
               </Button>
             </Box>
+            <Box sx={{ flex: 1 }}>
+              <Button 
+                variant="contained" 
+                color="secondary" 
+                fullWidth 
+                size="large"
+                startIcon={<CategoryIcon />}
+                onClick={() => navigate('/admin/skills')}
+              >
+                Skills Taxonomy
+              </Button>
+            </Box>
             <Box sx={{ flex: 1 }}>
               <Button 
                 variant="outlined" 
@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Autocomplete,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SyncIcon from '@mui/icons-material/Sync';
+import { skillTaxonomyService } from '../services/api';
+import { SkillTaxonomyEntry, SkillTaxonomyFormData } from '../types';
+
+const EMPTY_FORM: SkillTaxonomyFormData = {
+  name: '',
+  aliases: [],
+  category: '',
+  related: []
+};
+
+// Admin page for the canonical skill list that jobs and profiles are normalized against
+const AdminSkillTaxonomy: React.FC = () => {
+  const [skills, setSkills] = useState<SkillTaxonomyEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SkillTaxonomyEntry | null>(null);
+  const [form, setForm] = useState<SkillTaxonomyFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [reindexing, setReindexing] = useState(false);
+
+  const fetchSkills = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSkills(await skillTaxonomyService.getSkills());
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load the skills taxonomy');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSkills();
+  }, [fetchSkills]);
+
+  const skillsBySlug = useMemo(
+    () => new Map(skills.map(skill => [skill.slug, skill])),
+    [skills]
+  );
+  const categories = useMemo(
+    () => Array.from(new Set(skills.map(skill => skill.category))).sort(),
+    [skills]
+  );
+
+  const filteredSkills = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return skills;
+    return skills.filter(skill =>
+      [skill.name, skill.category, ...skill.aliases].some(value => value.toLowerCase().includes(term))
+    );
+  }, [skills, search]);
+
+  const openDialog = (skill: SkillTaxonomyEntry | null) => {
+    setEditing(skill);
+    setForm(skill
+      ? { name: skill.name, aliases: skill.aliases, category: skill.category, related: skill.related }
+      : EMPTY_FORM);
+    setFormError('');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setFormError('Skill name is required');
+      return;
+    }
+    setSaving(true);
+    setFormError('');
+    try {
+      if (editing) {
+        await skillTaxonomyService.updateSkill(editing._id, form);
+        setSuccess(`Updated ${form.name}. Existing jobs and profiles are being updated in the background.`);
+      } else {
+        await skillTaxonomyService.createSkill(form);
+        setSuccess(`Added ${form.name}. Existing jobs and profiles are being updated in the background.`);
+      }
+      setDialogOpen(false);
+      fetchSkills();
+    } catch (err: any) {
+      setFormError(err.response?.data?.message || 'Failed to save the skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (skill: SkillTaxonomyEntry) => {
+    if (!window.confirm(`Remove "${skill.name}" from the taxonomy? Jobs and profiles keep it as a plain skill.`)) return;
+    try {
+      await skillTaxonomyService.deleteSkill(skill._id);
+      setSuccess(`Removed ${skill.name}`);
+      fetchSkills();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to remove the skill');
+    }
+  };
+
+  const handleReindex = async () => {
+    setReindexing(true);
+    setError('');
+    try {
+      const result = await skillTaxonomyService.reindex();
+      setSuccess(result.message);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to reindex skills');
+    } finally {
+      setReindexing(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+        <Box>
+          <Typography variant="h4">Skills Taxonomy</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Jobs and profiles store each skill under its canonical name, so any alias matches it.
+          </Typography>
+        </Box>
+        <Box display="flex" gap={1}>
+          <Button
+            variant="outlined"
+            startIcon={reindexing ? <CircularProgress size={18} /> : <SyncIcon />}
+            onClick={handleReindex}
+            disabled={reindexing}
+          >
+            Reindex Jobs & Profiles
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openDialog(null)}>
+            Add Skill
+          </Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      <TextField
+        size="small"
+        label="Search skills, aliases or categories"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        sx={{ mb: 2, minWidth: 320 }}
+      />
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Skill</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell>Aliases</TableCell>
+                <TableCell>Related</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredSkills.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">No skills found</TableCell>
+                </TableRow>
+              ) : (
+                filteredSkills.map(skill => (
+                  <TableRow key={skill._id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{skill.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{skill.slug}</Typography>
+                    </TableCell>
+                    <TableCell>{skill.category}</TableCell>
+                    <TableCell>
+                      <Box display="flex" flexWrap="wrap" gap={0.5}>
+                        {skill.aliases.map(alias => <Chip key={alias} label={alias} size="small" variant="outlined" />)}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" flexWrap="wrap" gap={0.5}>
+                        {skill.related.map(slug => (
+                          <Chip key={slug} label={skillsBySlug.get(slug)?.name || slug} size="small" />
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => openDialog(skill)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Remove">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(skill)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Skill'}</DialogTitle>
+        <DialogContent dividers>
+          {formError && <Alert severity="error" sx={{ mb: 2 }}>{formError}</Alert>}
+          <TextField
+            label="Canonical Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            helperText={editing ? `ID stays "${editing.slug}" so existing matches keep working` : 'Shown on jobs and profiles'}
+            inputProps={{ maxLength: 60 }}
+            fullWidth
+            required
+            margin="normal"
+          />
+          <Autocomplete
+            freeSolo
+            options={categories}
+            value={form.category}
+            onInputChange={(_, value) => setForm(current => ({ ...current, category: value }))}
+            renderInput={(params) => <TextField {...params} label="Category" margin="normal" />}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[] as string[]}
+            value={form.aliases}
+            onChange={(_, value) => setForm({ ...form, aliases: value.map(alias => alias.trim()).filter(Boolean) })}
+            renderInput={(params) => (
+              <TextField {...params} label="Aliases" helperText="Press Enter after each alias" margin="normal" />
+            )}
+          />
+          <Autocomplete
+            multiple
+            options={skills.map(skill => skill.slug).filter(slug => slug !== editing?.slug)}
+            getOptionLabel={(slug) => skillsBySlug.get(slug)?.name || slug}
+            value={form.related}
+            onChange={(_, value) => setForm({ ...form, related: value })}
+            renderInput={(params) => <TextField {...params} label="Related Skills" margin="normal" />}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminSkillTaxonomy;
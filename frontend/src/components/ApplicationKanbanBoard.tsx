@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Paper,
+    Typography,
+    Card,
+    CardContent,
+    Chip,
+    Rating,
+    Tooltip
+} from '@mui/material';
+import { JobApplication, PipelineStage } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ApplicationKanbanBoardProps {
+    applications: JobApplication[];
+    stages: PipelineStage[];
+    getStageKey: (application: JobApplication) => string;
+    // Match percentages by application id, once candidates have been ranked
+    matchScores?: Record<string, number>;
+    onMoveApplication: (applicationId: string, stageKey: string) => void;
+}
+
+// When the application entered its current stage: the start of the latest run of history entries
+// for that stage (interview notes are logged without a stage change), or the application date
+const getStageEnteredAt = (application: JobApplication, stage: PipelineStage) => {
+    const history = application.applicationHistory || [];
+    let enteredAt = application.appliedAt;
+    for (let i = history.length - 1; i >= 0; i--) {
+        const entry = history[i];
+        const inStage = entry.stage ? entry.stage === stage.key : entry.status === stage.category;
+        if (!inStage) break;
+        enteredAt = entry.date;
+    }
+    return enteredAt;
+};
+
+const getLatestRating = (application: JobApplication) => {
+    const ratings = application.interviewRatings || [];
+    if (ratings.length === 0) return null;
+    return [...ratings].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0].rating;
+};
+
+const getMatchScoreColor = (score: number) => {
+    if (score >= 70) return 'success';
+    if (score >= 50) return 'primary';
+    return 'error';
+};
+
+// Board view of a job's applications with one column per pipeline stage; drag a card to move it
+const ApplicationKanbanBoard: React.FC<ApplicationKanbanBoardProps> = ({
+    applications,
+    stages,
+    getStageKey,
+    matchScores,
+    onMoveApplication
+}) => {
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const handleDrop = (event: React.DragEvent, stageKey: string) => {
+        event.preventDefault();
+        const applicationId = event.dataTransfer.getData('text/plain');
+        const application = applications.find(app => app._id === applicationId);
+        setDraggedId(null);
+        setDropTarget(null);
+        if (application && getStageKey(application) !== stageKey) {
+            onMoveApplication(applicationId, stageKey);
+        }
+    };
+
+    return (
+        <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 2, mb: 3 }}>
+            {stages.map(stage => {
+                const stageKey = stage.key as string;
+                const columnApplications = applications.filter(app => getStageKey(app) === stageKey);
+
+                return (
+                    <Paper
+                        key={stageKey}
+                        variant="outlined"
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropTarget(stageKey);
+                        }}
+                        onDragLeave={() => setDropTarget(current => (current === stageKey ? null : current))}
+                        onDrop={(e) => handleDrop(e, stageKey)}
+                        sx={{
+                            flex: '0 0 260px',
+                            p: 1.5,
+                            minHeight: 300,
+                            bgcolor: dropTarget === stageKey ? 'action.hover' : 'grey.50'
+                        }}
+                    >
+                        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1.5}>
+                            <Typography variant="subtitle1" fontWeight="bold" noWrap title={stage.name}>
+                                {stage.name}
+                            </Typography>
+                            <Chip size="small" label={columnApplications.length} />
+                        </Box>
+
+                        {columnApplications.map(app => {
+                            const matchScore = matchScores?.[app._id];
+                            const latestRating = getLatestRating(app);
+                            const daysInStage = Math.floor(
+                                (Date.now() - new Date(getStageEnteredAt(app, stage)).getTime()) / DAY_MS
+                            );
+
+                            return (
+                                <Card
+                                    key={app._id}
+                                    draggable
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.setData('text/plain', app._id);
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        setDraggedId(app._id);
+                                    }}
+                                    onDragEnd={() => {
+                                        setDraggedId(null);
+                                        setDropTarget(null);
+                                    }}
+                                    sx={{ mb: 1, cursor: 'grab', opacity: draggedId === app._id ? 0.5 : 1 }}
+                                >
+                                    <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+                                        <Typography variant="body1" fontWeight="medium" noWrap>
+                                            {app.jobSeeker.name}
+                                        </Typography>
+                                        <Box display="flex" flexWrap="wrap" alignItems="center" gap={0.5} mt={1}>
+                                            {matchScore !== undefined && (
+                                                <Chip
+                                                    size="small"
+                                                    color={getMatchScoreColor(matchScore)}
+                                                    label={`${matchScore}% match`}
+                                                />
+                                            )}
+                                            {app.failedKnockout && (
+                                                <Chip size="small" color="error" variant="outlined" label="Failed knockout" />
+                                            )}
+                                        </Box>
+                                        {latestRating !== null && (
+                                            <Tooltip title="Latest interview rating">
+                                                <Box display="inline-flex" mt={1}>
+                                                    <Rating size="small" value={latestRating} readOnly />
+                                                </Box>
+                                            </Tooltip>
+                                        )}
+                                        <Typography variant="caption" color="text.secondary" display="block" mt={0.5}>
+                                            {daysInStage === 0 ? 'In stage since today' : `${daysInStage} day${daysInStage === 1 ? '' : 's'} in stage`}
+                                        </Typography>
+                                    </CardContent>
+                                </Card>
+                            );
+                        })}
+                    </Paper>
+                );
+            })}
+        </Box>
+    );
+};
+
+export default ApplicationKanbanBoard;
@@ -51,6 +51,8 @@ interface Job {
 
 interface HistoryItem {
   status: string;
+  // Applicant-facing name of the pipeline stage
+  label?: string;
   date: string;
   note: string;
 }
@@ -59,6 +61,7 @@ interface Application {
   _id: string;
   job: Job;
   status: string;
+  stageLabel?: string;
   appliedAt: string;
   statusInfo: {
     color: string;
@@ -217,7 +220,7 @@ const ApplicationTracking: React.FC = () => {
                       </Box>
                       <Box sx={{ mt: { xs: 2, md: 0 } }}>
                         <Chip 
-                          label={application.status.toUpperCase()}
+                          label={(application.stageLabel || application.status).toUpperCase()}
                           color={getStatusColor(application.status) as any}
                           sx={{ fontWeight: 'bold' }}
                         />
@@ -271,7 +274,7 @@ const ApplicationTracking: React.FC = () => {
                                 primary={
                                   <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                                     <Typography variant="body1" fontWeight="medium">
-                                      Status: {historyItem.status.charAt(0).toUpperCase() + historyItem.status.slice(1)}
+                                      Status: {historyItem.label || historyItem.status.charAt(0).toUpperCase() + historyItem.status.slice(1)}
                                     </Typography>
                                     <Typography variant="body2" color="text.secondary">
                                       {formatDateTime(historyItem.date)}
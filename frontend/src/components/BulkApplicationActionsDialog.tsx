@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    MenuItem,
+    FormControlLabel,
+    Checkbox,
+    Typography,
+    Alert,
+    Paper
+} from '@mui/material';
+import SkillsInput from './common/SkillsInput';
+import { applicationService } from '../services/api';
+import { BulkApplicationAction, BulkApplicationRequest, BulkApplicationResult, JobApplication, PipelineStage } from '../types';
+
+const ACTION_LABELS: Record<BulkApplicationAction, string> = {
+    move: 'Move to stage',
+    tag: 'Add tags',
+    untag: 'Remove tags',
+    reject: 'Reject'
+};
+
+const PLACEHOLDERS = ['candidateName', 'jobTitle', 'companyName', 'stageName'];
+
+// Starting points for the message; employers can edit the text before sending
+const MESSAGE_TEMPLATES = [
+    {
+        name: 'Application update',
+        text: 'Hi {{candidateName}},\n\nThere is an update on your application for {{jobTitle}}: {{stageName}}.\n\nBest regards,\n{{companyName}}'
+    },
+    {
+        name: 'Interview invitation',
+        text: 'Hi {{candidateName}},\n\nThanks for applying for {{jobTitle}}. We would like to invite you to an interview and will be in touch shortly to arrange a time.\n\nBest regards,\n{{companyName}}'
+    },
+    {
+        name: 'Rejection',
+        text: 'Hi {{candidateName}},\n\nThank you for your interest in the {{jobTitle}} role. After careful consideration, we have decided not to move forward with your application.\n\nWe wish you the best in your search,\n{{companyName}}'
+    }
+];
+
+interface BulkApplicationActionsDialogProps {
+    open: boolean;
+    onClose: () => void;
+    jobId: string;
+    jobTitle: string;
+    companyName?: string;
+    applications: JobApplication[];
+    stages: PipelineStage[];
+    onCompleted: (result: BulkApplicationResult) => void;
+}
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+    template.replace(/{{\s*(\w+)\s*}}/g, (match, name) => values[name] ?? '');
+
+// Applies one action to all selected applicants, with an optional templated message to each one it changes
+const BulkApplicationActionsDialog: React.FC<BulkApplicationActionsDialogProps> = ({
+    open,
+    onClose,
+    jobId,
+    jobTitle,
+    companyName,
+    applications,
+    stages,
+    onCompleted
+}) => {
+    const [action, setAction] = useState<BulkApplicationAction>('move');
+    const [stage, setStage] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+    const [sendMessage, setSendMessage] = useState(false);
+    const [message, setMessage] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        setAction('move');
+        setStage(stages[0]?.key || '');
+        setTags([]);
+        setSendMessage(false);
+        setMessage('');
+        setError('');
+    }, [open, stages]);
+
+    // The preview uses the stage the first candidate will be in once the action has run
+    const previewApplication = applications[0];
+    const previewStage = action === 'move'
+        ? stages.find(candidate => candidate.key === stage)
+        : action === 'reject'
+            ? stages.find(candidate => candidate.category === 'rejected')
+            : stages.find(candidate => candidate.key === previewApplication?.stage) ||
+              stages.find(candidate => candidate.category === previewApplication?.status);
+    const preview = previewApplication && fillTemplate(message, {
+        candidateName: previewApplication.jobSeeker.name,
+        jobTitle,
+        companyName: companyName || '',
+        stageName: previewStage?.seekerLabel || ''
+    });
+
+    const handleSubmit = async () => {
+        const request: BulkApplicationRequest = {
+            applicationIds: applications.map(app => app._id),
+            action
+        };
+        if (action === 'move') request.stage = stage;
+        if (action === 'tag' || action === 'untag') request.tags = tags;
+        if (sendMessage) request.message = message;
+
+        setSubmitting(true);
+        setError('');
+        try {
+            const result = await applicationService.bulkUpdateApplications(jobId, request);
+            onCompleted(result);
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to update the selected applications');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const invalid = (action === 'move' && !stage)
+        || ((action === 'tag' || action === 'untag') && tags.length === 0)
+        || (sendMessage && !message.trim());
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>Update {applications.length} Applicant{applications.length === 1 ? '' : 's'}</DialogTitle>
+            <DialogContent>
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                )}
+
+                <TextField
+                    select
+                    fullWidth
+                    margin="dense"
+                    label="Action"
+                    value={action}
+                    onChange={(e) => setAction(e.target.value as BulkApplicationAction)}
+                >
+                    {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                    ))}
+                </TextField>
+
+                {action === 'move' && (
+                    <TextField
+                        select
+                        fullWidth
+                        margin="dense"
+                        label="Stage"
+                        value={stage}
+                        onChange={(e) => setStage(e.target.value)}
+                    >
+                        {stages.map(option => (
+                            <MenuItem key={option.key} value={option.key}>{option.name}</MenuItem>
+                        ))}
+                    </TextField>
+                )}
+
+                {(action === 'tag' || action === 'untag') && (
+                    <Box mt={1}>
+                        <SkillsInput
+                            label="Tags"
+                            placeholder="Type a tag and press Enter"
+                            value={tags}
+                            onChange={setTags}
+                        />
+                    </Box>
+                )}
+
+                <FormControlLabel
+                    sx={{ mt: 1 }}
+                    control={<Checkbox checked={sendMessage} onChange={(e) => setSendMessage(e.target.checked)} />}
+                    label="Message each candidate this changes"
+                />
+
+                {sendMessage && (
+                    <>
+                        <TextField
+                            select
+                            fullWidth
+                            margin="dense"
+                            label="Start From Template"
+                            value=""
+                            onChange={(e) => setMessage(MESSAGE_TEMPLATES[Number(e.target.value)].text)}
+                        >
+                            {MESSAGE_TEMPLATES.map((template, index) => (
+                                <MenuItem key={template.name} value={index}>{template.name}</MenuItem>
+                            ))}
+                        </TextField>
+                        <TextField
+                            fullWidth
+                            multiline
+                            minRows={5}
+                            margin="dense"
+                            label="Message"
+                            value={message}
+                            onChange={(e) => setMessage(e.target.value)}
+                            inputProps={{ maxLength: 5000 }}
+                            helperText={`Placeholders: ${PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}. Candidates still anonymous under blind review aren't messaged.`}
+                        />
+                        {preview && (
+                            <Paper variant="outlined" sx={{ p: 1.5, mt: 1, bgcolor: 'grey.50' }}>
+                                <Typography variant="caption" color="text.secondary">
+                                    Preview for {previewApplication.jobSeeker.name}
+                                </Typography>
+                                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                                    {preview}
+                                </Typography>
+                            </Paper>
+                        )}
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    onClick={handleSubmit}
+                    variant="contained"
+                    color={action === 'reject' ? 'error' : 'primary'}
+                    disabled={submitting || invalid || applications.length === 0}
+                >
+                    {submitting ? 'Applying...' : 'Apply'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default BulkApplicationActionsDialog;
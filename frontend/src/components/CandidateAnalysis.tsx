@@ -30,6 +30,8 @@ interface CandidateAnalysisProps {
   applicationId: string;
   open: boolean;
   onClose: () => void;
+  // Set while the candidate is anonymized under blind review
+  candidateAlias?: string;
 }
 
 interface AnalysisData {
@@ -71,7 +73,7 @@ interface AnalysisData {
   appliedAt: string;
 }
 
-const CandidateAnalysis: React.FC<CandidateAnalysisProps> = ({ jobId, applicationId, open, onClose }) => {
+const CandidateAnalysis: React.FC<CandidateAnalysisProps> = ({ jobId, applicationId, open, onClose, candidateAlias }) => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisData | null>(null);
@@ -105,10 +107,12 @@ const CandidateAnalysis: React.FC<CandidateAnalysisProps> = ({ jobId, applicatio
 
   if (!open) return null;
 
+  const candidateName = candidateAlias || analysis?.candidate.name;
+
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth scroll="paper">
       <DialogTitle sx={{ borderBottom: 1, borderColor: 'divider', pb: 2 }}>
-        Candidate Analysis: {loading ? '...' : (analysis ? analysis.candidate.name : 'N/A')}
+        Candidate Analysis: {loading ? '...' : (analysis ? candidateName : 'N/A')}
       </DialogTitle>
       <DialogContent sx={{ pt: 3 }}>
         {loading ? (
@@ -121,7 +125,7 @@ const CandidateAnalysis: React.FC<CandidateAnalysisProps> = ({ jobId, applicatio
         ) : analysis ? (
           <Box>
             <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
-              <Typography variant="h6">{analysis.candidate.name}</Typography>
+              <Typography variant="h6">{candidateName}</Typography>
               <Box display="flex" alignItems="center">
                 <Typography variant="h4" sx={{ mr: 1 }}>{analysis.overallScore}%</Typography>
                 <Box>
@@ -275,7 +279,7 @@ const CandidateAnalysis: React.FC<CandidateAnalysisProps> = ({ jobId, applicatio
                       <SchoolIcon fontSize="small" />
                     </ListItemIcon>
                     <ListItemText 
-                      primary={`${edu.degree} from ${edu.institution}`} 
+                      primary={candidateAlias ? edu.degree : `${edu.degree} from ${edu.institution}`} 
                       secondary={`Graduation Year: ${edu.graduationYear}`} 
                     />
                   </ListItem>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { employerService } from '../services/api';
+import SkillsInput from './common/SkillsInput';
 import {
   Container,
   Typography,
@@ -70,13 +71,17 @@ interface Candidate {
   }>;
   education?: Array<{
     degree: string;
-    institution: string;
+    institution?: string;
     graduationYear: number;
   }>;
   profileImage?: string;
   matchScore?: number;
   strengths?: string[];
   gaps?: string[];
+  // Applicants to one of your blind-review jobs come back anonymized
+  blindReview?: {
+    jobTitle: string;
+  };
 }
 
 const CandidateSearch: React.FC = () => {
@@ -259,15 +264,12 @@ const CandidateSearch: React.FC = () => {
         <form onSubmit={handleSearch}>
           <Box sx={{ display: 'flex', flexWrap: 'wrap', margin: theme => theme.spacing(-1.5) }}>
             <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', md: 'calc(100% / 3 + 1px)' } }}>
-              <TextField
-                fullWidth
-                label="Skills"
-                name="skills"
-                variant="outlined"
-                value={searchParams.skills}
-                onChange={handleInputChange}
+              <SkillsInput
+                value={searchParams.skills ? searchParams.skills.split(',').map(skill => skill.trim()).filter(Boolean) : []}
+                onChange={(skills) => setSearchParams(prev => ({ ...prev, skills: skills.join(', ') }))}
                 placeholder="e.g. JavaScript, React, Node.js"
-                helperText="Separate multiple skills with commas"
+                helperText="Candidates listing any of these skills (or their synonyms) match"
+                suggestRelated
               />
             </Box>
             
@@ -383,6 +385,9 @@ const CandidateSearch: React.FC = () => {
                           <Typography variant="body2" color="text.secondary">
                             {candidate.title || 'Job Seeker'}
                           </Typography>
+                          {candidate.blindReview && (
+                            <Chip size="small" label={`Blind review: ${candidate.blindReview.jobTitle}`} sx={{ mt: 0.5 }} />
+                          )}
                           {candidate.location && (
                             <Box display="flex" alignItems="center" mt={0.5}>
                               <LocationOnIcon fontSize="small" sx={{ mr: 0.5, color: 'text.secondary' }} />
@@ -452,7 +457,8 @@ const CandidateSearch: React.FC = () => {
                         <Box>
                           {candidate.education && candidate.education.length > 0 ? (
                             <Typography variant="body2">
-                              {candidate.education[0].degree} - {candidate.education[0].institution}
+                              {candidate.education[0].degree}
+                              {candidate.education[0].institution && ` - ${candidate.education[0].institution}`}
                             </Typography>
                           ) : (
                             <Typography variant="body2" color="text.secondary">
@@ -515,12 +521,14 @@ const CandidateSearch: React.FC = () => {
                           size="small" 
                           startIcon={<MessageIcon />}
                           onClick={() => handleContactCandidate(candidate._id)}
+                          disabled={Boolean(candidate.blindReview)}
                         >
                           Contact
                         </Button>
                         <IconButton 
                           aria-label={savedCandidates.includes(candidate._id) ? "Remove from saved" : "Save candidate"}
                           onClick={() => handleSaveCandidate(candidate._id)}
+                          disabled={Boolean(candidate.blindReview)}
                           color={savedCandidates.includes(candidate._id) ? "primary" : "default"}
                         >
                           {savedCandidates.includes(candidate._id) ? (
@@ -56,7 +56,8 @@ import ThumbDown from '@mui/icons-material/ThumbDown';
 import FilterList from '@mui/icons-material/FilterList';
 import Sort from '@mui/icons-material/Sort';
 import { useAuth } from '../context/AuthContext';
-import { companyService, jobService, reviewService } from '../services/api';
+import { companyService, jobService, reviewService, feedService } from '../services/api';
+import FeedSubscribeButton from './common/FeedSubscribeButton';
 
 // Types
 interface CompanyData {
@@ -795,13 +796,18 @@ const CompanyProfile: React.FC = () => {
             Open Positions {jobs.length > 0 && `(${jobs.length})`}
           </Typography>
           
-          <Button 
-            variant="contained" 
-            color="primary" 
-            onClick={() => navigate('/jobs', { state: { employerId } })}
-          >
-            View All Jobs
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {employerId && (
+              <FeedSubscribeButton getUrl={(format) => feedService.getCompanyFeedUrl(employerId, format)} />
+            )}
+            <Button 
+              variant="contained" 
+              color="primary" 
+              onClick={() => navigate('/jobs', { state: { employerId } })}
+            >
+              View All Jobs
+            </Button>
+          </Box>
         </Box>
         
         {jobs.length > 0 ? (
@@ -12,6 +12,19 @@ import {
     Snackbar
 } from '@mui/material';
 import axios from 'axios';
+import SkillsInput from './common/SkillsInput';
+import ScreeningQuestionsEditor from './ScreeningQuestionsEditor';
+import { EXPERIENCE_LEVEL_LABELS, WORK_MODE_LABELS, JOB_STATUS_LABELS, JobStatus, ScreeningQuestion, SalaryPeriod, SALARY_PERIOD_LABELS } from '../types';
+
+// Convert an ISO timestamp to the local "YYYY-MM-DDTHH:mm" format datetime-local inputs expect
+const toDateTimeLocal = (value?: string | null): string => {
+    if (!value) return '';
+    const date = new Date(value);
+    const offsetMs = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const EDITABLE_STATUSES: JobStatus[] = ['draft', 'scheduled', 'open', 'paused', 'closed'];
 
 interface Job {
     _id: string;
@@ -23,10 +36,17 @@ interface Job {
         min: number;
         max: number;
         currency: string;
+        period?: SalaryPeriod;
     };
     description: string;
     requirements: string;
+    skills: string[];
+    experienceLevel: string;
+    workMode: string;
+    screeningQuestions: ScreeningQuestion[];
     status: string;
+    publishAt: string;
+    expiresAt: string;
 }
 
 const EditJob: React.FC = () => {
@@ -44,7 +64,13 @@ const EditJob: React.FC = () => {
         },
         description: '',
         requirements: '',
-        status: 'open'
+        skills: [],
+        experienceLevel: '',
+        workMode: 'onsite',
+        screeningQuestions: [],
+        status: 'open',
+        publishAt: '',
+        expiresAt: ''
     });
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
@@ -71,7 +97,15 @@ const EditJob: React.FC = () => {
                     'Content-Type': 'application/json'
                 }
             });
-            setFormData(response.data);
+            setFormData({
+                ...response.data,
+                skills: response.data.skills || [],
+                experienceLevel: response.data.experienceLevel || '',
+                workMode: response.data.workMode || 'onsite',
+                screeningQuestions: response.data.screeningQuestions || [],
+                publishAt: toDateTimeLocal(response.data.publishAt),
+                expiresAt: toDateTimeLocal(response.data.expiresAt)
+            });
             setLoading(false);
         } catch (err) {
             setError('Failed to fetch job details');
@@ -102,7 +136,12 @@ const EditJob: React.FC = () => {
         e.preventDefault();
         try {
             const token = localStorage.getItem('token');
-            await axios.put(`http://localhost:5000/api/jobs/${id}`, formData, {
+            await axios.put(`http://localhost:5000/api/jobs/${id}`, {
+                ...formData,
+                // datetime-local values are local time; an empty value clears the date
+                publishAt: formData.publishAt ? new Date(formData.publishAt).toISOString() : '',
+                expiresAt: formData.expiresAt ? new Date(formData.expiresAt).toISOString() : ''
+            }, {
                 headers: { 
                     'Authorization': `Bearer ${token}`,
                     'Content-Type': 'application/json'
@@ -116,10 +155,10 @@ const EditJob: React.FC = () => {
             setTimeout(() => {
                 navigate('/jobs/manage');
             }, 1500);
-        } catch (err) {
+        } catch (err: any) {
             setSnackbar({
                 open: true,
-                message: 'Failed to update job',
+                message: err.response?.data?.message || 'Failed to update job',
                 severity: 'error'
             });
         }
@@ -151,7 +190,7 @@ const EditJob: React.FC = () => {
                 <Typography variant="h4" component="h1" gutterBottom>
                     Edit Job Post
                 </Typography>
-                <Box component="form" onSubmit={handleSubmit} sx={{ mt: 3 }}>
+                <Box component="form" onSubmit={handleSubmit} noValidate={formData.status === 'draft'} sx={{ mt: 3 }}>
                     <TextField
                         fullWidth
                         label="Job Title"
@@ -194,6 +233,44 @@ const EditJob: React.FC = () => {
                         <MenuItem value="contract">Contract</MenuItem>
                         <MenuItem value="internship">Internship</MenuItem>
                     </TextField>
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                            fullWidth
+                            select
+                            label="Experience Level"
+                            name="experienceLevel"
+                            value={formData.experienceLevel}
+                            onChange={handleChange}
+                            margin="normal"
+                            required
+                        >
+                            {Object.entries(EXPERIENCE_LEVEL_LABELS).map(([value, label]) => (
+                                <MenuItem key={value} value={value}>{label}</MenuItem>
+                            ))}
+                        </TextField>
+                        <TextField
+                            fullWidth
+                            select
+                            label="Work Mode"
+                            name="workMode"
+                            value={formData.workMode}
+                            onChange={handleChange}
+                            margin="normal"
+                            required
+                        >
+                            {Object.entries(WORK_MODE_LABELS).map(([value, label]) => (
+                                <MenuItem key={value} value={value}>{label}</MenuItem>
+                            ))}
+                        </TextField>
+                    </Box>
+                    <Box sx={{ mt: 2, mb: 1 }}>
+                        <SkillsInput
+                            value={formData.skills || []}
+                            onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
+                            label="Required Skills"
+                            suggestRelated
+                        />
+                    </Box>
                     <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
                         <TextField
                             fullWidth
@@ -213,6 +290,18 @@ const EditJob: React.FC = () => {
                             onChange={handleChange}
                             required
                         />
+                        <TextField
+                            fullWidth
+                            select
+                            label="Pay Period"
+                            name="salary.period"
+                            value={formData.salary?.period || 'year'}
+                            onChange={handleChange}
+                        >
+                            {Object.entries(SALARY_PERIOD_LABELS).map(([value, label]) => (
+                                <MenuItem key={value} value={value}>{label}</MenuItem>
+                            ))}
+                        </TextField>
                     </Box>
                     <TextField
                         fullWidth
@@ -224,9 +313,37 @@ const EditJob: React.FC = () => {
                         margin="normal"
                         required
                     >
-                        <MenuItem value="open">Open</MenuItem>
-                        <MenuItem value="closed">Closed</MenuItem>
+                        {EDITABLE_STATUSES.map(status => (
+                            <MenuItem key={status} value={status}>{JOB_STATUS_LABELS[status]}</MenuItem>
+                        ))}
+                        {formData.status === 'expired' && (
+                            <MenuItem value="expired" disabled>{JOB_STATUS_LABELS.expired}</MenuItem>
+                        )}
                     </TextField>
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                            fullWidth
+                            label="Publish At"
+                            name="publishAt"
+                            type="datetime-local"
+                            value={formData.publishAt}
+                            onChange={handleChange}
+                            margin="normal"
+                            InputLabelProps={{ shrink: true }}
+                            helperText="A future date keeps the job scheduled until then"
+                        />
+                        <TextField
+                            fullWidth
+                            label="Expires At"
+                            name="expiresAt"
+                            type="datetime-local"
+                            value={formData.expiresAt}
+                            onChange={handleChange}
+                            margin="normal"
+                            InputLabelProps={{ shrink: true }}
+                            helperText="Leave empty to keep the job open until closed"
+                        />
+                    </Box>
                     <TextField
                         fullWidth
                         label="Job Description"
@@ -249,6 +366,12 @@ const EditJob: React.FC = () => {
                         rows={4}
                         required
                     />
+                    <Box sx={{ mt: 3 }}>
+                        <ScreeningQuestionsEditor
+                            value={formData.screeningQuestions || []}
+                            onChange={(screeningQuestions) => setFormData(prev => ({ ...prev, screeningQuestions }))}
+                        />
+                    </Box>
                     <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
                         <Button
                             type="submit"
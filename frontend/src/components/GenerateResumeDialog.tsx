@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Button,
+    Typography,
+    TextField,
+    MenuItem,
+    RadioGroup,
+    FormControlLabel,
+    Radio,
+    Alert,
+    Box,
+    CircularProgress
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { saveAs } from 'file-saver';
+import { resumeLibraryService } from '../services/api';
+import { ResumeDocument, ResumeFormat, ResumeTemplate } from '../types';
+
+interface GenerateResumeDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // Called with the library document after "Save to Library"
+    onSaved?: (document: ResumeDocument) => void;
+}
+
+const FORMAT_LABELS: Record<ResumeFormat, string> = {
+    pdf: 'PDF',
+    docx: 'Word (DOCX)'
+};
+
+// Errors on blob requests arrive as a Blob, so read the JSON message out of it
+const readErrorMessage = async (err: any, fallback: string): Promise<string> => {
+    const data = err.response?.data;
+    if (data instanceof Blob) {
+        try {
+            return JSON.parse(await data.text()).message || fallback;
+        } catch {
+            return fallback;
+        }
+    }
+    return data?.message || fallback;
+};
+
+// Builds a resume from the profile's skills, experience and education in a chosen template
+const GenerateResumeDialog: React.FC<GenerateResumeDialogProps> = ({ open, onClose, onSaved }) => {
+    const [templates, setTemplates] = useState<ResumeTemplate[]>([]);
+    const [template, setTemplate] = useState('classic');
+    const [format, setFormat] = useState<ResumeFormat>('pdf');
+    const [name, setName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        setError('');
+        if (templates.length === 0) {
+            resumeLibraryService.getTemplates()
+                .then(setTemplates)
+                .catch(() => setError('Failed to load resume templates'));
+        }
+    }, [open, templates.length]);
+
+    const handleDownload = async () => {
+        setBusy(true);
+        setError('');
+        try {
+            const blob = await resumeLibraryService.downloadGeneratedResume(template, format);
+            saveAs(blob, `resume-${template}.${format}`);
+        } catch (err: any) {
+            setError(await readErrorMessage(err, 'Failed to generate the resume'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setBusy(true);
+        setError('');
+        try {
+            const document = await resumeLibraryService.saveGeneratedResume(template, format, name.trim() || undefined);
+            setName('');
+            onSaved?.(document);
+            onClose();
+        } catch (err: any) {
+            setError(await readErrorMessage(err, 'Failed to save the resume'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>Generate Resume from Profile</DialogTitle>
+            <DialogContent dividers>
+                {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+                <Typography variant="body2" color="text.secondary" paragraph>
+                    Your resume is built from the contact details, skills, experience and education on your profile.
+                </Typography>
+
+                <Typography variant="subtitle2" gutterBottom>Template</Typography>
+                {templates.length === 0 && !error ? (
+                    <CircularProgress size={24} />
+                ) : (
+                    <RadioGroup value={template} onChange={(e) => setTemplate(e.target.value)}>
+                        {templates.map(option => (
+                            <FormControlLabel
+                                key={option.id}
+                                value={option.id}
+                                control={<Radio />}
+                                label={
+                                    <Box>
+                                        <Typography variant="body1">{option.name}</Typography>
+                                        <Typography variant="caption" color="text.secondary">{option.description}</Typography>
+                                    </Box>
+                                }
+                                sx={{ mb: 1 }}
+                            />
+                        ))}
+                    </RadioGroup>
+                )}
+
+                <Box display="flex" gap={2} mt={2}>
+                    <TextField
+                        select
+                        size="small"
+                        label="Format"
+                        value={format}
+                        onChange={(e) => setFormat(e.target.value as ResumeFormat)}
+                        sx={{ minWidth: 160 }}
+                    >
+                        {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                            <MenuItem key={value} value={value}>{label}</MenuItem>
+                        ))}
+                    </TextField>
+                    <TextField
+                        size="small"
+                        label="Library Name (optional)"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        inputProps={{ maxLength: 100 }}
+                        fullWidth
+                    />
+                </Box>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose} disabled={busy}>Cancel</Button>
+                <Button startIcon={<DownloadIcon />} onClick={handleDownload} disabled={busy || templates.length === 0}>
+                    Download
+                </Button>
+                <Button variant="contained" onClick={handleSave} disabled={busy || templates.length === 0}>
+                    {busy ? <CircularProgress size={20} /> : 'Save to Library'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default GenerateResumeDialog;
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    IconButton,
+    Typography,
+    Alert,
+    Paper,
+    Tabs,
+    Tab,
+    CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SkillsInput from './common/SkillsInput';
+import { jobService } from '../services/api';
+import { InterviewCompetency, InterviewKit, InterviewType, INTERVIEW_TYPE_LABELS } from '../types';
+
+const MAX_COMPETENCIES = 10;
+const RUBRIC_LABELS = ['1 - Poor', '2 - Fair', '3 - Good', '4 - Very Good', '5 - Excellent'];
+
+interface InterviewKitsDialogProps {
+    open: boolean;
+    onClose: () => void;
+    jobId: string;
+    jobTitle: string;
+    onSaved?: (kits: InterviewKit[]) => void;
+}
+
+const emptyCompetency = (): InterviewCompetency => ({
+    name: '',
+    description: '',
+    questions: [],
+    rubric: ['', '', '', '', '']
+});
+
+// Employer-side editor for the competencies, suggested questions and rubrics interviewers score against
+const InterviewKitsDialog: React.FC<InterviewKitsDialogProps> = ({ open, onClose, jobId, jobTitle, onSaved }) => {
+    const [kits, setKits] = useState<InterviewKit[]>([]);
+    // The standard scorecard, for switching a customized kit back
+    const [standardCompetencies, setStandardCompetencies] = useState<InterviewCompetency[]>([]);
+    const [activeType, setActiveType] = useState<InterviewType>('screening');
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        setLoading(true);
+        setError('');
+        jobService.getInterviewKits(jobId)
+            .then(loaded => {
+                setKits(loaded);
+                const standardKit = loaded.find(kit => kit.source === 'default');
+                if (standardKit) setStandardCompetencies(standardKit.competencies);
+            })
+            .catch((err: any) => setError(err.response?.data?.message || 'Failed to load the interview kits'))
+            .finally(() => setLoading(false));
+    }, [open, jobId]);
+
+    const activeKit = kits.find(kit => kit.interviewType === activeType);
+
+    const updateKit = (changes: Partial<InterviewKit>) => {
+        setKits(prev => prev.map(kit => (kit.interviewType === activeType ? { ...kit, ...changes } : kit)));
+    };
+
+    const updateCompetency = (index: number, changes: Partial<InterviewCompetency>) => {
+        if (!activeKit) return;
+        updateKit({
+            competencies: activeKit.competencies.map((competency, i) => (i === index ? { ...competency, ...changes } : competency))
+        });
+    };
+
+    const updateRubric = (index: number, level: number, text: string) => {
+        if (!activeKit) return;
+        const rubric = [...activeKit.competencies[index].rubric];
+        while (rubric.length < RUBRIC_LABELS.length) rubric.push('');
+        rubric[level] = text;
+        updateCompetency(index, { rubric });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError('');
+        try {
+            const custom = kits
+                .filter(kit => kit.source === 'job')
+                .map(({ interviewType, competencies }) => ({ interviewType, competencies }));
+            const saved = await jobService.updateInterviewKits(jobId, custom);
+            onSaved?.(saved);
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save the interview kits');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>Interview Kits for {jobTitle}</DialogTitle>
+            <DialogContent>
+                {loading ? (
+                    <Box display="flex" justifyContent="center" p={3}>
+                        <CircularProgress />
+                    </Box>
+                ) : (
+                    <>
+                        <Tabs
+                            value={activeType}
+                            onChange={(event, value) => setActiveType(value)}
+                            sx={{ mb: 2, borderBottom: 1, borderColor: 'divider' }}
+                        >
+                            {Object.entries(INTERVIEW_TYPE_LABELS).map(([type, label]) => (
+                                <Tab key={type} value={type} label={label} />
+                            ))}
+                        </Tabs>
+
+                        {error && (
+                            <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                        )}
+
+                        {activeKit && activeKit.source !== 'job' && (
+                            <Box>
+                                <Typography variant="body2" color="text.secondary" paragraph>
+                                    {INTERVIEW_TYPE_LABELS[activeType]} interviews use the standard scorecard:{' '}
+                                    {activeKit.competencies.map(competency => competency.name).join(', ')}.
+                                </Typography>
+                                <Button
+                                    variant="outlined"
+                                    onClick={() => updateKit({ source: 'job' })}
+                                >
+                                    Customize This Kit
+                                </Button>
+                            </Box>
+                        )}
+
+                        {activeKit && activeKit.source === 'job' && (
+                            <>
+                                <Typography variant="body2" color="text.secondary" paragraph>
+                                    Interviewers score each competency from 1 to 5. Suggested questions and the rubric are shown while they rate.
+                                </Typography>
+
+                                {activeKit.competencies.map((competency, index) => (
+                                    <Paper key={competency.key || `new-${index}`} variant="outlined" sx={{ p: 2, mb: 2 }}>
+                                        <Box display="flex" gap={2} alignItems="flex-start">
+                                            <TextField
+                                                size="small"
+                                                label={`Competency ${index + 1}`}
+                                                value={competency.name}
+                                                onChange={(e) => updateCompetency(index, { name: e.target.value })}
+                                                placeholder="e.g. System design"
+                                                inputProps={{ maxLength: 60 }}
+                                                sx={{ flex: 1 }}
+                                            />
+                                            <TextField
+                                                size="small"
+                                                label="What to Look For"
+                                                value={competency.description || ''}
+                                                onChange={(e) => updateCompetency(index, { description: e.target.value })}
+                                                inputProps={{ maxLength: 300 }}
+                                                sx={{ flex: 2 }}
+                                            />
+                                            <IconButton
+                                                color="error"
+                                                title="Remove Competency"
+                                                onClick={() => updateKit({
+                                                    competencies: activeKit.competencies.filter((_, i) => i !== index)
+                                                })}
+                                            >
+                                                <DeleteIcon />
+                                            </IconButton>
+                                        </Box>
+
+                                        <Box mt={2}>
+                                            <SkillsInput
+                                                size="small"
+                                                label="Suggested Questions"
+                                                placeholder="Type a question and press Enter"
+                                                value={competency.questions}
+                                                onChange={(questions) => updateCompetency(index, { questions })}
+                                            />
+                                        </Box>
+
+                                        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+                                            Rubric
+                                        </Typography>
+                                        {RUBRIC_LABELS.map((label, level) => (
+                                            <TextField
+                                                key={label}
+                                                fullWidth
+                                                size="small"
+                                                margin="dense"
+                                                label={label}
+                                                value={competency.rubric[level] || ''}
+                                                onChange={(e) => updateRubric(index, level, e.target.value)}
+                                                inputProps={{ maxLength: 200 }}
+                                            />
+                                        ))}
+                                    </Paper>
+                                ))}
+
+                                <Box display="flex" justifyContent="space-between">
+                                    <Button
+                                        startIcon={<AddIcon />}
+                                        onClick={() => updateKit({ competencies: [...activeKit.competencies, emptyCompetency()] })}
+                                        disabled={activeKit.competencies.length >= MAX_COMPETENCIES}
+                                    >
+                                        Add Competency
+                                    </Button>
+                                    <Button
+                                        color="inherit"
+                                        onClick={() => updateKit({
+                                            source: 'default',
+                                            competencies: standardCompetencies.length > 0 ? standardCompetencies : activeKit.competencies
+                                        })}
+                                    >
+                                        Use Standard Scorecard
+                                    </Button>
+                                </Box>
+                            </>
+                        )}
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button onClick={handleSave} variant="contained" disabled={saving || loading}>
+                    {saving ? 'Saving...' : 'Save'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default InterviewKitsDialog;
@@ -2,21 +2,21 @@ import React, { useState, useEffect } from 'react';
 import {
   Dialog, DialogTitle, DialogContent, DialogActions, 
   Button, Rating, TextField, Typography, Box, Chip,
-  FormControl, FormLabel, Divider, Alert, CircularProgress,
-  Grid, List, ListItem, ListItemText
+  Alert, CircularProgress, MenuItem, Paper, Grid
 } from '@mui/material';
-import { applicationService } from '../services/api';
-import { useAuth } from '../context/AuthContext';
+import { applicationService, jobService } from '../services/api';
 import StarIcon from '@mui/icons-material/Star';
-import StarBorderIcon from '@mui/icons-material/StarBorder';
 import AddIcon from '@mui/icons-material/Add';
-import { AxiosError } from 'axios';
+import { InterviewKit, InterviewType, INTERVIEW_TYPE_LABELS } from '../types';
 
 interface InterviewRatingDialogProps {
   open: boolean;
   onClose: () => void;
   applicationId: string;
   candidateName: string;
+  jobId: string;
+  // Type of the candidate's scheduled interview, if known
+  interviewType?: InterviewType;
   onRatingSubmitted: () => void;
 }
 
@@ -25,21 +25,24 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
   onClose,
   applicationId,
   candidateName,
+  jobId,
+  interviewType: scheduledInterviewType,
   onRatingSubmitted
 }) => {
-  const { token } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+
+  // Interview kit the scorecard comes from
+  const [kits, setKits] = useState<InterviewKit[]>([]);
+  const [kitsLoading, setKitsLoading] = useState(false);
+  const [interviewType, setInterviewType] = useState<InterviewType>('screening');
   
   // Rating state
-  const [ratings, setRatings] = useState({
-    overall: 0,
-    technical: 0,
-    communication: 0,
-    culturalFit: 0,
-    problemSolving: 0
-  });
+  const [overall, setOverall] = useState(0);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [hoverScores, setHoverScores] = useState<Record<string, number>>({});
   const [feedback, setFeedback] = useState('');
   
   // Strengths and weaknesses
@@ -54,6 +57,34 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
     }
   }, [open, candidateName, applicationId]);
 
+  useEffect(() => {
+    if (!open) return;
+    setInterviewType(scheduledInterviewType || 'screening');
+    setOverall(0);
+    setScores({});
+    setNotes({});
+    setError(null);
+    setSuccess(false);
+    setKitsLoading(true);
+    jobService.getInterviewKits(jobId)
+      .then(setKits)
+      .catch(err => {
+        console.error(`[CandidateRating] Error loading interview kits:`, err);
+        setError('Failed to load the interview kit for this job');
+      })
+      .finally(() => setKitsLoading(false));
+  }, [open, jobId, scheduledInterviewType]);
+
+  const kit = kits.find(candidate => candidate.interviewType === interviewType);
+
+  // Scores belong to one kit's competencies, so switching kits starts the scorecard over
+  const handleInterviewTypeChange = (type: InterviewType) => {
+    console.log(`[CandidateRating] Switched scorecard to ${type} interview kit`);
+    setInterviewType(type);
+    setScores({});
+    setNotes({});
+  };
+
   const handleAddStrength = () => {
     if (currentStrength.trim() !== '' && !strengths.includes(currentStrength.trim())) {
       const newStrength = currentStrength.trim();
@@ -82,24 +113,14 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
     setWeaknesses(weaknesses.filter(w => w !== weakness));
   };
 
-  const validateForm = () => {
-    if (!ratings.overall) {
-      console.log(`[CandidateRating] Validation error: Overall rating is required`);
-      setError('Overall rating is required');
-      return false;
-    }
-    if (!feedback.trim()) {
-      console.log(`[CandidateRating] Validation error: Feedback is required`);
-      setError('Feedback is required');
-      return false;
-    }
-    return true;
-  };
-
   const handleSubmit = async () => {
     console.log(`[CandidateRating] Attempting to submit rating for application ID: ${applicationId}`);
     
-    if (!ratings.overall || !ratings.technical || !ratings.communication || !ratings.culturalFit || !ratings.problemSolving) {
+    if (!kit) {
+      setError('The interview kit has not loaded yet');
+      return;
+    }
+    if (!overall || kit.competencies.some(competency => !scores[competency.key as string])) {
       console.log(`[CandidateRating] Validation error: Missing one or more required ratings`);
       setError('Please provide all ratings before submitting');
       return;
@@ -116,11 +137,13 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
       console.log(`[CandidateRating] Preparing rating data for submission`);
       
       const ratingData = {
-        rating: ratings.overall,
-        technicalSkills: ratings.technical,
-        communication: ratings.communication,
-        culturalFit: ratings.culturalFit,
-        problemSolving: ratings.problemSolving,
+        rating: overall,
+        interviewType,
+        scores: kit.competencies.map(competency => ({
+          competency: competency.key as string,
+          score: scores[competency.key as string],
+          notes: notes[competency.key as string] || ''
+        })),
         strengths,
         weaknesses,
         feedback
@@ -134,9 +157,9 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
       setTimeout(() => {
         onRatingSubmitted();
       }, 1500);
-    } catch (error) {
+    } catch (error: any) {
       console.error(`[CandidateRating] Error submitting rating:`, error);
-      setError('Failed to submit rating. Please try again.');
+      setError(error.response?.data?.msg || 'Failed to submit rating. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -149,11 +172,11 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
     }
   };
 
-  const handleRatingChange = (category: string, value: number | null) => {
-    console.log(`[CandidateRating] Updated ${category} rating to ${value || 0}/5`);
-    setRatings({ 
-      ...ratings, 
-      [category]: value || 0 
+  const handleScoreChange = (competency: string, value: number | null) => {
+    console.log(`[CandidateRating] Updated ${competency} rating to ${value || 0}/5`);
+    setScores({ 
+      ...scores, 
+      [competency]: value || 0 
     });
   };
 
@@ -190,66 +213,99 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
         )}
         
         <Grid container spacing={3}>
+          <Grid component="div" sx={{ gridColumn: 'span 12' }}>
+            <TextField
+              select
+              size="small"
+              label="Interview Type"
+              value={interviewType}
+              onChange={(e) => handleInterviewTypeChange(e.target.value as InterviewType)}
+              sx={{ minWidth: 200 }}
+              helperText={kit?.source === 'job' ? 'Using this job\'s interview kit' : 'Using the standard scorecard'}
+            >
+              {Object.entries(INTERVIEW_TYPE_LABELS).map(([type, label]) => (
+                <MenuItem key={type} value={type}>{label}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+
           <Grid component="div" sx={{ gridColumn: 'span 12' }}>
             <Typography component="legend">Overall Rating*</Typography>
             <Rating
               name="overall"
-              value={ratings.overall}
+              value={overall}
               onChange={(event, newValue) => {
-                handleRatingChange('overall', newValue);
+                console.log(`[CandidateRating] Updated overall rating to ${newValue || 0}/5`);
+                setOverall(newValue || 0);
               }}
-              precision={0.5}
               emptyIcon={<StarIcon fontSize="inherit" />}
             />
           </Grid>
-          
-          <Grid component="div" sx={{ gridColumn: { xs: 'span 12', sm: 'span 6' } }}>
-            <Typography component="legend">Technical Skills*</Typography>
-            <Rating
-              name="technical"
-              value={ratings.technical}
-              onChange={(event, newValue) => {
-                handleRatingChange('technical', newValue);
-              }}
-              precision={0.5}
-            />
-          </Grid>
-          
-          <Grid component="div" sx={{ gridColumn: { xs: 'span 12', sm: 'span 6' } }}>
-            <Typography component="legend">Communication*</Typography>
-            <Rating
-              name="communication"
-              value={ratings.communication}
-              onChange={(event, newValue) => {
-                handleRatingChange('communication', newValue);
-              }}
-              precision={0.5}
-            />
-          </Grid>
-          
-          <Grid component="div" sx={{ gridColumn: { xs: 'span 12', sm: 'span 6' } }}>
-            <Typography component="legend">Cultural Fit*</Typography>
-            <Rating
-              name="culturalFit"
-              value={ratings.culturalFit}
-              onChange={(event, newValue) => {
-                handleRatingChange('culturalFit', newValue);
-              }}
-              precision={0.5}
-            />
-          </Grid>
-          
-          <Grid component="div" sx={{ gridColumn: { xs: 'span 12', sm: 'span 6' } }}>
-            <Typography component="legend">Problem Solving*</Typography>
-            <Rating
-              name="problemSolving"
-              value={ratings.problemSolving}
-              onChange={(event, newValue) => {
-                handleRatingChange('problemSolving', newValue);
-              }}
-              precision={0.5}
-            />
-          </Grid>
+
+          {kitsLoading && (
+            <Grid component="div" sx={{ gridColumn: 'span 12' }}>
+              <CircularProgress size={24} />
+            </Grid>
+          )}
+
+          {!kitsLoading && kit?.competencies.map(competency => {
+            const key = competency.key as string;
+            // Rubric guidance for the score being hovered, or the one picked
+            const shownScore = hoverScores[key] > 0 ? hoverScores[key] : scores[key];
+            const guidance = shownScore ? competency.rubric[shownScore - 1] : '';
+            return (
+              <Grid component="div" key={key} sx={{ gridColumn: 'span 12' }}>
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={1}>
+                    <Box>
+                      <Typography component="legend">{competency.name}*</Typography>
+                      {competency.description && (
+                        <Typography variant="caption" color="text.secondary">
+                          {competency.description}
+                        </Typography>
+                      )}
+                    </Box>
+                    <Box display="flex" alignItems="center">
+                      <Rating
+                        name={key}
+                        value={scores[key] || 0}
+                        onChange={(event, newValue) => handleScoreChange(key, newValue)}
+                        onChangeActive={(event, hovered) => setHoverScores(prev => ({ ...prev, [key]: hovered }))}
+                      />
+                      {shownScore ? (
+                        <Typography variant="body2" sx={{ ml: 1, minWidth: 70 }}>
+                          {labels[shownScore]}
+                        </Typography>
+                      ) : null}
+                    </Box>
+                  </Box>
+                  {guidance && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1, fontStyle: 'italic' }}>
+                      {guidance}
+                    </Typography>
+                  )}
+                  {competency.questions.length > 0 && (
+                    <Box component="ul" sx={{ mt: 1, mb: 0, pl: 2.5 }}>
+                      {competency.questions.map((question, index) => (
+                        <Typography component="li" variant="body2" key={index}>
+                          {question}
+                        </Typography>
+                      ))}
+                    </Box>
+                  )}
+                  <TextField
+                    fullWidth
+                    size="small"
+                    margin="dense"
+                    label="Notes"
+                    value={notes[key] || ''}
+                    onChange={(e) => setNotes({ ...notes, [key]: e.target.value })}
+                    inputProps={{ maxLength: 1000 }}
+                  />
+                </Paper>
+              </Grid>
+            );
+          })}
           
           <Grid component="div" sx={{ gridColumn: 'span 12' }}>
             <TextField
@@ -339,7 +395,7 @@ const InterviewRatingDialog: React.FC<InterviewRatingDialogProps> = ({
           onClick={handleSubmit}
           variant="contained" 
           color="primary"
-          disabled={loading}
+          disabled={loading || kitsLoading || !kit}
         >
           {loading ? <CircularProgress size={24} /> : 'Submit Rating'}
         </Button>
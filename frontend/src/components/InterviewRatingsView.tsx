@@ -2,37 +2,49 @@ import React, { useEffect } from 'react';
 import {
   Dialog, DialogTitle, DialogContent, DialogActions,
   Button, Rating, Typography, Box, Chip, Divider,
-  List, ListItem, ListItemText, Avatar, Grid, Paper
+  List, Avatar, Grid, Paper, Tooltip,
+  Table, TableBody, TableCell, TableHead, TableRow
 } from '@mui/material';
 import StarIcon from '@mui/icons-material/Star';
 import FormatQuoteIcon from '@mui/icons-material/FormatQuote';
-import AssignmentIcon from '@mui/icons-material/Assignment';
 import TimerIcon from '@mui/icons-material/Timer';
 import { format } from 'date-fns';
+import { CompetencyScore, InterviewRating, InterviewType, INTERVIEW_TYPE_LABELS } from '../types';
 
-interface RatingCategory {
+interface CompetencySummary {
+  key: string;
   name: string;
-  value: number | null;
+  average: number;
+  scores: Array<{ interviewer: string; score: number; notes?: string }>;
 }
 
-interface InterviewRating {
-  _id: string;
-  rating: number;
-  technicalSkills: number | null;
-  communication: number | null;
-  culturalFit: number | null;
-  problemSolving: number | null;
-  strengths: string[];
-  weaknesses: string[];
-  feedback: string;
-  interviewer: {
-    _id: string;
-    name: string;
-    profileImage?: string;
-  };
-  createdAt: string;
+interface ScorecardGroup {
+  interviewType?: InterviewType;
+  interviewers: number;
+  competencies: CompetencySummary[];
 }
 
+// Ratings from before interview kits stored four fixed categories instead of a scorecard.
+// Their keys match the standard kit, so both aggregate together.
+const LEGACY_CATEGORIES: Array<{ key: 'technicalSkills' | 'communication' | 'culturalFit' | 'problemSolving'; name: string }> = [
+  { key: 'technicalSkills', name: 'Technical Skills' },
+  { key: 'communication', name: 'Communication' },
+  { key: 'culturalFit', name: 'Cultural Fit' },
+  { key: 'problemSolving', name: 'Problem Solving' }
+];
+
+const getRatingScores = (rating: InterviewRating): CompetencyScore[] => {
+  if (rating.scores && rating.scores.length > 0) return rating.scores;
+  return LEGACY_CATEGORIES
+    .filter(category => rating[category.key])
+    .map(category => ({ competency: category.key, name: category.name, score: rating[category.key] as number }));
+};
+
+const getInterviewerName = (rating: InterviewRating) =>
+  typeof rating.interviewer === 'object' ? rating.interviewer.name : 'Interviewer';
+
+const roundScore = (value: number) => Math.round(value * 10) / 10;
+
 interface InterviewRatingsViewProps {
   open: boolean;
   onClose: () => void;
@@ -74,71 +86,42 @@ const InterviewRatingsView: React.FC<InterviewRatingsViewProps> = ({
     5: 'Excellent',
   };
 
-  // Calculate average ratings
-  const calculateAverages = () => {
-    console.log(`[CandidateRating] Calculating average ratings from ${ratings.length} ratings`);
-    
-    const sum = {
-      overall: 0,
-      technical: 0,
-      communication: 0,
-      cultural: 0,
-      problemSolving: 0
-    };
-    
-    const count = {
-      overall: 0,
-      technical: 0,
-      communication: 0,
-      cultural: 0,
-      problemSolving: 0
-    };
-    
+  const overallAverage = roundScore(ratings.reduce((sum, rating) => sum + rating.rating, 0) / ratings.length);
+
+  // Average each competency across interviewers, separately for each type of interview
+  const buildScorecardGroups = (): ScorecardGroup[] => {
+    console.log(`[CandidateRating] Aggregating competency scores from ${ratings.length} ratings`);
+
+    const groups: ScorecardGroup[] = [];
     ratings.forEach(rating => {
-      // Overall is required
-      sum.overall += rating.rating;
-      count.overall++;
-      
-      // Other categories are optional
-      if (rating.technicalSkills) {
-        sum.technical += rating.technicalSkills;
-        count.technical++;
-      }
-      
-      if (rating.communication) {
-        sum.communication += rating.communication;
-        count.communication++;
-      }
-      
-      if (rating.culturalFit) {
-        sum.cultural += rating.culturalFit;
-        count.cultural++;
-      }
-      
-      if (rating.problemSolving) {
-        sum.problemSolving += rating.problemSolving;
-        count.problemSolving++;
+      const scores = getRatingScores(rating);
+      if (scores.length === 0) return;
+
+      let group = groups.find(candidate => candidate.interviewType === rating.interviewType);
+      if (!group) {
+        group = { interviewType: rating.interviewType, interviewers: 0, competencies: [] };
+        groups.push(group);
       }
+      group.interviewers++;
+
+      scores.forEach(entry => {
+        let summary = group!.competencies.find(candidate => candidate.key === entry.competency);
+        if (!summary) {
+          summary = { key: entry.competency, name: entry.name || entry.competency, average: 0, scores: [] };
+          group!.competencies.push(summary);
+        }
+        summary.scores.push({ interviewer: getInterviewerName(rating), score: entry.score, notes: entry.notes });
+      });
     });
-    
-    const result = {
-      overall: count.overall ? Math.round((sum.overall / count.overall) * 10) / 10 : 0,
-      technical: count.technical ? Math.round((sum.technical / count.technical) * 10) / 10 : null,
-      communication: count.communication ? Math.round((sum.communication / count.communication) * 10) / 10 : null,
-      cultural: count.cultural ? Math.round((sum.cultural / count.cultural) * 10) / 10 : null,
-      problemSolving: count.problemSolving ? Math.round((sum.problemSolving / count.problemSolving) * 10) / 10 : null
-    };
-    
-    console.log(`[CandidateRating] Average ratings calculated - Overall: ${result.overall}`);
-    if (result.technical) console.log(`[CandidateRating] Technical: ${result.technical}`);
-    if (result.communication) console.log(`[CandidateRating] Communication: ${result.communication}`);
-    if (result.cultural) console.log(`[CandidateRating] Cultural Fit: ${result.cultural}`);
-    if (result.problemSolving) console.log(`[CandidateRating] Problem Solving: ${result.problemSolving}`);
-    
-    return result;
+
+    groups.forEach(group => group.competencies.forEach(summary => {
+      summary.average = roundScore(summary.scores.reduce((sum, entry) => sum + entry.score, 0) / summary.scores.length);
+    }));
+    console.log(`[CandidateRating] Average ratings calculated - Overall: ${overallAverage}, ${groups.length} scorecard group(s)`);
+    return groups;
   };
 
-  const averages = calculateAverages();
+  const scorecardGroups = buildScorecardGroups();
 
   // Collect all strengths and weaknesses
   const aggregateStrengthsAndWeaknesses = () => {
@@ -196,61 +179,71 @@ const InterviewRatingsView: React.FC<InterviewRatingsViewProps> = ({
             <Paper elevation={0} variant="outlined" sx={{ p: 2, mb: 3 }}>
               <Typography variant="h6" gutterBottom>Rating Summary</Typography>
               
-              <Grid container spacing={2}>
-                <Grid sx={{ gridColumn: 'span 12', sm: 'span 6' }}>
-                  <Box sx={{ mb: 2 }}>
-                    <Typography variant="subtitle2" color="text.secondary">
-                      Overall Rating
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Overall Rating
+                </Typography>
+                <Box display="flex" alignItems="center">
+                  <Rating
+                    value={overallAverage}
+                    precision={0.5}
+                    readOnly
+                    size="large"
+                    emptyIcon={<StarIcon style={{ opacity: 0.55 }} fontSize="inherit" />}
+                  />
+                  <Typography variant="h5" sx={{ ml: 1.5, fontWeight: 'bold' }}>
+                    {overallAverage.toFixed(1)}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                    ({ratings.length} {ratings.length === 1 ? 'rating' : 'ratings'})
+                  </Typography>
+                </Box>
+              </Box>
+
+              {/* Competency scores per interview type */}
+              {scorecardGroups.map(group => (
+                <Box key={group.interviewType || 'general'} sx={{ mt: 2 }}>
+                  <Typography variant="subtitle1" gutterBottom>
+                    {group.interviewType ? `${INTERVIEW_TYPE_LABELS[group.interviewType]} Interview` : 'General Ratings'}
+                    <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                      ({group.interviewers} {group.interviewers === 1 ? 'interviewer' : 'interviewers'})
                     </Typography>
-                    <Box display="flex" alignItems="center">
-                      <Rating
-                        value={averages.overall}
-                        precision={0.5}
-                        readOnly
-                        size="large"
-                        emptyIcon={<StarIcon style={{ opacity: 0.55 }} fontSize="inherit" />}
-                      />
-                      <Typography variant="h5" sx={{ ml: 1.5, fontWeight: 'bold' }}>
-                        {averages.overall.toFixed(1)}
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
-                        ({ratings.length} {ratings.length === 1 ? 'rating' : 'ratings'})
-                      </Typography>
-                    </Box>
-                  </Box>
-                </Grid>
-                
-                {/* Category Ratings */}
-                <Grid sx={{ gridColumn: 'span 12', sm: 'span 6' }}>
-                  <Grid container spacing={1}>
-                    {[
-                      { name: 'Technical Skills', value: averages.technical },
-                      { name: 'Communication', value: averages.communication },
-                      { name: 'Cultural Fit', value: averages.cultural },
-                      { name: 'Problem Solving', value: averages.problemSolving }
-                    ].map((category: RatingCategory) => (
-                      category.value ? (
-                        <Grid sx={{ gridColumn: 'span 6' }} key={category.name}>
-                          <Typography variant="body2" color="text.secondary">
-                            {category.name}
-                          </Typography>
-                          <Box display="flex" alignItems="center">
-                            <Rating
-                              value={category.value}
-                              precision={0.5}
-                              readOnly
-                              size="small"
-                            />
-                            <Typography variant="body2" sx={{ ml: 1 }}>
-                              {category.value.toFixed(1)}
-                            </Typography>
-                          </Box>
-                        </Grid>
-                      ) : null
-                    ))}
-                  </Grid>
-                </Grid>
-              </Grid>
+                  </Typography>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Competency</TableCell>
+                        <TableCell>Average</TableCell>
+                        <TableCell>By Interviewer</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {group.competencies.map(summary => (
+                        <TableRow key={summary.key}>
+                          <TableCell>{summary.name}</TableCell>
+                          <TableCell>
+                            <Box display="flex" alignItems="center">
+                              <Rating value={summary.average} precision={0.5} readOnly size="small" />
+                              <Typography variant="body2" sx={{ ml: 1 }}>
+                                {summary.average.toFixed(1)}
+                              </Typography>
+                            </Box>
+                          </TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                              {summary.scores.map((entry, index) => (
+                                <Tooltip key={index} title={entry.notes || 'No notes'}>
+                                  <Chip size="small" variant="outlined" label={`${entry.interviewer}: ${entry.score}`} />
+                                </Tooltip>
+                              ))}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              ))}
             </Paper>
           </Grid>
           
@@ -308,16 +301,16 @@ const InterviewRatingsView: React.FC<InterviewRatingsViewProps> = ({
                   <Paper elevation={0} variant="outlined" sx={{ p: 2, mb: 2 }}>
                     <Box display="flex" alignItems="flex-start">
                       <Avatar 
-                        src={rating.interviewer.profileImage} 
+                        src={typeof rating.interviewer === 'object' ? rating.interviewer.profileImage : undefined} 
                         sx={{ mr: 2 }}
                       >
-                        {getInitials(rating.interviewer.name)}
+                        {getInitials(getInterviewerName(rating))}
                       </Avatar>
                       
                       <Box flex={1}>
                         <Box display="flex" justifyContent="space-between" alignItems="center">
                           <Typography variant="subtitle1">
-                            {rating.interviewer.name}
+                            {getInterviewerName(rating)}
                           </Typography>
                           
                           <Box display="flex" alignItems="center">
@@ -333,7 +326,17 @@ const InterviewRatingsView: React.FC<InterviewRatingsViewProps> = ({
                           <Typography variant="body2" sx={{ ml: 1 }}>
                             {labels[rating.rating] || ''}
                           </Typography>
+                          {rating.interviewType && (
+                            <Chip size="small" label={INTERVIEW_TYPE_LABELS[rating.interviewType]} sx={{ ml: 1 }} />
+                          )}
                         </Box>
+
+                        {getRatingScores(rating).map(entry => (
+                          <Typography variant="body2" key={entry.competency}>
+                            <strong>{entry.name || entry.competency}:</strong> {entry.score}/5
+                            {entry.notes ? ` - ${entry.notes}` : ''}
+                          </Typography>
+                        ))}
                         
                         <Typography variant="body2" sx={{ mt: 1, fontStyle: 'italic' }}>
                           <FormatQuoteIcon fontSize="small" sx={{ verticalAlign: 'middle', mr: 0.5 }} />
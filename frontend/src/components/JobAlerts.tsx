@@ -17,7 +17,9 @@ import LocationOnIcon from '@mui/icons-material/LocationOn';
 import WorkIcon from '@mui/icons-material/Work';
 
 import { useAuth } from '../context/AuthContext';
-import { jobAlertService } from '../services/api'; 
+import { jobAlertService, feedService } from '../services/api'; 
+import FeedSubscribeButton from './common/FeedSubscribeButton';
+import SkillsInput from './common/SkillsInput';
 import api from '../services/api'; // Ensure api is imported
 import { format } from 'date-fns';
 import { AxiosResponse } from 'axios'; // Add AxiosResponse import back
@@ -37,6 +39,7 @@ interface JobAlert {
   frequency: string;
   createdAt: string;
   lastSent: string | null;
+  feedToken?: string;
 }
 
 const JobAlerts: React.FC = () => {
@@ -380,6 +383,12 @@ const JobAlerts: React.FC = () => {
                         }
                         label="Active"
                       />
+                      {alert.feedToken && (
+                        <FeedSubscribeButton
+                          compact
+                          getUrl={(feedFormat) => feedService.getAlertFeedUrl(alert.feedToken as string, feedFormat)}
+                        />
+                      )}
                       <IconButton onClick={() => handleOpenDialog(alert)} color="primary" sx={{ ml: 1 }}>
                         <EditIcon />
                       </IconButton>
@@ -420,17 +429,16 @@ const JobAlerts: React.FC = () => {
               </Box>
               
               <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }}>
-                <TextField
-                  margin="dense"
-                  label="Keywords"
-                  value={keywords}
-                  onChange={e => setKeywords(e.target.value)}
-                  fullWidth
-                  variant="outlined"
-                  placeholder="E.g., javascript, react, frontend"
-                  helperText="Separate keywords with commas"
-                  required
-                />
+                <Box sx={{ mt: 1, mb: 0.5 }}>
+                  <SkillsInput
+                    value={keywords ? keywords.split(',').map(k => k.trim()).filter(Boolean) : []}
+                    onChange={(skills) => setKeywords(skills.join(', '))}
+                    label="Keywords"
+                    placeholder="E.g., javascript, react, frontend"
+                    helperText="Skills or other keywords; press Enter after each one"
+                    suggestRelated
+                  />
+                </Box>
               </Box>
               
               <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }}>
@@ -11,20 +11,35 @@ import {
     Alert,
     CircularProgress,
     Container,
-    Divider
+    Divider,
+    MenuItem
 } from '@mui/material';
-import { jobService, applicationService } from '../services/api';
-import { Job } from '../types';
+import { jobService, applicationService, resumeLibraryService } from '../services/api';
+import { Job, ResumeDocument } from '../types';
+import ScreeningAnswerFields from './ScreeningAnswerFields';
+import GenerateResumeDialog from './GenerateResumeDialog';
+
+// Source select values for the documents that aren't picked from the library
+const RESUME_LINK = 'link';
+const WRITE_COVER_LETTER = 'write';
 
 const validationSchema = yup.object({
-    coverLetter: yup
-        .string()
-        .required('Cover letter is required')
-        .min(100, 'Cover letter must be at least 100 characters'),
-    resume: yup
-        .string()
-        .required('Resume is required')
-        .url('Please enter a valid URL')
+    coverLetterSource: yup.string(),
+    coverLetter: yup.string().when('coverLetterSource', {
+        is: (val: string) => val === WRITE_COVER_LETTER,
+        then: (schema) => schema
+            .required('Cover letter is required')
+            .min(100, 'Cover letter must be at least 100 characters'),
+        otherwise: (schema) => schema
+    }),
+    resumeSource: yup.string(),
+    resume: yup.string().when('resumeSource', {
+        is: (val: string) => val === RESUME_LINK,
+        then: (schema) => schema
+            .required('Resume is required')
+            .url('Please enter a valid URL'),
+        otherwise: (schema) => schema
+    })
 });
 
 const JobApplicationForm: React.FC = () => {
@@ -34,6 +49,10 @@ const JobApplicationForm: React.FC = () => {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string>('');
     const [job, setJob] = useState<Job | null>(null);
+    const [screeningAnswers, setScreeningAnswers] = useState<Record<string, string>>({});
+    const [screeningErrors, setScreeningErrors] = useState<Record<string, string>>({});
+    const [documents, setDocuments] = useState<ResumeDocument[]>([]);
+    const [generateOpen, setGenerateOpen] = useState(false);
 
     useEffect(() => {
         if (id) {
@@ -52,18 +71,45 @@ const JobApplicationForm: React.FC = () => {
         }
     };
 
+    const handleScreeningAnswer = (questionId: string, answer: string) => {
+        setScreeningAnswers(prev => ({ ...prev, [questionId]: answer }));
+        setScreeningErrors(prev => ({ ...prev, [questionId]: '' }));
+    };
+
+    // Required screening questions are checked here as well as on the server, so the form doesn't lose its place
+    const validateScreeningAnswers = (): boolean => {
+        const errors: Record<string, string> = {};
+        (job?.screeningQuestions || []).forEach(question => {
+            if (question.required && question._id && !screeningAnswers[question._id]?.trim()) {
+                errors[question._id] = 'This question is required';
+            }
+        });
+        setScreeningErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
     const formik = useFormik({
         initialValues: {
+            coverLetterSource: WRITE_COVER_LETTER,
             coverLetter: '',
+            resumeSource: RESUME_LINK,
             resume: ''
         },
         validationSchema: validationSchema,
         onSubmit: async (values) => {
-            if (!id) return;
+            if (!id || !validateScreeningAnswers()) return;
             setError('');
             setIsSubmitting(true);
+            const writingCoverLetter = values.coverLetterSource === WRITE_COVER_LETTER;
+            const linkingResume = values.resumeSource === RESUME_LINK;
             try {
-                await applicationService.applyForJob(id, values);
+                await applicationService.applyForJob(id, {
+                    coverLetter: writingCoverLetter ? values.coverLetter : undefined,
+                    coverLetterId: writingCoverLetter ? undefined : values.coverLetterSource,
+                    resume: linkingResume ? values.resume : undefined,
+                    resumeId: linkingResume ? undefined : values.resumeSource,
+                    screeningAnswers
+                });
                 navigate(`/jobs/${id}`);
             } catch (err: any) {
                 setError(err.response?.data?.message || 'Failed to submit application');
@@ -72,6 +118,26 @@ const JobApplicationForm: React.FC = () => {
         },
     });
 
+    // Preselect the default resume and cover letter; without a library the form falls back to a link and typed letter
+    useEffect(() => {
+        resumeLibraryService.getDocuments()
+            .then((library) => {
+                setDocuments(library);
+                const defaultResume = library.find(doc => doc.kind === 'resume' && doc.isDefault);
+                const defaultCoverLetter = library.find(doc => doc.kind === 'cover_letter' && doc.isDefault);
+                if (defaultResume) formik.setFieldValue('resumeSource', defaultResume._id);
+                if (defaultCoverLetter) formik.setFieldValue('coverLetterSource', defaultCoverLetter._id);
+            })
+            .catch(() => setDocuments([]));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Attach a resume generated from the profile straight away
+    const handleResumeGenerated = (document: ResumeDocument) => {
+        setDocuments(prev => [document, ...prev]);
+        formik.setFieldValue('resumeSource', document._id);
+    };
+
     if (loading) {
         return (
             <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -80,7 +146,8 @@ const JobApplicationForm: React.FC = () => {
         );
     }
 
-    if (error || !job) {
+    // Submit errors are shown above the form instead, so the applicant doesn't lose their answers
+    if (!job) {
         return (
             <Alert severity="error" sx={{ mt: 2 }}>
                 {error || 'Job not found'}
@@ -88,6 +155,9 @@ const JobApplicationForm: React.FC = () => {
         );
     }
 
+    const savedResumes = documents.filter(doc => doc.kind === 'resume');
+    const savedCoverLetters = documents.filter(doc => doc.kind === 'cover_letter');
+
     return (
         <Container maxWidth="md" sx={{ mt: 4, mb: 8 }}>
             <Paper
@@ -112,34 +182,89 @@ const JobApplicationForm: React.FC = () => {
                 <form onSubmit={formik.handleSubmit}>
                     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
                         <Box>
-                            <TextField
-                                fullWidth
-                                id="coverLetter"
-                                name="coverLetter"
-                                label="Cover Letter"
-                                multiline
-                                rows={8}
-                                value={formik.values.coverLetter}
-                                onChange={formik.handleChange}
-                                error={formik.touched.coverLetter && Boolean(formik.errors.coverLetter)}
-                                helperText={formik.touched.coverLetter && formik.errors.coverLetter}
-                            />
+                            {savedCoverLetters.length > 0 && (
+                                <TextField
+                                    select
+                                    fullWidth
+                                    id="coverLetterSource"
+                                    name="coverLetterSource"
+                                    label="Cover Letter"
+                                    value={formik.values.coverLetterSource}
+                                    onChange={formik.handleChange}
+                                    sx={{ mb: 2 }}
+                                >
+                                    <MenuItem value={WRITE_COVER_LETTER}>Write a cover letter</MenuItem>
+                                    {savedCoverLetters.map(doc => (
+                                        <MenuItem key={doc._id} value={doc._id}>
+                                            {doc.name}{doc.isDefault ? ' (default)' : ''}
+                                        </MenuItem>
+                                    ))}
+                                </TextField>
+                            )}
+                            {formik.values.coverLetterSource === WRITE_COVER_LETTER && (
+                                <TextField
+                                    fullWidth
+                                    id="coverLetter"
+                                    name="coverLetter"
+                                    label={savedCoverLetters.length > 0 ? 'Your Cover Letter' : 'Cover Letter'}
+                                    multiline
+                                    rows={8}
+                                    value={formik.values.coverLetter}
+                                    onChange={formik.handleChange}
+                                    error={formik.touched.coverLetter && Boolean(formik.errors.coverLetter)}
+                                    helperText={formik.touched.coverLetter && formik.errors.coverLetter}
+                                />
+                            )}
                         </Box>
                         <Box>
                             <Typography variant="subtitle1" gutterBottom>
-                                Resume URL
+                                Resume
                             </Typography>
-                            <TextField
-                                fullWidth
-                                id="resume"
-                                name="resume"
-                                label="Resume URL"
-                                value={formik.values.resume}
-                                onChange={formik.handleChange}
-                                error={formik.touched.resume && Boolean(formik.errors.resume)}
-                                helperText={formik.touched.resume && formik.errors.resume}
-                            />
+                            {savedResumes.length > 0 ? (
+                                <TextField
+                                    select
+                                    fullWidth
+                                    id="resumeSource"
+                                    name="resumeSource"
+                                    label="Resume"
+                                    value={formik.values.resumeSource}
+                                    onChange={formik.handleChange}
+                                    sx={{ mb: 2 }}
+                                >
+                                    {savedResumes.map(doc => (
+                                        <MenuItem key={doc._id} value={doc._id}>
+                                            {doc.name}{doc.isDefault ? ' (default)' : ''}
+                                        </MenuItem>
+                                    ))}
+                                    <MenuItem value={RESUME_LINK}>Use a link instead</MenuItem>
+                                </TextField>
+                            ) : (
+                                <Typography variant="body2" color="textSecondary" gutterBottom>
+                                    Save resumes to the library on your profile to attach them here.
+                                </Typography>
+                            )}
+                            {formik.values.resumeSource === RESUME_LINK && (
+                                <TextField
+                                    fullWidth
+                                    id="resume"
+                                    name="resume"
+                                    label="Resume URL"
+                                    value={formik.values.resume}
+                                    onChange={formik.handleChange}
+                                    error={formik.touched.resume && Boolean(formik.errors.resume)}
+                                    helperText={formik.touched.resume && formik.errors.resume}
+                                />
+                            )}
+                            <Button size="small" sx={{ mt: 1 }} onClick={() => setGenerateOpen(true)}>
+                                Generate a resume from my profile
+                            </Button>
                         </Box>
+                        <ScreeningAnswerFields
+                            questions={job.screeningQuestions || []}
+                            answers={screeningAnswers}
+                            errors={screeningErrors}
+                            onChange={handleScreeningAnswer}
+                        />
                     </Box>
 
                     <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
@@ -162,6 +287,11 @@ const JobApplicationForm: React.FC = () => {
                     </Box>
                 </form>
             </Paper>
+            <GenerateResumeDialog
+                open={generateOpen}
+                onClose={() => setGenerateOpen(false)}
+                onSaved={handleResumeGenerated}
+            />
         </Container>
     );
 };
@@ -32,10 +32,13 @@ import {
     DialogActions,
     List,
     ListItem,
-    ListItemText
+    ListItemText,
+    ToggleButton,
+    ToggleButtonGroup,
+    Checkbox
 } from '@mui/material';
-import { jobService, applicationService } from '../services/api';
-import { Job, JobApplication } from '../types';
+import { jobService, applicationService, offerService, getFileUrl } from '../services/api';
+import { Job, JobApplication, JobPipeline, PipelineStage, BulkApplicationResult, InterviewRating, Offer, OFFER_STATUS_LABELS } from '../types';
 import { useAuth } from '../context/AuthContext';
 // Import icons
 import BarChartIcon from '@mui/icons-material/BarChart';
@@ -48,12 +51,25 @@ import LeaderboardIcon from '@mui/icons-material/Leaderboard';
 import StarIcon from '@mui/icons-material/Star';
 import RateReviewIcon from '@mui/icons-material/RateReview';
 import AssessmentIcon from '@mui/icons-material/Assessment';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import ViewListIcon from '@mui/icons-material/ViewList';
+import ViewKanbanIcon from '@mui/icons-material/ViewKanban';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
 // Import components
 import CandidateAnalysis from './CandidateAnalysis';
 import CandidateRankingVisual from './CandidateRankingVisual';
 import ScheduleInterviewDialog from './ScheduleInterviewDialog';
 import InterviewRatingDialog from './InterviewRatingDialog';
 import InterviewRatingsView from './InterviewRatingsView';
+import PipelineStagesDialog from './PipelineStagesDialog';
+import InterviewKitsDialog from './InterviewKitsDialog';
+import OfferDialog from './OfferDialog';
+import ApplicationKanbanBoard from './ApplicationKanbanBoard';
+import BulkApplicationActionsDialog from './BulkApplicationActionsDialog';
 
 interface AIScreeningResult {
     jobTitle: string;
@@ -68,6 +84,8 @@ interface AIScreeningResult {
             title?: string;
             skills?: string[];
             totalYearsExperience?: number;
+            // Anonymized under blind review
+            blind?: boolean;
         };
         matchScore: number;
         strengths?: string[];
@@ -105,7 +123,7 @@ const JobApplications: React.FC = () => {
     const [searchTerm, setSearchTerm] = useState('');
     const [minMatchScore, setMinMatchScore] = useState(0);
     const [sortOption, setSortOption] = useState('matchScore');
-    const [useFallback, setUseFallback] = useState(false);
+    const [useAI, setUseAI] = useState(false);
     const [showVisualRanking, setShowVisualRanking] = useState(false);
     
     // Interview rating state
@@ -113,19 +131,42 @@ const JobApplications: React.FC = () => {
     const [ratingsViewOpen, setRatingsViewOpen] = useState<boolean>(false);
     const [applicationForRating, setApplicationForRating] = useState<string | null>(null);
     const [candidateForRating, setCandidateForRating] = useState<string | null>(null);
-    const [interviewRatings, setInterviewRatings] = useState<any[]>([]);
+    const [interviewRatings, setInterviewRatings] = useState<InterviewRating[]>([]);
+
+    // Screening question answers and knockout filtering
+    const [knockoutFilter, setKnockoutFilter] = useState<'all' | 'passed' | 'failed'>('all');
+    const [answersApplication, setAnswersApplication] = useState<JobApplication | null>(null);
+
+    // Hiring pipeline stages for this job
+    const [pipeline, setPipeline] = useState<JobPipeline | null>(null);
+    const [pipelineDialogOpen, setPipelineDialogOpen] = useState(false);
+    const [kitsDialogOpen, setKitsDialogOpen] = useState(false);
+    // Offers for this job, newest first
+    const [offers, setOffers] = useState<Offer[]>([]);
+    const [offerApplication, setOfferApplication] = useState<JobApplication | null>(null);
+    const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+
+    // Applicants selected for bulk actions
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [bulkDialogOpen, setBulkDialogOpen] = useState(false);
     
     const fetchJobAndApplications = useCallback(async () => {
         if (!id) return;
         setLoading(true);
         setError('');
         try {
-            const [jobData, applicationsData] = await Promise.all([
+            const [jobData, applicationsData, pipelineData] = await Promise.all([
                 jobService.getJobById(id),
-                applicationService.getJobApplications(id)
+                applicationService.getJobApplications(id),
+                jobService.getPipeline(id)
             ]);
             setJob(jobData);
             setApplications(applicationsData);
+            setPipeline(pipelineData);
+            // Offers are secondary, so a failure here shouldn't block the page
+            offerService.getJobOffers(id)
+                .then(setOffers)
+                .catch((err: any) => console.error('Error fetching offers:', err));
         } catch (err: any) {
             console.error('Error fetching job applications:', err);
             setError(err.response?.data?.message || 'Failed to load job applications');
@@ -138,11 +179,35 @@ const JobApplications: React.FC = () => {
         fetchJobAndApplications();
     }, [fetchJobAndApplications]);
 
-    const handleStatusChange = async (applicationId: string, status: string) => {
+    const loadPipeline = useCallback(() => jobService.getPipeline(id as string), [id]);
+    const savePipeline = useCallback((stages: PipelineStage[]) => jobService.updatePipeline(id as string, stages), [id]);
+
+    // Stage an application is in; ones whose stage was removed show under the first stage of their status
+    const getStageKey = (applicationId: string, status: string) => {
+        const application = applications.find(app => app._id === applicationId);
+        const stages = pipeline?.stages || [];
+        const current = stages.find(stage => stage.key === application?.stage)
+            || stages.find(stage => stage.category === status);
+        return current?.key || status;
+    };
+
+    const stageMenuItems = (pipeline?.stages || []).map(stage => (
+        <MenuItem key={stage.key} value={stage.key}>{stage.name}</MenuItem>
+    ));
+
+    const handleStatusChange = async (applicationId: string, stage: string) => {
         try {
-            const updatedApplication = await applicationService.updateApplicationStatus(applicationId, status);
+            const updatedApplication = await applicationService.updateApplicationStatus(applicationId, stage);
+            const status = updatedApplication.status;
+            // The response isn't populated, so keep the candidate details we already have
+            const previous = applications.find(app => app._id === applicationId);
+            if (previous?.blind && updatedApplication.identityRevealedAt) {
+                // Reaching the interview stage reveals the candidate, so load their details
+                await fetchJobAndApplications();
+                return;
+            }
             setApplications(prev => 
-                prev.map(app => app._id === applicationId ? updatedApplication : app)
+                prev.map(app => app._id === applicationId ? { ...app, ...updatedApplication, job: app.job, jobSeeker: app.jobSeeker } : app)
             );
             
             if (screeningResults) {
@@ -165,13 +230,50 @@ const JobApplications: React.FC = () => {
         }
     };
 
+    const getLatestOffer = (applicationId: string) => offers.find(offer => offer.application === applicationId);
+
+    const renderOfferChip = (applicationId: string) => {
+        const offer = getLatestOffer(applicationId);
+        if (!offer) return null;
+        return (
+            <Chip
+                size="small"
+                color={offer.status === 'accepted' ? 'success' : 'primary'}
+                variant="outlined"
+                icon={<LocalOfferIcon />}
+                label={`Offer: ${OFFER_STATUS_LABELS[offer.status]}`}
+            />
+        );
+    };
+
+    const handleOfferSaved = (saved: Offer) => {
+        setOffers(prev => [saved, ...prev.filter(offer => offer._id !== saved._id)]);
+        setSuccessMessage(saved.status === 'draft'
+            ? 'Offer saved as a draft'
+            : saved.status === 'withdrawn' ? 'Offer withdrawn' : 'Offer sent to the candidate');
+        setTimeout(() => setSuccessMessage(null), 5000);
+    };
+
+    const handleBlindReviewChange = async (enabled: boolean) => {
+        if (!job) return;
+        try {
+            const blindReview = await jobService.setBlindReview(job._id, enabled);
+            setJob({ ...job, blindReview });
+            setScreeningResults(null);
+            await fetchJobAndApplications();
+        } catch (err: any) {
+            console.error('Error updating blind review:', err);
+            setError(err.response?.data?.message || 'Failed to update blind review');
+        }
+    };
+
     // Add a handler for messaging the job seeker
     const handleMessageJobSeeker = (userId: string) => {
         console.log(`[JobApplications] Employer initiating chat with Job Seeker ID: ${userId}`);
         navigate(`/messages/${userId}`);
     };
 
-    // Screen all candidates using AI
+    // Rank all candidates with the local matching engine, optionally refined by AI
     const handleScreenCandidates = async () => {
         if (!id) return;
         
@@ -179,8 +281,7 @@ const JobApplications: React.FC = () => {
             setIsScreening(true);
             setError('');
             
-            // Pass the useFallback parameter if needed
-            const queryParams = useFallback ? '?useFallback=true' : '';
+            const queryParams = useAI ? '?ai=true' : '';
             const data = await applicationService.screenCandidates(id, queryParams);
             setScreeningResults(data);
             
@@ -243,6 +344,15 @@ const JobApplications: React.FC = () => {
         setTabValue(newValue);
     };
     
+    const hasKnockoutQuestions = Boolean(job?.screeningQuestions?.some(question => question.knockout));
+
+    const matchesKnockoutFilter = (application?: JobApplication) => {
+        if (knockoutFilter === 'all' || !application) return true;
+        return knockoutFilter === 'failed' ? Boolean(application.failedKnockout) : !application.failedKnockout;
+    };
+
+    const findApplication = (applicationId: string) => applications.find(app => app._id === applicationId);
+
     // Filter and sort candidates
     const getFilteredCandidates = () => {
         if (!screeningResults) return [];
@@ -251,7 +361,8 @@ const JobApplications: React.FC = () => {
             // Filter by search term (using optional chaining for safety)
             (candidate.candidate?.name?.toLowerCase() ?? '').includes(searchTerm.toLowerCase()) &&
             // Filter by minimum match score
-            candidate.matchScore >= minMatchScore
+            candidate.matchScore >= minMatchScore &&
+            matchesKnockoutFilter(findApplication(candidate.applicationId))
         );
         
         // Sort candidates
@@ -318,6 +429,45 @@ const JobApplications: React.FC = () => {
         }
     }));
 
+    const toggleSelected = (applicationId: string) => {
+        setSelectedIds(prev => prev.includes(applicationId)
+            ? prev.filter(selectedId => selectedId !== applicationId)
+            : [...prev, applicationId]);
+    };
+
+    const handleBulkCompleted = (result: BulkApplicationResult) => {
+        const parts = [`${result.updated} application(s) updated`];
+        if (result.messaged > 0) parts.push(`${result.messaged} candidate(s) messaged`);
+        if (result.messageFailures.length > 0) parts.push(`${result.messageFailures.length} message(s) could not be sent`);
+        if (result.messageSkipped > 0) parts.push(`${result.messageSkipped} anonymous candidate(s) not messaged`);
+        setSuccessMessage(parts.join(', '));
+        setTimeout(() => setSuccessMessage(null), 5000);
+        setSelectedIds([]);
+        fetchJobAndApplications();
+    };
+
+    // Match percentages for the board cards, once candidates have been ranked
+    const matchScores = screeningResults?.candidates.reduce<Record<string, number>>((scores, candidate) => {
+        scores[candidate.applicationId] = candidate.matchScore;
+        return scores;
+    }, {});
+
+    // Shown above both the plain application list and the AI-ranked list
+    const knockoutFilterControl = hasKnockoutQuestions && (
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Knockout Questions</InputLabel>
+            <Select
+                value={knockoutFilter}
+                label="Knockout Questions"
+                onChange={(e) => setKnockoutFilter(e.target.value as 'all' | 'passed' | 'failed')}
+            >
+                <MenuItem value="all">All applicants</MenuItem>
+                <MenuItem value="passed">Passed</MenuItem>
+                <MenuItem value="failed">Failed</MenuItem>
+            </Select>
+        </FormControl>
+    );
+
     if (loading) {
         return (
             <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -334,7 +484,9 @@ const JobApplications: React.FC = () => {
         );
     }
 
-    if (!user || user.type !== 'employer' || (typeof job.employer === 'string' ? job.employer !== user.id : job.employer._id !== user.id)) {
+    const employerId = typeof job.employer === 'string' ? job.employer : job.employer._id;
+    const isTeamJob = Boolean(user?.organization && job.organization === user.organization);
+    if (!user || user.type !== 'employer' || (employerId !== user.id && !isTeamJob)) {
         return (
             <Alert severity="error" sx={{ mt: 2 }}>
                 You are not authorized to view these applications
@@ -366,19 +518,62 @@ const JobApplications: React.FC = () => {
                     <FormControlLabel
                         control={
                             <Switch
-                                checked={useFallback}
-                                onChange={(e) => setUseFallback(e.target.checked)}
+                                checked={useAI}
+                                onChange={(e) => setUseAI(e.target.checked)}
                                 color="primary"
                             />
                         }
-                        label="Use fast scoring (no AI)"
+                        label="Refine with AI analysis"
                         sx={{ ml: 1 }}
                     />
+
+                    <Tooltip title="Hide names, contact details and schools until a candidate reaches the interview stage">
+                        <FormControlLabel
+                            control={
+                                <Switch
+                                    checked={Boolean(job.blindReview)}
+                                    onChange={(e) => handleBlindReviewChange(e.target.checked)}
+                                    color="primary"
+                                />
+                            }
+                            label="Blind review"
+                        />
+                    </Tooltip>
                     
+                    <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={viewMode}
+                        onChange={(event, mode) => mode && setViewMode(mode)}
+                        sx={{ ml: 'auto' }}
+                    >
+                        <ToggleButton value="list" title="List View">
+                            <ViewListIcon />
+                        </ToggleButton>
+                        <ToggleButton value="board" title="Board View">
+                            <ViewKanbanIcon />
+                        </ToggleButton>
+                    </ToggleButtonGroup>
+
+                    <Button
+                        variant="outlined"
+                        startIcon={<AccountTreeIcon />}
+                        onClick={() => setPipelineDialogOpen(true)}
+                    >
+                        Pipeline Stages
+                    </Button>
+
+                    <Button
+                        variant="outlined"
+                        startIcon={<FactCheckIcon />}
+                        onClick={() => setKitsDialogOpen(true)}
+                    >
+                        Interview Kits
+                    </Button>
+
                     <Button
                         variant="outlined"
                         onClick={() => navigate(`/jobs/${job._id}`)}
-                        sx={{ ml: 'auto' }}
                     >
                         View Job Post
                     </Button>
@@ -394,18 +589,93 @@ const JobApplications: React.FC = () => {
                 )}
             </Box>
 
+            {viewMode === 'board' && pipeline && applications.length > 0 && (
+                <Box mb={3}>
+                    <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                        <Typography variant="h6" gutterBottom>
+                            Pipeline Board
+                        </Typography>
+                        {knockoutFilterControl}
+                    </Box>
+                    <ApplicationKanbanBoard
+                        applications={applications.filter(matchesKnockoutFilter)}
+                        stages={pipeline.stages}
+                        getStageKey={(app) => getStageKey(app._id, app.status)}
+                        matchScores={matchScores}
+                        onMoveApplication={handleStatusChange}
+                    />
+                </Box>
+            )}
+
+            {viewMode === 'list' && applications.length > 0 && (
+                <Paper variant="outlined" sx={{ mb: 2, px: 2, py: 1, display: 'flex', alignItems: 'center', gap: 2 }}>
+                    <FormControlLabel
+                        control={
+                            <Checkbox
+                                checked={selectedIds.length > 0 && applications.filter(matchesKnockoutFilter).every(app => selectedIds.includes(app._id))}
+                                indeterminate={selectedIds.length > 0 && !applications.filter(matchesKnockoutFilter).every(app => selectedIds.includes(app._id))}
+                                onChange={(e) => setSelectedIds(e.target.checked ? applications.filter(matchesKnockoutFilter).map(app => app._id) : [])}
+                            />
+                        }
+                        label={selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+                    />
+                    <Button
+                        variant="contained"
+                        size="small"
+                        disabled={selectedIds.length === 0 || !pipeline}
+                        onClick={() => setBulkDialogOpen(true)}
+                    >
+                        Bulk Actions
+                    </Button>
+                    {selectedIds.length > 0 && (
+                        <Button size="small" onClick={() => setSelectedIds([])}>
+                            Clear Selection
+                        </Button>
+                    )}
+                </Paper>
+            )}
+
             {/* --- START: Display basic application list before screening --- */}
-            {!screeningResults && applications.length > 0 && (
+            {viewMode === 'list' && !screeningResults && applications.length > 0 && (
                 <Box mb={3}>
-                    <Typography variant="h6" gutterBottom>
-                        Received Applications
-                    </Typography>
+                    <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                        <Typography variant="h6" gutterBottom>
+                            Received Applications
+                        </Typography>
+                        {knockoutFilterControl}
+                    </Box>
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', margin: theme => theme.spacing(-1) }}>
-                        {applications.map((app) => (
+                        {applications.filter(matchesKnockoutFilter).map((app) => (
                             <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }} key={app._id}>
                                 <Card variant="outlined">
                                     <CardContent>
-                                        <Typography variant="h6">{app.jobSeeker.name}</Typography>
+                                        <Box display="flex" justifyContent="space-between" alignItems="center">
+                                            <Box display="flex" alignItems="center">
+                                                <Checkbox
+                                                    size="small"
+                                                    checked={selectedIds.includes(app._id)}
+                                                    onChange={() => toggleSelected(app._id)}
+                                                    sx={{ ml: -1 }}
+                                                />
+                                                <Typography variant="h6">{app.jobSeeker.name}</Typography>
+                                            </Box>
+                                            <Box display="flex" gap={0.5}>
+                                                {app.blind && (
+                                                    <Chip size="small" icon={<VisibilityOffIcon />} label="Anonymized" />
+                                                )}
+                                                {renderOfferChip(app._id)}
+                                                {app.failedKnockout && (
+                                                    <Chip size="small" color="error" variant="outlined" label="Failed knockout" />
+                                                )}
+                                            </Box>
+                                        </Box>
+                                        {app.tags && app.tags.length > 0 && (
+                                            <Box display="flex" flexWrap="wrap" gap={0.5} mb={1}>
+                                                {app.tags.map(tag => (
+                                                    <Chip key={tag} size="small" variant="outlined" label={tag} />
+                                                ))}
+                                            </Box>
+                                        )}
                                         <Typography variant="caption" color="text.secondary" display="block" gutterBottom>
                                             Applied {new Date(app.appliedAt).toLocaleDateString()}
                                             {app.jobSeeker.email && ` • ${app.jobSeeker.email}`}
@@ -433,35 +703,53 @@ const JobApplications: React.FC = () => {
                                                 View Cover Letter
                                             </Button>
                                         )}
+                                        {app.coverLetterFile && (
+                                            <Button
+                                                size="small"
+                                                href={getFileUrl(app.coverLetterFile.url)}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                sx={{ mt: 1, ml: app.resume || app.coverLetter ? 1 : 0 }}
+                                            >
+                                                Cover Letter File
+                                            </Button>
+                                        )}
+                                        {app.screeningAnswers && app.screeningAnswers.length > 0 && (
+                                            <Button
+                                                size="small"
+                                                onClick={() => setAnswersApplication(app)}
+                                                sx={{ mt: 1, ml: 1 }}
+                                            >
+                                                Screening Answers
+                                            </Button>
+                                        )}
 
                                         <Box mt={2} display="flex" justifyContent="space-between" alignItems="center">
-                                            <FormControl size="small" sx={{ minWidth: 120 }}>
-                                                <InputLabel>Status</InputLabel>
+                                            <FormControl size="small" sx={{ minWidth: 160 }}>
+                                                <InputLabel>Stage</InputLabel>
                                                 <Select
-                                                    value={app.status}
-                                                    label="Status"
+                                                    value={pipeline ? getStageKey(app._id, app.status) : ''}
+                                                    label="Stage"
                                                     onChange={(e) => handleStatusChange(app._id, e.target.value)}
                                                 >
-                                                    <MenuItem value="pending">Pending</MenuItem>
-                                                    <MenuItem value="reviewed">Reviewed</MenuItem>
-                                                    <MenuItem value="interview">Interview</MenuItem>
-                                                    <MenuItem value="accepted">Accepted</MenuItem>
-                                                    <MenuItem value="rejected">Rejected</MenuItem>
+                                                    {stageMenuItems}
                                                 </Select>
                                             </FormControl>
                                             
                                             <Box>
-                                                {/* Message Button */}
-                                                <Tooltip title="Message Candidate">
-                                                    <IconButton 
-                                                        color="primary" 
-                                                        size="small"
-                                                        onClick={() => handleMessageJobSeeker(app.jobSeeker._id)}
-                                                        sx={{ mr: 1 }}
-                                                    >
-                                                        <MessageIcon />
-                                                    </IconButton>
-                                                </Tooltip>
+                                                {/* Message Button (not while the candidate is anonymized) */}
+                                                {!app.blind && (
+                                                    <Tooltip title="Message Candidate">
+                                                        <IconButton 
+                                                            color="primary" 
+                                                            size="small"
+                                                            onClick={() => handleMessageJobSeeker(app.jobSeeker._id)}
+                                                            sx={{ mr: 1 }}
+                                                        >
+                                                            <MessageIcon />
+                                                        </IconButton>
+                                                    </Tooltip>
+                                                )}
                                                 
                                                 {/* Schedule Interview Button */}
                                                 <Tooltip title="Schedule Interview">
@@ -475,6 +763,20 @@ const JobApplications: React.FC = () => {
                                                     </IconButton>
                                                 </Tooltip>
                                                 
+                                                {/* Offer Button (once the candidate's identity is known) */}
+                                                {!app.blind && (
+                                                    <Tooltip title={getLatestOffer(app._id) ? 'Manage Offer' : 'Make Offer'}>
+                                                        <IconButton
+                                                            color="primary"
+                                                            size="small"
+                                                            onClick={() => setOfferApplication(app)}
+                                                            sx={{ mr: 1 }}
+                                                        >
+                                                            <LocalOfferIcon />
+                                                        </IconButton>
+                                                    </Tooltip>
+                                                )}
+
                                                 {/* Rate Candidate Button (for easier testing) */}
                                                 <Tooltip title="Rate Candidate">
                                                     <IconButton
@@ -510,7 +812,7 @@ const JobApplications: React.FC = () => {
             )}
             {/* --- END: Basic application list --- */}
 
-            {screeningResults && (
+            {viewMode === 'list' && screeningResults && (
                 <>
                     <Paper sx={{ mb: 3 }}>
                         <Tabs 
@@ -602,6 +904,8 @@ const JobApplications: React.FC = () => {
                                                 ),
                                             }}
                                         />
+
+                                        {knockoutFilterControl}
                                         
                                         <FormControl size="small" sx={{ minWidth: 150 }}>
                                             <InputLabel>Sort By</InputLabel>
@@ -684,7 +988,16 @@ const JobApplications: React.FC = () => {
                                                     </Box>
                                                     <CardContent>
                                                         <Box display="flex" justifyContent="space-between" alignItems="center">
+                                                            <Checkbox
+                                                                size="small"
+                                                                checked={selectedIds.includes(candidate.applicationId)}
+                                                                onChange={() => toggleSelected(candidate.applicationId)}
+                                                                sx={{ ml: -1 }}
+                                                            />
                                                             <Typography variant="h6">{candidate.candidate.name}</Typography>
+                                                            {findApplication(candidate.applicationId)?.failedKnockout && (
+                                                                <Chip size="small" color="error" variant="outlined" label="Failed knockout" sx={{ ml: 'auto', mr: 1 }} />
+                                                            )}
                                                             <Chip 
                                                                 label={`${candidate.matchScore}% Match`}
                                                                 sx={{ 
@@ -758,18 +1071,14 @@ const JobApplications: React.FC = () => {
                                                         </Box>
                                                         
                                                         <Box mt={2} display="flex" justifyContent="space-between" alignItems="center">
-                                                            <FormControl size="small" sx={{ minWidth: 120 }}>
-                                                                <InputLabel>Status</InputLabel>
+                                                            <FormControl size="small" sx={{ minWidth: 160 }}>
+                                                                <InputLabel>Stage</InputLabel>
                                                                 <Select
-                                                                    value={candidate.status}
-                                                                    label="Status"
+                                                                    value={pipeline ? getStageKey(candidate.applicationId, candidate.status) : ''}
+                                                                    label="Stage"
                                                                     onChange={(e) => handleStatusChange(candidate.applicationId, e.target.value)}
                                                                 >
-                                                                    <MenuItem value="pending">Pending</MenuItem>
-                                                                    <MenuItem value="reviewed">Reviewed</MenuItem>
-                                                                    <MenuItem value="interview">Interview</MenuItem>
-                                                                    <MenuItem value="accepted">Accepted</MenuItem>
-                                                                    <MenuItem value="rejected">Rejected</MenuItem>
+                                                                    {stageMenuItems}
                                                                 </Select>
                                                             </FormControl>
                                                             
@@ -784,16 +1093,18 @@ const JobApplications: React.FC = () => {
                                                                         <CalendarTodayIcon />
                                                                     </IconButton>
                                                                 </Tooltip>
-                                                                <Tooltip title="Message Candidate">
-                                                                    <IconButton 
-                                                                        color="primary" 
-                                                                        size="small"
-                                                                        onClick={() => handleMessageJobSeeker(candidate.candidate._id)}
-                                                                        sx={{ mr: 1 }}
-                                                                    >
-                                                                        <MessageIcon />
-                                                                    </IconButton>
-                                                                </Tooltip>
+                                                                {!candidate.candidate.blind && (
+                                                                    <Tooltip title="Message Candidate">
+                                                                        <IconButton 
+                                                                            color="primary" 
+                                                                            size="small"
+                                                                            onClick={() => handleMessageJobSeeker(candidate.candidate._id)}
+                                                                            sx={{ mr: 1 }}
+                                                                        >
+                                                                            <MessageIcon />
+                                                                        </IconButton>
+                                                                    </Tooltip>
+                                                                )}
                                                                 <Tooltip title="View Detailed Analysis">
                                                                     <IconButton 
                                                                         color="info" 
@@ -871,6 +1182,7 @@ const JobApplications: React.FC = () => {
                     applicationId={selectedApplicationId}
                     open={showAnalysisModal}
                     onClose={handleCloseAnalysisModal}
+                    candidateAlias={applications.find(app => app._id === selectedApplicationId)?.candidateAlias}
                 />
             )}
 
@@ -897,6 +1209,8 @@ const JobApplications: React.FC = () => {
                     onClose={() => setRatingDialogOpen(false)}
                     applicationId={applicationForRating}
                     candidateName={candidateForRating}
+                    jobId={job._id}
+                    interviewType={applications.find(app => app._id === applicationForRating)?.interview?.interviewType}
                     onRatingSubmitted={handleRatingSubmitted}
                 />
             )}
@@ -910,6 +1224,51 @@ const JobApplications: React.FC = () => {
                 />
             )}
 
+            <PipelineStagesDialog
+                open={pipelineDialogOpen}
+                onClose={() => setPipelineDialogOpen(false)}
+                title={`Pipeline Stages for ${job.title}`}
+                load={loadPipeline}
+                save={savePipeline}
+                reset={{ label: 'Use Company Default', from: 'job' }}
+                onSaved={setPipeline}
+            />
+
+            <InterviewKitsDialog
+                open={kitsDialogOpen}
+                onClose={() => setKitsDialogOpen(false)}
+                jobId={job._id}
+                jobTitle={job.title}
+                onSaved={() => {
+                    setSuccessMessage('Interview kits saved');
+                    setTimeout(() => setSuccessMessage(null), 5000);
+                }}
+            />
+
+            {offerApplication && (
+                <OfferDialog
+                    open={Boolean(offerApplication)}
+                    onClose={() => setOfferApplication(null)}
+                    job={job}
+                    application={offerApplication}
+                    offer={getLatestOffer(offerApplication._id)}
+                    onSaved={handleOfferSaved}
+                />
+            )}
+
+            {pipeline && (
+                <BulkApplicationActionsDialog
+                    open={bulkDialogOpen}
+                    onClose={() => setBulkDialogOpen(false)}
+                    jobId={job._id}
+                    jobTitle={job.title}
+                    companyName={user?.companyName || job.company}
+                    applications={applications.filter(app => selectedIds.includes(app._id))}
+                    stages={pipeline.stages}
+                    onCompleted={handleBulkCompleted}
+                />
+            )}
+
             {/* Cover Letter Display Dialog */} 
             <Dialog open={coverLetterModalOpen} onClose={handleCloseCoverLetter} maxWidth="md" fullWidth>
                 <DialogTitle>Cover Letter</DialogTitle>
@@ -922,6 +1281,33 @@ const JobApplications: React.FC = () => {
                     <Button onClick={handleCloseCoverLetter}>Close</Button>
                 </DialogActions>
             </Dialog>
+
+            {/* Screening Answers Dialog */}
+            <Dialog open={Boolean(answersApplication)} onClose={() => setAnswersApplication(null)} maxWidth="sm" fullWidth>
+                <DialogTitle>Screening Answers - {answersApplication?.jobSeeker.name}</DialogTitle>
+                <DialogContent dividers>
+                    <List dense>
+                        {answersApplication?.screeningAnswers?.map(answer => (
+                            <ListItem
+                                key={answer.questionId}
+                                secondaryAction={answer.knockout && (
+                                    answer.passed
+                                        ? <CheckCircleIcon color="success" titleAccess="Passed" />
+                                        : <CancelIcon color="error" titleAccess="Failed knockout" />
+                                )}
+                            >
+                                <ListItemText
+                                    primary={answer.question}
+                                    secondary={answer.type === 'yes_no' ? (answer.answer === 'yes' ? 'Yes' : 'No') : answer.answer}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setAnswersApplication(null)}>Close</Button>
+                </DialogActions>
+            </Dialog>
         </Box>
     );
 };
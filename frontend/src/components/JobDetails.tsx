@@ -34,8 +34,9 @@ import PeopleIcon from '@mui/icons-material/People';
 import LinkIcon from '@mui/icons-material/Link';
 import FlagIcon from '@mui/icons-material/Flag';
 import { jobService, bookmarkService, reportService } from '../services/api';
-import { Job } from '../types';
+import { Job, EXPERIENCE_LEVEL_LABELS, WORK_MODE_LABELS, JOB_STATUS_LABELS, SalaryPeriod } from '../types';
 import { useAuth } from '../context/AuthContext';
+import JsonLd from './common/JsonLd';
 
 const JobDetails: React.FC = () => {
     const { id } = useParams<{ id: string }>();
@@ -45,6 +46,7 @@ const JobDetails: React.FC = () => {
     const [job, setJob] = useState<Job | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string>('');
+    const [structuredData, setStructuredData] = useState<Record<string, unknown> | null>(null);
     
     // Report dialog state
     const [openReportDialog, setOpenReportDialog] = useState(false);
@@ -67,6 +69,11 @@ const JobDetails: React.FC = () => {
             const data = await jobService.getJobById(jobId);
             console.log(`[JobDetails] fetchJobDetails received data for ${jobId}:`, data);
             setJob(data);
+            if (data.status === 'open') {
+                fetchStructuredData(jobId);
+            } else {
+                setStructuredData(null);
+            }
         } catch (err: any) {
             setError(err.response?.data?.message || 'Failed to fetch job details');
         } finally {
@@ -74,6 +81,16 @@ const JobDetails: React.FC = () => {
         }
     };
 
+    // JSON-LD for search engines; the page works fine without it, so failures are only logged
+    const fetchStructuredData = async (jobId: string) => {
+        try {
+            setStructuredData(await jobService.getJobStructuredData(jobId));
+        } catch (err) {
+            console.error(`[JobDetails] Error fetching structured data for ${jobId}:`, err);
+            setStructuredData(null);
+        }
+    };
+
     const handleBookmark = async () => {
         if (!id || !job) return; // Need job state to exist
         if (!user) { navigate('/login'); return; } // Check user
@@ -170,12 +187,12 @@ const JobDetails: React.FC = () => {
         }
     };
 
-    const formatSalary = (min: number, max: number, currency: string) => {
+    const formatSalary = (min: number, max: number, currency: string, period: SalaryPeriod = 'year') => {
         const formatter = new Intl.NumberFormat('en-PK');
         if (currency === 'PKR') {
-            return `Rs. ${formatter.format(min)} - Rs. ${formatter.format(max)}`;
+            return `Rs. ${formatter.format(min)} - Rs. ${formatter.format(max)} / ${period}`;
         }
-        return `${currency} ${formatter.format(min)} - ${formatter.format(max)}`;
+        return `${currency} ${formatter.format(min)} - ${formatter.format(max)} / ${period}`;
     };
 
     if (loading) {
@@ -195,11 +212,15 @@ const JobDetails: React.FC = () => {
     }
 
     const isEmployer = user?.type === 'employer';
-    const isJobOwner = isEmployer && user.id === job.employer;
+    // Teammates manage the company's jobs too
+    const employerId = typeof job.employer === 'string' ? job.employer : job.employer._id;
+    const isJobOwner = isEmployer && (user.id === employerId
+        || Boolean(user.organization && job.organization === user.organization));
     const isJobSeeker = user?.type === 'jobseeker';
 
     return (
         <Box>
+            <JsonLd data={structuredData} />
             <Paper elevation={3} sx={{ p: 4 }}>
                 <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
                     <Box>
@@ -216,7 +237,7 @@ const JobDetails: React.FC = () => {
                                 variant="outlined"
                             />
                             <Chip
-                                label={formatSalary(job.salary.min, job.salary.max, job.salary.currency)}
+                                label={formatSalary(job.salary.min, job.salary.max, job.salary.currency, job.salary.period)}
                                 color="primary"
                                 variant="outlined"
                             />
@@ -225,6 +246,13 @@ const JobDetails: React.FC = () => {
                                 color="primary"
                                 variant="outlined"
                             />
+                            {job.workMode && (
+                                <Chip
+                                    label={WORK_MODE_LABELS[job.workMode]}
+                                    color="primary"
+                                    variant="outlined"
+                                />
+                            )}
                         </Box>
                     </Box>
                     <Box>
@@ -301,6 +329,19 @@ const JobDetails: React.FC = () => {
                         >
                             {job.requirements}
                         </Typography>
+
+                        {job.skills && job.skills.length > 0 && (
+                            <>
+                                <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+                                    Required Skills
+                                </Typography>
+                                <Box display="flex" flexWrap="wrap" gap={1}>
+                                    {job.skills.map(skill => (
+                                        <Chip key={skill} label={skill} size="small" />
+                                    ))}
+                                </Box>
+                            </>
+                        )}
                     </Box>
                     <Box sx={{ width: { xs: '100%', md: '33.33%' } }}>
                         <Card variant="outlined" sx={{ mb: 3 }}>
@@ -371,8 +412,18 @@ const JobDetails: React.FC = () => {
                                 <Typography>
                                     <strong>Location:</strong> {job.location}
                                 </Typography>
+                                {job.experienceLevel && (
+                                    <Typography>
+                                        <strong>Experience Level:</strong> {EXPERIENCE_LEVEL_LABELS[job.experienceLevel]}
+                                    </Typography>
+                                )}
+                                {job.workMode && (
+                                    <Typography>
+                                        <strong>Work Mode:</strong> {WORK_MODE_LABELS[job.workMode]}
+                                    </Typography>
+                                )}
                                 <Typography>
-                                    <strong>Salary:</strong> {formatSalary(job.salary.min, job.salary.max, job.salary.currency)}
+                                    <strong>Salary:</strong> {formatSalary(job.salary.min, job.salary.max, job.salary.currency, job.salary.period)}
                                 </Typography>
                                 <Typography>
                                     <strong>Posted:</strong> {new Date(job.createdAt).toLocaleDateString()}
@@ -382,7 +433,13 @@ const JobDetails: React.FC = () => {
                     </Box>
                 </Box>
 
-                {isJobSeeker && (
+                {isJobSeeker && job.status && job.status !== 'open' && (
+                    <Alert severity="info" sx={{ mt: 4 }}>
+                        This job is {JOB_STATUS_LABELS[job.status].toLowerCase()} and is not accepting applications.
+                    </Alert>
+                )}
+
+                {isJobSeeker && (!job.status || job.status === 'open') && (
                     <Box mt={4}>
                         <Button
                             variant="contained"
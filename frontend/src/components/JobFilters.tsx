@@ -11,28 +11,116 @@ import {
   Slider,
   InputAdornment,
   useTheme,
-  Typography
+  Typography,
+  FormHelperText,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  Divider
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import LocationOnIcon from '@mui/icons-material/LocationOn';
-import WorkIcon from '@mui/icons-material/Work';
 import FilterListIcon from '@mui/icons-material/FilterList';
+import SortIcon from '@mui/icons-material/Sort';
+import {
+  JobSortOption,
+  JobSearchFilters,
+  JobSearchFacets,
+  JobFacetBucket,
+  ExperienceLevel,
+  WorkMode,
+  EXPERIENCE_LEVEL_LABELS,
+  WORK_MODE_LABELS
+} from '../types';
+import SkillsInput from './common/SkillsInput';
 
 interface JobFiltersProps {
-  onApplyFilters: (filters: {
-    keywords?: string;
-    location?: string;
-    minSalary?: number;
-    maxSalary?: number;
-    jobType?: string;
-  }) => void;
+  onApplyFilters: (filters: JobSearchFilters) => void;
+  facets?: JobSearchFacets | null;
 }
 
-const JobFilters: React.FC<JobFiltersProps> = ({ onApplyFilters }) => {
+type FacetSelection = {
+  jobTypes: string[];
+  experienceLevels: string[];
+  workModes: string[];
+  locations: string[];
+  companies: string[];
+  salaryBuckets: string[];
+  postedWithin: string;
+};
+
+const EMPTY_SELECTION: FacetSelection = {
+  jobTypes: [],
+  experienceLevels: [],
+  workModes: [],
+  locations: [],
+  companies: [],
+  salaryBuckets: [],
+  postedWithin: ''
+};
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  'contract': 'Contract',
+  'internship': 'Internship'
+};
+
+interface FacetGroupProps {
+  title: string;
+  buckets?: JobFacetBucket[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  formatLabel?: (bucket: JobFacetBucket) => string;
+}
+
+// A list of checkboxes with the number of matching jobs next to each option
+const FacetGroup: React.FC<FacetGroupProps> = ({ title, buckets, selected, onToggle, formatLabel }) => {
+  // Keep selected values visible even if they dropped out of the returned buckets
+  const missing = selected
+    .filter(value => !buckets?.some(bucket => bucket.value === value))
+    .map(value => ({ value, label: value, count: 0 }));
+  const options = [...(buckets || []), ...missing];
+
+  if (options.length === 0) return null;
+
+  return (
+    <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%', md: '20%' } }}>
+      <Typography variant="subtitle2" gutterBottom>{title}</Typography>
+      <FormGroup>
+        {options.map(bucket => (
+          <FormControlLabel
+            key={bucket.value}
+            control={
+              <Checkbox
+                size="small"
+                checked={selected.includes(bucket.value)}
+                onChange={() => onToggle(bucket.value)}
+              />
+            }
+            disabled={bucket.count === 0 && !selected.includes(bucket.value)}
+            label={
+              <Typography variant="body2">
+                {formatLabel ? formatLabel(bucket) : bucket.label}{' '}
+                <Typography component="span" variant="body2" color="text.secondary">
+                  ({bucket.count})
+                </Typography>
+              </Typography>
+            }
+          />
+        ))}
+      </FormGroup>
+    </Box>
+  );
+};
+
+const JobFilters: React.FC<JobFiltersProps> = ({ onApplyFilters, facets }) => {
   const [keywords, setKeywords] = useState('');
   const [location, setLocation] = useState('');
   const [salaryRange, setSalaryRange] = useState<number[]>([0, 1000000]);
-  const [jobType, setJobType] = useState('');
+  const [skills, setSkills] = useState<string[]>([]);
+  const [selection, setSelection] = useState<FacetSelection>(EMPTY_SELECTION);
+  const [sort, setSort] = useState<JobSortOption>('relevance');
   const theme = useTheme();
 
   const handleSalaryChange = (event: Event, newValue: number | number[]) => {
@@ -43,29 +131,54 @@ const JobFilters: React.FC<JobFiltersProps> = ({ onApplyFilters }) => {
     setKeywords('');
     setLocation('');
     setSalaryRange([0, 1000000]);
-    setJobType('');
+    setSkills([]);
+    setSelection(EMPTY_SELECTION);
+    setSort('relevance');
     
     onApplyFilters({});
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    const filters: {
-      keywords?: string;
-      location?: string;
-      minSalary?: number;
-      maxSalary?: number;
-      jobType?: string;
-    } = {};
+  const buildFilters = (facetSelection: FacetSelection): JobSearchFilters => {
+    const filters: JobSearchFilters = {};
     
     if (keywords) filters.keywords = keywords;
     if (location) filters.location = location;
     if (salaryRange[0] > 0) filters.minSalary = salaryRange[0];
     if (salaryRange[1] < 1000000) filters.maxSalary = salaryRange[1];
-    if (jobType) filters.jobType = jobType;
+    if (skills.length > 0) filters.skills = skills;
+    if (facetSelection.jobTypes.length > 0) filters.jobTypes = facetSelection.jobTypes;
+    if (facetSelection.experienceLevels.length > 0) filters.experienceLevels = facetSelection.experienceLevels;
+    if (facetSelection.workModes.length > 0) filters.workModes = facetSelection.workModes;
+    if (facetSelection.locations.length > 0) filters.locations = facetSelection.locations;
+    if (facetSelection.companies.length > 0) filters.companies = facetSelection.companies;
+    if (facetSelection.salaryBuckets.length > 0) filters.salaryBuckets = facetSelection.salaryBuckets;
+    if (facetSelection.postedWithin) filters.postedWithin = facetSelection.postedWithin;
+    if (sort !== 'relevance') filters.sort = sort;
     
-    onApplyFilters(filters);
+    return filters;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApplyFilters(buildFilters(selection));
+  };
+
+  // Facet checkboxes apply straight away so the counts stay in sync with the results
+  const toggleFacet = (key: Exclude<keyof FacetSelection, 'postedWithin'>, value: string) => {
+    const current = selection[key];
+    const next = {
+      ...selection,
+      [key]: current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+    };
+    setSelection(next);
+    onApplyFilters(buildFilters(next));
+  };
+
+  // "Posted within" options are nested ranges, so only one can be active at a time
+  const togglePostedWithin = (value: string) => {
+    const next = { ...selection, postedWithin: selection.postedWithin === value ? '' : value };
+    setSelection(next);
+    onApplyFilters(buildFilters(next));
   };
 
   return (
@@ -111,25 +224,12 @@ const JobFilters: React.FC<JobFiltersProps> = ({ onApplyFilters }) => {
         </Box>
         
         <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }}>
-          <FormControl fullWidth>
-            <InputLabel>Job Type</InputLabel>
-            <Select
-              value={jobType}
-              label="Job Type"
-              onChange={(e) => setJobType(e.target.value)}
-              startAdornment={
-                <InputAdornment position="start">
-                  <WorkIcon />
-                </InputAdornment>
-              }
-            >
-              <MenuItem value="">All Types</MenuItem>
-              <MenuItem value="full-time">Full-time</MenuItem>
-              <MenuItem value="part-time">Part-time</MenuItem>
-              <MenuItem value="contract">Contract</MenuItem>
-              <MenuItem value="internship">Internship</MenuItem>
-            </Select>
-          </FormControl>
+          <SkillsInput
+            value={skills}
+            onChange={setSkills}
+            placeholder="e.g. React, SQL"
+            helperText="Shows jobs requiring any of these skills"
+          />
         </Box>
         
         <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }}>
@@ -149,6 +249,81 @@ const JobFilters: React.FC<JobFiltersProps> = ({ onApplyFilters }) => {
           </Box>
         </Box>
         
+        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', md: '50%' } }}>
+          <FormControl fullWidth>
+            <InputLabel>Sort By</InputLabel>
+            <Select
+              value={sort}
+              label="Sort By"
+              onChange={(e) => setSort(e.target.value as JobSortOption)}
+              startAdornment={
+                <InputAdornment position="start">
+                  <SortIcon />
+                </InputAdornment>
+              }
+            >
+              <MenuItem value="relevance">Best match</MenuItem>
+              <MenuItem value="newest">Newest first</MenuItem>
+            </Select>
+            <FormHelperText>
+              Best match ranks keyword searches by relevance. Use quotes for exact phrases, e.g. "react native".
+            </FormHelperText>
+          </FormControl>
+        </Box>
+        
+        {facets && (
+          <>
+            <Box sx={{ padding: theme => theme.spacing(1), width: '100%' }}>
+              <Divider />
+            </Box>
+            <FacetGroup
+              title="Job Type"
+              buckets={facets.jobType}
+              selected={selection.jobTypes}
+              onToggle={value => toggleFacet('jobTypes', value)}
+              formatLabel={bucket => JOB_TYPE_LABELS[bucket.value] || bucket.label}
+            />
+            <FacetGroup
+              title="Experience Level"
+              buckets={facets.experienceLevel}
+              selected={selection.experienceLevels}
+              onToggle={value => toggleFacet('experienceLevels', value)}
+              formatLabel={bucket => EXPERIENCE_LEVEL_LABELS[bucket.value as ExperienceLevel] || bucket.label}
+            />
+            <FacetGroup
+              title="Work Mode"
+              buckets={facets.workMode}
+              selected={selection.workModes}
+              onToggle={value => toggleFacet('workModes', value)}
+              formatLabel={bucket => WORK_MODE_LABELS[bucket.value as WorkMode] || bucket.label}
+            />
+            <FacetGroup
+              title="Location"
+              buckets={facets.location}
+              selected={selection.locations}
+              onToggle={value => toggleFacet('locations', value)}
+            />
+            <FacetGroup
+              title="Salary"
+              buckets={facets.salary}
+              selected={selection.salaryBuckets}
+              onToggle={value => toggleFacet('salaryBuckets', value)}
+            />
+            <FacetGroup
+              title="Company"
+              buckets={facets.company}
+              selected={selection.companies}
+              onToggle={value => toggleFacet('companies', value)}
+            />
+            <FacetGroup
+              title="Date Posted"
+              buckets={facets.postedWithin}
+              selected={selection.postedWithin ? [selection.postedWithin] : []}
+              onToggle={togglePostedWithin}
+            />
+          </>
+        )}
+        
         <Box sx={{ padding: theme => theme.spacing(1), width: '100%', mt: 2, display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
           <Button
             variant="outlined"
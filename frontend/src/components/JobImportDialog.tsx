@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Typography,
+    Alert,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Chip,
+    CircularProgress
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { jobService } from '../services/api';
+import { JobImportSummary, JOB_STATUS_LABELS } from '../types';
+
+interface JobImportDialogProps {
+    open: boolean;
+    onClose: () => void;
+    onImported: (count: number) => void;
+}
+
+// Two-step bulk import: preview (dry run) the file, then import the valid rows
+const JobImportDialog: React.FC<JobImportDialogProps> = ({ open, onClose, onImported }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<JobImportSummary | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const reset = () => {
+        setFile(null);
+        setPreview(null);
+        setError('');
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = event.target.files?.[0];
+        event.target.value = ''; // Allow re-selecting the same file after fixing it
+        if (!selected) return;
+
+        reset();
+        setFile(selected);
+        setLoading(true);
+        try {
+            setPreview(await jobService.importJobs(selected, true));
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to read the file');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+
+        setLoading(true);
+        try {
+            const summary = await jobService.importJobs(file, false);
+            onImported(summary.imported);
+            handleClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to import jobs');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+            <DialogTitle>Import Jobs</DialogTitle>
+            <DialogContent>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                    Upload a CSV or JSON file with one job per row. Columns: title, location, type,
+                    salaryMin, salaryMax, salaryCurrency, salaryPeriod (year or month), description, requirements, skills (separated by ";"),
+                    experienceLevel, workMode, status, publishAt, expiresAt. An export from this page uses the same layout.
+                </Typography>
+
+                <Button
+                    variant="outlined"
+                    component="label"
+                    startIcon={<UploadFileIcon />}
+                    disabled={loading}
+                >
+                    {file ? file.name : 'Choose File'}
+                    <input type="file" hidden accept=".csv,.json" onChange={handleFileChange} />
+                </Button>
+
+                {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+
+                {loading && (
+                    <Box display="flex" justifyContent="center" my={3}>
+                        <CircularProgress />
+                    </Box>
+                )}
+
+                {preview && !loading && (
+                    <Box mt={2}>
+                        <Alert severity={preview.invalid > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                            {preview.valid} of {preview.total} jobs are ready to import.
+                            {preview.invalid > 0 && ' Rows with errors will be skipped - fix them and upload again to include them.'}
+                        </Alert>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Row</TableCell>
+                                    <TableCell>Title</TableCell>
+                                    <TableCell>Location</TableCell>
+                                    <TableCell>Status</TableCell>
+                                    <TableCell>Result</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {preview.results.map(result => (
+                                    <TableRow key={result.row}>
+                                        <TableCell>{result.row}</TableCell>
+                                        <TableCell>{result.job.title || '—'}</TableCell>
+                                        <TableCell>{result.job.location || '—'}</TableCell>
+                                        <TableCell>{JOB_STATUS_LABELS[result.job.status] || result.job.status}</TableCell>
+                                        <TableCell>
+                                            {result.valid ? (
+                                                <Chip size="small" color="success" label="OK" />
+                                            ) : (
+                                                result.errors.map((rowError, index) => (
+                                                    <Typography key={index} variant="caption" color="error" display="block">
+                                                        {rowError.field ? `${rowError.field}: ` : ''}{rowError.message}
+                                                    </Typography>
+                                                ))
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose}>Cancel</Button>
+                <Button
+                    variant="contained"
+                    onClick={handleImport}
+                    disabled={loading || !preview || preview.valid === 0}
+                >
+                    Import {preview ? preview.valid : ''} Jobs
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default JobImportDialog;
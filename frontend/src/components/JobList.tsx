@@ -16,10 +16,12 @@ import {
 } from '@mui/material';
 import BookmarkIcon from '@mui/icons-material/Bookmark';
 import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder';
-import { jobService, bookmarkService } from '../services/api';
-import { Job } from '../types';
+import { jobService, bookmarkService, feedService } from '../services/api';
+import { Job, JobSearchFilters, JobSearchFacets } from '../types';
 import { useAuth } from '../context/AuthContext';
 import JobFilters from './JobFilters';
+import HighlightedText from './common/HighlightedText';
+import FeedSubscribeButton from './common/FeedSubscribeButton';
 import { Link } from 'react-router-dom';
 
 const JobList: React.FC = () => {
@@ -28,13 +30,8 @@ const JobList: React.FC = () => {
     const [jobs, setJobs] = useState<Job[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string>('');
-    const [filters, setFilters] = useState<{
-        keywords?: string;
-        location?: string;
-        minSalary?: number;
-        maxSalary?: number;
-        jobType?: string;
-    }>({});
+    const [filters, setFilters] = useState<JobSearchFilters>({});
+    const [facets, setFacets] = useState<JobSearchFacets | null>(null);
     const [pagination, setPagination] = useState({
         page: 1,
         limit: 5,
@@ -58,13 +55,14 @@ const JobList: React.FC = () => {
     const fetchJobs = async () => {
         try {
             setLoading(true);
-            const { jobs: fetchedJobs, pagination: paginationData } = await jobService.getAllJobs({
+            const { jobs: fetchedJobs, facets: fetchedFacets, pagination: paginationData } = await jobService.getAllJobs({
                 ...filters,
                 page: pagination.page,
                 limit: pagination.limit
             });
             console.log('[JobList] fetchJobs received data. Sample (first job):', fetchedJobs[0]);
             setJobs(fetchedJobs);
+            setFacets(fetchedFacets || null);
             setPagination(prevPagination => ({
                 ...prevPagination,
                 total: paginationData.total,
@@ -77,13 +75,7 @@ const JobList: React.FC = () => {
         }
     };
 
-    const handleApplyFilters = (newFilters: {
-        keywords?: string;
-        location?: string;
-        minSalary?: number;
-        maxSalary?: number;
-        jobType?: string;
-    }) => {
+    const handleApplyFilters = (newFilters: JobSearchFilters) => {
         setFilters(newFilters);
         setPagination(prev => ({ ...prev, page: 1 })); // Reset to first page when filters change
     };
@@ -155,17 +147,21 @@ const JobList: React.FC = () => {
                 <Typography variant="h4" component="h1">
                     Available Jobs
                 </Typography>
-                {user?.type === 'employer' && (
-                    <Button
-                        variant="contained"
-                        onClick={() => navigate('/jobs/post')}
-                    >
-                        Post a Job
-                    </Button>
-                )}
+                <Box display="flex" gap={1}>
+                    {/* Feed of the current search, so it can be followed in a feed reader */}
+                    <FeedSubscribeButton getUrl={(format) => feedService.getJobSearchFeedUrl(filters, format)} />
+                    {user?.type === 'employer' && (
+                        <Button
+                            variant="contained"
+                            onClick={() => navigate('/jobs/post')}
+                        >
+                            Post a Job
+                        </Button>
+                    )}
+                </Box>
             </Box>
 
-            <JobFilters onApplyFilters={handleApplyFilters} />
+            <JobFilters onApplyFilters={handleApplyFilters} facets={facets} />
 
             {loading ? (
                 <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -197,7 +193,7 @@ const JobList: React.FC = () => {
                                             </Avatar>
                                             <Box flex={1}>
                                                 <Typography variant="h6" component="h2" gutterBottom>
-                                                    {job.title}
+                                                    <HighlightedText segments={job.highlights?.title} fallback={job.title} />
                                                 </Typography>
                                                 <Typography 
                                                     color="primary" 
@@ -217,9 +213,12 @@ const JobList: React.FC = () => {
                                                     {job.location} • {job.type.charAt(0).toUpperCase() + job.type.slice(1)}
                                                 </Typography>
                                                 <Typography variant="body2" paragraph>
-                                                    {job.description.length > 150 ? 
-                                                        `${job.description.substring(0, 150)}...` : 
-                                                        job.description}
+                                                    <HighlightedText
+                                                        segments={job.highlights?.description}
+                                                        fallback={job.description.length > 150 ? 
+                                                            `${job.description.substring(0, 150)}...` : 
+                                                            job.description}
+                                                    />
                                                 </Typography>
                                                 <Box display="flex" gap={1} mb={2}>
                                                     <Chip
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useFormik } from 'formik';
 import * as yup from 'yup';
 import {
@@ -22,7 +22,10 @@ import {
 import { jobService } from '../services/api';
 import { useAuth } from '../context/AuthContext';
 import api from '../services/api';
-import { JobFormData } from '../types';
+import { JobFormData, JobTemplate, EXPERIENCE_LEVEL_LABELS, WORK_MODE_LABELS, SALARY_PERIOD_LABELS } from '../types';
+import SkillsInput from './common/SkillsInput';
+import JobTemplatePicker from './JobTemplatePicker';
+import ScreeningQuestionsEditor from './ScreeningQuestionsEditor';
 
 const validationSchema = yup.object({
     title: yup
@@ -56,11 +59,25 @@ const validationSchema = yup.object({
     type: yup
         .string()
         .oneOf(['full-time', 'part-time', 'contract', 'internship'], 'Invalid job type')
-        .required('Job type is required')
+        .required('Job type is required'),
+    skills: yup
+        .array()
+        .of(yup.string())
+        .min(1, 'Add at least one required skill'),
+    experienceLevel: yup
+        .string()
+        .oneOf(Object.keys(EXPERIENCE_LEVEL_LABELS), 'Invalid experience level')
+        .required('Experience level is required'),
+    workMode: yup
+        .string()
+        .oneOf(Object.keys(WORK_MODE_LABELS), 'Invalid work mode')
+        .required('Work mode is required')
 });
 
 const JobPostForm: React.FC = () => {
     const navigate = useNavigate();
+    // When set, the form is prefilled from this job ("duplicate" in Manage Jobs)
+    const { id: sourceJobId } = useParams<{ id: string }>();
     const { user } = useAuth();
     const [error, setError] = React.useState<string | null>(null);
     const [loading, setLoading] = React.useState<boolean>(true);
@@ -97,10 +114,15 @@ const JobPostForm: React.FC = () => {
             salary: {
                 min: 0,
                 max: 0,
-                currency: 'PKR'
+                currency: 'PKR',
+                period: 'year'
             },
             location: '',
-            type: 'full-time' as const
+            type: 'full-time' as const,
+            skills: [],
+            experienceLevel: 'mid' as const,
+            workMode: 'onsite' as const,
+            screeningQuestions: []
         },
         validationSchema: validationSchema,
         onSubmit: async (values) => {
@@ -116,6 +138,45 @@ const JobPostForm: React.FC = () => {
         },
     });
 
+    // Copy the content of a job or template into the form (company always comes from the profile)
+    const prefill = (source: Partial<JobFormData> | JobTemplate) => {
+        formik.setValues({
+            ...formik.values,
+            title: source.title || '',
+            description: source.description || '',
+            requirements: source.requirements || '',
+            location: source.location || '',
+            type: source.type || 'full-time',
+            salary: {
+                min: source.salary?.min ?? 0,
+                max: source.salary?.max ?? 0,
+                currency: source.salary?.currency || 'PKR',
+                period: source.salary?.period || 'year'
+            },
+            skills: source.skills || [],
+            experienceLevel: source.experienceLevel || 'mid',
+            workMode: source.workMode || 'onsite',
+            screeningQuestions: source.screeningQuestions || []
+        });
+    };
+
+    useEffect(() => {
+        const fetchSourceJob = async () => {
+            try {
+                const job = await jobService.getJobById(sourceJobId as string);
+                prefill(job);
+            } catch (err: any) {
+                console.error('Error fetching job to duplicate:', err);
+                setError('Could not load the job to duplicate');
+            }
+        };
+
+        if (sourceJobId) {
+            fetchSourceJob();
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [sourceJobId]);
+
     useEffect(() => {
         if (companyName) {
             formik.setFieldValue('company', companyName);
@@ -134,7 +195,9 @@ const JobPostForm: React.FC = () => {
     return (
         <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
             <Paper elevation={3} sx={{ p: 4 }}>
-                <Typography variant="h4" gutterBottom>Post a New Job</Typography>
+                <Typography variant="h4" gutterBottom>{sourceJobId ? 'Duplicate Job' : 'Post a New Job'}</Typography>
+                
+                {!sourceJobId && <JobTemplatePicker onSelect={prefill} />}
                 
                 {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
                 
@@ -237,7 +300,63 @@ const JobPostForm: React.FC = () => {
                             </FormControl>
                         </Box>
 
-                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '33.33%' } }}>
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '50%' } }}>
+                            <FormControl fullWidth error={formik.touched.experienceLevel && Boolean(formik.errors.experienceLevel)}>
+                                <InputLabel id="experience-level-label">Experience Level</InputLabel>
+                                <Select
+                                    labelId="experience-level-label"
+                                    id="experienceLevel"
+                                    name="experienceLevel"
+                                    value={formik.values.experienceLevel}
+                                    onChange={formik.handleChange}
+                                    label="Experience Level"
+                                >
+                                    {Object.entries(EXPERIENCE_LEVEL_LABELS).map(([value, label]) => (
+                                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                                    ))}
+                                </Select>
+                                {formik.touched.experienceLevel && formik.errors.experienceLevel && (
+                                    <FormHelperText error>{formik.errors.experienceLevel}</FormHelperText>
+                                )}
+                            </FormControl>
+                        </Box>
+
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '50%' } }}>
+                            <FormControl fullWidth error={formik.touched.workMode && Boolean(formik.errors.workMode)}>
+                                <InputLabel id="work-mode-label">Work Mode</InputLabel>
+                                <Select
+                                    labelId="work-mode-label"
+                                    id="workMode"
+                                    name="workMode"
+                                    value={formik.values.workMode}
+                                    onChange={formik.handleChange}
+                                    label="Work Mode"
+                                >
+                                    {Object.entries(WORK_MODE_LABELS).map(([value, label]) => (
+                                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                                    ))}
+                                </Select>
+                                {formik.touched.workMode && formik.errors.workMode && (
+                                    <FormHelperText error>{formik.errors.workMode}</FormHelperText>
+                                )}
+                            </FormControl>
+                        </Box>
+
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: '100%' }}>
+                            <SkillsInput
+                                value={formik.values.skills}
+                                onChange={(skills) => {
+                                    formik.setFieldValue('skills', skills);
+                                    formik.setFieldTouched('skills', true, false);
+                                }}
+                                label="Required Skills"
+                                suggestRelated
+                                error={formik.touched.skills && Boolean(formik.errors.skills)}
+                                helperText={(formik.touched.skills && formik.errors.skills) || "Used to match candidates and power skill filters, e.g. React, Node.js, SQL"}
+                            />
+                        </Box>
+
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '25%' } }}>
                             <TextField
                                 fullWidth
                                 id="salary.min"
@@ -254,7 +373,7 @@ const JobPostForm: React.FC = () => {
                             />
                         </Box>
 
-                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '33.33%' } }}>
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '25%' } }}>
                             <TextField
                                 fullWidth
                                 id="salary.max"
@@ -271,7 +390,7 @@ const JobPostForm: React.FC = () => {
                             />
                         </Box>
 
-                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '33.33%' } }}>
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '25%' } }}>
                             <FormControl fullWidth error={formik.touched.salary?.currency && Boolean(formik.errors.salary?.currency)}>
                                 <InputLabel id="salary-currency-label">Currency</InputLabel>
                                 <Select
@@ -293,6 +412,31 @@ const JobPostForm: React.FC = () => {
                                 )}
                             </FormControl>
                         </Box>
+
+                        <Box sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', sm: '25%' } }}>
+                            <FormControl fullWidth>
+                                <InputLabel id="salary-period-label">Pay Period</InputLabel>
+                                <Select
+                                    labelId="salary-period-label"
+                                    id="salary.period"
+                                    name="salary.period"
+                                    value={formik.values.salary.period || 'year'}
+                                    onChange={formik.handleChange}
+                                    label="Pay Period"
+                                >
+                                    {Object.entries(SALARY_PERIOD_LABELS).map(([value, label]) => (
+                                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Box>
+                    </Box>
+
+                    <Box sx={{ mt: 3 }}>
+                        <ScreeningQuestionsEditor
+                            value={formik.values.screeningQuestions || []}
+                            onChange={(screeningQuestions) => formik.setFieldValue('screeningQuestions', screeningQuestions)}
+                        />
                     </Box>
 
                     <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
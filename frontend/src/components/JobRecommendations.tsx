@@ -1,6 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import api from '../services/api';
 import { aiService } from '../services/aiService';
 import { useAuth } from '../context/AuthContext';
 import {
@@ -67,6 +66,7 @@ const JobRecommendations: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [aiProcessing, setAiProcessing] = useState<boolean>(false);
   const [aiEnhanced, setAiEnhanced] = useState<boolean>(false);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [bookmarkedJobs, setBookmarkedJobs] = useState<Set<string>>(new Set());
   const [page, setPage] = useState(1);
   const itemsPerPage = 6;
@@ -107,16 +107,10 @@ const JobRecommendations: React.FC = () => {
 
     try {
       setAiProcessing(true);
+      setAiError(null);
 
-      // Get all available jobs
-      const allJobsResponse = await api.get('/jobs');
-      const allJobs = allJobsResponse.data || [];
-
-      // Get AI-enhanced recommendations
-      const enhancedRecommendations = await aiService.getPersonalizedJobRecommendations(
-        user,
-        allJobs
-      );
+      // The server picks from open jobs using the signed-in job seeker's profile
+      const enhancedRecommendations = await aiService.getPersonalizedJobRecommendations();
 
       // If we have AI recommendations, update the state
       if (enhancedRecommendations.jobs.length > 0) {
@@ -126,7 +120,7 @@ const JobRecommendations: React.FC = () => {
             _id: job._id || job.id,
             company: typeof job.employer === 'object' ? job.employer.companyName || '' : '',
             matchReasons: enhancedRecommendations.reasoning[job._id || job.id] || [],
-            matchScore: Math.floor(Math.random() * 31) + 70 // Mock score between 70-100 for demo
+            matchScore: job.matchScore
           } as Job;
         });
 
@@ -136,8 +130,9 @@ const JobRecommendations: React.FC = () => {
         });
         setAiEnhanced(true);
       }
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error enhancing recommendations with AI:', err);
+      setAiError(err.response?.data?.message || 'AI recommendations are not available right now. Please try again later.');
     } finally {
       setAiProcessing(false);
     }
@@ -209,6 +204,12 @@ const JobRecommendations: React.FC = () => {
         </Box>
         
         <Divider sx={{ mb: 3 }} />
+
+        {aiError && (
+          <Alert severity="warning" sx={{ mb: 3 }} onClose={() => setAiError(null)}>
+            {aiError}
+          </Alert>
+        )}
         
         {aiProcessing && (
           <Box sx={{ mb: 4, p: 2, backgroundColor: 'rgba(0, 0, 0, 0.03)', borderRadius: 1 }}>
@@ -322,7 +323,7 @@ const JobRecommendations: React.FC = () => {
                           </Typography>
                         </Box>
                         
-                        {aiEnhanced && job.matchReasons && job.matchReasons.length > 0 && (
+                        {job.matchReasons && job.matchReasons.length > 0 && (
                           <Box sx={{ mt: 2, mb: 1 }}>
                             <Typography variant="body2" color="text.secondary" gutterBottom>
                               Matched based on:
@@ -34,6 +34,7 @@ import {
   FormHelperText,
   Radio,
   Tooltip,
+  Autocomplete,
   Badge,
   Checkbox,
   CheckboxProps,
@@ -55,6 +56,10 @@ import EditIcon from '@mui/icons-material/Edit';
 import SaveIcon from '@mui/icons-material/Save';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import VerifiedIcon from '@mui/icons-material/Verified';
+import { saveAs } from 'file-saver';
+import ResumeLibrary from './ResumeLibrary';
+import JsonResumeImportDialog from './JsonResumeImportDialog';
+import SkillsInput, { useSkillSuggestions } from './common/SkillsInput';
 
 interface JobSeekerProfileData {
   _id: string;
@@ -83,6 +88,11 @@ interface JobSeekerProfileData {
   }[];
   resume?: string;
   totalYearsExperience?: number;
+  expectedSalary?: {
+    min?: number;
+    max?: number;
+    currency?: string;
+  };
 }
 
 // Add assessment interface for proper typing
@@ -104,6 +114,7 @@ const JobSeekerProfile: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const resumeInputRef = useRef<HTMLInputElement>(null);
   const [newSkill, setNewSkill] = useState<string>('');
+  const newSkillSuggestions = useSkillSuggestions(newSkill, profileData?.skills || [], Boolean(newSkill.trim()));
   const [verifiedSkills, setVerifiedSkills] = useState<string[]>([]);
 
   // Add state for experience and education dialogs
@@ -146,6 +157,7 @@ const JobSeekerProfile: React.FC = () => {
 
   // Add state for Gemini API usage
   const [parsingMode, setParsingMode] = useState<string>('auto');
+  const [jsonImportOpen, setJsonImportOpen] = useState<boolean>(false);
 
   const theme = useTheme();
 
@@ -418,6 +430,37 @@ const JobSeekerProfile: React.FC = () => {
     }
   };
 
+  // Confidence chips are only shown for the offline parser, which scores what it extracts
+  const renderConfidence = (score?: number) => {
+    if (typeof score !== 'number') return null;
+    return (
+      <Chip
+        size="small"
+        variant="outlined"
+        label={`${Math.round(score * 100)}% confidence`}
+        color={score >= 0.75 ? 'success' : score >= 0.5 ? 'warning' : 'default'}
+        sx={{ ml: 1, verticalAlign: 'middle' }}
+      />
+    );
+  };
+
+  const handleExportJsonResume = async () => {
+    try {
+      const resume = await userService.exportJsonResume();
+      saveAs(new Blob([JSON.stringify(resume, null, 2)], { type: 'application/json' }), 'resume.json');
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to export your resume');
+    }
+  };
+
+  const handleJsonResumeImported = (importedUser: any) => {
+    setProfileData(prevData => (prevData ? { ...prevData, ...importedUser } : importedUser));
+    if (updateUserContext) {
+      updateUserContext({ ...user, ...importedUser });
+    }
+    setSuccess('Resume imported into your profile');
+  };
+
   const handleApplyParsedData = () => {
     // Close the preview dialog
     setShowParsePreview(false);
@@ -641,6 +684,7 @@ const JobSeekerProfile: React.FC = () => {
         title: profileData.title,
         skills: skillsArray,
         totalYearsExperience: profileData.totalYearsExperience,
+        expectedSalary: profileData.expectedSalary,
         profileImage: profileData.profileImage,
         education: profileData.education, // Assuming education dialog updates state directly or needs similar merge
         experience: finalExperienceArray // Use the potentially merged array
@@ -794,7 +838,7 @@ const JobSeekerProfile: React.FC = () => {
                 <FormControlLabel value="local" control={<Radio />} label="Standard" />
               </RadioGroup>
               <FormHelperText>
-                AI-enhanced parsing uses Google's Gemini for more accurate results but may take longer.
+                AI-enhanced parsing uses Google's Gemini for more accurate results but may take longer. Standard parsing works offline and scores how sure it is of each field.
               </FormHelperText>
             </FormControl>
           </Box>
@@ -848,6 +892,19 @@ const JobSeekerProfile: React.FC = () => {
               </Button>
             </Box>
           )}
+
+          <Box mt={3} display="flex" gap={2} flexWrap="wrap">
+            <Button variant="outlined" onClick={() => setJsonImportOpen(true)}>
+              Import JSON Resume
+            </Button>
+            <Button variant="text" onClick={handleExportJsonResume}>
+              Export JSON Resume
+            </Button>
+          </Box>
+
+          <Box mt={3}>
+            <ResumeLibrary />
+          </Box>
         </Box>
 
         {/* Rest of your profile form here */}
@@ -918,16 +975,12 @@ const JobSeekerProfile: React.FC = () => {
             </Box>
             
             <Box sx={{ padding: theme => theme.spacing(1.5), width: '100%' }}>
-              <TextField
-                fullWidth
-                label="Skills"
-                variant="outlined"
-                value={profileData?.skills ? profileData.skills.join(', ') : ''}
-                onChange={(e) => setProfileData(prev => prev ? { ...prev, skills: e.target.value.split(',').map(skill => skill.trim()) } : null)}
+              <SkillsInput
+                value={profileData?.skills || []}
+                onChange={(skills) => setProfileData(prev => prev ? { ...prev, skills } : null)}
                 placeholder="e.g. JavaScript, React, Node.js"
-                helperText="Separate skills with commas"
-                multiline
-                rows={2}
+                helperText="Pick from the suggestions so employers searching for a skill find you"
+                suggestRelated
               />
             </Box>
             
@@ -954,6 +1007,29 @@ const JobSeekerProfile: React.FC = () => {
                 margin="normal"
               />
             </Box>
+
+            {/* Used to match jobs by salary; either end can be left blank */}
+            {(['min', 'max'] as const).map(bound => (
+              <Box key={bound} sx={{ padding: theme => theme.spacing(1.5), width: { xs: '100%', md: '50%' } }}>
+                <TextField
+                  fullWidth
+                  label={bound === 'min' ? 'Expected Salary (Min)' : 'Expected Salary (Max)'}
+                  type="number"
+                  value={profileData?.expectedSalary?.[bound] ?? ''}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    setProfileData(prev => prev ? {
+                      ...prev,
+                      expectedSalary: {
+                        ...prev.expectedSalary,
+                        [bound]: isNaN(value) || value < 0 ? undefined : value
+                      }
+                    } : null);
+                  }}
+                  helperText={bound === 'min' ? `In ${profileData?.expectedSalary?.currency || 'PKR'}, on the same basis as job postings` : undefined}
+                />
+              </Box>
+            ))}
           </Box>
           
           <Box sx={{ mt: 4, display: 'flex', justifyContent: 'flex-end' }}>
@@ -1031,13 +1107,16 @@ const JobSeekerProfile: React.FC = () => {
           </Box>
           
           <Box display="flex">
-            <TextField
-              label="Add Skill"
-              variant="outlined"
-              size="small"
-              value={newSkill}
-              onChange={(e) => setNewSkill(e.target.value)}
-              sx={{ mr: 1 }}
+            <Autocomplete
+              freeSolo
+              options={newSkillSuggestions.map(suggestion => suggestion.name)}
+              filterOptions={(options) => options}
+              inputValue={newSkill}
+              onInputChange={(_, value) => setNewSkill(value)}
+              sx={{ mr: 1, minWidth: 220 }}
+              renderInput={(params) => (
+                <TextField {...params} label="Add Skill" variant="outlined" size="small" />
+              )}
             />
             <Button
               variant="contained"
@@ -1162,6 +1241,12 @@ const JobSeekerProfile: React.FC = () => {
         </Box>
       </Paper>
 
+      <JsonResumeImportDialog
+        open={jsonImportOpen}
+        onClose={() => setJsonImportOpen(false)}
+        onImported={handleJsonResumeImported}
+      />
+
       {/* Resume parsed data preview dialog */}
       <Dialog open={showParsePreview} onClose={() => setShowParsePreview(false)} maxWidth="md" fullWidth>
         <DialogTitle>Resume Parsing Results</DialogTitle>
@@ -1171,12 +1256,18 @@ const JobSeekerProfile: React.FC = () => {
               <Typography variant="h6" gutterBottom>
                 We extracted the following information from your resume:
               </Typography>
+              {parsedData.parser === 'heuristic' && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Parsed with the standard parser{renderConfidence(parsedData.confidence?.overall)}. Double-check anything with low confidence.
+                </Alert>
+              )}
               
               {/* Skills */}
               <Box mb={3}>
                 <Typography variant="subtitle1" gutterBottom>
                   <WorkIcon fontSize="small" sx={{ mr: 1, verticalAlign: 'middle' }} />
                   Skills
+                  {renderConfidence(parsedData.confidence?.skills)}
                 </Typography>
                 <Box display="flex" flexWrap="wrap" gap={1}>
                   {parsedData.skills.map((skill: string, index: number) => (
@@ -1190,6 +1281,7 @@ const JobSeekerProfile: React.FC = () => {
                 <Typography variant="subtitle1" gutterBottom>
                   <WorkIcon fontSize="small" sx={{ mr: 1, verticalAlign: 'middle' }} />
                   Experience
+                  {renderConfidence(parsedData.confidence?.experience)}
                 </Typography>
                 <List dense>
                   {parsedData.experience.map((exp: any, index: number) => (
@@ -1201,6 +1293,7 @@ const JobSeekerProfile: React.FC = () => {
                         primary={`${exp.position} at ${exp.company}`}
                         secondary={`${exp.startDate} - ${exp.current ? 'Present' : exp.endDate}`}
                       />
+                      {renderConfidence(exp.confidence)}
                     </ListItem>
                   ))}
                 </List>
@@ -1211,6 +1304,7 @@ const JobSeekerProfile: React.FC = () => {
                 <Typography variant="subtitle1" gutterBottom>
                   <SchoolIcon fontSize="small" sx={{ mr: 1, verticalAlign: 'middle' }} />
                   Education
+                  {renderConfidence(parsedData.confidence?.education)}
                 </Typography>
                 <List dense>
                   {parsedData.education.map((edu: any, index: number) => (
@@ -1222,6 +1316,7 @@ const JobSeekerProfile: React.FC = () => {
                         primary={`${edu.degree} from ${edu.institution}`}
                         secondary={`Graduated: ${edu.graduationYear}`}
                       />
+                      {renderConfidence(edu.confidence)}
                     </ListItem>
                   ))}
                 </List>
@@ -1238,16 +1333,19 @@ const JobSeekerProfile: React.FC = () => {
                     {parsedData.personalInfo.title && (
                       <ListItem>
                         <ListItemText primary="Title" secondary={parsedData.personalInfo.title} />
+                        {renderConfidence(parsedData.confidence?.personalInfo?.title)}
                       </ListItem>
                     )}
                     {parsedData.personalInfo.location && (
                       <ListItem>
                         <ListItemText primary="Location" secondary={parsedData.personalInfo.location} />
+                        {renderConfidence(parsedData.confidence?.personalInfo?.location)}
                       </ListItem>
                     )}
                     {parsedData.personalInfo.phone && (
                       <ListItem>
                         <ListItemText primary="Phone" secondary={parsedData.personalInfo.phone} />
+                        {renderConfidence(parsedData.confidence?.personalInfo?.phone)}
                       </ListItem>
                     )}
                   </List>
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    TextField,
+    MenuItem,
+    IconButton,
+    ListItemText,
+    Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { jobTemplateService } from '../services/api';
+import { JobTemplate } from '../types';
+
+interface JobTemplatePickerProps {
+    onSelect: (template: JobTemplate) => void;
+}
+
+// Dropdown of the employer's saved templates, shown when starting a new job post
+const JobTemplatePicker: React.FC<JobTemplatePickerProps> = ({ onSelect }) => {
+    const [templates, setTemplates] = useState<JobTemplate[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+
+    useEffect(() => {
+        const fetchTemplates = async () => {
+            try {
+                setTemplates(await jobTemplateService.getTemplates());
+            } catch (err) {
+                console.error('[JobTemplatePicker] Error fetching templates:', err);
+            }
+        };
+        fetchTemplates();
+    }, []);
+
+    const handleChange = (templateId: string) => {
+        setSelectedId(templateId);
+        const template = templates.find(t => t._id === templateId);
+        if (template) {
+            onSelect(template);
+        }
+    };
+
+    const handleDelete = async (event: React.MouseEvent, templateId: string) => {
+        // Don't let the click select the template being deleted
+        event.stopPropagation();
+        try {
+            await jobTemplateService.deleteTemplate(templateId);
+            setTemplates(prev => prev.filter(t => t._id !== templateId));
+            if (selectedId === templateId) setSelectedId('');
+        } catch (err) {
+            console.error('[JobTemplatePicker] Error deleting template:', err);
+        }
+    };
+
+    if (templates.length === 0) {
+        return (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                Tip: save any posting as a template from Manage Jobs to reuse it here.
+            </Typography>
+        );
+    }
+
+    return (
+        <Box sx={{ mb: 1 }}>
+            <TextField
+                select
+                fullWidth
+                size="small"
+                label="Start from a template"
+                value={selectedId}
+                onChange={(e) => handleChange(e.target.value)}
+                helperText="Fills in the form below; you can still edit everything before posting"
+                SelectProps={{
+                    renderValue: (value) => templates.find(t => t._id === value)?.name || ''
+                }}
+            >
+                {templates.map(template => (
+                    <MenuItem key={template._id} value={template._id}>
+                        <ListItemText
+                            primary={template.name}
+                            secondary={template.title !== template.name ? template.title : undefined}
+                        />
+                        <IconButton
+                            edge="end"
+                            size="small"
+                            title="Delete Template"
+                            onClick={(e) => handleDelete(e, template._id)}
+                        >
+                            <DeleteIcon fontSize="small" />
+                        </IconButton>
+                    </MenuItem>
+                ))}
+            </TextField>
+        </Box>
+    );
+};
+
+export default JobTemplatePicker;
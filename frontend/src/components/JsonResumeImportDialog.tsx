@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    Button,
+    Typography,
+    Alert,
+    Box,
+    Chip,
+    List,
+    ListItem,
+    ListItemText,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    CircularProgress
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { userService } from '../services/api';
+import { ImportedEntriesDiff, ImportedListField, ImportedProfileEntry, JsonResumeImportPreview } from '../types';
+
+interface JsonResumeImportDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // Called with the updated profile after the import is saved
+    onImported: (user: any) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    title: 'Title',
+    phone: 'Phone',
+    location: 'Location',
+    portfolioUrl: 'Website'
+};
+
+const LIST_LABELS: Record<ImportedListField, string> = {
+    experience: 'Experience',
+    education: 'Education',
+    projects: 'Projects',
+    certificates: 'Certificates'
+};
+
+const describeEntry = (field: ImportedListField, entry: ImportedProfileEntry): string => {
+    switch (field) {
+        case 'experience':
+            return [entry.position, entry.company].filter(Boolean).join(' at ');
+        case 'education':
+            return [entry.degree, entry.institution].filter(Boolean).join(', ');
+        default:
+            return [entry.name, entry.issuer].filter(Boolean).join(' - ');
+    }
+};
+
+// Upload a JSON Resume file, review how it changes the profile, then import it
+const JsonResumeImportDialog: React.FC<JsonResumeImportDialogProps> = ({ open, onClose, onImported }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [resume, setResume] = useState<unknown>(null);
+    const [fileName, setFileName] = useState('');
+    const [preview, setPreview] = useState<JsonResumeImportPreview | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const reset = () => {
+        setResume(null);
+        setFileName('');
+        setPreview(null);
+        setError('');
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        reset();
+        setFileName(file.name);
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(await file.text());
+        } catch {
+            setError('That file is not valid JSON');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            setPreview(await userService.previewJsonResumeImport(parsed));
+            setResume(parsed);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to read the resume');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setLoading(true);
+        setError('');
+        try {
+            const result = await userService.importJsonResume(resume);
+            onImported(result.user);
+            handleClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to import the resume');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderListDiff = (field: ImportedListField, diff: ImportedEntriesDiff | null) => {
+        if (!diff) return null;
+        const rows = [
+            ...diff.removed.map(entry => ({ entry, label: 'Removed', color: 'error' as const })),
+            ...diff.kept.map(entry => ({ entry, label: 'Updated', color: 'info' as const })),
+            ...diff.added.map(entry => ({ entry, label: 'Added', color: 'success' as const }))
+        ];
+        return (
+            <Box mb={2} key={field}>
+                <Typography variant="subtitle1">{LIST_LABELS[field]}</Typography>
+                {diff.removed.length > 0 && (
+                    <Typography variant="caption" color="error">
+                        The imported list replaces your current {LIST_LABELS[field].toLowerCase()}.
+                    </Typography>
+                )}
+                <List dense>
+                    {rows.map(({ entry, label, color }, index) => (
+                        <ListItem key={`${label}-${index}`} disableGutters>
+                            <Chip size="small" label={label} color={color} variant="outlined" sx={{ mr: 1, minWidth: 80 }} />
+                            <ListItemText
+                                primary={describeEntry(field, entry) || '(untitled)'}
+                                sx={label === 'Removed' ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined}
+                            />
+                        </ListItem>
+                    ))}
+                </List>
+            </Box>
+        );
+    };
+
+    const diff = preview?.diff;
+    const hasChanges = Boolean(diff && (
+        diff.fields.length ||
+        diff.skills.added.length ||
+        (Object.keys(LIST_LABELS) as ImportedListField[]).some(field => diff[field])
+    ));
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+            <DialogTitle>Import JSON Resume</DialogTitle>
+            <DialogContent dividers>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                    Import a resume in the open <a href="https://jsonresume.org/schema" target="_blank" rel="noopener noreferrer">JSON Resume</a> format.
+                    You'll see what changes before anything is saved.
+                </Typography>
+                <input
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    ref={fileInputRef}
+                    onChange={handleFile}
+                />
+                <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} disabled={loading}>
+                    {fileName || 'Choose File'}
+                </Button>
+
+                {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+                {loading && !preview && <Box mt={2}><CircularProgress size={24} /></Box>}
+
+                {diff && (
+                    <Box mt={3}>
+                        {!hasChanges && <Alert severity="info">This resume matches your profile. Nothing would change.</Alert>}
+
+                        {diff.fields.length > 0 && (
+                            <Box mb={2}>
+                                <Typography variant="subtitle1">Profile Details</Typography>
+                                <Table size="small">
+                                    <TableHead>
+                                        <TableRow>
+                                            <TableCell>Field</TableCell>
+                                            <TableCell>Current</TableCell>
+                                            <TableCell>Imported</TableCell>
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {diff.fields.map(change => (
+                                            <TableRow key={change.field}>
+                                                <TableCell>{FIELD_LABELS[change.field] || change.field}</TableCell>
+                                                <TableCell sx={{ color: 'text.secondary' }}>{change.current || '-'}</TableCell>
+                                                <TableCell>{change.incoming}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </Box>
+                        )}
+
+                        {diff.skills.added.length > 0 && (
+                            <Box mb={2}>
+                                <Typography variant="subtitle1" gutterBottom>New Skills</Typography>
+                                <Box display="flex" flexWrap="wrap" gap={1}>
+                                    {diff.skills.added.map(skill => (
+                                        <Chip key={skill} size="small" color="success" variant="outlined" label={skill} />
+                                    ))}
+                                </Box>
+                            </Box>
+                        )}
+
+                        {(Object.keys(LIST_LABELS) as ImportedListField[]).map(field => renderListDiff(field, diff[field]))}
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose} disabled={loading}>Cancel</Button>
+                <Button variant="contained" onClick={handleImport} disabled={loading || !preview || !hasChanges}>
+                    Import
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default JsonResumeImportDialog;
@@ -19,14 +19,28 @@ import {
     DialogActions,
     Alert,
     Snackbar,
-    Badge
+    Badge,
+    Chip,
+    TextField
 } from '@mui/material';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AssessmentIcon from '@mui/icons-material/Assessment';
 import PeopleIcon from '@mui/icons-material/People';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PublishIcon from '@mui/icons-material/Publish';
+import ReplayIcon from '@mui/icons-material/Replay';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
 import axios from 'axios';
-import { applicationService } from '../services/api';
+import { applicationService, jobService, jobTemplateService, employerService } from '../services/api';
+import { JobStatus, JOB_STATUS_LABELS } from '../types';
+import JobImportDialog from './JobImportDialog';
+import PipelineStagesDialog from './PipelineStagesDialog';
 
 interface Job {
     _id: string;
@@ -34,11 +48,22 @@ interface Job {
     company: string;
     location: string;
     type: string;
-    status: string;
+    status: JobStatus;
+    publishAt?: string;
+    expiresAt?: string;
     createdAt: string;
     applicationCount?: number;
 }
 
+const STATUS_COLORS: Record<JobStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+    draft: 'default',
+    scheduled: 'info',
+    open: 'success',
+    paused: 'warning',
+    expired: 'error',
+    closed: 'default'
+};
+
 const ManageJobs: React.FC = () => {
     const navigate = useNavigate();
     const [jobs, setJobs] = useState<Job[]>([]);
@@ -46,6 +71,10 @@ const ManageJobs: React.FC = () => {
     const [error, setError] = useState('');
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
     const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+    const [importOpen, setImportOpen] = useState(false);
+    const [pipelineOpen, setPipelineOpen] = useState(false);
+    const [templateJob, setTemplateJob] = useState<Job | null>(null);
+    const [templateName, setTemplateName] = useState('');
     const [snackbar, setSnackbar] = useState<{
         open: boolean;
         message: string;
@@ -142,6 +171,99 @@ const ManageJobs: React.FC = () => {
         }
     };
 
+    const handleStatusChange = async (job: Job, status: JobStatus) => {
+        try {
+            // Publishing now clears any future publish date so the job doesn't stay scheduled
+            const updated = await jobService.updateJob(job._id, status === 'open' && job.status === 'scheduled'
+                ? { status, publishAt: '' }
+                : { status });
+            setJobs(jobs.map(j => j._id === job._id ? { ...j, status: updated.status, publishAt: updated.publishAt } : j));
+            setSnackbar({
+                open: true,
+                message: `Job is now ${JOB_STATUS_LABELS[updated.status].toLowerCase()}`,
+                severity: 'success'
+            });
+        } catch (err: any) {
+            setSnackbar({
+                open: true,
+                message: err.response?.data?.message || 'Failed to update job status',
+                severity: 'error'
+            });
+        }
+    };
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        try {
+            const blob = await jobService.exportJobs(format);
+            const url = window.URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `jobs-export-${new Date().toISOString().split('T')[0]}.${format}`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            window.URL.revokeObjectURL(url);
+        } catch (err: any) {
+            setSnackbar({
+                open: true,
+                message: 'Failed to export jobs',
+                severity: 'error'
+            });
+        }
+    };
+
+    const handleImported = (count: number) => {
+        setSnackbar({
+            open: true,
+            message: `${count} job${count === 1 ? '' : 's'} imported successfully`,
+            severity: 'success'
+        });
+        fetchJobs();
+    };
+
+    const handleTemplateClick = (job: Job) => {
+        setTemplateJob(job);
+        setTemplateName(job.title);
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!templateJob) return;
+
+        try {
+            await jobTemplateService.createFromJob(templateJob._id, templateName.trim() || templateJob.title);
+            setSnackbar({
+                open: true,
+                message: 'Template saved. Pick it when posting a new job.',
+                severity: 'success'
+            });
+            setTemplateJob(null);
+        } catch (err: any) {
+            setSnackbar({
+                open: true,
+                message: err.response?.data?.message || 'Failed to save template',
+                severity: 'error'
+            });
+        }
+    };
+
+    const handleRepost = async (job: Job) => {
+        try {
+            const repost = await jobService.repostJob(job._id);
+            setJobs([{ ...repost, applicationCount: 0 } as Job, ...jobs]);
+            setSnackbar({
+                open: true,
+                message: 'Job reposted successfully',
+                severity: 'success'
+            });
+        } catch (err: any) {
+            setSnackbar({
+                open: true,
+                message: err.response?.data?.message || 'Failed to repost job',
+                severity: 'error'
+            });
+        }
+    };
+
     const handleCloseSnackbar = () => {
         setSnackbar({ ...snackbar, open: false });
     };
@@ -172,13 +294,45 @@ const ManageJobs: React.FC = () => {
                 <Typography variant="h4" component="h1">
                     Manage Job Posts
                 </Typography>
-                <Button
-                    variant="contained"
-                    color="primary"
-                    onClick={() => navigate('/jobs/post')}
-                >
-                    Post New Job
-                </Button>
+                <Box display="flex" gap={1}>
+                    <Button
+                        variant="outlined"
+                        startIcon={<FileDownloadIcon />}
+                        onClick={() => handleExport('csv')}
+                        disabled={jobs.length === 0}
+                    >
+                        Export CSV
+                    </Button>
+                    <Button
+                        variant="outlined"
+                        startIcon={<FileDownloadIcon />}
+                        onClick={() => handleExport('json')}
+                        disabled={jobs.length === 0}
+                    >
+                        Export JSON
+                    </Button>
+                    <Button
+                        variant="outlined"
+                        startIcon={<FileUploadIcon />}
+                        onClick={() => setImportOpen(true)}
+                    >
+                        Import
+                    </Button>
+                    <Button
+                        variant="outlined"
+                        startIcon={<AccountTreeIcon />}
+                        onClick={() => setPipelineOpen(true)}
+                    >
+                        Default Pipeline
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="primary"
+                        onClick={() => navigate('/jobs/post')}
+                    >
+                        Post New Job
+                    </Button>
+                </Box>
             </Box>
 
             <TableContainer component={Paper}>
@@ -191,6 +345,7 @@ const ManageJobs: React.FC = () => {
                             <TableCell>Type</TableCell>
                             <TableCell>Status</TableCell>
                             <TableCell>Posted Date</TableCell>
+                            <TableCell>Expires</TableCell>
                             <TableCell>Actions</TableCell>
                         </TableRow>
                     </TableHead>
@@ -201,11 +356,62 @@ const ManageJobs: React.FC = () => {
                                 <TableCell>{job.company}</TableCell>
                                 <TableCell>{job.location}</TableCell>
                                 <TableCell>{job.type}</TableCell>
-                                <TableCell>{job.status}</TableCell>
+                                <TableCell>
+                                    <Chip
+                                        size="small"
+                                        label={JOB_STATUS_LABELS[job.status] || job.status}
+                                        color={STATUS_COLORS[job.status] || 'default'}
+                                        variant={job.status === 'closed' ? 'outlined' : 'filled'}
+                                    />
+                                    {job.status === 'scheduled' && job.publishAt && (
+                                        <Typography variant="caption" display="block" color="text.secondary">
+                                            Goes live {new Date(job.publishAt).toLocaleString()}
+                                        </Typography>
+                                    )}
+                                </TableCell>
                                 <TableCell>
                                     {new Date(job.createdAt).toLocaleDateString()}
                                 </TableCell>
                                 <TableCell>
+                                    {job.expiresAt ? new Date(job.expiresAt).toLocaleDateString() : '—'}
+                                </TableCell>
+                                <TableCell>
+                                    {(job.status === 'draft' || job.status === 'scheduled') && (
+                                        <IconButton
+                                            color="success"
+                                            onClick={() => handleStatusChange(job, 'open')}
+                                            title="Publish Now"
+                                        >
+                                            <PublishIcon />
+                                        </IconButton>
+                                    )}
+                                    {job.status === 'open' && (
+                                        <IconButton
+                                            color="warning"
+                                            onClick={() => handleStatusChange(job, 'paused')}
+                                            title="Pause Job"
+                                        >
+                                            <PauseIcon />
+                                        </IconButton>
+                                    )}
+                                    {job.status === 'paused' && (
+                                        <IconButton
+                                            color="success"
+                                            onClick={() => handleStatusChange(job, 'open')}
+                                            title="Resume Job"
+                                        >
+                                            <PlayArrowIcon />
+                                        </IconButton>
+                                    )}
+                                    {job.status === 'expired' && (
+                                        <IconButton
+                                            color="primary"
+                                            onClick={() => handleRepost(job)}
+                                            title="Repost Job"
+                                        >
+                                            <ReplayIcon />
+                                        </IconButton>
+                                    )}
                                     <IconButton
                                         color="primary"
                                         onClick={() => handleEdit(job._id)}
@@ -213,6 +419,20 @@ const ManageJobs: React.FC = () => {
                                     >
                                         <EditIcon />
                                     </IconButton>
+                                    <IconButton
+                                        color="primary"
+                                        onClick={() => navigate(`/jobs/${job._id}/duplicate`)}
+                                        title="Duplicate Job"
+                                    >
+                                        <ContentCopyIcon />
+                                    </IconButton>
+                                    <IconButton
+                                        color="primary"
+                                        onClick={() => handleTemplateClick(job)}
+                                        title="Save as Template"
+                                    >
+                                        <BookmarkAddIcon />
+                                    </IconButton>
                                     <IconButton
                                         color="info"
                                         onClick={() => navigate(`/jobs/${job._id}/analytics`)}
@@ -259,6 +479,48 @@ const ManageJobs: React.FC = () => {
                 </DialogActions>
             </Dialog>
 
+            <JobImportDialog
+                open={importOpen}
+                onClose={() => setImportOpen(false)}
+                onImported={handleImported}
+            />
+
+            <PipelineStagesDialog
+                open={pipelineOpen}
+                onClose={() => setPipelineOpen(false)}
+                title="Default Hiring Pipeline"
+                load={employerService.getDefaultPipeline}
+                save={employerService.updateDefaultPipeline}
+                reset={{ label: 'Use Built-in Stages', from: 'company' }}
+                onSaved={() => setSnackbar({ open: true, message: 'Default pipeline saved', severity: 'success' })}
+            />
+
+            <Dialog
+                open={Boolean(templateJob)}
+                onClose={() => setTemplateJob(null)}
+                maxWidth="xs"
+                fullWidth
+            >
+                <DialogTitle>Save as Template</DialogTitle>
+                <DialogContent>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        margin="dense"
+                        label="Template Name"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        helperText="Title, description, requirements, salary band and job type are saved"
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setTemplateJob(null)}>Cancel</Button>
+                    <Button onClick={handleSaveTemplate} variant="contained">
+                        Save
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
             <Snackbar
                 open={snackbar.open}
                 autoHideDuration={6000}
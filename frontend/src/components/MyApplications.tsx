@@ -11,11 +11,16 @@ import {
     CircularProgress,
     Alert,
     Divider,
-    Link
+    Link,
+    Paper
 } from '@mui/material';
-import { applicationService } from '../services/api';
-import { JobApplication } from '../types';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import { format } from 'date-fns';
+import { applicationService, offerService, getFileUrl } from '../services/api';
+import { JobApplication, Offer, OFFER_STATUS_LABELS } from '../types';
 import { useAuth } from '../context/AuthContext';
+import OfferLetterButtons from './common/OfferLetterButtons';
+import OfferResponseDialog from './OfferResponseDialog';
 
 const MyApplications: React.FC = () => {
     const navigate = useNavigate();
@@ -23,6 +28,9 @@ const MyApplications: React.FC = () => {
     const [applications, setApplications] = useState<JobApplication[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string>('');
+    const [offers, setOffers] = useState<Offer[]>([]);
+    const [offerError, setOfferError] = useState('');
+    const [responding, setResponding] = useState<{ offer: Offer; action: 'decline' | 'counter' } | null>(null);
 
     useEffect(() => {
         fetchApplications();
@@ -30,8 +38,16 @@ const MyApplications: React.FC = () => {
 
     const fetchApplications = async () => {
         try {
-            const data = await applicationService.getMyApplications();
+            const [data, offerData] = await Promise.all([
+                applicationService.getMyApplications(),
+                // Offers are secondary, so a failure here shouldn't hide the applications
+                offerService.getMyOffers().catch((err: any) => {
+                    console.error('Error fetching offers:', err);
+                    return [] as Offer[];
+                })
+            ]);
             setApplications(data);
+            setOffers(offerData);
         } catch (err: any) {
             setError(err.response?.data?.message || 'Failed to fetch applications');
         } finally {
@@ -39,6 +55,24 @@ const MyApplications: React.FC = () => {
         }
     };
 
+    const handleOfferUpdated = (updated: Offer) => {
+        setOffers(prev => prev.map(offer => (offer._id === updated._id ? { ...updated, job: offer.job } : offer)));
+        if (updated.status === 'accepted') {
+            // Accepting moves the application along, so pick up its new stage
+            applicationService.getMyApplications().then(setApplications).catch(() => undefined);
+        }
+    };
+
+    const handleAccept = async (offer: Offer) => {
+        if (!window.confirm('Accept this offer? The employer will be notified.')) return;
+        setOfferError('');
+        try {
+            handleOfferUpdated(await offerService.respondToOffer(offer._id, 'accept'));
+        } catch (err: any) {
+            setOfferError(err.response?.data?.message || 'Failed to accept the offer');
+        }
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'accepted':
@@ -95,6 +129,7 @@ const MyApplications: React.FC = () => {
                 {applications.map((application) => {
                     const job = typeof application.job === 'object' ? application.job : null;
                     if (!job) return null;
+                    const offer = offers.find(candidate => candidate.application === application._id);
 
                     return (
                         <Box sx={{ padding: theme => theme.spacing(1.5), width: '100%' }} key={application._id}>
@@ -110,7 +145,7 @@ const MyApplications: React.FC = () => {
                                             </Typography>
                                             <Box display="flex" gap={1} mb={2}>
                                                 <Chip
-                                                    label={`Status: ${application.status.charAt(0).toUpperCase() + application.status.slice(1)}`}
+                                                    label={`Status: ${application.stageLabel || application.status.charAt(0).toUpperCase() + application.status.slice(1)}`}
                                                     color={getStatusColor(application.status) as any}
                                                 />
                                                 <Chip
@@ -121,6 +156,53 @@ const MyApplications: React.FC = () => {
                                         </Box>
                                     </Box>
 
+                                    {offer && (
+                                        <Paper variant="outlined" sx={{ p: 2, mb: 2, borderColor: offer.status === 'sent' ? 'primary.main' : undefined }}>
+                                            <Box display="flex" alignItems="center" gap={1} mb={1}>
+                                                <LocalOfferIcon color="primary" />
+                                                <Typography variant="subtitle1" sx={{ flex: 1 }}>
+                                                    Job Offer
+                                                </Typography>
+                                                <Chip size="small" label={OFFER_STATUS_LABELS[offer.status]} color={offer.status === 'accepted' ? 'success' : 'default'} />
+                                            </Box>
+                                            <Typography variant="body2">
+                                                Salary: {offer.salary.currency} {offer.salary.amount.toLocaleString()}
+                                            </Typography>
+                                            <Typography variant="body2">
+                                                Start date: {format(new Date(offer.startDate), 'MMM d, yyyy')}
+                                            </Typography>
+                                            {offer.status === 'sent' && (
+                                                <Typography variant="body2" color="text.secondary">
+                                                    Respond by {format(new Date(offer.expiresAt), 'MMM d, yyyy')}
+                                                </Typography>
+                                            )}
+                                            {offer.status === 'countered' && (
+                                                <Typography variant="body2" color="text.secondary">
+                                                    You sent a counter offer. The employer will get back to you with a revised offer.
+                                                </Typography>
+                                            )}
+                                            {offerError && offer.status === 'sent' && (
+                                                <Alert severity="error" sx={{ mt: 1 }}>{offerError}</Alert>
+                                            )}
+                                            <Box display="flex" flexWrap="wrap" gap={1} mt={1}>
+                                                <OfferLetterButtons offerId={offer._id} onError={setOfferError} />
+                                                {offer.status === 'sent' && (
+                                                    <>
+                                                        <Button size="small" variant="contained" color="success" onClick={() => handleAccept(offer)}>
+                                                            Accept
+                                                        </Button>
+                                                        <Button size="small" variant="outlined" onClick={() => setResponding({ offer, action: 'counter' })}>
+                                                            Counter
+                                                        </Button>
+                                                        <Button size="small" color="error" onClick={() => setResponding({ offer, action: 'decline' })}>
+                                                            Decline
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </Box>
+                                        </Paper>
+                                    )}
+
                                     <Divider sx={{ my: 2 }} />
 
                                     {application.coverLetter && (
@@ -134,7 +216,27 @@ const MyApplications: React.FC = () => {
                                         </Box>
                                     )}
 
-                                    {application.resume && (
+                                    {application.coverLetterFile && (
+                                        <Box mb={2}>
+                                            <Typography variant="subtitle1" gutterBottom>
+                                                Cover Letter
+                                            </Typography>
+                                            <Link href={getFileUrl(application.coverLetterFile.url)} target="_blank" rel="noopener noreferrer">
+                                                {application.coverLetterFile.name}
+                                            </Link>
+                                        </Box>
+                                    )}
+
+                                    {application.resumeFile ? (
+                                        <Box mb={2}>
+                                            <Typography variant="subtitle1" gutterBottom>
+                                                Resume
+                                            </Typography>
+                                            <Link href={getFileUrl(application.resumeFile.url)} target="_blank" rel="noopener noreferrer">
+                                                {application.resumeFile.name}
+                                            </Link>
+                                        </Box>
+                                    ) : application.resume && (
                                         <Box mb={2}>
                                             <Typography variant="subtitle1" gutterBottom>
                                                 Resume URL
@@ -159,6 +261,16 @@ const MyApplications: React.FC = () => {
                     );
                 })}
             </Box>
+
+            {responding && (
+                <OfferResponseDialog
+                    open={Boolean(responding)}
+                    onClose={() => setResponding(null)}
+                    offer={responding.offer}
+                    action={responding.action}
+                    onResponded={handleOfferUpdated}
+                />
+            )}
         </Box>
     );
 };
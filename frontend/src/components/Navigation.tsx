@@ -34,6 +34,7 @@ import MonetizationOnIcon from '@mui/icons-material/MonetizationOn';
 import VideoCameraFrontIcon from '@mui/icons-material/VideoCameraFront';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
 import ReportIcon from '@mui/icons-material/Report';
+import GroupIcon from '@mui/icons-material/Group';
 import { useAuth } from '../context/AuthContext';
 import { Link as RouterLink } from 'react-router-dom';
 
@@ -103,6 +104,7 @@ const Navigation: React.FC = () => {
             { text: 'Manage Jobs', icon: <WorkIcon />, path: '/jobs/manage' },
             { text: 'Manage Interviews', icon: <VideoCameraFrontIcon />, path: '/employer/interviews' },
             { text: 'Find Candidates', icon: <PersonIcon />, path: '/employer/candidates' },
+            { text: 'Team', icon: <GroupIcon />, path: '/employer/team' },
             { text: 'Messages', icon: <PersonIcon />, path: '/messages' }
         ] : []),
         ...(user?.type === 'admin' ? [
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    Typography,
+    Alert,
+    Chip
+} from '@mui/material';
+import { addDays, format } from 'date-fns';
+import OfferLetterButtons from './common/OfferLetterButtons';
+import { offerService } from '../services/api';
+import { Job, JobApplication, Offer, OfferFormData, OFFER_STATUS_LABELS, SalaryPeriod } from '../types';
+
+const OPEN_STATUSES = ['draft', 'sent', 'countered'];
+
+interface OfferDialogProps {
+    open: boolean;
+    onClose: () => void;
+    job: Job;
+    application: JobApplication;
+    // The application's latest offer, if one has been made
+    offer?: Offer;
+    onSaved: (offer: Offer) => void;
+}
+
+const toDateInput = (date: Date | string) => format(new Date(date), 'yyyy-MM-dd');
+
+const formatMoney = (amount: number, currency: string) => `${currency} ${amount.toLocaleString()}`;
+
+// Offers are annual; monthly job salaries are scaled up for the suggested amount
+const annualSalary = (amount: number, period?: SalaryPeriod) => (period === 'month' ? amount * 12 : amount);
+
+// Employer dialog for drafting, sending, revising and withdrawing an applicant's offer
+const OfferDialog: React.FC<OfferDialogProps> = ({ open, onClose, job, application, offer, onSaved }) => {
+    const [form, setForm] = useState<OfferFormData | null>(null);
+    const [placeholders, setPlaceholders] = useState<string[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const isOpenOffer = Boolean(offer && OPEN_STATUSES.includes(offer.status));
+
+    useEffect(() => {
+        if (!open) return;
+        setError('');
+        offerService.getDefaultTemplate()
+            .then(({ template, placeholders: names }) => {
+                setPlaceholders(names);
+                if (offer && OPEN_STATUSES.includes(offer.status)) {
+                    setForm({
+                        salary: { ...offer.salary },
+                        startDate: toDateInput(offer.startDate),
+                        expiresAt: toDateInput(offer.expiresAt),
+                        letterTemplate: offer.letterTemplate
+                    });
+                } else {
+                    setForm({
+                        salary: { amount: annualSalary(job.salary?.max || 0, job.salary?.period), currency: job.salary?.currency || 'PKR' },
+                        startDate: toDateInput(addDays(new Date(), 30)),
+                        expiresAt: toDateInput(addDays(new Date(), 7)),
+                        letterTemplate: template
+                    });
+                }
+            })
+            .catch((err: any) => setError(err.response?.data?.message || 'Failed to load the offer letter template'));
+    }, [open, offer, job]);
+
+    const updateForm = (changes: Partial<OfferFormData>) => setForm(prev => prev && { ...prev, ...changes });
+
+    const runAction = async (action: () => Promise<Offer>) => {
+        setSubmitting(true);
+        setError('');
+        try {
+            const saved = await action();
+            onSaved(saved);
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to update the offer');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Expiry is the end of the chosen day
+    const toPayload = (data: OfferFormData): OfferFormData => ({
+        ...data,
+        expiresAt: new Date(`${data.expiresAt}T23:59:59`).toISOString()
+    });
+
+    const handleSave = (send: boolean) => {
+        if (!form) return;
+        const payload = toPayload(form);
+        if (!offer || !isOpenOffer) {
+            runAction(() => offerService.createOffer(application._id, payload, send));
+        } else if (offer.status === 'draft' && send) {
+            runAction(async () => {
+                await offerService.updateOffer(offer._id, payload);
+                return offerService.sendOffer(offer._id);
+            });
+        } else {
+            runAction(() => offerService.updateOffer(offer._id, payload));
+        }
+    };
+
+    const handleWithdraw = () => {
+        if (!offer || !window.confirm('Withdraw this offer? The candidate will be notified if they have already received it.')) return;
+        runAction(() => offerService.withdrawOffer(offer._id));
+    };
+
+    // Accepted offers are final; other closed offers can be followed by a new one
+    const canEdit = !offer || offer.status !== 'accepted';
+    const sendLabel = !offer || !isOpenOffer || offer.status === 'draft' ? 'Send Offer' : 'Send Revised Offer';
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>
+                Offer for {application.jobSeeker.name}
+                {offer && (
+                    <Chip size="small" label={OFFER_STATUS_LABELS[offer.status]} sx={{ ml: 2 }} />
+                )}
+            </DialogTitle>
+            <DialogContent>
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                )}
+
+                {offer?.status === 'countered' && offer.counterOffer && (
+                    <Alert severity="info" sx={{ mb: 2 }}>
+                        <Typography variant="subtitle2">The candidate made a counter offer</Typography>
+                        {offer.counterOffer.salary && (
+                            <Typography variant="body2">
+                                Salary: {formatMoney(offer.counterOffer.salary.amount, offer.counterOffer.salary.currency)}
+                            </Typography>
+                        )}
+                        {offer.counterOffer.startDate && (
+                            <Typography variant="body2">
+                                Start date: {format(new Date(offer.counterOffer.startDate), 'MMM d, yyyy')}
+                            </Typography>
+                        )}
+                        {offer.counterOffer.message && (
+                            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                                "{offer.counterOffer.message}"
+                            </Typography>
+                        )}
+                        <Typography variant="caption" display="block" sx={{ mt: 1 }}>
+                            Revise the terms below to send an updated offer, or withdraw it.
+                        </Typography>
+                    </Alert>
+                )}
+
+                {offer && !isOpenOffer && (
+                    <Alert severity={offer.status === 'accepted' ? 'success' : 'warning'} sx={{ mb: 2 }}>
+                        {offer.status === 'accepted'
+                            ? `Accepted on ${format(new Date(offer.respondedAt || offer.updatedAt), 'MMM d, yyyy')}.`
+                            : `The last offer was ${OFFER_STATUS_LABELS[offer.status].toLowerCase()}${offer.responseNote ? `: "${offer.responseNote}"` : '.'} You can make a new one below.`}
+                    </Alert>
+                )}
+
+                {offer && (
+                    <Box mb={2}>
+                        <OfferLetterButtons offerId={offer._id} onError={setError} />
+                    </Box>
+                )}
+
+                {form && canEdit && (
+                    <>
+                        <Box display="flex" gap={2} flexWrap="wrap">
+                            <TextField
+                                label="Annual Salary"
+                                type="number"
+                                margin="dense"
+                                value={form.salary.amount || ''}
+                                onChange={(e) => updateForm({ salary: { ...form.salary, amount: Number(e.target.value) } })}
+                                inputProps={{ min: 0 }}
+                                sx={{ flex: 2, minWidth: 180 }}
+                            />
+                            <TextField
+                                label="Currency"
+                                margin="dense"
+                                value={form.salary.currency}
+                                onChange={(e) => updateForm({ salary: { ...form.salary, currency: e.target.value.toUpperCase() } })}
+                                inputProps={{ maxLength: 3 }}
+                                sx={{ flex: 1, minWidth: 100 }}
+                            />
+                            <TextField
+                                label="Start Date"
+                                type="date"
+                                margin="dense"
+                                value={form.startDate}
+                                onChange={(e) => updateForm({ startDate: e.target.value })}
+                                InputLabelProps={{ shrink: true }}
+                                sx={{ flex: 2, minWidth: 180 }}
+                            />
+                            <TextField
+                                label="Respond By"
+                                type="date"
+                                margin="dense"
+                                value={form.expiresAt}
+                                onChange={(e) => updateForm({ expiresAt: e.target.value })}
+                                InputLabelProps={{ shrink: true }}
+                                sx={{ flex: 2, minWidth: 180 }}
+                            />
+                        </Box>
+                        <TextField
+                            fullWidth
+                            multiline
+                            minRows={10}
+                            margin="dense"
+                            label="Offer Letter"
+                            value={form.letterTemplate}
+                            onChange={(e) => updateForm({ letterTemplate: e.target.value })}
+                            inputProps={{ maxLength: 10000 }}
+                            helperText={`Placeholders: ${placeholders.map(name => `{{${name}}}`).join(', ')}`}
+                        />
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {offer && isOpenOffer && (
+                    <Button color="error" onClick={handleWithdraw} disabled={submitting} sx={{ mr: 'auto' }}>
+                        Withdraw Offer
+                    </Button>
+                )}
+                <Button onClick={onClose}>Close</Button>
+                {canEdit && (!offer || !isOpenOffer || offer.status === 'draft') && (
+                    <Button onClick={() => handleSave(false)} disabled={submitting || !form}>
+                        Save Draft
+                    </Button>
+                )}
+                {canEdit && (
+                    <Button variant="contained" onClick={() => handleSave(true)} disabled={submitting || !form}>
+                        {submitting ? 'Saving...' : sendLabel}
+                    </Button>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default OfferDialog;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    Typography,
+    Alert
+} from '@mui/material';
+import { offerService } from '../services/api';
+import { Offer } from '../types';
+
+interface OfferResponseDialogProps {
+    open: boolean;
+    onClose: () => void;
+    offer: Offer;
+    // Declining asks for an optional reason; countering asks for the proposed terms
+    action: 'decline' | 'counter';
+    onResponded: (offer: Offer) => void;
+}
+
+const OfferResponseDialog: React.FC<OfferResponseDialogProps> = ({ open, onClose, offer, action, onResponded }) => {
+    const [note, setNote] = useState('');
+    const [salary, setSalary] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        setNote('');
+        setSalary('');
+        setStartDate('');
+        setError('');
+    }, [open]);
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        setError('');
+        try {
+            const updated = action === 'decline'
+                ? await offerService.respondToOffer(offer._id, 'decline', { note: note.trim() || undefined })
+                : await offerService.respondToOffer(offer._id, 'counter', {
+                    counter: {
+                        salary: salary ? { amount: Number(salary), currency: offer.salary.currency } : undefined,
+                        startDate: startDate || undefined,
+                        message: note.trim() || undefined
+                    }
+                });
+            onResponded(updated);
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to send your response');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const invalid = action === 'counter' && !salary && !startDate && !note.trim();
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+            <DialogTitle>{action === 'decline' ? 'Decline Offer' : 'Make a Counter Offer'}</DialogTitle>
+            <DialogContent>
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                )}
+
+                {action === 'counter' && (
+                    <>
+                        <Typography variant="body2" color="text.secondary" paragraph>
+                            Propose the terms you'd accept. The employer can send you a revised offer.
+                        </Typography>
+                        <Box display="flex" gap={2}>
+                            <TextField
+                                label={`Salary (${offer.salary.currency})`}
+                                type="number"
+                                margin="dense"
+                                value={salary}
+                                onChange={(e) => setSalary(e.target.value)}
+                                placeholder={String(offer.salary.amount)}
+                                inputProps={{ min: 0 }}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Start Date"
+                                type="date"
+                                margin="dense"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                InputLabelProps={{ shrink: true }}
+                                sx={{ flex: 1 }}
+                            />
+                        </Box>
+                    </>
+                )}
+
+                <TextField
+                    fullWidth
+                    multiline
+                    minRows={3}
+                    margin="dense"
+                    label={action === 'decline' ? 'Reason (optional)' : 'Message'}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    inputProps={{ maxLength: 2000 }}
+                />
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>Cancel</Button>
+                <Button
+                    variant="contained"
+                    color={action === 'decline' ? 'error' : 'primary'}
+                    onClick={handleSubmit}
+                    disabled={submitting || invalid}
+                >
+                    {submitting ? 'Sending...' : action === 'decline' ? 'Decline Offer' : 'Send Counter Offer'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default OfferResponseDialog;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogActions,
+    TextField,
+    MenuItem,
+    IconButton,
+    Typography,
+    Alert,
+    Chip,
+    CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { JobPipeline, PipelineStage, StageCategory, STAGE_CATEGORY_LABELS } from '../types';
+
+const MAX_STAGES = 15;
+
+const PIPELINE_SOURCE_LABELS: Record<JobPipeline['source'], string> = {
+    job: 'Custom for this job',
+    company: 'Company default',
+    default: 'Built-in stages'
+};
+
+interface PipelineStagesDialogProps {
+    open: boolean;
+    onClose: () => void;
+    title: string;
+    load: () => Promise<JobPipeline>;
+    save: (stages: PipelineStage[]) => Promise<JobPipeline>;
+    // Button that saves an empty list (e.g. "Use company default"), shown while the stages come from `from`
+    reset?: { label: string; from: JobPipeline['source'] };
+    onSaved?: (pipeline: JobPipeline) => void;
+}
+
+// Employer-side editor for the ordered stages applications move through
+const PipelineStagesDialog: React.FC<PipelineStagesDialogProps> = ({ open, onClose, title, load, save, reset, onSaved }) => {
+    const [stages, setStages] = useState<PipelineStage[]>([]);
+    const [source, setSource] = useState<JobPipeline['source'] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        setLoading(true);
+        setError('');
+        load()
+            .then(pipeline => {
+                setStages(pipeline.stages);
+                setSource(pipeline.source);
+            })
+            .catch((err: any) => setError(err.response?.data?.message || 'Failed to load the pipeline'))
+            .finally(() => setLoading(false));
+    }, [open, load]);
+
+    const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+        setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+    };
+
+    const moveStage = (index: number, offset: number) => {
+        setStages(prev => {
+            const next = [...prev];
+            [next[index], next[index + offset]] = [next[index + offset], next[index]];
+            return next;
+        });
+    };
+
+    const handleSave = async (nextStages: PipelineStage[]) => {
+        setSaving(true);
+        setError('');
+        try {
+            const pipeline = await save(nextStages);
+            onSaved?.(pipeline);
+            onClose();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save the pipeline');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogContent>
+                {loading ? (
+                    <Box display="flex" justifyContent="center" p={3}>
+                        <CircularProgress />
+                    </Box>
+                ) : (
+                    <>
+                        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                            <Typography variant="body2" color="text.secondary">
+                                Each stage belongs to a status category. Applicants only see the applicant label, never the stage name.
+                            </Typography>
+                            {source && <Chip size="small" label={PIPELINE_SOURCE_LABELS[source]} sx={{ ml: 2 }} />}
+                        </Box>
+
+                        {error && (
+                            <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+                        )}
+
+                        {stages.map((stage, index) => (
+                            <Box key={stage.key || `new-${index}`} display="flex" gap={1} alignItems="center" mb={1.5}>
+                                <TextField
+                                    size="small"
+                                    label={`Stage ${index + 1}`}
+                                    value={stage.name}
+                                    onChange={(e) => updateStage(index, { name: e.target.value })}
+                                    placeholder="e.g. Phone screen"
+                                    inputProps={{ maxLength: 50 }}
+                                    sx={{ flex: 2 }}
+                                />
+                                <TextField
+                                    size="small"
+                                    label="Applicant Label"
+                                    value={stage.seekerLabel || ''}
+                                    onChange={(e) => updateStage(index, { seekerLabel: e.target.value })}
+                                    placeholder="e.g. Under review"
+                                    inputProps={{ maxLength: 50 }}
+                                    sx={{ flex: 2 }}
+                                />
+                                <TextField
+                                    select
+                                    size="small"
+                                    label="Category"
+                                    value={stage.category}
+                                    onChange={(e) => updateStage(index, { category: e.target.value as StageCategory })}
+                                    sx={{ flex: 1, minWidth: 130 }}
+                                >
+                                    {Object.entries(STAGE_CATEGORY_LABELS).map(([category, label]) => (
+                                        <MenuItem key={category} value={category}>{label}</MenuItem>
+                                    ))}
+                                </TextField>
+                                <IconButton size="small" title="Move Up" disabled={index === 0} onClick={() => moveStage(index, -1)}>
+                                    <ArrowUpwardIcon fontSize="small" />
+                                </IconButton>
+                                <IconButton size="small" title="Move Down" disabled={index === stages.length - 1} onClick={() => moveStage(index, 1)}>
+                                    <ArrowDownwardIcon fontSize="small" />
+                                </IconButton>
+                                <IconButton
+                                    size="small"
+                                    color="error"
+                                    title="Remove Stage"
+                                    onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}
+                                >
+                                    <DeleteIcon fontSize="small" />
+                                </IconButton>
+                            </Box>
+                        ))}
+
+                        <Button
+                            startIcon={<AddIcon />}
+                            onClick={() => setStages(prev => [...prev, { name: '', category: 'reviewed' }])}
+                            disabled={stages.length >= MAX_STAGES}
+                        >
+                            Add Stage
+                        </Button>
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {reset && source === reset.from && (
+                    <Button onClick={() => handleSave([])} disabled={saving || loading} sx={{ mr: 'auto' }}>
+                        {reset.label}
+                    </Button>
+                )}
+                <Button onClick={onClose}>Cancel</Button>
+                <Button onClick={() => handleSave(stages)} variant="contained" disabled={saving || loading}>
+                    {saving ? 'Saving...' : 'Save'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default PipelineStagesDialog;
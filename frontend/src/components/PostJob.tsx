@@ -12,6 +12,10 @@ import {
     Snackbar,
 } from '@mui/material';
 import axios from 'axios';
+import SkillsInput from './common/SkillsInput';
+import JobTemplatePicker from './JobTemplatePicker';
+import ScreeningQuestionsEditor from './ScreeningQuestionsEditor';
+import { EXPERIENCE_LEVEL_LABELS, WORK_MODE_LABELS, SALARY_PERIOD_LABELS, JobTemplate, SalaryPeriod, ScreeningQuestion } from '../types';
 
 const PostJob = () => {
     const navigate = useNavigate();
@@ -22,10 +26,17 @@ const PostJob = () => {
         salary: {
             min: '',
             max: '',
-            currency: 'PKR'
+            currency: 'PKR',
+            period: 'year' as SalaryPeriod
         },
         location: '',
         type: 'full-time',
+        skills: [] as string[],
+        experienceLevel: 'mid',
+        workMode: 'onsite',
+        screeningQuestions: [] as ScreeningQuestion[],
+        publishAt: '',
+        expiresAt: '',
         company: ''
     });
     const [snackbar, setSnackbar] = useState({
@@ -44,6 +55,11 @@ const PostJob = () => {
                     [name === 'salaryMin' ? 'min' : 'max']: value
                 }
             }));
+        } else if (name === 'salaryPeriod') {
+            setFormData(prev => ({
+                ...prev,
+                salary: { ...prev.salary, period: value as SalaryPeriod }
+            }));
         } else {
             setFormData(prev => ({
                 ...prev,
@@ -52,13 +68,43 @@ const PostJob = () => {
         }
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // Copy a template's content into the form, keeping anything the template doesn't set
+    const applyTemplate = (template: JobTemplate) => {
+        setFormData(prev => ({
+            ...prev,
+            title: template.title || prev.title,
+            description: template.description || prev.description,
+            requirements: template.requirements || prev.requirements,
+            location: template.location || prev.location,
+            type: template.type || prev.type,
+            salary: {
+                min: template.salary?.min !== undefined ? String(template.salary.min) : prev.salary.min,
+                max: template.salary?.max !== undefined ? String(template.salary.max) : prev.salary.max,
+                currency: template.salary?.currency || prev.salary.currency,
+                period: template.salary?.period || prev.salary.period
+            },
+            skills: template.skills?.length ? template.skills : prev.skills,
+            experienceLevel: template.experienceLevel || prev.experienceLevel,
+            workMode: template.workMode || prev.workMode,
+            screeningQuestions: template.screeningQuestions?.length ? template.screeningQuestions : prev.screeningQuestions
+        }));
+    };
+
+    const isScheduled = Boolean(formData.publishAt) && new Date(formData.publishAt) > new Date();
+
+    // Drafts skip the browser's required-field checks so half-written postings can be saved
+    const saveJob = async (status: 'draft' | 'open') => {
         try {
             const token = localStorage.getItem('token');
             const response = await axios.post(
                 'http://localhost:5000/api/jobs',
-                formData,
+                {
+                    ...formData,
+                    status,
+                    // datetime-local values are local time; send them as ISO timestamps
+                    publishAt: formData.publishAt ? new Date(formData.publishAt).toISOString() : undefined,
+                    expiresAt: formData.expiresAt ? new Date(formData.expiresAt).toISOString() : undefined
+                },
                 {
                     headers: {
                         'Content-Type': 'application/json',
@@ -68,12 +114,17 @@ const PostJob = () => {
             );
 
             if (response.status === 201) {
+                const messages: Record<string, string> = {
+                    draft: 'Draft saved',
+                    scheduled: 'Job scheduled successfully',
+                    open: 'Job Posted Successfully'
+                };
                 setSnackbar({
                     open: true,
-                    message: 'Job Posted Successfully',
+                    message: messages[response.data.status] || 'Job Posted Successfully',
                     severity: 'success'
                 });
-                navigate('/jobs');
+                navigate(status === 'draft' ? '/jobs/manage' : '/jobs');
             }
         } catch (error: any) {
             setSnackbar({
@@ -84,6 +135,11 @@ const PostJob = () => {
         }
     };
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        saveJob('open');
+    };
+
     const handleCloseSnackbar = () => {
         setSnackbar(prev => ({ ...prev, open: false }));
     };
@@ -94,6 +150,7 @@ const PostJob = () => {
                 <Typography variant="h4" component="h1" gutterBottom>
                     Post a New Job
                 </Typography>
+                <JobTemplatePicker onSelect={applyTemplate} />
                 <Box component="form" onSubmit={handleSubmit} sx={{ mt: 3 }}>
                     <TextField
                         fullWidth
@@ -146,6 +203,49 @@ const PostJob = () => {
 
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', margin: theme => theme.spacing(-1), mt: 1 }}>
                         <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%' } }}>
+                            <TextField
+                                fullWidth
+                                required
+                                select
+                                label="Experience Level"
+                                name="experienceLevel"
+                                value={formData.experienceLevel}
+                                onChange={handleChange}
+                            >
+                                {Object.entries(EXPERIENCE_LEVEL_LABELS).map(([value, label]) => (
+                                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                                ))}
+                            </TextField>
+                        </Box>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%' } }}>
+                            <TextField
+                                fullWidth
+                                required
+                                select
+                                label="Work Mode"
+                                name="workMode"
+                                value={formData.workMode}
+                                onChange={handleChange}
+                            >
+                                {Object.entries(WORK_MODE_LABELS).map(([value, label]) => (
+                                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                                ))}
+                            </TextField>
+                        </Box>
+                    </Box>
+
+                    <Box sx={{ mt: 2, mb: 1 }}>
+                        <SkillsInput
+                            value={formData.skills}
+                            onChange={(skills) => setFormData(prev => ({ ...prev, skills }))}
+                            label="Required Skills"
+                            suggestRelated
+                            helperText="Used to match candidates and power skill filters, e.g. React, Node.js, SQL"
+                        />
+                    </Box>
+
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', margin: theme => theme.spacing(-1), mt: 1 }}>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '33.33%' } }}>
                             <TextField
                                 fullWidth
                                 required
@@ -157,7 +257,7 @@ const PostJob = () => {
                                 placeholder="e.g. 50000"
                             />
                         </Box>
-                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%' } }}>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '33.33%' } }}>
                             <TextField
                                 fullWidth
                                 required
@@ -169,6 +269,20 @@ const PostJob = () => {
                                 placeholder="e.g. 100000"
                             />
                         </Box>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '33.33%' } }}>
+                            <TextField
+                                fullWidth
+                                select
+                                label="Pay Period"
+                                name="salaryPeriod"
+                                value={formData.salary.period}
+                                onChange={handleChange}
+                            >
+                                {Object.entries(SALARY_PERIOD_LABELS).map(([value, label]) => (
+                                    <MenuItem key={value} value={value}>{label}</MenuItem>
+                                ))}
+                            </TextField>
+                        </Box>
                     </Box>
 
                     <TextField
@@ -197,6 +311,40 @@ const PostJob = () => {
                         placeholder="List the required skills and qualifications..."
                     />
 
+                    <Box sx={{ mt: 3, mb: 2 }}>
+                        <ScreeningQuestionsEditor
+                            value={formData.screeningQuestions}
+                            onChange={(screeningQuestions) => setFormData(prev => ({ ...prev, screeningQuestions }))}
+                        />
+                    </Box>
+
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', margin: theme => theme.spacing(-1), mt: 1 }}>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%' } }}>
+                            <TextField
+                                fullWidth
+                                label="Publish At"
+                                name="publishAt"
+                                type="datetime-local"
+                                value={formData.publishAt}
+                                onChange={handleChange}
+                                InputLabelProps={{ shrink: true }}
+                                helperText="Leave empty to publish immediately"
+                            />
+                        </Box>
+                        <Box sx={{ padding: theme => theme.spacing(1), width: { xs: '100%', sm: '50%' } }}>
+                            <TextField
+                                fullWidth
+                                label="Expires At"
+                                name="expiresAt"
+                                type="datetime-local"
+                                value={formData.expiresAt}
+                                onChange={handleChange}
+                                InputLabelProps={{ shrink: true }}
+                                helperText="The job is taken down automatically after this date"
+                            />
+                        </Box>
+                    </Box>
+
                     <Box sx={{ mt: 3, display: 'flex', gap: 2 }}>
                         <Button
                             type="submit"
@@ -204,7 +352,16 @@ const PostJob = () => {
                             color="primary"
                             size="large"
                         >
-                            Post Job
+                            {isScheduled ? 'Schedule Job' : 'Post Job'}
+                        </Button>
+                        <Button
+                            variant="outlined"
+                            color="primary"
+                            onClick={() => saveJob('draft')}
+                            size="large"
+                            disabled={!formData.title.trim()}
+                        >
+                            Save as Draft
                         </Button>
                         <Button
                             variant="outlined"
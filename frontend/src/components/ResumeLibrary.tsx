@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Box,
+    Button,
+    Typography,
+    TextField,
+    MenuItem,
+    IconButton,
+    Tooltip,
+    Chip,
+    Alert,
+    List,
+    ListItem,
+    ListItemIcon,
+    ListItemText,
+    CircularProgress
+} from '@mui/material';
+import DescriptionIcon from '@mui/icons-material/Description';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import EditIcon from '@mui/icons-material/Edit';
+import CheckIcon from '@mui/icons-material/Check';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import { format } from 'date-fns';
+import { resumeLibraryService, getFileUrl } from '../services/api';
+import { ResumeDocument, ResumeDocumentKind } from '../types';
+import GenerateResumeDialog from './GenerateResumeDialog';
+
+const KIND_LABELS: Record<ResumeDocumentKind, string> = {
+    resume: 'Resume',
+    cover_letter: 'Cover Letter'
+};
+
+const formatSize = (size?: number) => (size ? `${Math.max(1, Math.round(size / 1024))} KB` : '');
+
+// The job seeker's saved resumes and cover letters, picked from when applying
+const ResumeLibrary: React.FC = () => {
+    const [documents, setDocuments] = useState<ResumeDocument[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState('');
+    const [newName, setNewName] = useState('');
+    const [newKind, setNewKind] = useState<ResumeDocumentKind>('resume');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+    const uploadInputRef = useRef<HTMLInputElement>(null);
+    const replaceInputRef = useRef<HTMLInputElement>(null);
+    const [replacingId, setReplacingId] = useState<string | null>(null);
+    const [generateOpen, setGenerateOpen] = useState(false);
+
+    const loadDocuments = () => resumeLibraryService.getDocuments()
+        .then(setDocuments)
+        .catch((err: any) => setError(err.response?.data?.message || 'Failed to load your documents'))
+        .finally(() => setLoading(false));
+
+    useEffect(() => {
+        loadDocuments();
+    }, []);
+
+    const runAction = async (action: () => Promise<unknown>, failure: string) => {
+        setError('');
+        try {
+            await action();
+            await loadDocuments();
+        } catch (err: any) {
+            setError(err.response?.data?.message || failure);
+        }
+    };
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setUploading(true);
+        await runAction(
+            () => resumeLibraryService.uploadDocument(file, newName.trim() || file.name, newKind),
+            'Failed to upload the document'
+        );
+        setNewName('');
+        setUploading(false);
+    };
+
+    const handleReplace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file || !replacingId) return;
+        setUploading(true);
+        await runAction(() => resumeLibraryService.replaceFile(replacingId, file), 'Failed to replace the file');
+        setReplacingId(null);
+        setUploading(false);
+    };
+
+    const handleRename = async (id: string) => {
+        await runAction(() => resumeLibraryService.renameDocument(id, editingName.trim()), 'Failed to rename the document');
+        setEditingId(null);
+    };
+
+    const handleDelete = (document: ResumeDocument) => {
+        if (!window.confirm(`Delete "${document.name}"? Applications you've already sent keep their copy.`)) return;
+        runAction(() => resumeLibraryService.deleteDocument(document._id), 'Failed to delete the document');
+    };
+
+    return (
+        <Box>
+            <Typography variant="subtitle1" gutterBottom>
+                Resume Library
+            </Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+                Keep different versions of your resume and cover letter, and choose which ones to send with each application.
+            </Typography>
+
+            {error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+            )}
+
+            <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mb={2}>
+                <TextField
+                    size="small"
+                    label="Name"
+                    placeholder="e.g. Frontend resume"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    inputProps={{ maxLength: 100 }}
+                />
+                <TextField
+                    select
+                    size="small"
+                    label="Type"
+                    value={newKind}
+                    onChange={(e) => setNewKind(e.target.value as ResumeDocumentKind)}
+                    sx={{ minWidth: 150 }}
+                >
+                    {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                        <MenuItem key={kind} value={kind}>{label}</MenuItem>
+                    ))}
+                </TextField>
+                <input
+                    type="file"
+                    accept=".pdf,.doc,.docx"
+                    style={{ display: 'none' }}
+                    ref={uploadInputRef}
+                    onChange={handleUpload}
+                />
+                <input
+                    type="file"
+                    accept=".pdf,.doc,.docx"
+                    style={{ display: 'none' }}
+                    ref={replaceInputRef}
+                    onChange={handleReplace}
+                />
+                <Button
+                    variant="outlined"
+                    startIcon={uploading ? <CircularProgress size={18} /> : <CloudUploadIcon />}
+                    onClick={() => uploadInputRef.current?.click()}
+                    disabled={uploading}
+                >
+                    Add to Library
+                </Button>
+                <Button
+                    variant="text"
+                    startIcon={<AutoAwesomeIcon />}
+                    onClick={() => setGenerateOpen(true)}
+                >
+                    Generate from Profile
+                </Button>
+            </Box>
+
+            {loading ? (
+                <CircularProgress size={24} />
+            ) : documents.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                    Your library is empty. Add a resume to apply with it.
+                </Typography>
+            ) : (
+                <List dense>
+                    {documents.map(document => (
+                        <ListItem
+                            key={document._id}
+                            secondaryAction={
+                                <Box>
+                                    <Tooltip title={document.isDefault ? 'Default' : 'Make Default'}>
+                                        <span>
+                                            <IconButton
+                                                size="small"
+                                                onClick={() => runAction(() => resumeLibraryService.setDefault(document._id), 'Failed to set the default')}
+                                                disabled={document.isDefault}
+                                            >
+                                                {document.isDefault ? <StarIcon color="warning" /> : <StarBorderIcon />}
+                                            </IconButton>
+                                        </span>
+                                    </Tooltip>
+                                    <Tooltip title="Rename">
+                                        <IconButton
+                                            size="small"
+                                            onClick={() => {
+                                                setEditingId(document._id);
+                                                setEditingName(document.name);
+                                            }}
+                                        >
+                                            <EditIcon />
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Tooltip title="Replace File">
+                                        <IconButton
+                                            size="small"
+                                            onClick={() => {
+                                                setReplacingId(document._id);
+                                                replaceInputRef.current?.click();
+                                            }}
+                                            disabled={uploading}
+                                        >
+                                            <SwapHorizIcon />
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Tooltip title="Delete">
+                                        <IconButton size="small" color="error" onClick={() => handleDelete(document)}>
+                                            <DeleteIcon />
+                                        </IconButton>
+                                    </Tooltip>
+                                </Box>
+                            }
+                        >
+                            <ListItemIcon>
+                                <DescriptionIcon />
+                            </ListItemIcon>
+                            {editingId === document._id ? (
+                                <Box display="flex" alignItems="center" gap={1} sx={{ flex: 1, mr: 20 }}>
+                                    <TextField
+                                        size="small"
+                                        value={editingName}
+                                        onChange={(e) => setEditingName(e.target.value)}
+                                        inputProps={{ maxLength: 100 }}
+                                        autoFocus
+                                        fullWidth
+                                    />
+                                    <IconButton size="small" onClick={() => handleRename(document._id)} disabled={!editingName.trim()}>
+                                        <CheckIcon />
+                                    </IconButton>
+                                </Box>
+                            ) : (
+                                <ListItemText
+                                    primary={
+                                        <Box display="flex" alignItems="center" gap={1}>
+                                            <a href={getFileUrl(document.url)} target="_blank" rel="noopener noreferrer">
+                                                {document.name}
+                                            </a>
+                                            <Chip size="small" variant="outlined" label={KIND_LABELS[document.kind]} />
+                                        </Box>
+                                    }
+                                    secondary={[
+                                        document.originalName,
+                                        formatSize(document.size),
+                                        `Updated ${format(new Date(document.updatedAt), 'MMM d, yyyy')}`
+                                    ].filter(Boolean).join(' · ')}
+                                />
+                            )}
+                        </ListItem>
+                    ))}
+                </List>
+            )}
+
+            <GenerateResumeDialog
+                open={generateOpen}
+                onClose={() => setGenerateOpen(false)}
+                onSaved={() => loadDocuments()}
+            />
+        </Box>
+    );
+};
+
+export default ResumeLibrary;
@@ -0,0 +1,77 @@
+import React from 'react';
+import {
+    Box,
+    TextField,
+    Typography,
+    FormControl,
+    FormLabel,
+    RadioGroup,
+    FormControlLabel,
+    Radio,
+    FormHelperText
+} from '@mui/material';
+import { ScreeningQuestion } from '../types';
+
+interface ScreeningAnswerFieldsProps {
+    questions: ScreeningQuestion[];
+    answers: Record<string, string>;
+    errors: Record<string, string>;
+    onChange: (questionId: string, answer: string) => void;
+}
+
+// Inputs for a job's screening questions on the application form, keyed by question id
+const ScreeningAnswerFields: React.FC<ScreeningAnswerFieldsProps> = ({ questions, answers, errors, onChange }) => {
+    if (questions.length === 0) return null;
+
+    return (
+        <Box>
+            <Typography variant="subtitle1" gutterBottom>
+                Screening Questions
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                {questions.map(question => {
+                    const id = question._id as string;
+                    const label = `${question.question}${question.required ? ' *' : ''}`;
+                    const value = answers[id] || '';
+
+                    if (question.type === 'yes_no' || question.type === 'single_choice') {
+                        const options = question.type === 'yes_no'
+                            ? [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }]
+                            : question.options.map(option => ({ value: option, label: option }));
+                        return (
+                            <FormControl key={id} error={Boolean(errors[id])}>
+                                <FormLabel>{label}</FormLabel>
+                                <RadioGroup
+                                    row={question.type === 'yes_no'}
+                                    value={value}
+                                    onChange={(e) => onChange(id, e.target.value)}
+                                >
+                                    {options.map(option => (
+                                        <FormControlLabel key={option.value} value={option.value} control={<Radio />} label={option.label} />
+                                    ))}
+                                </RadioGroup>
+                                {errors[id] && <FormHelperText>{errors[id]}</FormHelperText>}
+                            </FormControl>
+                        );
+                    }
+
+                    return (
+                        <TextField
+                            key={id}
+                            fullWidth
+                            label={label}
+                            type={question.type === 'numeric' ? 'number' : 'text'}
+                            value={value}
+                            onChange={(e) => onChange(id, e.target.value)}
+                            error={Boolean(errors[id])}
+                            helperText={errors[id]}
+                            inputProps={question.type === 'short_text' ? { maxLength: 500 } : undefined}
+                        />
+                    );
+                })}
+            </Box>
+        </Box>
+    );
+};
+
+export default ScreeningAnswerFields;
@@ -0,0 +1,184 @@
+import React from 'react';
+import {
+    Box,
+    Button,
+    TextField,
+    MenuItem,
+    Typography,
+    Paper,
+    IconButton,
+    FormControlLabel,
+    Checkbox,
+    Autocomplete
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SkillsInput from './common/SkillsInput';
+import { ScreeningQuestion, ScreeningQuestionType, SCREENING_QUESTION_TYPE_LABELS } from '../types';
+
+const MAX_QUESTIONS = 10;
+
+interface ScreeningQuestionsEditorProps {
+    value: ScreeningQuestion[];
+    onChange: (questions: ScreeningQuestion[]) => void;
+}
+
+const emptyQuestion = (): ScreeningQuestion => ({
+    question: '',
+    type: 'yes_no',
+    options: [],
+    required: true,
+    knockout: false,
+    acceptedAnswers: []
+});
+
+// Employer-side list of screening questions for a job posting, with optional knockout criteria
+const ScreeningQuestionsEditor: React.FC<ScreeningQuestionsEditorProps> = ({ value, onChange }) => {
+    const updateQuestion = (index: number, changes: Partial<ScreeningQuestion>) => {
+        onChange(value.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+    };
+
+    // Switching type invalidates the old options and knockout criteria
+    const changeType = (index: number, type: ScreeningQuestionType) => {
+        updateQuestion(index, {
+            type,
+            options: type === 'single_choice' ? value[index].options : [],
+            knockout: type === 'short_text' ? false : value[index].knockout,
+            acceptedAnswers: [],
+            minValue: undefined
+        });
+    };
+
+    const changeOptions = (index: number, options: string[]) => {
+        const accepted = (value[index].acceptedAnswers || []).filter(answer => options.includes(answer));
+        updateQuestion(index, { options, acceptedAnswers: accepted });
+    };
+
+    return (
+        <Box>
+            <Typography variant="h6" gutterBottom>
+                Screening Questions
+            </Typography>
+            <Typography variant="body2" color="text.secondary" paragraph>
+                Asked when candidates apply. Applicants who give a non-accepted answer to a knockout question are flagged for you.
+            </Typography>
+
+            {value.map((question, index) => (
+                <Paper key={question._id || index} variant="outlined" sx={{ p: 2, mb: 2 }}>
+                    <Box display="flex" gap={2} alignItems="flex-start">
+                        <TextField
+                            fullWidth
+                            size="small"
+                            label={`Question ${index + 1}`}
+                            value={question.question}
+                            onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                            placeholder="e.g. Do you have a valid work permit?"
+                            inputProps={{ maxLength: 300 }}
+                        />
+                        <TextField
+                            select
+                            size="small"
+                            label="Answer Type"
+                            value={question.type}
+                            onChange={(e) => changeType(index, e.target.value as ScreeningQuestionType)}
+                            sx={{ minWidth: 160 }}
+                        >
+                            {Object.entries(SCREENING_QUESTION_TYPE_LABELS).map(([type, label]) => (
+                                <MenuItem key={type} value={type}>{label}</MenuItem>
+                            ))}
+                        </TextField>
+                        <IconButton
+                            color="error"
+                            title="Remove Question"
+                            onClick={() => onChange(value.filter((_, i) => i !== index))}
+                        >
+                            <DeleteIcon />
+                        </IconButton>
+                    </Box>
+
+                    {question.type === 'single_choice' && (
+                        <Box mt={2}>
+                            <SkillsInput
+                                size="small"
+                                label="Options"
+                                placeholder="Type an option and press Enter"
+                                value={question.options}
+                                onChange={(options) => changeOptions(index, options)}
+                            />
+                        </Box>
+                    )}
+
+                    <Box display="flex" flexWrap="wrap" gap={2} alignItems="center" mt={1}>
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    checked={question.required}
+                                    onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                                />
+                            }
+                            label="Required"
+                        />
+                        {question.type !== 'short_text' && (
+                            <FormControlLabel
+                                control={
+                                    <Checkbox
+                                        checked={question.knockout}
+                                        onChange={(e) => updateQuestion(index, { knockout: e.target.checked })}
+                                    />
+                                }
+                                label="Knockout"
+                            />
+                        )}
+
+                        {question.knockout && question.type === 'yes_no' && (
+                            <TextField
+                                select
+                                size="small"
+                                label="Accepted Answer"
+                                value={question.acceptedAnswers?.[0] || ''}
+                                onChange={(e) => updateQuestion(index, { acceptedAnswers: [e.target.value] })}
+                                sx={{ minWidth: 160 }}
+                            >
+                                <MenuItem value="yes">Yes</MenuItem>
+                                <MenuItem value="no">No</MenuItem>
+                            </TextField>
+                        )}
+                        {question.knockout && question.type === 'single_choice' && (
+                            <Autocomplete
+                                multiple
+                                size="small"
+                                options={question.options}
+                                value={question.acceptedAnswers || []}
+                                onChange={(event, accepted) => updateQuestion(index, { acceptedAnswers: accepted })}
+                                renderInput={(params) => <TextField {...params} label="Accepted Answers" />}
+                                sx={{ minWidth: 260, flex: 1 }}
+                            />
+                        )}
+                        {question.knockout && question.type === 'numeric' && (
+                            <TextField
+                                size="small"
+                                type="number"
+                                label="Minimum Accepted"
+                                value={question.minValue ?? ''}
+                                onChange={(e) => updateQuestion(index, {
+                                    minValue: e.target.value === '' ? undefined : Number(e.target.value)
+                                })}
+                                sx={{ width: 180 }}
+                            />
+                        )}
+                    </Box>
+                </Paper>
+            ))}
+
+            <Button
+                startIcon={<AddIcon />}
+                onClick={() => onChange([...value, emptyQuestion()])}
+                disabled={value.length >= MAX_QUESTIONS}
+            >
+                Add Question
+            </Button>
+        </Box>
+    );
+};
+
+export default ScreeningQuestionsEditor;
@@ -0,0 +1,345 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    Box,
+    Button,
+    Container,
+    Typography,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    MenuItem,
+    IconButton,
+    Alert,
+    Chip,
+    CircularProgress,
+    Tooltip,
+    Snackbar
+} from '@mui/material';
+import GroupAddIcon from '@mui/icons-material/GroupAdd';
+import PersonRemoveIcon from '@mui/icons-material/PersonRemove';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { organizationService } from '../services/api';
+import {
+    Organization,
+    OrganizationRole,
+    ORGANIZATION_ROLE_LABELS,
+    ORGANIZATION_ROLE_DESCRIPTIONS
+} from '../types';
+
+const INVITABLE_ROLES: OrganizationRole[] = ['recruiter', 'hiring_manager', 'interviewer'];
+
+// Employer page for setting up a company team, inviting teammates and managing their roles
+const TeamManagement: React.FC = () => {
+    const { user, updateUserContext } = useAuth();
+    const [organization, setOrganization] = useState<Organization | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+    const [teamName, setTeamName] = useState(user?.companyName || '');
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<OrganizationRole>('recruiter');
+    const [submitting, setSubmitting] = useState(false);
+
+    const loadTeam = useCallback(async () => {
+        try {
+            const response = await organizationService.getMyTeam();
+            setOrganization(response.organization);
+            setError('');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to load your team');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTeam();
+    }, [loadTeam]);
+
+    const isOwner = organization?.role === 'owner';
+
+    const handleCreateTeam = async () => {
+        if (!user) return;
+        setSubmitting(true);
+        try {
+            const response = await organizationService.createTeam(teamName.trim());
+            setOrganization(response.organization);
+            updateUserContext({ ...user, organization: response.organization?._id, organizationRole: 'owner' });
+            setNotice('Your team is ready. Invite teammates below.');
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to create the team');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleInvite = async () => {
+        setSubmitting(true);
+        try {
+            const { emailSent } = await organizationService.inviteMember(inviteEmail.trim(), inviteRole);
+            setInviteEmail('');
+            setNotice(emailSent
+                ? 'Invitation sent'
+                : 'Invitation created, but the email could not be sent. Copy the link and share it yourself.');
+            await loadTeam();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to send the invitation');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleWithdraw = async (invitationId: string) => {
+        try {
+            await organizationService.withdrawInvitation(invitationId);
+            await loadTeam();
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to withdraw the invitation');
+        }
+    };
+
+    const handleRoleChange = async (memberId: string, role: OrganizationRole) => {
+        try {
+            await organizationService.updateMemberRole(memberId, role);
+            setOrganization(prev => prev && {
+                ...prev,
+                members: prev.members.map(member => (member._id === memberId ? { ...member, organizationRole: role } : member))
+            });
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to change the role');
+        }
+    };
+
+    const handleRemove = async (memberId: string, name: string) => {
+        if (!user) return;
+        const leaving = memberId === user.id;
+        const prompt = leaving
+            ? 'Leave this team? You will lose access to its jobs and applicants.'
+            : `Remove ${name} from the team?`;
+        if (!window.confirm(prompt)) return;
+
+        try {
+            await organizationService.removeMember(memberId);
+            if (leaving) {
+                updateUserContext({ ...user, organization: undefined, organizationRole: undefined });
+                setOrganization(null);
+                setNotice('You have left the team');
+            } else {
+                await loadTeam();
+            }
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to remove the team member');
+        }
+    };
+
+    const copyInvitationLink = (token: string) => {
+        navigator.clipboard.writeText(`${window.location.origin}/team/join/${token}`)
+            .then(() => setNotice('Invitation link copied'))
+            .catch(() => setError('Could not copy the link'));
+    };
+
+    if (loading) {
+        return (
+            <Box display="flex" justifyContent="center" p={4}>
+                <CircularProgress />
+            </Box>
+        );
+    }
+
+    return (
+        <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+            <Typography variant="h4" component="h1" gutterBottom>
+                {organization ? organization.name : 'Team'}
+            </Typography>
+
+            {error && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>
+            )}
+
+            {!organization ? (
+                <Paper sx={{ p: 3 }}>
+                    <Typography variant="h6" gutterBottom>
+                        Hire as a team
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" paragraph>
+                        Create a team to invite recruiters, hiring managers and interviewers. Your existing jobs
+                        move into the team and you stay the owner.
+                    </Typography>
+                    <Box display="flex" gap={2} alignItems="center">
+                        <TextField
+                            size="small"
+                            label="Team Name"
+                            value={teamName}
+                            onChange={(e) => setTeamName(e.target.value)}
+                            inputProps={{ maxLength: 100 }}
+                            sx={{ minWidth: 300 }}
+                        />
+                        <Button
+                            variant="contained"
+                            onClick={handleCreateTeam}
+                            disabled={submitting || !teamName.trim()}
+                        >
+                            Create Team
+                        </Button>
+                    </Box>
+                </Paper>
+            ) : (
+                <>
+                    <Typography variant="body2" color="text.secondary" paragraph>
+                        Your role: {ORGANIZATION_ROLE_LABELS[organization.role]} &mdash; {ORGANIZATION_ROLE_DESCRIPTIONS[organization.role]}
+                    </Typography>
+
+                    <TableContainer component={Paper} sx={{ mb: 4 }}>
+                        <Table>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>Name</TableCell>
+                                    <TableCell>Email</TableCell>
+                                    <TableCell>Role</TableCell>
+                                    <TableCell align="right">Actions</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {organization.members.map(member => {
+                                    const isSelf = member._id === user?.id;
+                                    const memberIsOwner = member.organizationRole === 'owner';
+                                    return (
+                                        <TableRow key={member._id}>
+                                            <TableCell>
+                                                {member.name}
+                                                {isSelf && <Chip size="small" label="You" sx={{ ml: 1 }} />}
+                                            </TableCell>
+                                            <TableCell>{member.email}</TableCell>
+                                            <TableCell>
+                                                {isOwner && !memberIsOwner ? (
+                                                    <TextField
+                                                        select
+                                                        size="small"
+                                                        value={member.organizationRole}
+                                                        onChange={(e) => handleRoleChange(member._id, e.target.value as OrganizationRole)}
+                                                        sx={{ minWidth: 170 }}
+                                                    >
+                                                        {INVITABLE_ROLES.map(role => (
+                                                            <MenuItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</MenuItem>
+                                                        ))}
+                                                    </TextField>
+                                                ) : (
+                                                    ORGANIZATION_ROLE_LABELS[member.organizationRole]
+                                                )}
+                                            </TableCell>
+                                            <TableCell align="right">
+                                                {!memberIsOwner && (isOwner || isSelf) && (
+                                                    <Tooltip title={isSelf ? 'Leave Team' : 'Remove From Team'}>
+                                                        <IconButton color="error" onClick={() => handleRemove(member._id, member.name)}>
+                                                            <PersonRemoveIcon />
+                                                        </IconButton>
+                                                    </Tooltip>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+
+                    {isOwner && (
+                        <Paper sx={{ p: 3 }}>
+                            <Typography variant="h6" gutterBottom>
+                                Invite a Teammate
+                            </Typography>
+                            <Typography variant="body2" color="text.secondary" paragraph>
+                                Teammates join with an employer account registered to the invited email address.
+                            </Typography>
+                            <Box display="flex" flexWrap="wrap" gap={2} alignItems="flex-start" mb={3}>
+                                <TextField
+                                    size="small"
+                                    type="email"
+                                    label="Email"
+                                    value={inviteEmail}
+                                    onChange={(e) => setInviteEmail(e.target.value)}
+                                    sx={{ minWidth: 280 }}
+                                />
+                                <TextField
+                                    select
+                                    size="small"
+                                    label="Role"
+                                    value={inviteRole}
+                                    onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                                    helperText={ORGANIZATION_ROLE_DESCRIPTIONS[inviteRole]}
+                                    sx={{ minWidth: 200 }}
+                                >
+                                    {INVITABLE_ROLES.map(role => (
+                                        <MenuItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</MenuItem>
+                                    ))}
+                                </TextField>
+                                <Button
+                                    variant="contained"
+                                    startIcon={<GroupAddIcon />}
+                                    onClick={handleInvite}
+                                    disabled={submitting || !inviteEmail.trim()}
+                                >
+                                    Send Invitation
+                                </Button>
+                            </Box>
+
+                            <Typography variant="subtitle1" gutterBottom>
+                                Pending Invitations
+                            </Typography>
+                            {(organization.invitations || []).length === 0 ? (
+                                <Typography variant="body2" color="text.secondary">
+                                    No pending invitations
+                                </Typography>
+                            ) : (
+                                (organization.invitations || []).map(invitation => {
+                                    const expired = new Date(invitation.expiresAt) < new Date();
+                                    return (
+                                        <Box key={invitation._id} display="flex" alignItems="center" gap={1} py={0.5}>
+                                            <Typography variant="body2" sx={{ flex: 1 }}>
+                                                {invitation.email} &middot; {ORGANIZATION_ROLE_LABELS[invitation.role]}
+                                            </Typography>
+                                            <Chip
+                                                size="small"
+                                                color={expired ? 'error' : 'default'}
+                                                label={expired
+                                                    ? 'Expired'
+                                                    : `Expires ${format(new Date(invitation.expiresAt), 'MMM d, yyyy')}`}
+                                            />
+                                            <Tooltip title="Copy Invitation Link">
+                                                <IconButton size="small" onClick={() => copyInvitationLink(invitation.token)}>
+                                                    <ContentCopyIcon fontSize="small" />
+                                                </IconButton>
+                                            </Tooltip>
+                                            <Tooltip title="Withdraw Invitation">
+                                                <IconButton size="small" color="error" onClick={() => handleWithdraw(invitation._id)}>
+                                                    <DeleteIcon fontSize="small" />
+                                                </IconButton>
+                                            </Tooltip>
+                                        </Box>
+                                    );
+                                })
+                            )}
+                        </Paper>
+                    )}
+                </>
+            )}
+
+            <Snackbar
+                open={Boolean(notice)}
+                autoHideDuration={5000}
+                onClose={() => setNotice('')}
+                message={notice}
+            />
+        </Container>
+    );
+};
+
+export default TeamManagement;
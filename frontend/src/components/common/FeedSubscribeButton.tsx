@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Button, IconButton, Menu, MenuItem, ListItemText, Tooltip } from '@mui/material';
+import RssFeedIcon from '@mui/icons-material/RssFeed';
+import { FeedFormat } from '../../types';
+
+interface FeedSubscribeButtonProps {
+  getUrl: (format: FeedFormat) => string;
+  label?: string;
+  compact?: boolean; // Icon only, for tight spaces like card actions
+}
+
+const FEED_OPTIONS: { format: FeedFormat; label: string; description: string }[] = [
+  { format: 'rss', label: 'RSS', description: 'Works with most feed readers' },
+  { format: 'atom', label: 'Atom', description: 'For readers that prefer Atom' }
+];
+
+/**
+ * Menu of RSS/Atom feed links for a job search, company or saved alert.
+ * Copies the chosen feed URL to the clipboard and opens it in a new tab.
+ */
+const FeedSubscribeButton: React.FC<FeedSubscribeButtonProps> = ({ getUrl, label = 'Subscribe', compact = false }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const handleSelect = async (format: FeedFormat) => {
+    setAnchorEl(null);
+    const url = getUrl(format);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (err) {
+      console.error('[FeedSubscribeButton] Could not copy feed URL:', err);
+    }
+    window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  return (
+    <>
+      {compact ? (
+        <Tooltip title="Subscribe in a feed reader">
+          <IconButton onClick={(e) => setAnchorEl(e.currentTarget)} color="warning">
+            <RssFeedIcon />
+          </IconButton>
+        </Tooltip>
+      ) : (
+        <Button
+          variant="outlined"
+          color="warning"
+          startIcon={<RssFeedIcon />}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+        >
+          {label}
+        </Button>
+      )}
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {FEED_OPTIONS.map(option => (
+          <MenuItem key={option.format} onClick={() => handleSelect(option.format)}>
+            <ListItemText primary={`${option.label} feed`} secondary={option.description} />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default FeedSubscribeButton;
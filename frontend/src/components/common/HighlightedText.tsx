@@ -0,0 +1,34 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { HighlightSegment } from '../../types';
+
+interface HighlightedTextProps {
+  segments?: HighlightSegment[];
+  fallback: string;
+}
+
+/**
+ * Renders search highlight segments returned by the job search API,
+ * bolding the matched parts. Falls back to the plain text when there are none.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ segments, fallback }) => {
+  if (!segments || segments.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <Box component="mark" key={index} sx={{ fontWeight: 700, backgroundColor: 'rgba(255, 167, 38, 0.25)', color: 'inherit', px: 0.25 }}>
+            {segment.text}
+          </Box>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
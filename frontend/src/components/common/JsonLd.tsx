@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+
+interface JsonLdProps {
+  data: object | null;
+}
+
+/**
+ * Injects a JSON-LD <script> into document.head for search engine crawlers,
+ * removing it again when the data changes or the page unmounts.
+ */
+const JsonLd: React.FC<JsonLdProps> = ({ data }) => {
+  useEffect(() => {
+    if (!data) return;
+
+    const script = document.createElement('script');
+    script.type = 'application/ld+json';
+    // Escape "<" so a "</script>" inside job text can't close the tag early
+    script.text = JSON.stringify(data).replace(/</g, '\\u003c');
+    document.head.appendChild(script);
+
+    return () => {
+      document.head.removeChild(script);
+    };
+  }, [data]);
+
+  return null;
+};
+
+export default JsonLd;
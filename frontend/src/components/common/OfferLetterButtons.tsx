@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Button } from '@mui/material';
+import DescriptionIcon from '@mui/icons-material/Description';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import { saveAs } from 'file-saver';
+import { offerService } from '../../services/api';
+
+interface OfferLetterButtonsProps {
+    offerId: string;
+    fileName?: string;
+    size?: 'small' | 'medium';
+    onError?: (message: string) => void;
+}
+
+// "View Letter" opens the HTML letter in a new tab; "Download PDF" saves the PDF version
+const OfferLetterButtons: React.FC<OfferLetterButtonsProps> = ({ offerId, fileName = 'offer-letter.pdf', size = 'small', onError }) => {
+    const [loading, setLoading] = useState(false);
+
+    const handleView = async () => {
+        // Open the tab straight away so the browser doesn't treat it as a pop-up
+        const letterWindow = window.open('', '_blank');
+        setLoading(true);
+        try {
+            const blob = await offerService.getOfferLetter(offerId, 'html');
+            const url = window.URL.createObjectURL(blob);
+            if (letterWindow) {
+                letterWindow.location.href = url;
+            } else {
+                window.open(url, '_blank');
+            }
+        } catch (err: any) {
+            letterWindow?.close();
+            onError?.('Failed to load the offer letter');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDownload = async () => {
+        setLoading(true);
+        try {
+            const blob = await offerService.getOfferLetter(offerId, 'pdf');
+            saveAs(blob, fileName);
+        } catch (err: any) {
+            onError?.('Failed to download the offer letter');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <>
+            <Button size={size} startIcon={<DescriptionIcon />} onClick={handleView} disabled={loading}>
+                View Letter
+            </Button>
+            <Button size={size} startIcon={<PictureAsPdfIcon />} onClick={handleDownload} disabled={loading}>
+                Download PDF
+            </Button>
+        </>
+    );
+};
+
+export default OfferLetterButtons;
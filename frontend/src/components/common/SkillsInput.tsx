@@ -0,0 +1,171 @@
+import React from 'react';
+import { Autocomplete, Box, Chip, TextField, Typography } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { skillTaxonomyService } from '../../services/api';
+import { SkillSuggestion } from '../../types';
+
+// Append skills, ignoring blanks and case-insensitive duplicates
+const mergeSkills = (current: string[], additions: string[]): string[] => {
+    const next = [...current];
+    additions.map(skill => skill.trim()).filter(Boolean).forEach(skill => {
+        if (!next.some(existing => existing.toLowerCase() === skill.toLowerCase())) {
+            next.push(skill);
+        }
+    });
+    return next;
+};
+
+// Known skills for the typed text (or, with no text, ones often listed with the chosen skills)
+export const useSkillSuggestions = (query: string, selected: string[], enabled = true): SkillSuggestion[] => {
+    const [suggestions, setSuggestions] = React.useState<SkillSuggestion[]>([]);
+    const selectedKey = selected.join(',');
+
+    React.useEffect(() => {
+        if (!enabled) {
+            setSuggestions([]);
+            return;
+        }
+        let cancelled = false;
+        // Wait for a pause in typing before asking the server
+        const timer = setTimeout(() => {
+            skillTaxonomyService.autocomplete(query.trim(), selectedKey ? selectedKey.split(',') : [])
+                .then(results => {
+                    if (!cancelled) setSuggestions(results);
+                })
+                .catch(() => {
+                    if (!cancelled) setSuggestions([]);
+                });
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, selectedKey, enabled]);
+
+    return suggestions;
+};
+
+interface SkillsInputProps {
+    value: string[];
+    onChange: (skills: string[]) => void;
+    label?: string;
+    placeholder?: string;
+    helperText?: React.ReactNode;
+    error?: boolean;
+    size?: 'small' | 'medium';
+    // Show "people with X also list Y" chips under the input
+    suggestRelated?: boolean;
+}
+
+// Chip input for a list of skills with typeahead from the skill taxonomy; Enter or comma adds the typed skill
+const SkillsInput: React.FC<SkillsInputProps> = ({
+    value,
+    onChange,
+    label = 'Skills',
+    placeholder = 'Type a skill and press Enter',
+    helperText,
+    error,
+    size,
+    suggestRelated = false
+}) => {
+    const [inputValue, setInputValue] = React.useState('');
+    const [focused, setFocused] = React.useState(false);
+    const options = useSkillSuggestions(inputValue, value, focused);
+    const related = useSkillSuggestions('', value, suggestRelated && value.length > 0);
+
+    // Group related suggestions by the chosen skill they're listed with
+    const relatedGroups = related
+        .filter(suggestion => suggestion.reason === 'related' && suggestion.relatedTo)
+        .slice(0, 6)
+        .reduce<Record<string, SkillSuggestion[]>>((groups, suggestion) => {
+            const key = suggestion.relatedTo as string;
+            groups[key] = [...(groups[key] || []), suggestion];
+            return groups;
+        }, {});
+
+    return (
+        <Box>
+            <Autocomplete
+                multiple
+                freeSolo
+                options={options.map(option => option.name)}
+                // The server already filtered and ranked the options
+                filterOptions={(list) => list}
+                value={value}
+                inputValue={inputValue}
+                onInputChange={(event, newInputValue) => {
+                    // Pasted or typed commas split into separate skills
+                    if (newInputValue.includes(',')) {
+                        const parts = newInputValue.split(',');
+                        onChange(mergeSkills(value, parts.slice(0, -1)));
+                        setInputValue(parts[parts.length - 1]);
+                    } else {
+                        setInputValue(newInputValue);
+                    }
+                }}
+                onChange={(event, newValue) => {
+                    onChange(mergeSkills([], newValue as string[]));
+                }}
+                onFocus={() => setFocused(true)}
+                onBlur={() => {
+                    setFocused(false);
+                    if (inputValue.trim()) {
+                        onChange(mergeSkills(value, [inputValue]));
+                        setInputValue('');
+                    }
+                }}
+                renderOption={(props, option) => {
+                    const { key, ...optionProps } = props as React.HTMLAttributes<HTMLLIElement> & { key: string };
+                    const suggestion = options.find(item => item.name === option);
+                    return (
+                        <li key={key} {...optionProps}>
+                            <Box display="flex" justifyContent="space-between" width="100%" gap={2}>
+                                <span>{option}</span>
+                                {suggestion && (
+                                    <Typography variant="caption" color="text.secondary">
+                                        {suggestion.relatedTo ? `Often with ${suggestion.relatedTo}` : suggestion.category}
+                                    </Typography>
+                                )}
+                            </Box>
+                        </li>
+                    );
+                }}
+                renderTags={(tagValue, getTagProps) =>
+                    tagValue.map((option, index) => {
+                        const { key, ...tagProps } = getTagProps({ index });
+                        return <Chip key={key} label={option} size="small" {...tagProps} />;
+                    })
+                }
+                renderInput={(params) => (
+                    <TextField
+                        {...params}
+                        label={label}
+                        placeholder={value.length === 0 ? placeholder : undefined}
+                        helperText={helperText}
+                        error={error}
+                        size={size}
+                    />
+                )}
+            />
+            {Object.entries(relatedGroups).map(([skill, suggestions]) => (
+                <Box key={skill} display="flex" alignItems="center" flexWrap="wrap" gap={0.5} mt={1}>
+                    <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+                        People with {skill} also list
+                    </Typography>
+                    {suggestions.map(suggestion => (
+                        <Chip
+                            key={suggestion.id}
+                            label={suggestion.name}
+                            size="small"
+                            variant="outlined"
+                            icon={<AddIcon />}
+                            onClick={() => onChange(mergeSkills(value, [suggestion.name]))}
+                        />
+                    ))}
+                </Box>
+            ))}
+        </Box>
+    );
+};
+
+export default SkillsInput;
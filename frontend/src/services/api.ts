@@ -1,8 +1,13 @@
 import axios from 'axios';
-import { AuthResponse, RegisterData, Job, JobFormData } from '../types';
+import { AuthResponse, RegisterData, Job, JobFormData, JobSortOption, JobSearchFilters, JobSearchFacets, JobTemplate, JobImportSummary, FeedFormat, JobPipeline, PipelineStage, BulkApplicationRequest, BulkApplicationResult, TeamResponse, OrganizationRole, OrganizationInvitation, InvitationPreview, InterviewKit, InterviewType, CompetencyScore, ResumeDocument, ResumeDocumentKind, ResumeTemplate, ResumeFormat, JsonResumeImportPreview, SkillTaxonomyEntry, SkillTaxonomyFormData, SkillSuggestion, Offer, OfferFormData, OfferResponseAction, OfferSalary } from '../types';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
+// Full URL for a file the API serves from /uploads
+export const getFileUrl = (filePath: string): string => (
+    filePath.startsWith('/uploads') ? `${API_URL.replace(/\/api\/?$/, '')}${filePath}` : filePath
+);
+
 // Create axios instance
 const axiosInstance = axios.create({
     baseURL: API_URL,
@@ -56,27 +61,37 @@ export const authService = {
     }
 };
 
+// Query string for the job search filters, shared by the job list and the job feeds
+const buildJobSearchParams = (filters: JobSearchFilters): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (filters.location) params.append('location', filters.location);
+    if (filters.minSalary) params.append('minSalary', filters.minSalary.toString());
+    if (filters.maxSalary) params.append('maxSalary', filters.maxSalary.toString());
+    if (filters.jobTypes?.length) params.append('jobType', filters.jobTypes.join(','));
+    if (filters.experienceLevels?.length) params.append('experienceLevel', filters.experienceLevels.join(','));
+    if (filters.workModes?.length) params.append('workMode', filters.workModes.join(','));
+    if (filters.skills?.length) params.append('skills', filters.skills.join(','));
+    // Locations and company names can contain commas, so they're sent as repeated params
+    filters.locations?.forEach(location => params.append('locations', location));
+    filters.companies?.forEach(company => params.append('companies', company));
+    if (filters.salaryBuckets?.length) params.append('salaryBuckets', filters.salaryBuckets.join(','));
+    if (filters.postedWithin) params.append('postedWithin', filters.postedWithin);
+    if (filters.keywords) params.append('keywords', filters.keywords);
+    return params;
+};
+
 // Job services
 export const jobService = {
-    getAllJobs: async (filters?: {
-        location?: string;
-        minSalary?: number;
-        maxSalary?: number;
-        jobType?: string;
-        keywords?: string;
+    getAllJobs: async (filters?: JobSearchFilters & {
         page?: number;
         limit?: number;
-    }): Promise<{jobs: Job[], pagination: any}> => {
+    }): Promise<{jobs: Job[], sort: JobSortOption, facets: JobSearchFacets, pagination: any}> => {
         let url = '/jobs';
         
         // Add query parameters if filters are provided
         if (filters) {
-            const params = new URLSearchParams();
-            if (filters.location) params.append('location', filters.location);
-            if (filters.minSalary) params.append('minSalary', filters.minSalary.toString());
-            if (filters.maxSalary) params.append('maxSalary', filters.maxSalary.toString());
-            if (filters.jobType) params.append('jobType', filters.jobType);
-            if (filters.keywords) params.append('keywords', filters.keywords);
+            const params = buildJobSearchParams(filters);
+            if (filters.sort) params.append('sort', filters.sort);
             if (filters.page) params.append('page', filters.page.toString());
             if (filters.limit) params.append('limit', filters.limit.toString());
             
@@ -104,6 +119,67 @@ export const jobService = {
         return response.data;
     },
     
+    // Bulk import from a CSV/JSON file; dryRun validates and previews without saving
+    importJobs: async (file: File, dryRun: boolean): Promise<JobImportSummary> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('dryRun', dryRun.toString());
+        
+        const response = await axiosInstance.post<JobImportSummary>('/jobs/import', formData, {
+            headers: {
+                'Content-Type': 'multipart/form-data'
+            }
+        });
+        return response.data;
+    },
+    
+    exportJobs: async (format: 'csv' | 'json'): Promise<Blob> => {
+        const response = await axiosInstance.get(`/jobs/employer?format=${format}`, {
+            responseType: 'blob'
+        });
+        return response.data;
+    },
+    
+    // Clone an expired job as a new open posting
+    repostJob: async (id: string): Promise<Job> => {
+        const response = await axiosInstance.post<Job>(`/jobs/${id}/repost`);
+        return response.data;
+    },
+
+    // Hiring pipeline for a job, falling back to the company default
+    getPipeline: async (id: string): Promise<JobPipeline> => {
+        const response = await axiosInstance.get<JobPipeline>(`/jobs/${id}/pipeline`);
+        return response.data;
+    },
+
+    // An empty list makes the job use the company default again
+    updatePipeline: async (id: string, stages: PipelineStage[]): Promise<JobPipeline> => {
+        const response = await axiosInstance.put<JobPipeline>(`/jobs/${id}/pipeline`, { stages });
+        return response.data;
+    },
+
+    // One kit per interview type; types without a custom kit come back with the standard scorecard
+    getInterviewKits: async (id: string): Promise<InterviewKit[]> => {
+        const response = await axiosInstance.get<{ kits: InterviewKit[] }>(`/jobs/${id}/interview-kits`);
+        return response.data.kits;
+    },
+
+    // Only send custom kits; leaving a type out switches it back to the standard scorecard
+    updateInterviewKits: async (id: string, kits: InterviewKit[]): Promise<InterviewKit[]> => {
+        const response = await axiosInstance.put<{ kits: InterviewKit[] }>(`/jobs/${id}/interview-kits`, { kits });
+        return response.data.kits;
+    },
+
+    setBlindReview: async (id: string, enabled: boolean): Promise<boolean> => {
+        const response = await axiosInstance.put<{ blindReview: boolean }>(`/jobs/${id}/blind-review`, { enabled });
+        return response.data.blindReview;
+    },
+
+    getJobStructuredData: async (id: string): Promise<Record<string, unknown>> => {
+        const response = await axiosInstance.get<Record<string, unknown>>(`/jobs/${id}/structured-data`);
+        return response.data;
+    },
+    
     deleteJob: async (id: string): Promise<{ message: string }> => {
         const response = await axiosInstance.delete(`/jobs/${id}`);
         return response.data;
@@ -143,7 +219,14 @@ export const jobService = {
 };
 
 export const applicationService = {
-    applyForJob: async (jobId: string, applicationData: { coverLetter: string; resume: string }) => {
+    // Pass resumeId/coverLetterId to attach documents from the resume library, or a resume URL
+    applyForJob: async (jobId: string, applicationData: {
+        coverLetter?: string;
+        resume?: string;
+        resumeId?: string;
+        coverLetterId?: string;
+        screeningAnswers?: Record<string, string>;
+    }) => {
         const response = await axiosInstance.post(`/applications/${jobId}`, applicationData);
         return response.data;
     },
@@ -155,8 +238,14 @@ export const applicationService = {
         const response = await axiosInstance.get('/applications/jobseeker');
         return response.data;
     },
-    updateApplicationStatus: async (applicationId: string, status: string) => {
-        const response = await axiosInstance.patch(`/applications/${applicationId}/status`, { status });
+    // Move an application to a stage of its job's pipeline
+    updateApplicationStatus: async (applicationId: string, stage: string) => {
+        const response = await axiosInstance.patch(`/applications/${applicationId}/status`, { stage });
+        return response.data;
+    },
+    // Move, tag, untag or reject many of a job's applications, optionally messaging each candidate
+    bulkUpdateApplications: async (jobId: string, request: BulkApplicationRequest): Promise<BulkApplicationResult> => {
+        const response = await axiosInstance.post<BulkApplicationResult>(`/applications/job/${jobId}/bulk`, request);
         return response.data;
     },
     countJobApplications: async (jobId: string) => {
@@ -211,12 +300,14 @@ export const applicationService = {
         communication?: number;
         culturalFit?: number;
         problemSolving?: number;
+        interviewType?: InterviewType;
+        scores?: CompetencyScore[];
         strengths?: string[];
         weaknesses?: string[];
         feedback: string;
     }) => {
         console.log(`[CandidateRating] Rating candidate for application ID: ${applicationId}`);
-        console.log(`[CandidateRating] Rating data: Overall: ${ratingData.rating}/5, Technical: ${ratingData.technicalSkills}/5, Communication: ${ratingData.communication}/5`);
+        console.log(`[CandidateRating] Rating data: Overall: ${ratingData.rating}/5, ${ratingData.scores?.length || 0} competency scores`);
         
         try {
             const response = await axiosInstance.post(`/applications/${applicationId}/rate-interview`, ratingData);
@@ -310,6 +401,20 @@ export const userService = {
             }
         });
         
+        return response.data;
+    },
+
+    // Profile as a JSON Resume (jsonresume.org) document
+    exportJsonResume: async (): Promise<Record<string, unknown>> => {
+        const response = await axiosInstance.get('/jobseeker/json-resume');
+        return response.data;
+    },
+    previewJsonResumeImport: async (resume: unknown): Promise<JsonResumeImportPreview> => {
+        const response = await axiosInstance.post<JsonResumeImportPreview>('/jobseeker/json-resume/preview', { resume });
+        return response.data;
+    },
+    importJsonResume: async (resume: unknown): Promise<{ user: any; message: string }> => {
+        const response = await axiosInstance.post('/jobseeker/json-resume/import', { resume });
         return response.data;
     }
 };
@@ -325,6 +430,17 @@ export const employerService = {
         const response = await axiosInstance.put('/employer/profile', profileData);
         return response.data;
     },
+
+    // Company-wide default pipeline used by jobs without their own stages
+    getDefaultPipeline: async (): Promise<JobPipeline> => {
+        const response = await axiosInstance.get<JobPipeline>('/employer/pipeline');
+        return response.data;
+    },
+
+    updateDefaultPipeline: async (stages: PipelineStage[]): Promise<JobPipeline> => {
+        const response = await axiosInstance.put<JobPipeline>('/employer/pipeline', { stages });
+        return response.data;
+    },
     
     // New method for candidate search
     searchCandidates: async (params: {
@@ -564,6 +680,182 @@ export const jobAlertService = {
     }
 };
 
+// Job template service
+export const jobTemplateService = {
+    getTemplates: async (): Promise<JobTemplate[]> => {
+        const response = await axiosInstance.get<JobTemplate[]>('/job-templates');
+        return response.data;
+    },
+    // Save an existing job's content as a reusable template
+    createFromJob: async (jobId: string, name?: string): Promise<JobTemplate> => {
+        const response = await axiosInstance.post<JobTemplate>('/job-templates', { jobId, name });
+        return response.data;
+    },
+    deleteTemplate: async (templateId: string): Promise<{ message: string }> => {
+        const response = await axiosInstance.delete(`/job-templates/${templateId}`);
+        return response.data;
+    }
+};
+
+// Public RSS/Atom feeds - these are plain URLs for feed readers, not API calls
+export const feedService = {
+    getJobSearchFeedUrl: (filters: JobSearchFilters, format: FeedFormat = 'rss'): string => {
+        const params = buildJobSearchParams(filters).toString();
+        return `${API_URL}/feeds/jobs.${format}${params ? `?${params}` : ''}`;
+    },
+
+    getCompanyFeedUrl: (employerId: string, format: FeedFormat = 'rss'): string =>
+        `${API_URL}/feeds/companies/${employerId}.${format}`,
+
+    getAlertFeedUrl: (feedToken: string, format: FeedFormat = 'rss'): string =>
+        `${API_URL}/feeds/alerts/${feedToken}.${format}`
+};
+
+// Company team (organization) service
+export const organizationService = {
+    // organization is null until the employer sets up a team
+    getMyTeam: async (): Promise<TeamResponse> => {
+        const response = await axiosInstance.get<TeamResponse>('/organizations/mine');
+        return response.data;
+    },
+    createTeam: async (name?: string): Promise<TeamResponse> => {
+        const response = await axiosInstance.post<TeamResponse>('/organizations', { name });
+        return response.data;
+    },
+    inviteMember: async (email: string, role: OrganizationRole): Promise<{ invitation: OrganizationInvitation; emailSent: boolean }> => {
+        const response = await axiosInstance.post('/organizations/invitations', { email, role });
+        return response.data;
+    },
+    withdrawInvitation: async (invitationId: string): Promise<{ message: string }> => {
+        const response = await axiosInstance.delete(`/organizations/invitations/${invitationId}`);
+        return response.data;
+    },
+    getInvitation: async (token: string): Promise<InvitationPreview> => {
+        const response = await axiosInstance.get<InvitationPreview>(`/organizations/invitations/${token}`);
+        return response.data;
+    },
+    acceptInvitation: async (token: string): Promise<TeamResponse> => {
+        const response = await axiosInstance.post<TeamResponse>(`/organizations/invitations/${token}/accept`);
+        return response.data;
+    },
+    updateMemberRole: async (userId: string, role: OrganizationRole): Promise<{ _id: string; organizationRole: OrganizationRole }> => {
+        const response = await axiosInstance.patch(`/organizations/members/${userId}`, { role });
+        return response.data;
+    },
+    // Owners remove teammates; anyone else can pass their own id to leave
+    removeMember: async (userId: string): Promise<{ message: string }> => {
+        const response = await axiosInstance.delete(`/organizations/members/${userId}`);
+        return response.data;
+    }
+};
+
+// Resume library service (job seekers)
+export const resumeLibraryService = {
+    getDocuments: async (): Promise<ResumeDocument[]> => {
+        const response = await axiosInstance.get<ResumeDocument[]>('/resumes');
+        return response.data;
+    },
+    uploadDocument: async (file: File, name: string, kind: ResumeDocumentKind): Promise<ResumeDocument> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('name', name);
+        formData.append('kind', kind);
+        const response = await axiosInstance.post<ResumeDocument>('/resumes', formData, {
+            headers: {
+                'Content-Type': 'multipart/form-data'
+            }
+        });
+        return response.data;
+    },
+    renameDocument: async (id: string, name: string): Promise<ResumeDocument> => {
+        const response = await axiosInstance.patch<ResumeDocument>(`/resumes/${id}`, { name });
+        return response.data;
+    },
+    // Applications already sent keep the copy they were submitted with
+    replaceFile: async (id: string, file: File): Promise<ResumeDocument> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await axiosInstance.put<ResumeDocument>(`/resumes/${id}/file`, formData, {
+            headers: {
+                'Content-Type': 'multipart/form-data'
+            }
+        });
+        return response.data;
+    },
+    setDefault: async (id: string): Promise<ResumeDocument> => {
+        const response = await axiosInstance.post<ResumeDocument>(`/resumes/${id}/default`);
+        return response.data;
+    },
+    deleteDocument: async (id: string): Promise<{ message: string }> => {
+        const response = await axiosInstance.delete(`/resumes/${id}`);
+        return response.data;
+    },
+    getTemplates: async (): Promise<ResumeTemplate[]> => {
+        const response = await axiosInstance.get<ResumeTemplate[]>('/resumes/templates');
+        return response.data;
+    },
+    // Resume built from the profile's skills, experience and education
+    downloadGeneratedResume: async (template: string, format: ResumeFormat): Promise<Blob> => {
+        const response = await axiosInstance.get('/resumes/generate', {
+            params: { template, format },
+            responseType: 'blob'
+        });
+        return response.data;
+    },
+    saveGeneratedResume: async (template: string, format: ResumeFormat, name?: string): Promise<ResumeDocument> => {
+        const response = await axiosInstance.post<ResumeDocument>('/resumes/generate', { template, format, name });
+        return response.data;
+    }
+};
+
+// Job offer service
+export const offerService = {
+    getDefaultTemplate: async (): Promise<{ template: string; placeholders: string[] }> => {
+        const response = await axiosInstance.get('/offers/template');
+        return response.data;
+    },
+    getJobOffers: async (jobId: string): Promise<Offer[]> => {
+        const response = await axiosInstance.get<Offer[]>(`/offers/job/${jobId}`);
+        return response.data;
+    },
+    getMyOffers: async (): Promise<Offer[]> => {
+        const response = await axiosInstance.get<Offer[]>('/offers/mine');
+        return response.data;
+    },
+    createOffer: async (applicationId: string, offer: OfferFormData, send: boolean): Promise<Offer> => {
+        const response = await axiosInstance.post<Offer>('/offers', { ...offer, applicationId, send });
+        return response.data;
+    },
+    // Revising an offer the candidate has already seen sends it to them again
+    updateOffer: async (id: string, offer: OfferFormData): Promise<Offer> => {
+        const response = await axiosInstance.put<Offer>(`/offers/${id}`, offer);
+        return response.data;
+    },
+    sendOffer: async (id: string): Promise<Offer> => {
+        const response = await axiosInstance.post<Offer>(`/offers/${id}/send`);
+        return response.data;
+    },
+    withdrawOffer: async (id: string): Promise<Offer> => {
+        const response = await axiosInstance.post<Offer>(`/offers/${id}/withdraw`);
+        return response.data;
+    },
+    respondToOffer: async (
+        id: string,
+        action: OfferResponseAction,
+        details: { note?: string; counter?: { salary?: OfferSalary; startDate?: string; message?: string } } = {}
+    ): Promise<Offer> => {
+        const response = await axiosInstance.post<Offer>(`/offers/${id}/respond`, { action, ...details });
+        return response.data;
+    },
+    getOfferLetter: async (id: string, format: 'html' | 'pdf'): Promise<Blob> => {
+        const response = await axiosInstance.get(`/offers/${id}/letter`, {
+            params: { format },
+            responseType: 'blob'
+        });
+        return response.data;
+    }
+};
+
 // Report service (NEW)
 export const reportService = {
     getReports: async (filters?: any) => {
@@ -697,6 +989,36 @@ export const salaryService = {
     }
 };
 
+// Shared skill taxonomy; autocomplete is public, editing is admin-only
+export const skillTaxonomyService = {
+    autocomplete: async (query: string, selected: string[] = [], limit = 8): Promise<SkillSuggestion[]> => {
+        const response = await axiosInstance.get<{ suggestions: SkillSuggestion[] }>('/skills/autocomplete', {
+            params: { q: query || undefined, selected: selected.length ? selected.join(',') : undefined, limit }
+        });
+        return response.data.suggestions;
+    },
+    getSkills: async (): Promise<SkillTaxonomyEntry[]> => {
+        const response = await axiosInstance.get<SkillTaxonomyEntry[]>('/skills');
+        return response.data;
+    },
+    createSkill: async (data: SkillTaxonomyFormData): Promise<SkillTaxonomyEntry> => {
+        const response = await axiosInstance.post<SkillTaxonomyEntry>('/skills', data);
+        return response.data;
+    },
+    updateSkill: async (id: string, data: SkillTaxonomyFormData): Promise<SkillTaxonomyEntry> => {
+        const response = await axiosInstance.put<SkillTaxonomyEntry>(`/skills/${id}`, data);
+        return response.data;
+    },
+    deleteSkill: async (id: string): Promise<void> => {
+        await axiosInstance.delete(`/skills/${id}`);
+    },
+    // Re-normalizes every job's and profile's skills after taxonomy edits
+    reindex: async (): Promise<{ message: string; jobs: number; users: number }> => {
+        const response = await axiosInstance.post('/skills/reindex');
+        return response.data;
+    }
+};
+
 // Admin service
 export const adminService = {
     // ... existing code ...
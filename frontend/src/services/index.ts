@@ -2,6 +2,7 @@
 export {
   authService,
   jobService,
+  jobTemplateService,
   applicationService,
   bookmarkService,
   userService,
@@ -8,6 +8,9 @@ export interface User {
     lastName?: string;
     companyName?: string;
     companyDescription?: string;
+    // Company team membership (employers only)
+    organization?: string;
+    organizationRole?: OrganizationRole;
     companyLogo?: string;
     companyWebsite?: string;
     companySize?: string;
@@ -66,16 +69,176 @@ export interface Job {
         min: number;
         max: number;
         currency: string;
+        period?: SalaryPeriod;
     };
+    skills: string[];
+    experienceLevel?: ExperienceLevel;
+    workMode?: WorkMode;
+    screeningQuestions?: ScreeningQuestion[];
+    pipelineStages?: PipelineStage[];
+    // Hide candidate identity from the hiring team until the interview stage
+    blindReview?: boolean;
     location: string;
     type: 'full-time' | 'part-time' | 'contract' | 'internship';
     employer: string | User;
+    // Company team the job belongs to, if the employer has one
+    organization?: string;
+    postedBy?: string;
+    status: JobStatus;
+    publishAt?: string;
+    publishedAt?: string;
+    expiresAt?: string;
+    repostedFrom?: string;
     bookmarkedBy: string[];
     isBookmarked?: boolean;
+    // Only present on keyword search results
+    searchScore?: number;
+    highlights?: JobSearchHighlights;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface HighlightSegment {
+    text: string;
+    highlight: boolean;
+}
+
+export interface JobSearchHighlights {
+    title: HighlightSegment[];
+    company: HighlightSegment[];
+    description: HighlightSegment[];
+    requirements: HighlightSegment[];
+}
+
+export type JobSortOption = 'relevance' | 'newest';
+
+// 'expired' is only ever set by the server once expiresAt passes
+export type JobStatus = 'draft' | 'scheduled' | 'open' | 'paused' | 'expired' | 'closed';
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+    draft: 'Draft',
+    scheduled: 'Scheduled',
+    open: 'Open',
+    paused: 'Paused',
+    expired: 'Expired',
+    closed: 'Closed'
+};
+
+export type ExperienceLevel = 'entry' | 'mid' | 'senior' | 'lead';
+
+export type WorkMode = 'onsite' | 'hybrid' | 'remote';
+
+// Pay period a job's salary range is quoted in (jobs without one are annual)
+export type SalaryPeriod = 'year' | 'month';
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+    entry: 'Entry level',
+    mid: 'Mid level',
+    senior: 'Senior',
+    lead: 'Lead / Principal'
+};
+
+export const WORK_MODE_LABELS: Record<WorkMode, string> = {
+    onsite: 'On-site',
+    hybrid: 'Hybrid',
+    remote: 'Remote'
+};
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+    year: 'Per year',
+    month: 'Per month'
+};
+
+export type ScreeningQuestionType = 'yes_no' | 'single_choice' | 'numeric' | 'short_text';
+
+export const SCREENING_QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+    yes_no: 'Yes / No',
+    single_choice: 'Single choice',
+    numeric: 'Number',
+    short_text: 'Short text'
+};
+
+// Every pipeline stage maps onto one of the fixed application statuses
+export type StageCategory = 'pending' | 'reviewed' | 'interview' | 'accepted' | 'rejected';
+
+export const STAGE_CATEGORY_LABELS: Record<StageCategory, string> = {
+    pending: 'Pending',
+    reviewed: 'Reviewed',
+    interview: 'Interview',
+    accepted: 'Accepted',
+    rejected: 'Rejected'
+};
+
+export interface PipelineStage {
+    key?: string;
+    name: string;
+    // What the applicant sees while their application is in this stage
+    seekerLabel?: string;
+    category: StageCategory;
+}
+
+// source says where the stages came from: the job itself, the company default, or the built-in pipeline
+export interface JobPipeline {
+    stages: PipelineStage[];
+    source: 'job' | 'company' | 'default';
+}
+
+// acceptedAnswers and minValue are only sent to the job's owner
+export interface ScreeningQuestion {
+    _id?: string;
+    question: string;
+    type: ScreeningQuestionType;
+    options: string[];
+    required: boolean;
+    knockout: boolean;
+    acceptedAnswers?: string[];
+    minValue?: number;
+}
+
+export interface ScreeningAnswer {
+    questionId: string;
+    question: string;
+    type: ScreeningQuestionType;
+    answer: string;
+    knockout?: boolean;
+    passed?: boolean;
+}
+
+export interface JobFacetBucket {
+    value: string;
+    label: string;
+    count: number;
+}
+
+export interface JobSearchFacets {
+    jobType: JobFacetBucket[];
+    experienceLevel: JobFacetBucket[];
+    workMode: JobFacetBucket[];
+    location: JobFacetBucket[];
+    salary: JobFacetBucket[];
+    company: JobFacetBucket[];
+    postedWithin: JobFacetBucket[];
+}
+
+// 'xml' is the aggregator format partner job boards ingest
+export type FeedFormat = 'rss' | 'atom' | 'xml';
+
+export interface JobSearchFilters {
+    keywords?: string;
+    location?: string;
+    minSalary?: number;
+    maxSalary?: number;
+    jobTypes?: string[];
+    experienceLevels?: string[];
+    workModes?: string[];
+    skills?: string[];
+    locations?: string[];
+    companies?: string[];
+    salaryBuckets?: string[];
+    postedWithin?: string;
+    sort?: JobSortOption;
+}
+
 export interface AuthResponse {
     token: string;
     user: User;
@@ -104,9 +267,229 @@ export interface JobFormData {
         min: number;
         max: number;
         currency: string;
+        period?: SalaryPeriod;
     };
+    skills: string[];
+    experienceLevel: ExperienceLevel;
+    workMode: WorkMode;
+    screeningQuestions?: ScreeningQuestion[];
     location: string;
     type: 'full-time' | 'part-time' | 'contract' | 'internship';
+    status?: JobStatus;
+    publishAt?: string;
+    expiresAt?: string;
+}
+
+export interface JobTemplate {
+    _id: string;
+    employer: string;
+    organization?: string;
+    name: string;
+    title: string;
+    description: string;
+    requirements: string;
+    location?: string;
+    type: 'full-time' | 'part-time' | 'contract' | 'internship';
+    salary?: {
+        min?: number;
+        max?: number;
+        currency: string;
+        period?: SalaryPeriod;
+    };
+    skills: string[];
+    experienceLevel?: ExperienceLevel;
+    workMode?: WorkMode;
+    screeningQuestions?: ScreeningQuestion[];
+    sourceJob?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface JobImportRowResult {
+    row: number;
+    valid: boolean;
+    errors: Array<{ field: string | null; message: string }>;
+    job: {
+        title?: string;
+        location?: string;
+        type?: string;
+        salary?: { min?: number; max?: number; currency?: string };
+        status: JobStatus;
+    };
+    jobId?: string;
+}
+
+export interface JobImportSummary {
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    invalid: number;
+    imported: number;
+    results: JobImportRowResult[];
+}
+
+export type ResumeDocumentKind = 'resume' | 'cover_letter';
+
+// A file in the job seeker's resume library
+export interface ResumeDocument {
+    _id: string;
+    kind: ResumeDocumentKind;
+    name: string;
+    originalName?: string;
+    mimeType?: string;
+    size?: number;
+    // Relative /uploads path on the API server
+    url: string;
+    isDefault: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A layout for resumes generated from the profile
+export interface ResumeTemplate {
+    id: string;
+    name: string;
+    description: string;
+}
+
+export type ResumeFormat = 'pdf' | 'docx';
+
+// A work, education, project or certificate entry mapped from a JSON Resume
+export interface ImportedProfileEntry {
+    company?: string;
+    position?: string;
+    institution?: string;
+    degree?: string;
+    fieldOfStudy?: string;
+    graduationYear?: number;
+    name?: string;
+    issuer?: string;
+    startDate?: string;
+    endDate?: string;
+    date?: string;
+    current?: boolean;
+    description?: string;
+}
+
+export interface ImportedEntriesDiff {
+    added: ImportedProfileEntry[];
+    removed: ImportedProfileEntry[];
+    // In both; the imported version replaces the profile's
+    kept: ImportedProfileEntry[];
+}
+
+export type ImportedListField = 'experience' | 'education' | 'projects' | 'certificates';
+
+// What importing a JSON Resume would change; a null list means the resume leaves it alone
+export interface JsonResumeImportPreview {
+    diff: {
+        fields: { field: string; current: string; incoming: string }[];
+        skills: { added: string[] };
+    } & Record<ImportedListField, ImportedEntriesDiff | null>;
+}
+
+// A canonical skill; jobs and profiles listing any of its aliases match each other
+export interface SkillTaxonomyEntry {
+    _id: string;
+    slug: string;
+    name: string;
+    aliases: string[];
+    category: string;
+    // Slugs of related skills
+    related: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Typeahead result: a match for the typed text, a popular skill, or one often listed with relatedTo
+export interface SkillSuggestion {
+    id: string;
+    name: string;
+    category: string;
+    reason: 'match' | 'popular' | 'related';
+    relatedTo?: string;
+    count: number;
+}
+
+// Results of the AI helpers served by /api/ai
+export interface AIJobRecommendations {
+    // Open jobs the model picked, best first, with the local matching engine's score
+    jobs: (Job & { matchScore?: number })[];
+    // Job ID -> reasons it suits the job seeker
+    reasoning: Record<string, string[]>;
+}
+
+export interface ResumeAnalysis {
+    strengths: string[];
+    weaknesses: string[];
+    suggestions: string[];
+    score: number;
+}
+
+export interface InterviewQuestionSet {
+    technical: string[];
+    behavioral: string[];
+    followup: string[];
+}
+
+export interface JobDescriptionOptimization {
+    optimizedDescription: string;
+    optimizedRequirements: string;
+    suggestedKeywords: string[];
+    inclusivityScore: number;
+}
+
+export interface ApplicationScreeningResult {
+    matchScore: number;
+    matchedSkills: string[];
+    missingSkills: string[];
+    feedback: string;
+    recommendation: 'strong_match' | 'potential_match' | 'weak_match';
+}
+
+export interface ParsedResume {
+    skills: string[];
+    experience: {
+        title: string;
+        company: string;
+        location?: string;
+        from: string;
+        to?: string;
+        current: boolean;
+        description?: string;
+    }[];
+    education: {
+        degree: string;
+        institution: string;
+        graduationYear: number;
+        fieldOfStudy?: string;
+    }[];
+    personalInfo: {
+        name?: string;
+        phone?: string;
+        email?: string;
+        location?: string;
+        title?: string;
+        summary?: string;
+    };
+}
+
+export interface SkillTaxonomyFormData {
+    name: string;
+    aliases: string[];
+    category: string;
+    related: string[];
+}
+
+// The application's own copy of a library document, taken when it was submitted
+export interface AttachedDocument {
+    sourceId?: string;
+    name?: string;
+    originalName?: string;
+    mimeType?: string;
+    size?: number;
+    url: string;
+    attachedAt: string;
 }
 
 export interface JobApplication {
@@ -116,29 +499,226 @@ export interface JobApplication {
     jobSeeker: User;
     coverLetter: string;
     resume: string;
-    status: 'pending' | 'reviewed' | 'accepted' | 'rejected' | 'interview';
+    resumeFile?: AttachedDocument;
+    coverLetterFile?: AttachedDocument;
+    status: StageCategory;
+    // Key of the pipeline stage the application is in
+    stage?: string;
+    // Applicant-facing name of the stage, only on the job seeker's own applications
+    stageLabel?: string;
+    screeningAnswers?: ScreeningAnswer[];
+    failedKnockout?: boolean;
+    // Employer-only labels
+    tags?: string[];
     appliedAt: string;
     updatedAt: string;
-    interviewRatings?: Array<{
+    interviewRatings?: InterviewRating[];
+    // Set on anonymized applications under blind review; jobSeeker then only carries the alias and skills
+    blind?: boolean;
+    candidateAlias?: string;
+    identityRevealedAt?: string;
+    // The candidate's interview, on the employer's application list
+    interview?: {
         _id: string;
-        rating: number;
-        technicalSkills?: number;
-        communication?: number;
-        culturalFit?: number;
-        problemSolving?: number;
-        strengths: string[];
-        weaknesses: string[];
-        feedback: string;
-        interviewer: string | User;
-        createdAt: string;
-    }>;
+        scheduledDateTime: string;
+        status: string;
+        interviewType: InterviewType;
+        location?: string;
+    };
     applicationHistory?: Array<{
         status: string;
+        stage?: string;
+        stageName?: string;
+        label?: string;
         date: string;
         note?: string;
     }>;
 }
 
+export type InterviewType = 'screening' | 'technical' | 'behavioral' | 'final';
+
+export const INTERVIEW_TYPE_LABELS: Record<InterviewType, string> = {
+    screening: 'Screening',
+    technical: 'Technical',
+    behavioral: 'Behavioral',
+    final: 'Final'
+};
+
+export interface InterviewCompetency {
+    key?: string;
+    name: string;
+    description?: string;
+    questions: string[];
+    // Guidance for scores 1-5, in order
+    rubric: string[];
+}
+
+export interface InterviewKit {
+    interviewType: InterviewType;
+    competencies: InterviewCompetency[];
+    source?: 'job' | 'default';
+}
+
+export interface CompetencyScore {
+    competency: string;
+    name?: string;
+    score: number;
+    notes?: string;
+}
+
+export interface InterviewRating {
+    _id: string;
+    rating: number;
+    // Fixed categories on ratings from before interview kits
+    technicalSkills?: number;
+    communication?: number;
+    culturalFit?: number;
+    problemSolving?: number;
+    interviewType?: InterviewType;
+    scores?: CompetencyScore[];
+    strengths: string[];
+    weaknesses: string[];
+    feedback: string;
+    interviewer: string | { _id: string; name: string; profileImage?: string };
+    createdAt: string;
+}
+
+export type OrganizationRole = 'owner' | 'recruiter' | 'hiring_manager' | 'interviewer';
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+    owner: 'Owner',
+    recruiter: 'Recruiter',
+    hiring_manager: 'Hiring Manager',
+    interviewer: 'Interviewer'
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+    owner: 'Manages the team and everything else',
+    recruiter: 'Posts and edits jobs, moves applicants, schedules interviews',
+    hiring_manager: 'Reviews and moves applicants, schedules and rates interviews',
+    interviewer: 'Views applicants and rates interviews'
+};
+
+export interface OrganizationMember {
+    _id: string;
+    name: string;
+    email: string;
+    organizationRole: OrganizationRole;
+    profileImage?: string;
+    createdAt: string;
+}
+
+export interface OrganizationInvitation {
+    _id: string;
+    email: string;
+    role: OrganizationRole;
+    token: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface Organization {
+    _id: string;
+    name: string;
+    owner: string;
+    role: OrganizationRole;
+    members: OrganizationMember[];
+    // Only sent to the owner
+    invitations?: OrganizationInvitation[];
+}
+
+export interface TeamResponse {
+    organization: Organization | null;
+    role: OrganizationRole;
+}
+
+export interface InvitationPreview {
+    organizationName: string;
+    email: string;
+    role: OrganizationRole;
+    expiresAt: string;
+    expired: boolean;
+}
+
+export type BulkApplicationAction = 'move' | 'tag' | 'untag' | 'reject';
+
+export interface BulkApplicationRequest {
+    applicationIds: string[];
+    action: BulkApplicationAction;
+    stage?: string;
+    tags?: string[];
+    // Sent to each selected candidate the action changed (except those still anonymous under blind review); supports {{candidateName}}, {{jobTitle}}, {{companyName}} and {{stageName}}
+    message?: string;
+}
+
+export interface BulkApplicationResult {
+    matched: number;
+    updated: number;
+    messaged: number;
+    // Candidates whose application was updated but who couldn't be messaged
+    messageFailures: { applicationId: string }[];
+    // Candidates still anonymous under blind review, who aren't messaged
+    messageSkipped: number;
+    notFound: number;
+}
+
+export type OfferStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'countered' | 'withdrawn' | 'expired';
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+    draft: 'Draft',
+    sent: 'Awaiting Response',
+    accepted: 'Accepted',
+    declined: 'Declined',
+    countered: 'Counter Offer',
+    withdrawn: 'Withdrawn',
+    expired: 'Expired'
+};
+
+export type OfferResponseAction = 'accept' | 'decline' | 'counter';
+
+export interface OfferSalary {
+    amount: number;
+    currency: string;
+}
+
+export interface Offer {
+    _id: string;
+    application: string;
+    // Populated with title, company and location on the job seeker's offers
+    job: string | Pick<Job, '_id' | 'title' | 'company' | 'location'>;
+    jobSeeker: string;
+    createdBy: string;
+    salary: OfferSalary;
+    startDate: string;
+    expiresAt: string;
+    letterTemplate: string;
+    status: OfferStatus;
+    counterOffer?: {
+        salary?: OfferSalary;
+        startDate?: string;
+        message?: string;
+        createdAt: string;
+    };
+    responseNote?: string;
+    sentAt?: string;
+    respondedAt?: string;
+    history: Array<{
+        status: OfferStatus;
+        by?: string;
+        note?: string;
+        date: string;
+    }>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface OfferFormData {
+    salary: OfferSalary;
+    startDate: string;
+    expiresAt: string;
+    letterTemplate: string;
+}
+
 export interface SkillAssessmentQuestion {
     _id?: string;
     question: string;